@@ -0,0 +1,239 @@
+/**
+ * Typed configuration for store limits, cache TTLs and tool defaults
+ *
+ * Values are resolved per setting, highest precedence first:
+ * 1. Environment variables (see ENV_VARIABLES)
+ * 2. The config file: `--config <path>` / `MEMORY_PICKLE_CONFIG`, otherwise
+ *    `.memory-pickle.json` in the working directory or the home directory
+ * 3. Built-in defaults
+ *
+ * The merged result is validated with Zod; invalid values name the setting
+ * and where it came from.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join, resolve } from 'path';
+import { z } from 'zod';
+import { readCliFlag } from './storage.js';
+import { ConfigurationError } from '../utils/errors.js';
+import { estimateUnitSchema, taskStatusSchema } from '../types/schemas.js';
+
+export const CONFIG_FILE_NAME = '.memory-pickle.json';
+
+const levelSchema = z.enum(['critical', 'high', 'medium', 'low']);
+const ttlSchema = z.number().int().nonnegative();
+
+/**
+ * Statuses each task status may move to. A config file can replace the list for
+ * any status; statuses it leaves out keep these.
+ */
+export const DEFAULT_TASK_TRANSITIONS: Record<z.infer<typeof taskStatusSchema>, z.infer<typeof taskStatusSchema>[]> = {
+  todo: ['in_progress', 'blocked', 'done', 'cancelled'],
+  in_progress: ['todo', 'in_review', 'blocked', 'done', 'cancelled'],
+  in_review: ['in_progress', 'blocked', 'done', 'cancelled'],
+  blocked: ['todo', 'in_progress', 'cancelled'],
+  done: ['todo', 'in_progress'],
+  cancelled: ['todo']
+};
+
+export const configSchema = z.object({
+  limits: z.object({
+    max_projects: z.number().int().positive().default(1000),
+    max_tasks: z.number().int().positive().default(10000),
+    max_memories: z.number().int().positive().default(5000),
+    max_database_size_mb: z.number().positive().default(50)
+  }).strict().default({}),
+  cache: z.object({
+    /** TTL for cached values that do not set their own */
+    ttl_ms: ttlSchema.default(30000),
+    snapshot_ttl_ms: ttlSchema.default(5000),
+    size_estimate_ttl_ms: ttlSchema.default(10000),
+    validation_ttl_ms: ttlSchema.default(1000)
+  }).strict().default({}),
+  defaults: z.object({
+    task_priority: levelSchema.default('medium'),
+    memory_importance: levelSchema.default('medium'),
+    recall_limit: z.number().int().min(1).max(200).default(20),
+    output_format: z.enum(['text', 'json']).default('text'),
+    /** Tasks due within this many days count as due soon */
+    due_soon_days: z.number().int().min(0).max(365).default(3),
+    /** Unit of estimates given as a bare number */
+    estimate_unit: estimateUnitSchema.default('hours')
+  }).strict().default({}),
+  workflow: z.object({
+    transitions: z.record(taskStatusSchema, z.array(taskStatusSchema))
+      .default({})
+      .transform(overrides => ({ ...DEFAULT_TASK_TRANSITIONS, ...overrides }))
+  }).strict().default({})
+}).strict();
+
+export type MemoryPickleConfig = z.infer<typeof configSchema>;
+
+export type LimitsConfig = MemoryPickleConfig['limits'];
+
+export type TaskTransitions = MemoryPickleConfig['workflow']['transitions'];
+
+export const DEFAULT_CONFIG: MemoryPickleConfig = configSchema.parse({});
+
+/**
+ * Environment variable for every setting that has one, keyed by `<section>.<name>`.
+ * workflow.transitions can only be set in the config file.
+ */
+export const ENV_VARIABLES: Record<string, string> = {
+  'limits.max_projects': 'MEMORY_PICKLE_MAX_PROJECTS',
+  'limits.max_tasks': 'MEMORY_PICKLE_MAX_TASKS',
+  'limits.max_memories': 'MEMORY_PICKLE_MAX_MEMORIES',
+  'limits.max_database_size_mb': 'MEMORY_PICKLE_MAX_DATABASE_SIZE_MB',
+  'cache.ttl_ms': 'MEMORY_PICKLE_CACHE_TTL_MS',
+  'cache.snapshot_ttl_ms': 'MEMORY_PICKLE_CACHE_SNAPSHOT_TTL_MS',
+  'cache.size_estimate_ttl_ms': 'MEMORY_PICKLE_CACHE_SIZE_ESTIMATE_TTL_MS',
+  'cache.validation_ttl_ms': 'MEMORY_PICKLE_CACHE_VALIDATION_TTL_MS',
+  'defaults.task_priority': 'MEMORY_PICKLE_DEFAULT_PRIORITY',
+  'defaults.memory_importance': 'MEMORY_PICKLE_DEFAULT_IMPORTANCE',
+  'defaults.recall_limit': 'MEMORY_PICKLE_RECALL_LIMIT',
+  'defaults.output_format': 'MEMORY_PICKLE_OUTPUT_FORMAT',
+  'defaults.due_soon_days': 'MEMORY_PICKLE_DUE_SOON_DAYS',
+  'defaults.estimate_unit': 'MEMORY_PICKLE_ESTIMATE_UNIT'
+};
+
+export interface ConfigValueSource {
+  source: 'default' | 'file' | 'env';
+  /** Config file path or environment variable name */
+  origin?: string;
+}
+
+export interface ResolvedConfig {
+  values: MemoryPickleConfig;
+  /** Where each setting came from, keyed by `<section>.<name>` */
+  sources: Record<string, ConfigValueSource>;
+  /** Config file that was read, if any */
+  file?: string;
+}
+
+/**
+ * Configuration made of built-in defaults only
+ */
+export function defaultConfig(): ResolvedConfig {
+  const sources: Record<string, ConfigValueSource> = {};
+  for (const key of settingKeys()) {
+    sources[key] = { source: 'default' };
+  }
+  return { values: DEFAULT_CONFIG, sources };
+}
+
+/**
+ * Every setting, as `<section>.<name>`
+ */
+function settingKeys(): string[] {
+  return Object.entries(DEFAULT_CONFIG).flatMap(([section, values]) => Object.keys(values).map(name => `${section}.${name}`));
+}
+
+/**
+ * Finds the config file to read, if any. An explicitly requested file must exist.
+ */
+function findConfigFile(argv: string[], env: NodeJS.ProcessEnv, cwd: string): string | undefined {
+  const requested = readCliFlag(argv, 'config') ?? env.MEMORY_PICKLE_CONFIG;
+  if (requested) {
+    const file = resolve(cwd, requested);
+    if (!existsSync(file)) {
+      throw new ConfigurationError(file, ['file not found']);
+    }
+    return file;
+  }
+
+  return [join(cwd, CONFIG_FILE_NAME), join(homedir(), CONFIG_FILE_NAME)].find(file => existsSync(file));
+}
+
+function readConfigFile(file: string): Record<string, any> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new ConfigurationError(file, [`not valid JSON (${error instanceof Error ? error.message : String(error)})`]);
+  }
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ConfigurationError(file, ['expected a JSON object']);
+  }
+  return parsed as Record<string, any>;
+}
+
+/**
+ * Environment values are strings; numeric settings are converted so Zod can check them
+ */
+function parseEnvValue(key: string, raw: string): unknown {
+  const [section, name] = key.split('.');
+  if (typeof (DEFAULT_CONFIG as any)[section][name] !== 'number') {
+    return raw;
+  }
+  const parsed = Number(raw);
+  return raw.trim() !== '' && !Number.isNaN(parsed) ? parsed : raw;
+}
+
+/**
+ * Loads and validates the configuration for this process
+ */
+export function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd()
+): ResolvedConfig {
+  const file = findConfigFile(argv, env, cwd);
+  const raw: Record<string, any> = file ? readConfigFile(file) : {};
+  const { sources } = defaultConfig();
+
+  for (const key of settingKeys()) {
+    const [section, name] = key.split('.');
+    const variable = ENV_VARIABLES[key];
+    const envValue = variable ? env[variable] : undefined;
+
+    if (envValue !== undefined && envValue !== '') {
+      raw[section] ??= {};
+      if (typeof raw[section] === 'object') {
+        raw[section][name] = parseEnvValue(key, envValue);
+        sources[key] = { source: 'env', origin: variable };
+      }
+    } else if (file && raw[section]?.[name] !== undefined) {
+      sources[key] = { source: 'file', origin: file };
+    }
+  }
+
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => {
+      const key = issue.path.join('.') || '(root)';
+      const origin = sources[key]?.origin ?? file;
+      return `${key}${origin ? ` (${origin})` : ''}: ${issue.message}`;
+    });
+    throw new ConfigurationError(file ?? 'environment', issues);
+  }
+
+  return { values: parsed.data, sources, file };
+}
+
+/**
+ * Human-readable listing of the effective values and their sources
+ */
+export function formatConfigReport(config: ResolvedConfig): string {
+  let report = `[INFO] **Effective Configuration**\n\n`;
+  report += `**Config file:** ${config.file ?? `none found (${CONFIG_FILE_NAME})`}\n`;
+  report += `**Precedence:** environment variables > config file > built-in defaults\n`;
+
+  for (const [section, values] of Object.entries(config.values)) {
+    report += `\n**${section}**\n`;
+    for (const [name, value] of Object.entries(values)) {
+      const { source, origin } = config.sources[`${section}.${name}`] ?? { source: 'default' };
+      const label = source === 'default' ? 'default' : `${source} ${origin}`;
+      if (value !== null && typeof value === 'object') {
+        report += `- ${name} (${label}):\n`;
+        for (const [key, entry] of Object.entries(value)) {
+          report += `  - ${key} -> ${Array.isArray(entry) ? entry.join(', ') || 'none' : entry}\n`;
+        }
+      } else {
+        report += `- ${name}: ${value} (${label})\n`;
+      }
+    }
+  }
+
+  return report;
+}
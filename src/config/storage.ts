@@ -0,0 +1,101 @@
+/**
+ * Storage backend selection from CLI flags and environment variables
+ *
+ * CLI flags take precedence over environment variables:
+ * - `--storage <memory|json|sqlite|journal>` / `MEMORY_PICKLE_STORAGE`
+ * - `--data-file <path>` / `MEMORY_PICKLE_DATA_FILE`
+ * - `--journal-max-bytes <n>` / `MEMORY_PICKLE_JOURNAL_MAX_BYTES`
+ *
+ * Providing a data file without an explicit backend selects JSON storage,
+ * or SQLite storage when the file ends in `.db`, `.sqlite` or `.sqlite3`.
+ */
+
+import { homedir } from 'os';
+import { join, resolve } from 'path';
+
+export const STORAGE_KINDS = ['memory', 'json', 'sqlite', 'journal'] as const;
+
+export type StorageKind = typeof STORAGE_KINDS[number];
+
+export interface StorageOptions {
+  kind: StorageKind;
+  dataFile?: string;
+  /** Journal size that triggers compaction (journal storage only) */
+  journalMaxBytes?: number;
+}
+
+export const DEFAULT_DATA_FILES: Record<Exclude<StorageKind, 'memory'>, string> = {
+  json: join(homedir(), '.memory-pickle', 'memory-pickle.json'),
+  sqlite: join(homedir(), '.memory-pickle', 'memory-pickle.db'),
+  journal: join(homedir(), '.memory-pickle', 'memory-pickle-base.json')
+};
+
+const SQLITE_EXTENSIONS = ['.db', '.sqlite', '.sqlite3'];
+
+/**
+ * Reads the value of a `--name value` or `--name=value` CLI flag
+ */
+export function readCliFlag(argv: string[], name: string): string | undefined {
+  const flag = `--${name}`;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === flag) {
+      const value = argv[i + 1];
+      return value !== undefined && !value.startsWith('--') ? value : undefined;
+    }
+    if (arg.startsWith(`${flag}=`)) {
+      return arg.slice(flag.length + 1);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves which storage backend to use for this process
+ */
+export function resolveStorageOptions(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): StorageOptions {
+  const requestedKind = readCliFlag(argv, 'storage') ?? env.MEMORY_PICKLE_STORAGE;
+  const dataFile = readCliFlag(argv, 'data-file') ?? env.MEMORY_PICKLE_DATA_FILE;
+
+  if (requestedKind !== undefined && !STORAGE_KINDS.includes(requestedKind as StorageKind)) {
+    throw new Error(`Invalid storage backend '${requestedKind}'. Must be one of: ${STORAGE_KINDS.join(', ')}`);
+  }
+
+  const kind: StorageKind = (requestedKind as StorageKind | undefined) ?? inferStorageKind(dataFile);
+
+  if (kind === 'memory') {
+    return { kind };
+  }
+
+  const options: StorageOptions = {
+    kind,
+    dataFile: resolve(dataFile || DEFAULT_DATA_FILES[kind])
+  };
+
+  if (kind === 'journal') {
+    const journalMaxBytes = readCliFlag(argv, 'journal-max-bytes') ?? env.MEMORY_PICKLE_JOURNAL_MAX_BYTES;
+    if (journalMaxBytes !== undefined) {
+      const parsed = Number(journalMaxBytes);
+      if (!Number.isInteger(parsed) || parsed <= 0) {
+        throw new Error(`Invalid journal size limit '${journalMaxBytes}'. Must be a positive number of bytes`);
+      }
+      options.journalMaxBytes = parsed;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Picks a backend from the data file name when none was requested explicitly
+ */
+function inferStorageKind(dataFile: string | undefined): StorageKind {
+  if (!dataFile) {
+    return 'memory';
+  }
+  const lowerCaseFile = dataFile.toLowerCase();
+  return SQLITE_EXTENSIONS.some(extension => lowerCaseFile.endsWith(extension)) ? 'sqlite' : 'json';
+}
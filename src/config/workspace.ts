@@ -0,0 +1,101 @@
+/**
+ * Workspace selection and storage layout
+ *
+ * A workspace is an isolated database with its own current project and session
+ * activity. The initial workspace is chosen with `--workspace <name>` /
+ * `MEMORY_PICKLE_WORKSPACE`; the value `auto` picks one from the MCP client's
+ * roots, or from the working directory when the client reports none.
+ *
+ * The default workspace keeps using the configured data file. Other workspaces
+ * store their data next to it, in `workspaces/<name>/<data file name>`.
+ */
+
+import { existsSync, readdirSync } from 'fs';
+import { basename, dirname, join } from 'path';
+import { readCliFlag, type StorageOptions } from './storage.js';
+
+export const DEFAULT_WORKSPACE = 'default';
+
+/** Value of the workspace option that enables selection from the client's roots */
+export const AUTO_WORKSPACE = 'auto';
+
+const WORKSPACE_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+
+export interface WorkspaceOptions {
+  workspace: string;
+  autoSelect: boolean;
+}
+
+/**
+ * Workspace names double as directory names, so they are restricted to
+ * lowercase letters, digits, '.', '_' and '-'
+ */
+export function isValidWorkspaceName(name: unknown): name is string {
+  return typeof name === 'string' && WORKSPACE_NAME_PATTERN.test(name) && name !== AUTO_WORKSPACE;
+}
+
+/**
+ * Derives a workspace name from a directory path, e.g. '/home/dev/My Repo' -> 'my-repo'
+ */
+export function workspaceNameFromPath(path: string): string {
+  const name = basename(path.replace(/[\\/]+$/, ''))
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^[^a-z0-9]+/, '')
+    .substring(0, 64);
+  return isValidWorkspaceName(name) ? name : DEFAULT_WORKSPACE;
+}
+
+/**
+ * Resolves the initial workspace for this process
+ */
+export function resolveWorkspaceOptions(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): WorkspaceOptions {
+  const requested = readCliFlag(argv, 'workspace') ?? env.MEMORY_PICKLE_WORKSPACE;
+
+  if (requested === undefined || requested === '') {
+    return { workspace: DEFAULT_WORKSPACE, autoSelect: false };
+  }
+  if (requested === AUTO_WORKSPACE) {
+    return { workspace: DEFAULT_WORKSPACE, autoSelect: true };
+  }
+  if (!isValidWorkspaceName(requested)) {
+    throw new Error(`Invalid workspace name '${requested}'. Use lowercase letters, digits, '.', '_' and '-' (max 64 characters)`);
+  }
+  return { workspace: requested, autoSelect: false };
+}
+
+/**
+ * Directory that holds the data of all non-default workspaces
+ */
+export function getWorkspacesDirectory(options: StorageOptions): string | undefined {
+  return options.dataFile ? join(dirname(options.dataFile), 'workspaces') : undefined;
+}
+
+/**
+ * Storage options for one workspace
+ */
+export function workspaceStorageOptions(options: StorageOptions, workspace: string): StorageOptions {
+  const directory = getWorkspacesDirectory(options);
+  if (workspace === DEFAULT_WORKSPACE || !directory) {
+    return options;
+  }
+  return { ...options, dataFile: join(directory, workspace, basename(options.dataFile!)) };
+}
+
+/**
+ * Names of non-default workspaces that already have stored data
+ */
+export function listStoredWorkspaces(options: StorageOptions): string[] {
+  const directory = getWorkspacesDirectory(options);
+  if (!directory || !existsSync(directory)) {
+    return [];
+  }
+  return readdirSync(directory, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && isValidWorkspaceName(entry.name) && entry.name !== DEFAULT_WORKSPACE)
+    .filter(entry => readdirSync(join(directory, entry.name)).length > 0)
+    .map(entry => entry.name)
+    .sort();
+}
@@ -1,7 +1,113 @@
-import type { ProjectDatabase, Project, Task } from '../types/index.js';
-import { InMemoryStore, ProjectService, TaskService, MemoryService, RecallService, ExportService } from '../services/index.js';
+import type { ProjectDatabase, Project, Task, TaskStatus, RecurrenceRule, Estimate, LineRange, ProjectTemplate } from '../types/index.js';
+import { TASK_STATUSES } from '../types/index.js';
+import { InMemoryStore, ProjectService, TaskService, MemoryService, RecallService, ExportService, ImportService, MergeService, TemplateService } from '../services/index.js';
+import { createWorkspaceStorageProvider, type StorageAdapter, type WorkspaceStorageProvider } from '../storage/index.js';
+import { DEFAULT_WORKSPACE, isValidWorkspaceName } from '../config/workspace.js';
+import { defaultConfig, formatConfigReport, type ResolvedConfig } from '../config/settings.js';
+import { CURRENT_SCHEMA_VERSION } from '../migrations/index.js';
 import { ValidationUtils } from '../utils/ValidationUtils.js';
-import { DryRunResult, formatErrorResponse, ProjectNotFoundError, TaskNotFoundError, ValidationError } from '../utils/errors.js';
+import { describeDueDate, parseDueDate, toDateString } from '../utils/dueDates.js';
+import { anchorRecurrence, describeRecurrence, parseRecurrence } from '../utils/recurrence.js';
+import { formatStatusLabel, isOpenTask } from '../utils/taskStatus.js';
+import { entryMinutes, formatDuration, parseDuration, parseTimestamp, totalMinutes } from '../utils/timeTracking.js';
+import { formatEstimate, parseEstimate } from '../utils/estimates.js';
+import { BatchOperationError, DryRunResult, DuplicateTemplateError, formatErrorResponse, NoRunningTimerError, ProjectNotFoundError, TaskNotFoundError, TimerAlreadyRunningError, ValidationError, WorkspaceNotFoundError } from '../utils/errors.js';
+
+type SessionActivity = {
+  tasksCreated: string[];
+  tasksUpdated: string[];
+  tasksCompleted: string[];
+  memoriesCreated: string[];
+  projectsCreated: string[];
+  projectSwitches: string[];
+  lastActiveProject?: string;
+  keyDecisions: string[];
+  toolUsageCount: Map<string, number>;
+  // Time entries started or logged this session
+  timeEntries: string[];
+  // At most one timer runs per session
+  runningTimer?: { task_id: string; entry_id: string };
+};
+
+// create_task arguments once validated; project_id falls back to the current project
+type TaskCreation = {
+  title: string;
+  description: string;
+  priority: Task['priority'];
+  due_date?: string;
+  recurrence?: RecurrenceRule;
+  estimate?: Estimate;
+  tags: string[];
+  depends_on: string[];
+  project_id?: string;
+  parent_id?: string;
+  line_range?: LineRange;
+};
+
+// update_task arguments once validated; null clears a field
+type TaskUpdate = {
+  task_id: string;
+  title?: string;
+  description?: string;
+  priority?: Task['priority'];
+  due_date?: string | null;
+  recurrence?: RecurrenceRule | null;
+  estimate?: Estimate | null;
+  status?: TaskStatus;
+  completed?: boolean;
+  progress?: number;
+  notes?: string | string[];
+  blockers?: string[];
+  add_tags?: string[];
+  remove_tags?: string[];
+  add_dependencies: string[];
+  remove_dependencies: string[];
+};
+
+type TaskUpdateOutcome = {
+  task: Task;
+  tagChanges: { added: string[]; removed: string[] };
+  addedDependencies: string[];
+  removedDependencies: string[];
+  unblocked: Task[];
+  nextTask?: Task;
+  seriesEnded: boolean;
+  newlyDone: boolean;
+  // Status changed or an occurrence was added, so project completion is stale
+  completionChanged: boolean;
+};
+
+type BatchStep =
+  | { op: 'create'; input: TaskCreation }
+  | { op: 'update' | 'complete'; input: TaskUpdate; fields: string[] };
+
+type BatchResult =
+  | { op: 'create'; task: Task }
+  | { op: 'update' | 'complete'; outcome: TaskUpdateOutcome; fields: string[] };
+
+/**
+ * State of one workspace: its database, task index and session activity
+ */
+interface WorkspaceState {
+  store: InMemoryStore;
+  taskIndex: Map<string, Task>;
+  sessionActivity: SessionActivity;
+  sessionStartTime: Date;
+}
+
+function createSessionActivity(): SessionActivity {
+  return {
+    tasksCreated: [],
+    tasksUpdated: [],
+    tasksCompleted: [],
+    memoriesCreated: [],
+    projectsCreated: [],
+    projectSwitches: [],
+    keyDecisions: [],
+    toolUsageCount: new Map(),
+    timeEntries: []
+  };
+}
 
 /**
  * Core business logic for Memory Pickle MCP Server with robust error handling
@@ -13,22 +119,28 @@ export class MemoryPickleCore {
   private projectService: ProjectService;
   private taskService: TaskService;
   private memoryService: MemoryService;
+  private templateService: TemplateService = new TemplateService();
   private sessionStartTime: Date;
   private taskIndex: Map<string, Task>;
   private isShuttingDown: boolean = false;
 
   // Enhanced session tracking
-  private sessionActivity: {
-    tasksCreated: string[];
-    tasksUpdated: string[];
-    tasksCompleted: string[];
-    memoriesCreated: string[];
-    projectsCreated: string[];
-    projectSwitches: string[];
-    lastActiveProject?: string;
-    keyDecisions: string[];
-    toolUsageCount: Map<string, number>;
-  };
+  private sessionActivity: SessionActivity;
+
+  // Workspaces other than the active one keep their state here until switched back to
+  private workspaceStorage: WorkspaceStorageProvider = createWorkspaceStorageProvider({ kind: 'memory' });
+  private activeWorkspace: string = DEFAULT_WORKSPACE;
+  private workspaceSelection: string = 'default';
+  private inactiveWorkspaces: Map<string, WorkspaceState> = new Map();
+
+  // Workspace loads and swaps run one at a time, in the order they were requested
+  private workspaceChanges: Promise<unknown> = Promise.resolve();
+
+  // Store limits, cache TTLs and tool defaults shared by all workspaces
+  private config: ResolvedConfig = defaultConfig();
+
+  // Largest number of operations one batch call may run
+  private static readonly MAX_BATCH_OPERATIONS = 100;
 
   constructor(
     inMemoryStore: InMemoryStore,
@@ -42,26 +154,43 @@ export class MemoryPickleCore {
     this.memoryService = memoryService;
     this.sessionStartTime = new Date();
     this.taskIndex = new Map();
-    this.sessionActivity = {
-      tasksCreated: [],
-      tasksUpdated: [],
-      tasksCompleted: [],
-      memoriesCreated: [],
-      projectsCreated: [],
-      projectSwitches: [],
-      keyDecisions: [],
-      toolUsageCount: new Map()
-    };
+    this.sessionActivity = createSessionActivity();
     this.buildTaskIndex();
   }
 
-  static async create(): Promise<MemoryPickleCore> {
-    const inMemoryStore = new InMemoryStore();
+  /**
+   * Creates a core instance backed by the given storage adapter (in-memory by default).
+   * Persisted state is loaded while constructing the store; with journal storage this
+   * replays the mutation journal on top of the last base snapshot.
+   *
+   * The workspace storage provider opens the storage of other workspaces; `storage`,
+   * when given, overrides the storage of the initial workspace. Without a `config`,
+   * built-in defaults are used.
+   */
+  static async create(options: {
+    storage?: StorageAdapter;
+    workspaceStorage?: WorkspaceStorageProvider;
+    workspace?: string;
+    config?: ResolvedConfig;
+  } = {}): Promise<MemoryPickleCore> {
+    const workspace = options.workspace ?? DEFAULT_WORKSPACE;
+    if (!isValidWorkspaceName(workspace)) {
+      throw new ValidationError('workspace', workspace, "must use lowercase letters, digits, '.', '_' and '-' (max 64 characters)");
+    }
+
+    const workspaceStorage = options.workspaceStorage ?? createWorkspaceStorageProvider({ kind: 'memory' });
+    const config = options.config ?? defaultConfig();
+    const inMemoryStore = new InMemoryStore(options.storage ?? workspaceStorage.open(workspace), config.values);
     const projectService = new ProjectService();
-    const taskService = new TaskService();
+    const taskService = new TaskService(config.values.workflow.transitions);
     const memoryService = new MemoryService();
 
-    return new MemoryPickleCore(inMemoryStore, projectService, taskService, memoryService);
+    const core = new MemoryPickleCore(inMemoryStore, projectService, taskService, memoryService);
+    core.workspaceStorage = workspaceStorage;
+    core.config = config;
+    core.activeWorkspace = workspace;
+    core.workspaceSelection = workspace === DEFAULT_WORKSPACE ? 'default' : 'startup option';
+    return core;
   }
 
   private buildTaskIndex(): void {
@@ -74,29 +203,6 @@ export class MemoryPickleCore {
     }
   }
 
-  /**
-   * Recalculates and updates project completion percentage based on current tasks
-   */
-  private async _recalculateProjectCompletion(projectId: string): Promise<void> {
-    await this.inMemoryStore.runExclusive(async (db) => {
-      const project = this.projectService.findProjectById(db.projects, projectId);
-      if (!project) {
-        return { result: undefined, commit: false };
-      }
-
-      // Use the existing ProjectService logic for consistency
-      this.projectService.updateProjectCompletion(project, db.tasks);
-
-      return {
-        result: undefined,
-        commit: true,
-        changedParts: new Set(['projects'] as const)
-      };
-    });
-  }
-
-
-
   /**
    * Safely executes operations with comprehensive error handling
    */
@@ -119,6 +225,28 @@ export class MemoryPickleCore {
     }
   }
 
+  /**
+   * Validates a tag list argument and returns it trimmed and de-duplicated
+   */
+  private parseTags(field: string, tags: unknown): string[] | undefined {
+    if (tags === undefined) return undefined;
+    if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+      throw new ValidationError(field, tags, 'must be an array of strings');
+    }
+    return ValidationUtils.sanitizeTags(tags);
+  }
+
+  /**
+   * Validates a task ID list argument and returns it trimmed and de-duplicated
+   */
+  private parseTaskIds(field: string, ids: unknown): string[] | undefined {
+    if (ids === undefined) return undefined;
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string' || !id.trim())) {
+      throw new ValidationError(field, ids, 'must be an array of task IDs');
+    }
+    return [...new Set(ids.map(id => ValidationUtils.sanitizeId(id)))];
+  }
+
   /**
    * Validates that the current project exists and is accessible
    */
@@ -142,6 +270,18 @@ export class MemoryPickleCore {
     return currentProjectId;
   }
 
+  /**
+   * Database as seen by default listings and recall: archived projects and their tasks and
+   * memories are left out unless requested, or unless the archived project is asked for by ID
+   */
+  private getVisibleDatabase(includeArchived: boolean, projectId?: string): ProjectDatabase {
+    const database = this.inMemoryStore.getDatabase();
+    if (includeArchived || (projectId && database.projects.some(p => p.id === projectId && p.status === 'archived'))) {
+      return database;
+    }
+    return this.projectService.withoutArchived(database);
+  }
+
   // Project Management Methods
   async create_project(args: any): Promise<any> {
     return this.safeExecute('create_project', async () => {
@@ -199,7 +339,7 @@ export class MemoryPickleCore {
         if (!db.meta) {
           db.meta = {
             last_updated: new Date().toISOString(),
-            version: "2.0.0",
+            version: CURRENT_SCHEMA_VERSION,
             session_count: 0,
             current_project_id: newProject.id
           };
@@ -213,16 +353,19 @@ export class MemoryPickleCore {
           commit: true,
           changedParts: new Set(['projects', 'meta'] as const)
         };
-      });
+      }, 'create_project');
 
       // Track session activity
       this.trackToolUsage('create_project', 'project_created', result.id);
 
+      const storageNote = this.inMemoryStore.getStorageInfo().persistent
+        ? `Data is persisted to disk and will be restored when the server restarts.`
+        : `Data is stored in memory only. Consider creating markdown files to document your project progress for future reference.`;
 
       return {
         content: [{
           type: "text",
-          text: `[OK] **Project Created Successfully!**\n\n**Name:** ${result.name}\n**ID:** ${result.id}\n**Status:** ${result.status}\n**Description:** ${result.description || 'No description provided'}\n\n[OK] **This project is now your current project.** You can add tasks using the \`create_task\` tool without specifying a project_id.\n\n[INFO] **Note:** Data is stored in memory only. Consider creating markdown files to document your project progress for future reference.`
+          text: `[OK] **Project Created Successfully!**\n\n**Name:** ${result.name}\n**ID:** ${result.id}\n**Status:** ${result.status}\n**Description:** ${result.description || 'No description provided'}\n\n[OK] **This project is now your current project.** You can add tasks using the \`create_task\` tool without specifying a project_id.\n\n[INFO] **Note:** ${storageNote}`
         }]
       };
     });
@@ -252,11 +395,13 @@ export class MemoryPickleCore {
 
     const projectTasks = currentDatabase.tasks.filter(task => task.project_id === targetProjectId);
     const completedTasks = projectTasks.filter(task => task.completed);
-    const activeTasks = projectTasks.filter(task => !task.completed);
+    const cancelledTasks = projectTasks.filter(task => task.status === 'cancelled');
+    const activeTasks = projectTasks.filter(task => isOpenTask(task));
 
-    // Calculate completion percentage for display (read-only, no side effects)
-    const displayCompletion = projectTasks.length > 0
-      ? Math.round((completedTasks.length / projectTasks.length) * 100)
+    // Calculate completion percentage for display (read-only, no side effects); cancelled tasks do not count
+    const countedTasks = projectTasks.length - cancelledTasks.length;
+    const displayCompletion = countedTasks > 0
+      ? Math.round((completedTasks.length / countedTasks) * 100)
       : 0;
 
     let statusText = `# Project Status: **${project.name}**\n\n`;
@@ -268,12 +413,16 @@ export class MemoryPickleCore {
     statusText += `## Tasks Summary\n`;
     statusText += `- **Total Tasks:** ${projectTasks.length}\n`;
     statusText += `- **Completed:** ${completedTasks.length}\n`;
-    statusText += `- **Active:** ${activeTasks.length}\n\n`;
+    statusText += `- **Active:** ${activeTasks.length}\n`;
+    if (cancelledTasks.length > 0) {
+      statusText += `- **Cancelled:** ${cancelledTasks.length}\n`;
+    }
+    statusText += `\n`;
 
     if (activeTasks.length > 0) {
       statusText += `### Active Tasks:\n`;
       activeTasks.slice(0, 5).forEach(task => {
-        statusText += `- **${task.title}** (${task.priority} priority)\n`;
+        statusText += `- **${task.title}** (${task.priority} priority) ${formatStatusLabel(task.status)}\n`;
       });
       if (activeTasks.length > 5) {
         statusText += `- ... and ${activeTasks.length - 5} more\n`;
@@ -309,8 +458,9 @@ export class MemoryPickleCore {
     projects.forEach(project => {
       const projectTasks = currentDatabase.tasks.filter(task => task.project_id === project.id);
       const completedTasks = projectTasks.filter(task => task.completed);
-      const completion = projectTasks.length > 0
-        ? Math.round((completedTasks.length / projectTasks.length) * 100)
+      const countedTasks = projectTasks.filter(task => task.status !== 'cancelled').length;
+      const completion = countedTasks > 0
+        ? Math.round((completedTasks.length / countedTasks) * 100)
         : 0;
 
       const isCurrentProject = currentDatabase.meta?.current_project_id === project.id;
@@ -359,269 +509,189 @@ export class MemoryPickleCore {
       const updates: Partial<Project> = {};
       if (name !== undefined) updates.name = name.trim();
       if (description !== undefined) updates.description = description.trim();
-      if (status !== undefined) updates.status = status;
+
+      // Archiving goes through the same path as archive_project and unarchive_project
+      let clearedCurrent = false;
+      if (status === 'archived' && project.status !== 'archived') {
+        this.projectService.archiveProject(project);
+        clearedCurrent = db.meta.current_project_id === project_id;
+        if (clearedCurrent) {
+          db.meta.current_project_id = undefined;
+        }
+      } else if (status !== undefined && status !== 'archived') {
+        if (project.status === 'archived') {
+          this.projectService.unarchiveProject(project, db.tasks);
+        }
+        updates.status = status;
+      }
 
       const updatedProject = this.projectService.updateProject(db.projects, project_id, updates);
 
       return {
-        result: updatedProject,
+        result: { project: updatedProject, clearedCurrent },
         commit: true,
-        changedParts: new Set(['projects'] as const)
+        changedParts: new Set(['projects', 'meta'] as const)
       };
-    });
+    }, 'update_project');
 
 
     return {
       content: [{
         type: "text",
-        text: `[OK] **Project Updated Successfully!**\n\n**Name:** ${result.name}\n**Status:** ${result.status}\n**Description:** ${result.description || 'No description'}`
+        text: `[OK] **Project Updated Successfully!**\n\n**Name:** ${result.project.name}\n**Status:** ${result.project.status}\n**Description:** ${result.project.description || 'No description'}${result.clearedCurrent ? '\n**Current Project:** cleared' : ''}`
       }]
     };
   }
 
+  /**
+   * Archives a project, hiding it and its tasks and memories from default listings and recall
+   */
+  async archive_project(args: any): Promise<any> {
+    return this.safeExecute('archive_project', async () => {
+      this.trackToolUsage('archive_project');
+      const { project_id, dry_run = false } = args || {};
 
-
-  // Task Management Methods
-  async create_task(args: any): Promise<any> {
-    return this.safeExecute('create_task', async () => {
-      this.trackToolUsage('create_task');
-
-      // Basic input validation (MCP schemas handle structure, but we need null checks)
-      if (!args || typeof args !== 'object') {
-        throw new Error('Invalid arguments - expected object');
-      }
-
-      const { title, description = '', priority = 'medium', project_id, parent_id, line_range, dry_run = false } = args;
-
-      // Check required fields and sanitize
-      if (title === undefined || title === null) {
-        throw new Error("Missing required field 'title'");
+      if (!project_id) {
+        throw new Error("Missing required field 'project_id'");
       }
 
-      const sanitizedTitle = ValidationUtils.sanitizeString(title);
-      const sanitizedDescription = ValidationUtils.sanitizeString(description);
-
-      if (!sanitizedTitle) {
-        throw new Error("Field 'title' cannot be empty");
-      }
-      if (sanitizedTitle.length > 200) {
-        throw new Error('Task title cannot exceed 200 characters');
-      }
-      if (sanitizedDescription.length > 2000) {
-        throw new Error('Task description cannot exceed 2000 characters');
-      }
-      if (priority && !['low', 'medium', 'high', 'critical'].includes(priority)) {
-        throw new Error('Invalid task priority');
+      const database = this.inMemoryStore.getDatabase();
+      const project = this.projectService.findProjectById(database.projects, project_id);
+      if (!project) {
+        throw new ProjectNotFoundError(project_id, database.projects.map(p => p.id));
       }
-
-      // If no project_id provided, try to use the current project from meta
-      let targetProjectId = project_id;
-      if (!targetProjectId) {
-        targetProjectId = this.validateCurrentProject();
+      if (project.status === 'archived') {
+        throw new Error(`Project '${project_id}' is already archived`);
       }
 
-      // Handle dry run
       if (dry_run) {
+        const taskCount = database.tasks.filter(t => t.project_id === project_id).length;
         return {
           content: [{
             type: "text",
-            text: `[DRY RUN] create_task: Would create task '${sanitizedTitle}' with priority '${priority}' in project '${targetProjectId}'. No changes made.`
+            text: `[DRY RUN] archive_project: Would archive project '${project.name}' and hide its ${taskCount} tasks from listings and recall${database.meta.current_project_id === project_id ? ', clearing the current project' : ''}. No changes made.`
           }],
           isError: false
         };
       }
 
       const result = await this.inMemoryStore.runExclusive(async (db) => {
-        // Verify project exists
-        const project = this.projectService.findProjectById(db.projects, targetProjectId);
-        if (!project) {
-          throw new Error(`Project not found: ${targetProjectId}`);
-        }
+        const project = this.projectService.findProjectById(db.projects, project_id)!;
+        this.projectService.archiveProject(project);
 
-        // Verify parent task exists if provided
-        if (parent_id) {
-          const parentTask = this.taskService.findTaskById(db.tasks, parent_id);
-          if (!parentTask) {
-            throw new Error(`Parent task not found: ${parent_id}`);
-          }
-          if (parentTask.project_id !== targetProjectId) {
-            throw new Error('Parent task must be in the same project');
-          }
+        const clearedCurrent = db.meta.current_project_id === project_id;
+        if (clearedCurrent) {
+          db.meta.current_project_id = undefined;
         }
 
-        const newTask = this.taskService.createTask({
-          title: sanitizedTitle,
-          description: sanitizedDescription,
-          priority,
-          project_id: targetProjectId,
-          parent_id,
-          line_range
-        });
-
-        db.tasks.push(newTask);
-
         return {
-          result: newTask,
+          result: { project, clearedCurrent },
           commit: true,
-          changedParts: new Set(['tasks'] as const)
+          changedParts: new Set(['projects', 'meta'] as const)
         };
-      });
-
-      this.buildTaskIndex();
-
-      // Recalculate project completion since we added a new task
-      await this._recalculateProjectCompletion(targetProjectId);
-
-      // Track session activity
-      this.trackToolUsage('create_task', 'task_created', result.id);
-
-      const database = this.inMemoryStore.getDatabase();
-      const project = this.projectService.findProjectById(database.projects, targetProjectId);
+      }, 'archive_project');
 
       return {
         content: [{
           type: "text",
-          text: `[OK] **Task Created Successfully!**\n\n**Title:** ${result.title}\n**ID:** ${result.id}\n**Project:** ${project?.name}\n**Priority:** ${result.priority}\n**Description:** ${result.description || 'No description provided'}\n\nTask is ready to be worked on!`
+          text: `[OK] **Project Archived**\n\n**Name:** ${result.project.name}\n**Previous Status:** ${result.project.archived_from_status}\n${result.clearedCurrent ? '**Current Project:** cleared\n' : ''}\n[INFO] The project, its tasks and memories are hidden from listings and recall. Use \`unarchive_project\` to restore it.`
         }]
       };
     });
   }
 
-  async update_task(args: any): Promise<any> {
-    return this.safeExecute('update_task', async () => {
-      this.trackToolUsage('update_task');
-
-      // Basic input validation (MCP schemas handle structure, but we need null checks)
-      if (!args || typeof args !== 'object') {
-        throw new Error('Invalid arguments - expected object');
-      }
-
-      const { task_id, title, description, priority, completed, progress, notes, blockers, dry_run = false } = args;
+  /**
+   * Restores an archived project to its previous status
+   */
+  async unarchive_project(args: any): Promise<any> {
+    return this.safeExecute('unarchive_project', async () => {
+      this.trackToolUsage('unarchive_project');
+      const { project_id, dry_run = false } = args || {};
 
-      // Check required fields
-      if (task_id === undefined || task_id === null) {
-        throw new Error("Missing required field 'task_id'");
+      if (!project_id) {
+        throw new Error("Missing required field 'project_id'");
       }
 
-      const sanitizedTitle = title !== undefined ? ValidationUtils.sanitizeString(title) : undefined;
-      const sanitizedDescription = description !== undefined ? ValidationUtils.sanitizeString(description) : undefined;
-
-      if (sanitizedTitle !== undefined && sanitizedTitle.length > 200) {
-        throw new Error('Task title cannot exceed 200 characters');
-      }
-      if (sanitizedDescription !== undefined && sanitizedDescription.length > 2000) {
-        throw new Error('Task description cannot exceed 2000 characters');
+      const database = this.inMemoryStore.getDatabase();
+      const project = this.projectService.findProjectById(database.projects, project_id);
+      if (!project) {
+        throw new ProjectNotFoundError(project_id, database.projects.map(p => p.id));
       }
-      if (priority !== undefined && !['low', 'medium', 'high', 'critical'].includes(priority)) {
-        throw new Error('Invalid task priority');
+      if (project.status !== 'archived') {
+        throw new Error(`Project '${project_id}' is not archived`);
       }
 
-      // Handle dry run
       if (dry_run) {
         return {
           content: [{
             type: "text",
-            text: `[DRY RUN] update_task: Would update task '${task_id}' with provided changes. No changes made.`
+            text: `[DRY RUN] unarchive_project: Would restore project '${project.name}' to status '${project.archived_from_status ?? 'planning'}'. No changes made.`
           }],
           isError: false
         };
       }
 
       const result = await this.inMemoryStore.runExclusive(async (db) => {
-      const task = this.taskService.findTaskById(db.tasks, task_id);
-      if (!task) {
-        throw new Error(`Task not found: ${task_id}`);
-      }
-
-      const updates: Partial<Task> = {};
-      if (sanitizedTitle !== undefined) updates.title = sanitizedTitle;
-      if (sanitizedDescription !== undefined) updates.description = sanitizedDescription;
-      if (priority !== undefined) updates.priority = priority;
-      if (completed !== undefined) {
-        updates.completed = completed;
-        if (completed) {
-          updates.completed_date = new Date().toISOString();
-        }
-      }
-      if (progress !== undefined) updates.progress = progress;
+        const project = this.projectService.findProjectById(db.projects, project_id)!;
+        this.projectService.unarchiveProject(project, db.tasks);
 
-      const updatedTask = this.taskService.updateTask(db.tasks, task_id, updates);
+        return {
+          result: project,
+          commit: true,
+          changedParts: new Set(['projects'] as const)
+        };
+      }, 'unarchive_project');
 
-      // Add notes and blockers if provided
-      if (notes) {
-        if (!updatedTask.notes) updatedTask.notes = [];
+      return {
+        content: [{
+          type: "text",
+          text: `[OK] **Project Unarchived**\n\n**Name:** ${result.name}\n**Status:** ${result.status}\n**Completion:** ${result.completion_percentage}%`
+        }]
+      };
+    });
+  }
 
-        if (Array.isArray(notes)) {
-          // Handle array of notes
-          for (const note of notes) {
-            if (note?.trim()) {
-              updatedTask.notes.push(`${new Date().toISOString()}: ${note.trim()}`);
-            }
-          }
-        } else if (typeof notes === 'string' && notes.trim()) {
-          // Handle single note string
-          updatedTask.notes.push(`${new Date().toISOString()}: ${notes.trim()}`);
-        }
-      }
+  /**
+   * Deletes a project together with its tasks and memories
+   */
+  async delete_project(args: any): Promise<any> {
+    return this.safeExecute('delete_project', async () => {
+      this.trackToolUsage('delete_project');
+      const { project_id, dry_run = false } = args || {};
 
-      if (blockers && Array.isArray(blockers)) {
-        updatedTask.blockers = [...(updatedTask.blockers || []), ...blockers];
+      if (!project_id) {
+        throw new Error("Missing required field 'project_id'");
       }
 
-      // Add progress note as memory if provided
-      const noteContent = Array.isArray(notes) ? notes.join('; ') : notes;
-      if (noteContent?.trim()) {
-        this.memoryService.addMemory(db.memories, {
-          title: `Progress: ${task.title}`,
-          content: noteContent.trim(),
-          importance: 'medium',
-          project_id: task.project_id,
-          task_id: task.id
-        });
+      if (dry_run) {
+        const plan = this.projectService.planProjectDeletion(this.inMemoryStore.getDatabase(), project_id);
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] delete_project: Would delete project '${plan.project.name}'.\n\n${this.projectService.formatProjectDeletionPlan(plan)}\nNo changes made.`
+          }],
+          isError: false
+        };
       }
 
-      return {
-        result: updatedTask,
-        commit: true,
-        changedParts: new Set(['tasks', 'memories'] as const)
-      };
-    });
-
-    this.buildTaskIndex();
-
-    // Recalculate project completion if task completion status changed
-    if (completed !== undefined) {
-      await this._recalculateProjectCompletion(result.project_id);
-    }
+      const plan = await this.inMemoryStore.runExclusive(async (db) => {
+        const plan = this.projectService.planProjectDeletion(db, project_id);
+        this.projectService.applyProjectDeletion(db, plan);
 
-    // Track session activity
-    this.trackToolUsage('update_task', 'task_updated', result.id);
-    if (completed === true) {
-      this.trackToolUsage('update_task', 'task_completed', result.id);
-    }
+        return {
+          result: plan,
+          commit: true,
+          changedParts: new Set(['projects', 'tasks', 'memories', 'meta'] as const)
+        };
+      }, 'delete_project');
 
-    let response = `[OK] **Task Updated Successfully!**\n\n**${result.title}**\n`;
-    if (completed !== undefined) {
-      response += `Status: ${result.completed ? 'Completed [DONE]' : 'Active [ACTIVE]'}\n`;
-    }
-    if (priority !== undefined) {
-      response += `Priority: ${result.priority}\n`;
-    }
-    if (progress !== undefined) {
-      response += `Progress: ${progress}%\n`;
-    }
-    const noteContent = Array.isArray(notes) ? notes.join('; ') : notes;
-    if (noteContent?.trim()) {
-      response += `Progress note saved.\n`;
-    }
-    if (blockers && blockers.length > 0) {
-      response += `Blockers added: ${blockers.join(', ')}\n`;
-    }
+      this.buildTaskIndex();
+      this.pruneSessionActivity();
 
       return {
         content: [{
           type: "text",
-          text: response
+          text: `[OK] **Project Deleted**\n\n${this.projectService.formatProjectDeletionPlan(plan)}`
         }]
       };
     });
@@ -629,791 +699,2765 @@ export class MemoryPickleCore {
 
 
 
+  // Task Management Methods
+  async create_task(args: any): Promise<any> {
+    return this.safeExecute('create_task', async () => {
+      this.trackToolUsage('create_task');
 
+      const input = this.parseTaskCreation(args);
+      const { dry_run = false } = args;
 
-
-
-  // Memory Management Methods
-  async remember_this(args: any): Promise<any> {
-    return this.safeExecute('remember_this', async () => {
-      this.trackToolUsage('remember_this');
-
-      // Basic input validation (MCP schemas handle structure, but we need null checks)
-      if (!args || typeof args !== 'object') {
-        throw new Error('Invalid arguments - expected object');
-      }
-
-      const { content, title, importance = 'medium', project_id, task_id, line_range, dry_run = false } = args;
-
-      // Check required fields and sanitize
-      if (content === undefined || content === null) {
-        throw new Error("Missing required field 'content'");
-      }
-
-      const sanitizedContent = ValidationUtils.sanitizeString(content);
-      const sanitizedTitle = title ? ValidationUtils.sanitizeString(title) : undefined;
-
-      if (!sanitizedContent) {
-        throw new Error("Field 'content' cannot be empty");
-      }
-
-      // Use InMemoryStore validation for memory data
-      const memoryData = {
-        content: sanitizedContent,
-        title: sanitizedTitle,
-        importance,
-        project_id,
-        task_id,
-        line_range
-      };
-
-      const validatedMemory = this.inMemoryStore.validateAndSanitizeInput('memory', memoryData);
+      // If no project_id provided, try to use the current project from meta
+      const targetProjectId = input.project_id || this.validateCurrentProject();
 
       // Handle dry run
       if (dry_run) {
         return {
           content: [{
             type: "text",
-            text: `[DRY RUN] remember_this: Would store memory '${sanitizedTitle || 'Untitled'}' with importance '${importance}'. No changes made.`
+            text: `[DRY RUN] create_task: Would create task '${input.title}' with priority '${input.priority}'${input.due_date ? ` due ${input.due_date}` : ''}${input.recurrence ? ` repeating ${describeRecurrence(input.recurrence)}` : ''}${input.estimate ? ` estimated at ${formatEstimate(input.estimate)}` : ''}${input.tags.length > 0 ? ` tagged ${input.tags.join(', ')}` : ''} in project '${targetProjectId}'. No changes made.`
           }],
           isError: false
         };
       }
 
       const result = await this.inMemoryStore.runExclusive(async (db) => {
-        const newMemory = this.memoryService.addMemory(db.memories, {
-          title: validatedMemory.title || `Memory from ${new Date().toLocaleDateString()}`,
-          content: validatedMemory.content,
-          importance: validatedMemory.importance,
-          project_id: validatedMemory.project_id,
-          task_id: validatedMemory.task_id,
-          line_range: validatedMemory.line_range
-        });
+        const { task, project } = this.applyTaskCreation(db, { ...input, project_id: targetProjectId });
+
+        // Recalculate project completion in the same operation so it is undone together with the task
+        this.projectService.updateProjectCompletion(project, db.tasks);
 
         return {
-          result: newMemory,
+          result: task,
           commit: true,
-          changedParts: new Set(['memories'] as const)
+          changedParts: new Set(['tasks', 'projects'] as const)
         };
-      });
+      }, 'create_task');
+
+      this.buildTaskIndex();
 
       // Track session activity
-      this.trackToolUsage('remember_this', 'memory_created', result.id);
+      this.trackToolUsage('create_task', 'task_created', result.id);
 
-      // Generate markdown suggestion for critical/high importance memories
-      let markdownSuggestion = '';
-      if (result.importance === 'critical' || result.importance === 'high') {
-        const filename = result.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') + '.md';
-        markdownSuggestion = `\n\n[INFO] **Suggestion:** Since this is ${result.importance} importance, consider creating a markdown file:\n\`\`\`markdown\n# ${result.title}\n\n${result.content}\n\n*Created: ${new Date().toLocaleDateString()}*\n*Importance: ${result.importance}*\n\`\`\`\n\nSave as: \`${filename}\``;
-      }
+      const database = this.inMemoryStore.getDatabase();
+      const project = this.projectService.findProjectById(database.projects, targetProjectId);
 
       return {
         content: [{
           type: "text",
-          text: `[OK] **Memory Saved!**\n\n**Title:** ${result.title}\n**Importance:** ${result.importance}\n**Content:** ${result.content.substring(0, 100)}${result.content.length > 100 ? '...' : ''}${markdownSuggestion}`
+          text: `[OK] **Task Created Successfully!**\n\n**Title:** ${result.title}\n**ID:** ${result.id}\n**Project:** ${project?.name}\n**Priority:** ${result.priority}\n${result.due_date ? `**Due:** ${result.due_date} (${describeDueDate(result.due_date)})\n` : ''}${result.recurrence ? `**Repeats:** ${describeRecurrence(result.recurrence)} (series ${result.series_id})\n` : ''}${result.estimate ? `**Estimate:** ${formatEstimate(result.estimate)}\n` : ''}${result.tags.length > 0 ? `**Tags:** ${result.tags.join(', ')}\n` : ''}${result.depends_on.length > 0 ? `**Depends On:** ${result.depends_on.map(id => database.tasks.find(t => t.id === id)?.title ?? id).join(', ')}\n` : ''}**Description:** ${result.description || 'No description provided'}\n\nTask is ready to be worked on!`
         }]
       };
     });
   }
 
   /**
-   * Universal state recall - replaces recall_context with comprehensive state overview
+   * Validates and normalizes create_task arguments; project_id is left unresolved
    */
-  async recall_state(args: any = {}): Promise<any> {
-    this.trackToolUsage('recall_state');
-    const { 
-      limit = 20, 
-      project_id, 
-      include_completed = false, 
-      memory_importance,
-      focus = 'all',
-      format = 'text' 
-    } = args;
+  private parseTaskCreation(args: any): TaskCreation {
+    // Basic input validation (MCP schemas handle structure, but we need null checks)
+    if (!args || typeof args !== 'object') {
+      throw new Error('Invalid arguments - expected object');
+    }
 
-    const database = this.inMemoryStore.getDatabase();
-    
-    // Generate comprehensive state data
-    const stateData = RecallService.generateStateRecall(database, {
-      limit,
-      project_id,
-      include_completed,
-      memory_importance,
-      focus
-    });
+    const { defaults } = this.config.values;
+    const { title, description = '', priority = defaults.task_priority, due_date, recurrence, estimate, tags, depends_on, project_id, parent_id, line_range } = args;
 
-    if (format === 'json') {
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify(stateData, null, 2)
-        }]
-      };
+    // Check required fields and sanitize
+    if (title === undefined || title === null) {
+      throw new Error("Missing required field 'title'");
     }
 
-    // Default: formatted text response
-    const formattedText = RecallService.formatStateRecall(stateData);
-    
+    const sanitizedTitle = ValidationUtils.sanitizeString(title);
+    const sanitizedDescription = ValidationUtils.sanitizeString(description);
+
+    if (!sanitizedTitle) {
+      throw new Error("Field 'title' cannot be empty");
+    }
+    if (sanitizedTitle.length > 200) {
+      throw new Error('Task title cannot exceed 200 characters');
+    }
+    if (sanitizedDescription.length > 2000) {
+      throw new Error('Task description cannot exceed 2000 characters');
+    }
+    if (priority && !['low', 'medium', 'high', 'critical'].includes(priority)) {
+      throw new Error('Invalid task priority');
+    }
+    const dueDate = due_date !== undefined && due_date !== null ? parseDueDate(due_date) : undefined;
+
     return {
-      content: [{
-        type: "text",
-        text: formattedText
-      }]
+      title: sanitizedTitle,
+      description: sanitizedDescription,
+      priority,
+      due_date: dueDate,
+      recurrence: recurrence !== undefined && recurrence !== null ? anchorRecurrence(parseRecurrence(recurrence), dueDate) : undefined,
+      estimate: estimate !== undefined && estimate !== null ? parseEstimate(estimate, defaults.estimate_unit) : undefined,
+      tags: this.parseTags('tags', tags) ?? [],
+      depends_on: this.parseTaskIds('depends_on', depends_on) ?? [],
+      project_id,
+      parent_id,
+      line_range
     };
   }
 
-  async recall_context(args: any = {}): Promise<any> {
-    const { query, project_id, importance, limit = 10 } = args;
-
-    // Always get fresh database reference
-    const database = this.inMemoryStore.getDatabase();
-    let memories = database.memories;
-
-    // Apply filters
-    if (project_id) {
-      memories = memories.filter(memory => memory.project_id === project_id);
-    }
-    if (importance) {
-      memories = memories.filter(memory => memory.importance === importance);
+  /**
+   * Adds a task to the database inside a transaction. Project completion is left to the caller.
+   */
+  private applyTaskCreation(db: ProjectDatabase, input: TaskCreation & { project_id: string }): { task: Task; project: Project } {
+    // Verify project exists
+    const project = this.projectService.findProjectById(db.projects, input.project_id);
+    if (!project) {
+      throw new Error(`Project not found: ${input.project_id}`);
     }
 
-    // Simple text search if query provided
-    if (query?.trim()) {
-      const searchTerm = query.trim().toLowerCase();
-      memories = memories.filter(memory =>
-        memory.title.toLowerCase().includes(searchTerm) ||
-        memory.content.toLowerCase().includes(searchTerm)
-      );
+    // Verify parent task exists if provided
+    const parentTask = input.parent_id ? this.taskService.findTaskById(db.tasks, input.parent_id) : undefined;
+    if (input.parent_id) {
+      if (!parentTask) {
+        throw new Error(`Parent task not found: ${input.parent_id}`);
+      }
+      if (parentTask.project_id !== input.project_id) {
+        throw new Error('Parent task must be in the same project');
+      }
     }
 
-    // Sort by creation date (newest first) and limit
-    memories = memories
-      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-      .slice(0, limit);
+    const newTask = this.taskService.createTask(input);
+    this.taskService.validateDependencies(db.tasks, newTask, input.depends_on);
+
+    db.tasks.push(newTask);
+    this.taskService.linkTaskToProject(newTask, project, parentTask);
+    this.taskService.rollUpEstimates(newTask, db.tasks);
+
+    return { task: newTask, project };
+  }
+
+  async update_task(args: any): Promise<any> {
+    return this.safeExecute('update_task', async () => {
+      this.trackToolUsage('update_task');
+
+      const input = this.parseTaskUpdate(args);
+      const { dry_run = false } = args;
+
+      // Handle dry run
+      if (dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] update_task: Would update task '${input.task_id}' with provided changes. No changes made.`
+          }],
+          isError: false
+        };
+      }
+
+      const { task: result, tagChanges, addedDependencies, removedDependencies, unblocked, nextTask, seriesEnded, newlyDone } = await this.inMemoryStore.runExclusive(async (db) => {
+        const outcome = this.applyTaskUpdate(db, input);
+
+        // Recalculate project completion if the task status changed or a new occurrence was added
+        if (outcome.completionChanged) {
+          const project = this.projectService.findProjectById(db.projects, outcome.task.project_id);
+          if (project) {
+            this.projectService.updateProjectCompletion(project, db.tasks);
+          }
+        }
+
+        return {
+          result: outcome,
+          commit: true,
+          changedParts: new Set(['tasks', 'memories', 'projects'] as const)
+        };
+      }, 'update_task');
+
+      this.buildTaskIndex();
+
+      // Track session activity
+      this.trackToolUsage('update_task', 'task_updated', result.id);
+      if (newlyDone) {
+        this.trackToolUsage('update_task', 'task_completed', result.id);
+      }
+
+      const { status, completed, priority, due_date, recurrence, estimate, progress, notes, blockers } = args;
+      let response = `[OK] **Task Updated Successfully!**\n\n**${result.title}**\n`;
+      if (status !== undefined || completed !== undefined) {
+        response += `Status: ${result.status} ${formatStatusLabel(result.status)}\n`;
+      }
+      if (priority !== undefined) {
+        response += `Priority: ${result.priority}\n`;
+      }
+      if (due_date !== undefined) {
+        response += `Due: ${result.due_date ? `${result.due_date} (${describeDueDate(result.due_date)})` : 'cleared'}\n`;
+      }
+      if (recurrence !== undefined) {
+        response += `Repeats: ${result.recurrence ? `${describeRecurrence(result.recurrence)} (series ${result.series_id})` : 'no longer'}\n`;
+      }
+      if (estimate !== undefined) {
+        response += `Estimate: ${result.estimate ? formatEstimate(result.estimate) : 'cleared'}\n`;
+      }
+      if (progress !== undefined) {
+        response += `Progress: ${progress}%\n`;
+      }
+      const noteContent = Array.isArray(notes) ? notes.join('; ') : notes;
+      if (noteContent?.trim()) {
+        response += `Progress note saved.\n`;
+      }
+      if (blockers && blockers.length > 0) {
+        response += `Blockers added: ${blockers.join(', ')}\n`;
+      }
+      if (tagChanges.added.length > 0) {
+        response += `Tags added: ${tagChanges.added.join(', ')}\n`;
+      }
+      if (tagChanges.removed.length > 0) {
+        response += `Tags removed: ${tagChanges.removed.join(', ')}\n`;
+      }
+      if (input.add_tags || input.remove_tags) {
+        response += `Tags: ${result.tags.length > 0 ? result.tags.join(', ') : 'none'}\n`;
+      }
+      if (addedDependencies.length > 0) {
+        response += `Dependencies added: ${addedDependencies.join(', ')}\n`;
+      }
+      if (removedDependencies.length > 0) {
+        response += `Dependencies removed: ${removedDependencies.join(', ')}\n`;
+      }
+      if (unblocked.length > 0) {
+        response += `Now unblocked: ${unblocked.map(t => `${t.title} (${t.id})`).join(', ')}\n`;
+      }
+      if (nextTask) {
+        response += `Next occurrence: ${nextTask.id} due ${nextTask.due_date} (#${nextTask.occurrence})\n`;
+      } else if (seriesEnded) {
+        response += `Series ${result.series_id} has no occurrences left.\n`;
+      }
 
-    if (memories.length === 0) {
       return {
         content: [{
           type: "text",
-          text: `[INFO] **No Memories Found**\n\nNo memories match your search criteria.`
+          text: response
         }]
       };
+    });
+  }
+
+  /**
+   * Validates and normalizes update_task arguments
+   */
+  private parseTaskUpdate(args: any): TaskUpdate {
+    // Basic input validation (MCP schemas handle structure, but we need null checks)
+    if (!args || typeof args !== 'object') {
+      throw new Error('Invalid arguments - expected object');
     }
 
-    let response = `# Recalled Memories\n\n`;
+    const { task_id, title, description, priority, due_date, recurrence, estimate, status, completed, progress, notes, blockers, add_tags, remove_tags, add_dependencies, remove_dependencies } = args;
 
-    memories.forEach((memory, index) => {
-      response += `## ${index + 1}. ${memory.title}\n`;
-      response += `**Importance:** ${memory.importance}\n`;
-      response += `**Date:** ${new Date(memory.timestamp).toLocaleDateString()}\n`;
-      if (memory.project_id) {
-        const project = this.projectService.findProjectById(database.projects, memory.project_id);
-        response += `**Project:** ${project?.name || 'Unknown'}\n`;
-      }
-      response += `**Content:** ${memory.content}\n\n`;
-    });
+    // Check required fields
+    if (task_id === undefined || task_id === null) {
+      throw new Error("Missing required field 'task_id'");
+    }
+
+    const sanitizedTitle = title !== undefined ? ValidationUtils.sanitizeString(title) : undefined;
+    const sanitizedDescription = description !== undefined ? ValidationUtils.sanitizeString(description) : undefined;
+
+    if (sanitizedTitle !== undefined && sanitizedTitle.length > 200) {
+      throw new Error('Task title cannot exceed 200 characters');
+    }
+    if (sanitizedDescription !== undefined && sanitizedDescription.length > 2000) {
+      throw new Error('Task description cannot exceed 2000 characters');
+    }
+    if (priority !== undefined && !['low', 'medium', 'high', 'critical'].includes(priority)) {
+      throw new Error('Invalid task priority');
+    }
+    if (status !== undefined && !TASK_STATUSES.includes(status)) {
+      throw new ValidationError('status', status, `must be one of: ${TASK_STATUSES.join(', ')}`);
+    }
+    if (status !== undefined && completed !== undefined) {
+      throw new ValidationError('completed', completed, 'cannot be combined with status');
+    }
+    const tagsToAdd = this.parseTags('add_tags', add_tags);
+    const tagsToRemove = this.parseTags('remove_tags', remove_tags);
+    const conflicting = tagsToAdd?.filter(tag => tagsToRemove?.some(other => other.toLowerCase() === tag.toLowerCase())) ?? [];
+    if (conflicting.length > 0) {
+      throw new ValidationError('add_tags', conflicting.join(', '), 'cannot also appear in remove_tags');
+    }
 
     return {
-      content: [{
-        type: "text",
-        text: response
-      }]
+      task_id,
+      title: sanitizedTitle,
+      description: sanitizedDescription,
+      priority,
+      // null clears the due date
+      due_date: due_date !== undefined && due_date !== null ? parseDueDate(due_date) : due_date,
+      // null stops the task from repeating
+      recurrence: recurrence !== undefined && recurrence !== null ? parseRecurrence(recurrence) : recurrence,
+      // null clears the estimate
+      estimate: estimate !== undefined && estimate !== null ? parseEstimate(estimate, this.config.values.defaults.estimate_unit) : estimate,
+      status,
+      completed,
+      progress,
+      notes,
+      blockers,
+      add_tags: tagsToAdd,
+      remove_tags: tagsToRemove,
+      add_dependencies: this.parseTaskIds('add_dependencies', add_dependencies) ?? [],
+      remove_dependencies: this.parseTaskIds('remove_dependencies', remove_dependencies) ?? []
     };
   }
 
+  /**
+   * Applies a task update inside a transaction, including estimate roll-up and the next
+   * occurrence of a completed recurring task. Project completion is left to the caller.
+   */
+  private applyTaskUpdate(db: ProjectDatabase, input: TaskUpdate): TaskUpdateOutcome {
+    const { task_id, notes, blockers } = input;
+    const task = this.taskService.findTaskById(db.tasks, task_id);
+    if (!task) {
+      throw new Error(`Task not found: ${task_id}`);
+    }
+    const wasCompleted = task.completed;
+    const previousStatus = task.status;
+    if (input.estimate !== undefined && this.taskService.hasEstimatedSubtasks(task, db.tasks)) {
+      throw new ValidationError('estimate', input.estimate && formatEstimate(input.estimate), 'is rolled up from subtasks; estimate the subtasks instead');
+    }
 
+    const updates: Partial<Task> = {};
+    if (input.title !== undefined) updates.title = input.title;
+    if (input.description !== undefined) updates.description = input.description;
+    if (input.priority !== undefined) updates.priority = input.priority;
+    if (input.due_date !== undefined) updates.due_date = input.due_date ?? undefined;
+    if (input.estimate !== undefined) updates.estimate = input.estimate ?? undefined;
+    if (input.status !== undefined) updates.status = input.status;
+    if (input.completed !== undefined) updates.completed = input.completed;
+    if (input.progress !== undefined) updates.progress = input.progress;
+
+    const updatedTask = this.taskService.updateTask(db.tasks, task_id, updates);
+    if (input.recurrence !== undefined) {
+      this.taskService.setRecurrence(updatedTask, input.recurrence ? anchorRecurrence(input.recurrence, updatedTask.due_date) : undefined);
+    }
 
+    // Add notes and blockers if provided
+    if (notes) {
+      if (!updatedTask.notes) updatedTask.notes = [];
 
+      if (Array.isArray(notes)) {
+        // Handle array of notes
+        for (const note of notes) {
+          if (note?.trim()) {
+            updatedTask.notes.push(`${new Date().toISOString()}: ${note.trim()}`);
+          }
+        }
+      } else if (typeof notes === 'string' && notes.trim()) {
+        // Handle single note string
+        updatedTask.notes.push(`${new Date().toISOString()}: ${notes.trim()}`);
+      }
+    }
 
-  async generate_handoff_summary(args: any = {}): Promise<any> {
-    this.trackToolUsage('generate_handoff_summary');
-    const { project_id, format = 'detailed' } = args;
+    if (blockers && Array.isArray(blockers)) {
+      updatedTask.blockers = [...(updatedTask.blockers || []), ...blockers];
+    }
 
-    // Always get fresh database reference
-    const database = this.inMemoryStore.getDatabase();
-    let projects = database.projects;
-    if (project_id) {
-      const project = this.projectService.findProjectById(projects, project_id);
-      if (!project) {
-        throw new Error(`Project not found: ${project_id}`);
+    const tagChanges = input.add_tags || input.remove_tags
+      ? this.taskService.updateTags(updatedTask, input.add_tags, input.remove_tags)
+      : { added: [], removed: [] };
+
+    const addedDependencies = input.add_dependencies.filter(id => !updatedTask.depends_on.includes(id) && !input.remove_dependencies.includes(id));
+    const removedDependencies = updatedTask.depends_on.filter(id => input.remove_dependencies.includes(id));
+    this.taskService.validateDependencies(db.tasks, updatedTask, addedDependencies);
+    updatedTask.depends_on = [...updatedTask.depends_on.filter(id => !input.remove_dependencies.includes(id)), ...addedDependencies];
+
+    // Tasks waiting only on this one can start once it is done
+    const byId = new Map(db.tasks.map(t => [t.id, t]));
+    const unblocked = !wasCompleted && updatedTask.completed
+      ? db.tasks.filter(t => t.depends_on?.includes(updatedTask.id) && this.taskService.isActionable(t, byId))
+      : [];
+
+    // Completing the open instance of a recurring task queues up its next occurrence
+    const isOpenInstance = !wasCompleted && updatedTask.completed && updatedTask.recurrence !== undefined
+      && !db.tasks.some(t => t.series_id === updatedTask.series_id && (t.occurrence ?? 1) > (updatedTask.occurrence ?? 1));
+    const nextTask = isOpenInstance
+      ? this.taskService.createNextOccurrence(updatedTask, toDateString(new Date()))
+      : undefined;
+    if (nextTask) {
+      db.tasks.push(nextTask);
+      const project = this.projectService.findProjectById(db.projects, nextTask.project_id);
+      if (project) {
+        this.taskService.linkTaskToProject(nextTask, project, nextTask.parent_id ? this.taskService.findTaskById(db.tasks, nextTask.parent_id) : undefined);
       }
-      projects = [project];
     }
+    const seriesEnded = isOpenInstance && !nextTask;
 
-    // Get session activity data
-    const sessionActivity = this.getSessionActivity();
+    // Add progress note as memory if provided
+    const noteContent = Array.isArray(notes) ? notes.join('; ') : notes;
+    if (noteContent?.trim()) {
+      this.memoryService.addMemory(db.memories, {
+        title: `Progress: ${task.title}`,
+        content: noteContent.trim(),
+        importance: 'medium',
+        project_id: task.project_id,
+        task_id: task.id
+      });
+    }
 
-    let summary = `# [HANDOFF] Enhanced Session Summary\n\n`;
-    summary += `**Generated:** ${new Date().toLocaleString()}\n`;
-    summary += `**Session Duration:** ${sessionActivity.sessionDuration} minutes\n`;
-    summary += `**Session Activity:** ${Object.values(sessionActivity.toolUsageCount).reduce((a, b) => a + b, 0)} tool calls\n\n`;
+    // Parents sum their subtasks' estimates, leaving out cancelled ones
+    if (input.estimate !== undefined || updatedTask.status !== previousStatus || nextTask) {
+      this.taskService.rollUpEstimates(updatedTask, db.tasks);
+    }
 
-    // Add session activity summary
-    if (sessionActivity.tasksCreated.length > 0 || sessionActivity.tasksUpdated.length > 0 || sessionActivity.memoriesCreated.length > 0) {
-      summary += `## [SESSION] What Happened This Session\n\n`;
+    return {
+      task: updatedTask,
+      tagChanges,
+      addedDependencies,
+      removedDependencies,
+      unblocked,
+      nextTask,
+      seriesEnded,
+      newlyDone: !wasCompleted && updatedTask.completed,
+      completionChanged: updatedTask.status !== previousStatus || nextTask !== undefined
+    };
+  }
 
-      if (sessionActivity.tasksCreated.length > 0) {
-        summary += `**Tasks Created:** ${sessionActivity.tasksCreated.length}\n`;
-        sessionActivity.tasksCreated.slice(0, 3).forEach(taskId => {
-          const task = database.tasks.find(t => t.id === taskId);
-          if (task) summary += `- ${task.title}\n`;
-        });
-        if (sessionActivity.tasksCreated.length > 3) {
-          summary += `- ... and ${sessionActivity.tasksCreated.length - 3} more\n`;
-        }
-        summary += `\n`;
-      }
+  /**
+   * Runs create, update and complete operations in order as one transaction, so either
+   * all of them apply or none do. "$N" in task_id, parent_id or a dependency list stands
+   * for the task created by operation N.
+   */
+  async batch(args: any = {}): Promise<any> {
+    return this.safeExecute('batch', async () => {
+      this.trackToolUsage('batch');
+      const { operations, dry_run = false } = args;
 
-      if (sessionActivity.tasksCompleted.length > 0) {
-        summary += `**Tasks Completed:** ${sessionActivity.tasksCompleted.length}\n`;
-        sessionActivity.tasksCompleted.forEach(taskId => {
-          const task = database.tasks.find(t => t.id === taskId);
-          if (task) summary += `- ✅ ${task.title}\n`;
-        });
-        summary += `\n`;
+      if (!Array.isArray(operations) || operations.length === 0) {
+        throw new ValidationError('operations', operations, 'must be a non-empty array of operations');
+      }
+      if (operations.length > MemoryPickleCore.MAX_BATCH_OPERATIONS) {
+        throw new ValidationError('operations', `${operations.length} operations`, `must contain at most ${MemoryPickleCore.MAX_BATCH_OPERATIONS} operations`);
       }
 
-      if (sessionActivity.memoriesCreated.length > 0) {
-        summary += `**Notes/Memories Created:** ${sessionActivity.memoriesCreated.length}\n`;
-        sessionActivity.memoriesCreated.slice(0, 3).forEach(memoryId => {
-          const memory = database.memories.find(m => m.id === memoryId);
-          if (memory) summary += `- ${memory.title}\n`;
-        });
-        if (sessionActivity.memoriesCreated.length > 3) {
-          summary += `- ... and ${sessionActivity.memoriesCreated.length - 3} more\n`;
+      // Validate every operation before touching the database
+      const steps: BatchStep[] = operations.map((operation: any, index: number) => {
+        try {
+          if (!operation || typeof operation !== 'object') {
+            throw new Error('Invalid operation - expected object');
+          }
+          const { op, ...fields } = operation;
+          switch (op) {
+            case 'create':
+              return { op, input: this.parseTaskCreation(fields) };
+            case 'update':
+              return { op, input: this.parseTaskUpdate(fields), fields: Object.keys(fields).filter(key => key !== 'task_id') };
+            case 'complete':
+              return { op, input: this.parseTaskUpdate({ ...fields, completed: true }), fields: [] };
+            default:
+              throw new ValidationError('op', op, "must be 'create', 'update' or 'complete'");
+          }
+        } catch (error) {
+          throw new BatchOperationError(index + 1, operation?.op, error);
         }
-        summary += `\n`;
-      }
+      });
+      const currentProjectId = steps.some(step => step.op === 'create' && !step.input.project_id)
+        ? this.validateCurrentProject()
+        : undefined;
+
+      const results = await this.inMemoryStore.runExclusive(async (db) => {
+        const createdIds: string[] = [];
+        const resolve = (field: string, id: string): string => {
+          const reference = id.match(/^\$(\d+)$/);
+          if (!reference) return id;
+          const createdId = createdIds[Number(reference[1]) - 1];
+          if (!createdId) {
+            throw new ValidationError(field, id, 'must refer to a create operation earlier in the batch');
+          }
+          return createdId;
+        };
 
-      if (Object.keys(sessionActivity.toolUsageCount).length > 0) {
-        summary += `**Tool Usage:**\n`;
-        Object.entries(sessionActivity.toolUsageCount).forEach(([tool, count]) => {
-          summary += `- ${tool}: ${count}x\n`;
+        const results: BatchResult[] = [];
+        const touchedProjects = new Set<string>();
+        steps.forEach((step, index) => {
+          try {
+            if (step.op === 'create') {
+              const { task } = this.applyTaskCreation(db, {
+                ...step.input,
+                project_id: step.input.project_id || currentProjectId!,
+                parent_id: step.input.parent_id && resolve('parent_id', step.input.parent_id),
+                depends_on: step.input.depends_on.map(id => resolve('depends_on', id))
+              });
+              createdIds[index] = task.id;
+              touchedProjects.add(task.project_id);
+              results.push({ op: step.op, task });
+            } else {
+              const outcome = this.applyTaskUpdate(db, {
+                ...step.input,
+                task_id: resolve('task_id', step.input.task_id),
+                add_dependencies: step.input.add_dependencies.map(id => resolve('add_dependencies', id)),
+                remove_dependencies: step.input.remove_dependencies.map(id => resolve('remove_dependencies', id))
+              });
+              if (outcome.completionChanged) {
+                touchedProjects.add(outcome.task.project_id);
+              }
+              results.push({ op: step.op, outcome, fields: step.fields });
+            }
+          } catch (error) {
+            throw new BatchOperationError(index + 1, step.op, error);
+          }
         });
-        summary += `\n`;
-      }
 
-      summary += `---\n\n`;
-    }
+        // One completion pass per project rather than one per operation
+        for (const projectId of touchedProjects) {
+          const project = this.projectService.findProjectById(db.projects, projectId);
+          if (project) {
+            this.projectService.updateProjectCompletion(project, db.tasks);
+          }
+        }
 
-    for (const project of projects) {
-      const projectTasks = database.tasks.filter(task => task.project_id === project.id);
-      const completedTasks = projectTasks.filter(task => task.completed);
-      const activeTasks = projectTasks.filter(task => !task.completed);
+        // A dry run goes through every operation and then discards the draft
+        return {
+          result: results,
+          commit: !dry_run,
+          changedParts: new Set(['tasks', 'memories', 'projects'] as const)
+        };
+      }, 'batch');
 
-      summary += `## [PROJECT] ${project.name}\n\n`;
-      summary += `**Status:** ${project.status}\n`;
-      summary += `**Progress:** ${project.completion_percentage}%\n`;
-      summary += `**Tasks:** ${completedTasks.length}/${projectTasks.length} completed\n\n`;
+      const lines = results.map((result, index) => {
+        if (result.op === 'create') {
+          const parent = result.task.parent_id ? results.find(r => r.op === 'create' && r.task.id === result.task.parent_id) : undefined;
+          return `${index + 1}. Created **${result.task.title}** (${result.task.id})${result.task.parent_id ? ` under ${parent?.op === 'create' ? parent.task.title : result.task.parent_id}` : ''}`;
+        }
+        const { task, unblocked, nextTask } = result.outcome;
+        let line = result.op === 'complete'
+          ? `${index + 1}. Completed **${task.title}** (${task.id})`
+          : `${index + 1}. Updated **${task.title}** (${task.id})${result.fields.length > 0 ? `: ${result.fields.join(', ')}` : ''}`;
+        if (nextTask) {
+          line += ` - next occurrence ${nextTask.id} due ${nextTask.due_date}`;
+        }
+        if (unblocked.length > 0) {
+          line += `\n   Now unblocked: ${unblocked.map(t => `${t.title} (${t.id})`).join(', ')}`;
+        }
+        return line;
+      });
 
-      if (activeTasks.length > 0) {
-        summary += `### [ACTIVE] Active Tasks\n`;
-        activeTasks.forEach(task => {
-          summary += `- **${task.title}** (${task.priority} priority)\n`;
-        });
-        summary += `\n`;
+      if (dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] batch: Would run ${results.length} operations:\n\n${lines.join('\n')}\n\nNo changes made.`
+          }],
+          isError: false
+        };
       }
 
-      if (completedTasks.length > 0) {
-        summary += `### [DONE] Recently Completed\n`;
-        completedTasks.slice(-3).forEach(task => {
-          summary += `- **${task.title}**\n`;
-        });
-        summary += `\n`;
-      }
+      this.buildTaskIndex();
 
-      // Recent memories for context
-      const recentMemories = database.memories
+      // Track session activity
+      for (const result of results) {
+        if (result.op === 'create') {
+          this.trackToolUsage('batch', 'task_created', result.task.id);
+          continue;
+        }
+        this.trackToolUsage('batch', 'task_updated', result.outcome.task.id);
+        if (result.outcome.newlyDone) {
+          this.trackToolUsage('batch', 'task_completed', result.outcome.task.id);
+        }
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: `[OK] **Batch Completed** (${results.length} operations)\n\n${lines.join('\n')}\n`
+        }]
+      };
+    });
+  }
+
+  /**
+   * Deletes a task, handling its subtasks and linked memories according to the chosen modes
+   */
+  async delete_task(args: any): Promise<any> {
+    return this.safeExecute('delete_task', async () => {
+      this.trackToolUsage('delete_task');
+
+      if (!args || typeof args !== 'object') {
+        throw new Error('Invalid arguments - expected object');
+      }
+
+      const { task_id, subtask_mode = 'refuse', memory_mode = 'detach', dry_run = false } = args;
+
+      if (task_id === undefined || task_id === null) {
+        throw new Error("Missing required field 'task_id'");
+      }
+      if (!['cascade', 'reparent', 'refuse'].includes(subtask_mode)) {
+        throw new ValidationError('subtask_mode', subtask_mode, "must be 'cascade', 'reparent' or 'refuse'");
+      }
+      if (!['detach', 'delete'].includes(memory_mode)) {
+        throw new ValidationError('memory_mode', memory_mode, "must be 'detach' or 'delete'");
+      }
+
+      if (dry_run) {
+        const plan = this.taskService.planTaskDeletion(this.inMemoryStore.getDatabase(), task_id, subtask_mode, memory_mode);
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] delete_task: Would delete task '${plan.task.title}'.\n\n${this.taskService.formatTaskDeletionPlan(plan)}\nNo changes made.`
+          }],
+          isError: false
+        };
+      }
+
+      const plan = await this.inMemoryStore.runExclusive(async (db) => {
+        const plan = this.taskService.planTaskDeletion(db, task_id, subtask_mode, memory_mode);
+        this.taskService.applyTaskDeletion(db, plan);
+        this.taskService.rollUpEstimates(plan.task, db.tasks);
+
+        if (plan.project) {
+          this.projectService.updateProjectCompletion(plan.project, db.tasks);
+        }
+
+        return {
+          result: plan,
+          commit: true,
+          changedParts: new Set(['tasks', 'memories', 'projects'] as const)
+        };
+      }, 'delete_task');
+
+      this.buildTaskIndex();
+      this.pruneSessionActivity();
+
+      const project = plan.project
+        ? this.projectService.findProjectById(this.inMemoryStore.getDatabase().projects, plan.project.id)
+        : undefined;
+
+      return {
+        content: [{
+          type: "text",
+          text: `[OK] **Task Deleted**\n\n${this.taskService.formatTaskDeletionPlan(plan)}${project ? `\n**Project Completion:** ${project.completion_percentage}%` : ''}`
+        }]
+      };
+    });
+  }
+
+  // Memory Management Methods
+  async remember_this(args: any): Promise<any> {
+    return this.safeExecute('remember_this', async () => {
+      this.trackToolUsage('remember_this');
+
+      // Basic input validation (MCP schemas handle structure, but we need null checks)
+      if (!args || typeof args !== 'object') {
+        throw new Error('Invalid arguments - expected object');
+      }
+
+      const { defaults } = this.config.values;
+      const { content, title, importance = defaults.memory_importance, category, tags, project_id, task_id, line_range, dry_run = false } = args;
+
+      // Check required fields and sanitize
+      if (content === undefined || content === null) {
+        throw new Error("Missing required field 'content'");
+      }
+
+      const sanitizedContent = ValidationUtils.sanitizeString(content);
+      const sanitizedTitle = title ? ValidationUtils.sanitizeString(title) : undefined;
+
+      if (!sanitizedContent) {
+        throw new Error("Field 'content' cannot be empty");
+      }
+      // Use InMemoryStore validation for memory data
+      const memoryData = {
+        content: sanitizedContent,
+        title: sanitizedTitle,
+        importance,
+        category,
+        tags: this.parseTags('tags', tags),
+        project_id,
+        task_id,
+        line_range
+      };
+
+      const validatedMemory = this.inMemoryStore.validateAndSanitizeInput('memory', memoryData);
+
+      // Handle dry run
+      if (dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] remember_this: Would store memory '${sanitizedTitle || 'Untitled'}' with importance '${importance}' in category '${validatedMemory.category || 'general'}'${validatedMemory.tags?.length ? ` tagged ${validatedMemory.tags.join(', ')}` : ''}. No changes made.`
+          }],
+          isError: false
+        };
+      }
+
+      const result = await this.inMemoryStore.runExclusive(async (db) => {
+        const newMemory = this.memoryService.addMemory(db.memories, {
+          title: validatedMemory.title || `Memory from ${new Date().toLocaleDateString()}`,
+          content: validatedMemory.content,
+          importance: validatedMemory.importance,
+          category: validatedMemory.category,
+          tags: validatedMemory.tags,
+          project_id: validatedMemory.project_id,
+          task_id: validatedMemory.task_id,
+          line_range: validatedMemory.line_range
+        });
+
+        return {
+          result: newMemory,
+          commit: true,
+          changedParts: new Set(['memories'] as const)
+        };
+      }, 'remember_this');
+
+      // Track session activity
+      this.trackToolUsage('remember_this', 'memory_created', result.id);
+
+      // Generate markdown suggestion for critical/high importance memories
+      let markdownSuggestion = '';
+      if (result.importance === 'critical' || result.importance === 'high') {
+        const filename = result.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') + '.md';
+        markdownSuggestion = `\n\n[INFO] **Suggestion:** Since this is ${result.importance} importance, consider creating a markdown file:\n\`\`\`markdown\n# ${result.title}\n\n${result.content}\n\n*Created: ${new Date().toLocaleDateString()}*\n*Importance: ${result.importance}*\n\`\`\`\n\nSave as: \`${filename}\``;
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: `[OK] **Memory Saved!**\n\n**Title:** ${result.title}\n**Importance:** ${result.importance}\n**Category:** ${result.category}${result.tags.length > 0 ? `\n**Tags:** ${result.tags.join(', ')}` : ''}\n**Content:** ${result.content.substring(0, 100)}${result.content.length > 100 ? '...' : ''}${markdownSuggestion}`
+        }]
+      };
+    });
+  }
+
+  /**
+   * Shows a single memory with its links and revision history
+   */
+  async get_memory(args: any): Promise<any> {
+    return this.safeExecute('get_memory', async () => {
+      this.trackToolUsage('get_memory');
+      const { memory_id, include_revisions = true } = args || {};
+
+      if (!memory_id) {
+        throw new Error("Missing required field 'memory_id'");
+      }
+
+      const database = this.inMemoryStore.getDatabase();
+      const memory = this.memoryService.getMemoryById(database.memories, memory_id);
+
+      return {
+        content: [{
+          type: "text",
+          text: this.memoryService.formatMemoryDetails(memory, {
+            includeRevisions: include_revisions,
+            projectName: memory.project_id ? this.projectService.findProjectById(database.projects, memory.project_id)?.name : undefined,
+            taskTitle: memory.task_id ? database.tasks.find(t => t.id === memory.task_id)?.title : undefined
+          })
+        }]
+      };
+    });
+  }
+
+  /**
+   * Edits a memory, keeping its previous state as a revision
+   */
+  async update_memory(args: any): Promise<any> {
+    return this.safeExecute('update_memory', async () => {
+      this.trackToolUsage('update_memory');
+
+      if (!args || typeof args !== 'object') {
+        throw new Error('Invalid arguments - expected object');
+      }
+
+      const { memory_id, title, content, importance, category, tags, project_id, task_id, line_range, dry_run = false } = args;
+
+      if (!memory_id) {
+        throw new Error("Missing required field 'memory_id'");
+      }
+      if (importance !== undefined && !['low', 'medium', 'high', 'critical'].includes(importance)) {
+        throw new Error('Invalid memory importance');
+      }
+
+      const updates = {
+        title: title !== undefined ? ValidationUtils.sanitizeString(title) : undefined,
+        content: content !== undefined ? ValidationUtils.sanitizeString(content) : undefined,
+        category: category !== undefined ? ValidationUtils.sanitizeString(category) : undefined,
+        importance,
+        tags: this.parseTags('tags', tags),
+        project_id,
+        task_id,
+        line_range
+      };
+
+      const database = this.inMemoryStore.getDatabase();
+      const memory = this.memoryService.getMemoryById(database.memories, memory_id);
+
+      const validation = ValidationUtils.validateMemory({ ...memory, ...updates, title: updates.title ?? memory.title, content: updates.content ?? memory.content });
+      if (!validation.isValid) {
+        throw new Error(`Memory validation failed: ${validation.errors.join('; ')}`);
+      }
+      if (project_id && !this.projectService.findProjectById(database.projects, project_id)) {
+        throw new ProjectNotFoundError(project_id, database.projects.map(p => p.id));
+      }
+      if (task_id && !database.tasks.some(t => t.id === task_id)) {
+        throw new TaskNotFoundError(task_id, database.tasks.map(t => t.id));
+      }
+
+      const changedFields = this.memoryService.getChangedFields(memory, updates);
+      if (changedFields.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: `[INFO] Memory '${memory.title}' already has these values. No changes made.`
+          }]
+        };
+      }
+
+      if (dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] update_memory: Would update ${changedFields.join(', ')} of memory '${memory.title}' and keep the current version as revision ${(memory.revisions?.length ?? 0) + 1}. No changes made.`
+          }],
+          isError: false
+        };
+      }
+
+      const result = await this.inMemoryStore.runExclusive(async (db) => {
+        const { memory, changed } = this.memoryService.updateMemory(db.memories, memory_id, updates);
+        return {
+          result: { memory, changed },
+          commit: true,
+          changedParts: new Set(['memories'] as const)
+        };
+      }, 'update_memory');
+
+      return {
+        content: [{
+          type: "text",
+          text: `[OK] **Memory Updated**\n\n**Title:** ${result.memory.title}\n**Changed:** ${result.changed.join(', ')}\n**Revisions:** ${result.memory.revisions?.length ?? 0}\n\nUse \`get_memory\` to see earlier versions.`
+        }]
+      };
+    });
+  }
+
+  /**
+   * Deletes a memory and removes references to it from related memories
+   */
+  async delete_memory(args: any): Promise<any> {
+    return this.safeExecute('delete_memory', async () => {
+      this.trackToolUsage('delete_memory');
+      const { memory_id, dry_run = false } = args || {};
+
+      if (!memory_id) {
+        throw new Error("Missing required field 'memory_id'");
+      }
+
+      const database = this.inMemoryStore.getDatabase();
+      const memory = this.memoryService.getMemoryById(database.memories, memory_id);
+      const referencing = database.memories.filter(m => m.related_memories?.includes(memory_id));
+      const referenceNote = referencing.length > 0
+        ? `\n\n**References removed from:** ${referencing.map(m => `${m.title} (${m.id})`).join(', ')}`
+        : '';
+
+      if (dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] delete_memory: Would delete memory '${memory.title}' with ${memory.revisions?.length ?? 0} revisions.${referenceNote}\n\nNo changes made.`
+          }],
+          isError: false
+        };
+      }
+
+      const deleted = await this.inMemoryStore.runExclusive(async (db) => {
+        return {
+          result: this.memoryService.removeMemory(db.memories, memory_id),
+          commit: true,
+          changedParts: new Set(['memories'] as const)
+        };
+      }, 'delete_memory');
+
+      this.pruneSessionActivity();
+
+      return {
+        content: [{
+          type: "text",
+          text: `[OK] **Memory Deleted**\n\n**Title:** ${deleted.title}\n**ID:** ${deleted.id}${referenceNote}`
+        }]
+      };
+    });
+  }
+
+  /**
+   * Universal state recall - replaces recall_context with comprehensive state overview
+   */
+  async recall_state(args: any = {}): Promise<any> {
+    this.trackToolUsage('recall_state');
+    const { defaults } = this.config.values;
+    const { 
+      limit = defaults.recall_limit, 
+      project_id, 
+      include_completed = false, 
+      memory_importance,
+      memory_category,
+      memory_tags,
+      focus = 'all',
+      format = defaults.output_format,
+      include_archived = false
+    } = args;
+
+    const database = this.getVisibleDatabase(include_archived, project_id);
+    
+    // Generate comprehensive state data
+    const stateData = RecallService.generateStateRecall(database, {
+      limit,
+      project_id,
+      include_completed,
+      memory_importance,
+      memory_category,
+      memory_tags: this.parseTags('memory_tags', memory_tags),
+      due_soon_days: defaults.due_soon_days,
+      focus
+    });
+
+    if (format === 'json') {
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(stateData, null, 2)
+        }]
+      };
+    }
+
+    // Default: formatted text response
+    const formattedText = RecallService.formatStateRecall(stateData);
+    
+    return {
+      content: [{
+        type: "text",
+        text: formattedText
+      }]
+    };
+  }
+
+  async recall_context(args: any = {}): Promise<any> {
+    const { query, project_id, importance, category, limit = 10, include_archived = false } = args;
+    const tags = this.parseTags('tags', args.tags);
+
+    // Always get fresh database reference
+    const database = this.getVisibleDatabase(include_archived, project_id);
+    let memories = database.memories;
+
+    // Apply filters
+    if (project_id) {
+      memories = memories.filter(memory => memory.project_id === project_id);
+    }
+    if (importance) {
+      memories = memories.filter(memory => memory.importance === importance);
+    }
+    if (category || tags) {
+      memories = memories.filter(memory => MemoryService.matchesClassification(memory, { category, tags }));
+    }
+
+    // Simple text search if query provided
+    if (query?.trim()) {
+      const searchTerm = query.trim().toLowerCase();
+      memories = memories.filter(memory =>
+        memory.title.toLowerCase().includes(searchTerm) ||
+        memory.content.toLowerCase().includes(searchTerm)
+      );
+    }
+
+    // Sort by creation date (newest first) and limit
+    memories = memories
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .slice(0, limit);
+
+    if (memories.length === 0) {
+      return {
+        content: [{
+          type: "text",
+          text: `[INFO] **No Memories Found**\n\nNo memories match your search criteria.`
+        }]
+      };
+    }
+
+    let response = `# Recalled Memories\n\n`;
+
+    memories.forEach((memory, index) => {
+      response += `## ${index + 1}. ${memory.title}\n`;
+      response += `**Importance:** ${memory.importance} | **Category:** ${memory.category}\n`;
+      if (memory.tags.length > 0) {
+        response += `**Tags:** ${memory.tags.join(', ')}\n`;
+      }
+      response += `**Date:** ${new Date(memory.timestamp).toLocaleDateString()}\n`;
+      if (memory.project_id) {
+        const project = this.projectService.findProjectById(database.projects, memory.project_id);
+        response += `**Project:** ${project?.name || 'Unknown'}\n`;
+      }
+      response += `**Content:** ${memory.content}\n\n`;
+    });
+
+    return {
+      content: [{
+        type: "text",
+        text: response
+      }]
+    };
+  }
+
+  /**
+   * Lists memory tag and category counts per project
+   */
+  async list_memory_tags(args: any = {}): Promise<any> {
+    this.trackToolUsage('list_memory_tags');
+    const { project_id, include_archived = false, format = this.config.values.defaults.output_format } = args;
+
+    const database = this.getVisibleDatabase(include_archived, project_id);
+    if (project_id && !this.projectService.findProjectById(database.projects, project_id)) {
+      throw new ProjectNotFoundError(project_id, database.projects.map(p => p.id));
+    }
+
+    let summaries = this.memoryService.summarizeTags(database.memories, database.projects, database.tasks);
+    if (project_id) {
+      summaries = summaries.filter(summary => summary.project_id === project_id);
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: format === 'json'
+          ? JSON.stringify(summaries, null, 2)
+          : this.memoryService.formatTagSummary(summaries)
+      }]
+    };
+  }
+
+
+
+
+
+  async generate_handoff_summary(args: any = {}): Promise<any> {
+    this.trackToolUsage('generate_handoff_summary');
+    const { project_id, format = 'detailed' } = args;
+
+    // Always get fresh database reference
+    const database = this.inMemoryStore.getDatabase();
+    let projects = database.projects;
+    if (project_id) {
+      const project = this.projectService.findProjectById(projects, project_id);
+      if (!project) {
+        throw new Error(`Project not found: ${project_id}`);
+      }
+      projects = [project];
+    }
+
+    // Get session activity data
+    const sessionActivity = this.getSessionActivity();
+
+    let summary = `# [HANDOFF] Enhanced Session Summary\n\n`;
+    summary += `**Generated:** ${new Date().toLocaleString()}\n`;
+    summary += `**Session Duration:** ${sessionActivity.sessionDuration} minutes\n`;
+    summary += `**Session Activity:** ${Object.values(sessionActivity.toolUsageCount).reduce((a, b) => a + b, 0)} tool calls\n\n`;
+
+    // Add session activity summary
+    if (sessionActivity.tasksCreated.length > 0 || sessionActivity.tasksUpdated.length > 0 || sessionActivity.memoriesCreated.length > 0) {
+      summary += `## [SESSION] What Happened This Session\n\n`;
+
+      if (sessionActivity.tasksCreated.length > 0) {
+        summary += `**Tasks Created:** ${sessionActivity.tasksCreated.length}\n`;
+        sessionActivity.tasksCreated.slice(0, 3).forEach(taskId => {
+          const task = database.tasks.find(t => t.id === taskId);
+          if (task) summary += `- ${task.title}\n`;
+        });
+        if (sessionActivity.tasksCreated.length > 3) {
+          summary += `- ... and ${sessionActivity.tasksCreated.length - 3} more\n`;
+        }
+        summary += `\n`;
+      }
+
+      if (sessionActivity.tasksCompleted.length > 0) {
+        summary += `**Tasks Completed:** ${sessionActivity.tasksCompleted.length}\n`;
+        sessionActivity.tasksCompleted.forEach(taskId => {
+          const task = database.tasks.find(t => t.id === taskId);
+          if (task) summary += `- ✅ ${task.title}\n`;
+        });
+        summary += `\n`;
+      }
+
+      if (sessionActivity.memoriesCreated.length > 0) {
+        summary += `**Notes/Memories Created:** ${sessionActivity.memoriesCreated.length}\n`;
+        sessionActivity.memoriesCreated.slice(0, 3).forEach(memoryId => {
+          const memory = database.memories.find(m => m.id === memoryId);
+          if (memory) summary += `- ${memory.title}\n`;
+        });
+        if (sessionActivity.memoriesCreated.length > 3) {
+          summary += `- ... and ${sessionActivity.memoriesCreated.length - 3} more\n`;
+        }
+        summary += `\n`;
+      }
+
+      if (Object.keys(sessionActivity.toolUsageCount).length > 0) {
+        summary += `**Tool Usage:**\n`;
+        Object.entries(sessionActivity.toolUsageCount).forEach(([tool, count]) => {
+          summary += `- ${tool}: ${count}x\n`;
+        });
+        summary += `\n`;
+      }
+
+      summary += `---\n\n`;
+    }
+
+    // Time from entries started or logged this session, per task; a running timer counts up to now
+    const sessionEntryIds = new Set(sessionActivity.timeEntries);
+    const sessionTime = database.tasks
+      .map(task => ({ task, entries: task.time_entries.filter(entry => sessionEntryIds.has(entry.id)) }))
+      .filter(({ entries }) => entries.length > 0)
+      .map(({ task, entries }) => ({ task, minutes: totalMinutes(entries) }));
+    if (sessionTime.length > 0) {
+      summary += `## [TIME] Time Tracked This Session\n\n`;
+      summary += `**Total:** ${formatDuration(sessionTime.reduce((sum, { minutes }) => sum + minutes, 0))}\n`;
+      sessionTime.forEach(({ task, minutes }) => {
+        summary += `- **${task.title}:** ${formatDuration(minutes)}\n`;
+      });
+      const running = sessionActivity.runningTimer;
+      const runningTask = running && database.tasks.find(task => task.id === running.task_id);
+      if (runningTask) {
+        summary += `\n**Timer Running:** ${runningTask.title} - stop it with \`stop_timer\` before ending the session\n`;
+      }
+      summary += `\n---\n\n`;
+    }
+
+    for (const project of projects) {
+      const projectTasks = database.tasks.filter(task => task.project_id === project.id);
+      const byStatus = (status: TaskStatus) => projectTasks.filter(task => task.status === status);
+      const completedTasks = byStatus('done');
+      const cancelledTasks = byStatus('cancelled');
+
+      summary += `## [PROJECT] ${project.name}\n\n`;
+      summary += `**Status:** ${project.status}\n`;
+      summary += `**Progress:** ${project.completion_percentage}%\n`;
+      summary += `**Tasks:** ${completedTasks.length}/${projectTasks.length - cancelledTasks.length} completed${cancelledTasks.length > 0 ? ` (${cancelledTasks.length} cancelled)` : ''}\n\n`;
+
+      // Open work by status, the furthest along first
+      const openSections: Array<[TaskStatus, string]> = [['in_review', 'In Review'], ['in_progress', 'In Progress'], ['blocked', 'Blocked'], ['todo', 'To Do']];
+      for (const [status, heading] of openSections) {
+        const tasks = byStatus(status);
+        if (tasks.length === 0) continue;
+        summary += `### ${formatStatusLabel(status)} ${heading}\n`;
+        tasks.forEach(task => {
+          summary += `- **${task.title}** (${task.priority} priority)${task.progress ? ` - ${task.progress}%` : ''}\n`;
+          if (status === 'blocked' && task.blockers && task.blockers.length > 0) {
+            summary += `  Blocked by: ${task.blockers.join(', ')}\n`;
+          }
+        });
+        summary += `\n`;
+      }
+
+      if (completedTasks.length > 0) {
+        summary += `### [DONE] Recently Completed\n`;
+        completedTasks.slice(-3).forEach(task => {
+          summary += `- **${task.title}**\n`;
+        });
+        summary += `\n`;
+      }
+
+      if (cancelledTasks.length > 0) {
+        summary += `### [CANCELLED] Cancelled\n`;
+        cancelledTasks.slice(-3).forEach(task => {
+          summary += `- **${task.title}**\n`;
+        });
+        summary += `\n`;
+      }
+
+      // Recent memories for context
+      const recentMemories = database.memories
         .filter(memory => memory.project_id === project.id)
         .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
         .slice(0, 3);
 
-      if (recentMemories.length > 0) {
-        summary += `### [NOTES] Recent Notes\n`;
-        recentMemories.forEach(memory => {
-          summary += `- **${memory.title}:** ${memory.content.substring(0, 100)}${memory.content.length > 100 ? '...' : ''}\n`;
-        });
-        summary += `\n`;
+      if (recentMemories.length > 0) {
+        summary += `### [NOTES] Recent Notes\n`;
+        recentMemories.forEach(memory => {
+          summary += `- **${memory.title}:** ${memory.content.substring(0, 100)}${memory.content.length > 100 ? '...' : ''}\n`;
+        });
+        summary += `\n`;
+      }
+
+      summary += `---\n\n`;
+    }
+
+    // Add markdown file suggestion
+    const dateStr = new Date().toISOString().split('T')[0];
+    const markdownSuggestion = `\n\n[SUGGESTION] Save this summary as a markdown file for future reference:\n\`session-summary-${dateStr}.md\`\n\nThis will help you pick up where you left off in future sessions.`;
+
+    return {
+      content: [{
+        type: "text",
+        text: summary + markdownSuggestion
+      }]
+    };
+  }
+
+
+  async set_current_project(args: any): Promise<any> {
+    this.trackToolUsage('set_current_project');
+    const { project_id, dry_run = false } = args;
+
+    if (!project_id) {
+      throw new Error('Project ID is required');
+    }
+
+    // Handle dry run
+    if (dry_run) {
+      return {
+        content: [{
+          type: "text",
+          text: `[DRY RUN] set_current_project: Would set project '${project_id}' as current project. No changes made.`
+        }],
+        isError: false
+      };
+    }
+
+    const result = await this.inMemoryStore.runExclusive(async (db) => {
+      const project = this.projectService.findProjectById(db.projects, project_id);
+      if (!project) {
+        throw new Error(`Project not found: ${project_id}`);
+      }
+
+      // Update meta information
+      if (!db.meta) {
+        db.meta = {
+          last_updated: new Date().toISOString(),
+          version: CURRENT_SCHEMA_VERSION,
+          session_count: 0,
+          current_project_id: project_id
+        };
+      } else {
+        db.meta.current_project_id = project_id;
+      }
+
+      return {
+        result: project,
+        commit: true,
+        changedParts: new Set(['meta'] as const)
+      };
+    }, 'set_current_project');
+
+    // Track session activity
+    this.trackToolUsage('set_current_project', 'project_switched', result.id);
+
+
+    return {
+      content: [{
+        type: "text",
+        text: `[OK] Current project set to: **${result.name}**\n\nAll new tasks will be added to this project by default.`
+      }]
+    };
+  }
+
+
+
+  // Snapshot Methods
+  async create_snapshot(args: any = {}): Promise<any> {
+    return this.safeExecute('create_snapshot', async () => {
+      this.trackToolUsage('create_snapshot');
+      const { label, dry_run = false } = args;
+
+      const sanitizedLabel = label !== undefined && label !== null
+        ? ValidationUtils.sanitizeString(label)
+        : `Snapshot ${new Date().toLocaleString()}`;
+
+      if (!sanitizedLabel) {
+        throw new Error("Field 'label' cannot be empty");
+      }
+      if (sanitizedLabel.length > 200) {
+        throw new Error('Snapshot label cannot exceed 200 characters');
+      }
+
+      if (dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] create_snapshot: Would capture snapshot '${sanitizedLabel}'. No changes made.`
+          }],
+          isError: false
+        };
+      }
+
+      const snapshot = await this.inMemoryStore.createNamedSnapshot(sanitizedLabel);
+
+      return {
+        content: [{
+          type: "text",
+          text: `[OK] **Snapshot Created!**\n\n**Label:** ${snapshot.label}\n**ID:** ${snapshot.id}\n**Captured:** ${snapshot.projects} projects, ${snapshot.tasks} tasks, ${snapshot.memories} memories\n\n[INFO] Use \`restore_snapshot\` with this ID to return to this state. Snapshots are kept for the lifetime of the server.`
+        }]
+      };
+    });
+  }
+
+  async list_snapshots(args: any = {}): Promise<any> {
+    this.trackToolUsage('list_snapshots');
+
+    const snapshots = this.inMemoryStore.listSnapshots();
+
+    if (snapshots.length === 0) {
+      return {
+        content: [{
+          type: "text",
+          text: `[INFO] **No Snapshots Found**\n\nUse the \`create_snapshot\` tool to capture the current state.`
+        }]
+      };
+    }
+
+    let response = `# Snapshots\n\n`;
+    response += `**Total Snapshots:** ${snapshots.length}\n\n`;
+    snapshots.forEach((snapshot, index) => {
+      response += `${index + 1}. **${snapshot.label}**\n`;
+      response += `   ID: ${snapshot.id} | Created: ${new Date(snapshot.created_at).toLocaleString()}\n`;
+      response += `   Contents: ${snapshot.projects} projects, ${snapshot.tasks} tasks, ${snapshot.memories} memories\n\n`;
+    });
+
+    return {
+      content: [{
+        type: "text",
+        text: response
+      }]
+    };
+  }
+
+  async restore_snapshot(args: any): Promise<any> {
+    return this.safeExecute('restore_snapshot', async () => {
+      this.trackToolUsage('restore_snapshot');
+
+      if (!args || typeof args !== 'object') {
+        throw new Error('Invalid arguments - expected object');
+      }
+
+      const { snapshot_id, dry_run = false } = args;
+
+      if (!snapshot_id) {
+        throw new Error("Missing required field 'snapshot_id'");
+      }
+
+      const snapshot = this.inMemoryStore.getSnapshot(snapshot_id);
+
+      if (dry_run) {
+        const database = this.inMemoryStore.getDatabase();
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] restore_snapshot: Would restore snapshot '${snapshot.label}' (${snapshot.projects} projects, ${snapshot.tasks} tasks, ${snapshot.memories} memories), replacing the current ${database.projects.length} projects, ${database.tasks.length} tasks and ${database.memories.length} memories. No changes made.`
+          }],
+          isError: false
+        };
+      }
+
+      // Keep the current state so the restore itself can be reverted
+      const { backup } = await this.inMemoryStore.restoreSnapshot(snapshot_id, `Before restoring '${snapshot.label}'`);
+
+      this.buildTaskIndex();
+      this.pruneSessionActivity();
+
+      return {
+        content: [{
+          type: "text",
+          text: `[OK] **Snapshot Restored!**\n\n**Label:** ${snapshot.label}\n**Restored:** ${snapshot.projects} projects, ${snapshot.tasks} tasks, ${snapshot.memories} memories\n\n[INFO] The previous state was saved as snapshot ${backup!.id}. Restore it to undo this change. Undo history has been cleared.`
+        }]
+      };
+    });
+  }
+
+  // History Methods
+  async undo(args: any = {}): Promise<any> {
+    return this.safeExecute('undo', async () => {
+      this.trackToolUsage('undo');
+      return this.stepHistory('undo', args);
+    });
+  }
+
+  async redo(args: any = {}): Promise<any> {
+    return this.safeExecute('redo', async () => {
+      this.trackToolUsage('redo');
+      return this.stepHistory('redo', args);
+    });
+  }
+
+  /**
+   * Shared implementation of undo and redo
+   */
+  private async stepHistory(direction: 'undo' | 'redo', args: any): Promise<any> {
+    const { steps = 1, dry_run = false } = args || {};
+
+    if (!Number.isInteger(steps) || steps < 1 || steps > 50) {
+      throw new Error('Steps must be an integer between 1 and 50');
+    }
+
+    const verb = direction === 'undo' ? 'reverted' : 'reapplied';
+    const history = this.inMemoryStore.getHistory()[direction];
+
+    if (history.length === 0) {
+      return {
+        content: [{
+          type: "text",
+          text: `[INFO] **Nothing to ${direction === 'undo' ? 'Undo' : 'Redo'}**\n\nThere are no ${direction === 'undo' ? 'recent changes to revert' : 'undone changes to reapply'}.`
+        }]
+      };
+    }
+
+    if (dry_run) {
+      const preview = history.slice(0, steps).map(entry => `- would be ${verb}: ${entry.description}`).join('\n');
+      return {
+        content: [{
+          type: "text",
+          text: `[DRY RUN] ${direction}:\n${preview}\n\nNo changes made.`
+        }],
+        isError: false
+      };
+    }
+
+    const entries = direction === 'undo'
+      ? await this.inMemoryStore.undo(steps)
+      : await this.inMemoryStore.redo(steps);
+
+    this.buildTaskIndex();
+    this.pruneSessionActivity();
+
+    const remaining = this.inMemoryStore.getHistory();
+    let response = `[OK] **${direction === 'undo' ? 'Undo' : 'Redo'} Complete**\n\n`;
+    entries.forEach(entry => {
+      response += `- ${verb}: ${entry.description}\n`;
+    });
+    response += `\n[INFO] ${remaining.undo.length} change(s) can be undone, ${remaining.redo.length} can be redone.`;
+
+    return {
+      content: [{
+        type: "text",
+        text: response
+      }]
+    };
+  }
+
+  // Getter methods for accessing internal state (useful for handlers)
+  getDatabase(): ProjectDatabase {
+    return this.inMemoryStore.getDatabase();
+  }
+
+  getTaskIndex(): Map<string, Task> {
+    return this.taskIndex;
+  }
+
+  /**
+   * Cleanup method for graceful shutdown
+   */
+  async shutdown(): Promise<void> {
+    this.isShuttingDown = true;
+
+    // Clear task index to free memory
+    this.taskIndex.clear();
+
+    // Cleanup in-memory stores of every loaded workspace
+    this.inMemoryStore.cleanup();
+    this.inactiveWorkspaces.forEach(state => state.store.cleanup());
+    this.inactiveWorkspaces.clear();
+  }
+
+  /**
+   * Track tool usage and session activity
+   */
+  private trackToolUsage(toolName: string, activityType?: string, itemId?: string) {
+    // Track tool usage count
+    const currentCount = this.sessionActivity.toolUsageCount.get(toolName) || 0;
+    this.sessionActivity.toolUsageCount.set(toolName, currentCount + 1);
+
+    // Track specific activities
+    if (activityType && itemId) {
+      switch (activityType) {
+        case 'task_created':
+          this.sessionActivity.tasksCreated.push(itemId);
+          break;
+        case 'task_updated':
+          this.sessionActivity.tasksUpdated.push(itemId);
+          break;
+        case 'task_completed':
+          this.sessionActivity.tasksCompleted.push(itemId);
+          break;
+        case 'memory_created':
+          this.sessionActivity.memoriesCreated.push(itemId);
+          break;
+        case 'project_created':
+          this.sessionActivity.projectsCreated.push(itemId);
+          break;
+        case 'project_switched':
+          this.sessionActivity.projectSwitches.push(itemId);
+          this.sessionActivity.lastActiveProject = itemId;
+          break;
+        case 'time_tracked':
+          this.sessionActivity.timeEntries.push(itemId);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Get session activity summary
+   */
+  getSessionActivity() {
+    return {
+      ...this.sessionActivity,
+      sessionDuration: Math.round((Date.now() - this.sessionStartTime.getTime()) / 1000 / 60),
+      toolUsageCount: Object.fromEntries(this.sessionActivity.toolUsageCount)
+    };
+  }
+
+  /**
+   * Drops session activity entries that refer to items no longer in the database,
+   * e.g. after a snapshot restore replaced the database wholesale
+   */
+  private pruneSessionActivity(): void {
+    const database = this.inMemoryStore.getDatabase();
+    const taskIds = new Set(database.tasks.map(task => task.id));
+    const completedTaskIds = new Set(database.tasks.filter(task => task.completed).map(task => task.id));
+    const memoryIds = new Set(database.memories.map(memory => memory.id));
+    const projectIds = new Set(database.projects.map(project => project.id));
+
+    const activity = this.sessionActivity;
+    activity.tasksCreated = activity.tasksCreated.filter(id => taskIds.has(id));
+    activity.tasksUpdated = activity.tasksUpdated.filter(id => taskIds.has(id));
+    activity.tasksCompleted = activity.tasksCompleted.filter(id => completedTaskIds.has(id));
+    activity.memoriesCreated = activity.memoriesCreated.filter(id => memoryIds.has(id));
+    activity.projectsCreated = activity.projectsCreated.filter(id => projectIds.has(id));
+    activity.projectSwitches = activity.projectSwitches.filter(id => projectIds.has(id));
+    if (activity.lastActiveProject && !projectIds.has(activity.lastActiveProject)) {
+      activity.lastActiveProject = undefined;
+    }
+    const entries = new Map(database.tasks.flatMap(task => task.time_entries.map(entry => [entry.id, entry] as const)));
+    activity.timeEntries = activity.timeEntries.filter(id => entries.has(id));
+    const running = activity.runningTimer && entries.get(activity.runningTimer.entry_id);
+    if (activity.runningTimer && (!running || running.end !== undefined)) {
+      activity.runningTimer = undefined;
+    }
+  }
+
+  /**
+   * Reset session activity (useful for testing)
+   */
+  resetSessionActivity() {
+    this.sessionActivity = createSessionActivity();
+    this.sessionStartTime = new Date();
+  }
+
+  // MCP Tool Wrappers for hidden methods
+  
+  /**
+   * Internal system stats (no longer exposed as MCP tool)
+   */
+  private async get_system_stats(args: any = {}): Promise<any> {
+    this.trackToolUsage('get_system_stats');
+    const { dry_run = false } = args;
+
+    if (dry_run) {
+      return {
+        content: [{
+          type: "text",
+          text: `[DRY RUN] get_system_stats: Would return current system statistics. No changes made.`
+        }],
+        isError: false
+      };
+    }
+
+    const stats = this.getSystemStats();
+    
+    return {
+      content: [{
+        type: "text",
+        text: `[INFO] **System Statistics**\n\n**Database:**\n- Projects: ${stats.database.projects}\n- Tasks: ${stats.database.tasks}\n- Memories: ${stats.database.memories}\n- Queued Operations: ${stats.database.queuedOperations}\n- Last Updated: ${stats.database.lastUpdated}\n\n**Session:**\n- Task Index Size: ${stats.taskIndexSize}\n- Session Duration: ${stats.sessionDuration} minutes\n- Status: ${stats.isShuttingDown ? 'Shutting down' : 'Active'}`
+      }]
+    };
+  }
+
+  /**
+   * Internal data cleanup (no longer exposed as MCP tool)
+   */
+  private async cleanup_orphaned_data(args: any = {}): Promise<any> {
+    return this.safeExecute('cleanup_orphaned_data', async () => {
+      this.trackToolUsage('cleanup_orphaned_data');
+      const { dry_run = false } = args;
+
+      if (dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] cleanup_orphaned_data: Would perform data integrity cleanup. No changes made.`
+          }],
+          isError: false
+        };
+      }
+
+      const stats = await this.cleanupOrphanedData();
+      
+      let report = `[OK] **Data Cleanup Complete**\n\n`;
+      report += `**Issues Fixed:**\n`;
+      report += `- Orphaned Tasks: ${stats.orphanedTasks}\n`;
+      report += `- Orphaned Memories: ${stats.orphanedMemories}\n`;
+      report += `- Invalid Task References: ${stats.invalidTaskReferences}\n`;
+      report += `- Invalid Current Project: ${stats.invalidCurrentProject ? 'Yes' : 'No'}\n`;
+      report += `- Duplicates Removed: ${stats.duplicatesRemoved}\n`;
+      report += `- Corrupted Data Fixed: ${stats.corruptedDataFixed}\n\n`;
+      
+      const totalIssues = stats.orphanedTasks + stats.orphanedMemories + stats.invalidTaskReferences + 
+                         (stats.invalidCurrentProject ? 1 : 0) + stats.duplicatesRemoved + stats.corruptedDataFixed;
+      
+      if (totalIssues === 0) {
+        report += `[INFO] Database is clean - no issues found.`;
+      } else {
+        report += `[INFO] Fixed ${totalIssues} total issues.`;
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: report
+        }]
+      };
+    });
+  }
+
+  // New Read-Only Tools for better agent workflow
+
+  /**
+   * List tasks with filtering and pagination
+   */
+  async list_tasks(args: any = {}): Promise<any> {
+    this.trackToolUsage('list_tasks');
+    const { status, priority, project_id, completed, tags, tag_match = 'any', due_after, due_before, sort_by = 'priority', limit = 50, offset = 0, include_archived = false } = args;
+
+    if (!['any', 'all'].includes(tag_match)) {
+      throw new ValidationError('tag_match', tag_match, "must be 'any' or 'all'");
+    }
+    if (!['priority', 'due_date', 'created_date'].includes(sort_by)) {
+      throw new ValidationError('sort_by', sort_by, "must be 'priority', 'due_date' or 'created_date'");
+    }
+    // 'active' matches every open status and 'completed' is kept as an alias for 'done'
+    const statusFilter: string[] | undefined = status === undefined ? undefined : Array.isArray(status) ? status : [status];
+    const invalidStatus = statusFilter?.find(s => s !== 'active' && s !== 'completed' && !TASK_STATUSES.includes(s as TaskStatus));
+    if (statusFilter && (statusFilter.length === 0 || invalidStatus !== undefined)) {
+      throw new ValidationError('status', invalidStatus ?? status, `must be 'active', 'completed' or one of: ${TASK_STATUSES.join(', ')}`);
+    }
+    const tagFilter = this.parseTags('tags', tags);
+    const dueAfter = due_after !== undefined ? parseDueDate(due_after, { field: 'due_after' }) : undefined;
+    const dueBefore = due_before !== undefined ? parseDueDate(due_before, { field: 'due_before' }) : undefined;
+
+    const database = this.getVisibleDatabase(include_archived, project_id);
+    let tasks = database.tasks;
+
+    // Apply filters
+    if (project_id) {
+      tasks = tasks.filter(task => task.project_id === project_id);
+    }
+    if (statusFilter) {
+      tasks = tasks.filter(task => statusFilter.some(s =>
+        s === 'active' ? isOpenTask(task) : s === 'completed' ? task.status === 'done' : task.status === s));
+    }
+    if (completed !== undefined) {
+      tasks = tasks.filter(task => task.completed === completed);
+    }
+    if (priority) {
+      tasks = tasks.filter(task => task.priority === priority);
+    }
+    if (tagFilter && tagFilter.length > 0) {
+      tasks = tasks.filter(task => this.taskService.matchesTags(task, tagFilter, tag_match));
+    }
+    // The due window is inclusive and leaves out tasks without a due date
+    if (dueAfter || dueBefore) {
+      tasks = tasks.filter(task => task.due_date
+        && (!dueAfter || task.due_date >= dueAfter)
+        && (!dueBefore || task.due_date <= dueBefore));
+    }
+
+    // Sort by priority (critical > high > medium > low), due date (undated last) or creation date, newest first on ties
+    const priorityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
+    tasks = tasks.sort((a, b) => {
+      if (sort_by === 'due_date') {
+        if (a.due_date !== b.due_date) {
+          if (!a.due_date) return 1;
+          if (!b.due_date) return -1;
+          return a.due_date.localeCompare(b.due_date);
+        }
+      } else if (sort_by === 'priority') {
+        const priorityDiff = priorityOrder[a.priority] - priorityOrder[b.priority];
+        if (priorityDiff !== 0) return priorityDiff;
+      }
+      return new Date(b.created_date).getTime() - new Date(a.created_date).getTime();
+    });
+
+    // Apply pagination
+    const totalTasks = tasks.length;
+    tasks = tasks.slice(offset, offset + limit);
+
+    // Format response
+    let response = `# Task List\n\n`;
+    response += `**Total Tasks:** ${totalTasks} (showing ${tasks.length})\n`;
+    if (project_id) {
+      const project = this.projectService.findProjectById(database.projects, project_id);
+      response += `**Project:** ${project?.name || 'Unknown'}\n`;
+    }
+    if (tagFilter && tagFilter.length > 0) {
+      response += `**Tags (${tag_match}):** ${tagFilter.join(', ')}\n`;
+    }
+    if (statusFilter) {
+      response += `**Status:** ${statusFilter.join(', ')}\n`;
+    }
+    if (dueAfter || dueBefore) {
+      response += `**Due:** ${dueAfter ?? 'any time'} to ${dueBefore ?? 'any time'}\n`;
+    }
+    if (sort_by !== 'priority') {
+      response += `**Sorted By:** ${sort_by}\n`;
+    }
+    response += `\n`;
+
+    if (tasks.length === 0) {
+      response += `[INFO] No tasks found matching the criteria.`;
+    } else {
+      tasks.forEach((task, index) => {
+        response += `${offset + index + 1}. **${task.title}** ${formatStatusLabel(task.status)}\n`;
+        response += `   Priority: ${task.priority}${task.estimate ? ` | Estimate: ${formatEstimate(task.estimate)}` : ''} | ID: ${task.id}\n`;
+        if (task.due_date) {
+          response += `   Due: ${task.due_date}${isOpenTask(task) ? ` (${describeDueDate(task.due_date)})` : ''}\n`;
+        }
+        if (task.recurrence) {
+          response += `   Repeats: ${describeRecurrence(task.recurrence)}\n`;
+        }
+        if (task.tags.length > 0) {
+          response += `   Tags: ${task.tags.join(', ')}\n`;
+        }
+        if (task.progress && task.progress > 0) {
+          response += `   Progress: ${task.progress}%\n`;
+        }
+        if (task.description) {
+          response += `   ${task.description.substring(0, 100)}${task.description.length > 100 ? '...' : ''}\n`;
+        }
+        response += `\n`;
+      });
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: response
+      }]
+    };
+  }
+
+  /**
+   * List projects with basic info
+   */
+  async list_projects(args: any = {}): Promise<any> {
+    this.trackToolUsage('list_projects');
+    const { status, limit = 50, offset = 0, include_archived = false } = args;
+
+    const database = this.getVisibleDatabase(include_archived || status === 'archived');
+    let projects = database.projects;
+
+    // Apply filters
+    if (status) {
+      projects = projects.filter(project => project.status === status);
+    }
+
+    // Sort by status priority and creation date
+    const statusOrder = { in_progress: 0, planning: 1, blocked: 2, completed: 3, archived: 4 };
+    projects = projects.sort((a, b) => {
+      const statusDiff = (statusOrder[a.status] || 99) - (statusOrder[b.status] || 99);
+      if (statusDiff !== 0) return statusDiff;
+      return new Date(b.created_date).getTime() - new Date(a.created_date).getTime();
+    });
+
+    // Apply pagination
+    const totalProjects = projects.length;
+    projects = projects.slice(offset, offset + limit);
+
+    // Calculate task counts for each project
+    const projectsWithStats = projects.map(project => {
+      // Cancelled tasks are left out of the totals
+      const projectTasks = database.tasks.filter(task => task.project_id === project.id && task.status !== 'cancelled');
+      const completedTasks = projectTasks.filter(task => task.completed);
+      return {
+        ...project,
+        totalTasks: projectTasks.length,
+        completedTasks: completedTasks.length,
+        // Time spent on cancelled tasks was still spent
+        trackedMinutes: database.tasks
+          .filter(task => task.project_id === project.id)
+          .reduce((sum, task) => sum + totalMinutes(task.time_entries), 0),
+        completion: projectTasks.length > 0 ? Math.round((completedTasks.length / projectTasks.length) * 100) : 0
+      };
+    });
+
+    // Format response
+    let response = `# Project List\n\n`;
+    response += `**Total Projects:** ${totalProjects} (showing ${projects.length})\n\n`;
+
+    if (projectsWithStats.length === 0) {
+      response += `[INFO] No projects found matching the criteria.`;
+    } else {
+      projectsWithStats.forEach((project, index) => {
+        const isCurrentProject = database.meta?.current_project_id === project.id;
+        const currentMarker = isCurrentProject ? ' [CURRENT]' : '';
+        
+        response += `${offset + index + 1}. **${project.name}**${currentMarker}\n`;
+        response += `   Status: ${project.status} | Completion: ${project.completion}%\n`;
+        response += `   Tasks: ${project.completedTasks}/${project.totalTasks} completed\n`;
+        if (project.trackedMinutes > 0) {
+          response += `   Time Logged: ${formatDuration(project.trackedMinutes)}\n`;
+        }
+        response += `   ID: ${project.id}\n`;
+        if (project.description) {
+          response += `   ${project.description.substring(0, 100)}${project.description.length > 100 ? '...' : ''}\n`;
+        }
+        response += `\n`;
+      });
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: response
+      }]
+    };
+  }
+
+  /**
+   * Get detailed info for a single task
+   */
+  async get_task(args: any): Promise<any> {
+    this.trackToolUsage('get_task');
+    const { task_id } = args;
+
+    if (!task_id) {
+      throw new Error('Task ID is required');
+    }
+
+    const database = this.inMemoryStore.getDatabase();
+    const task = this.taskService.findTaskById(database.tasks, task_id);
+    
+    if (!task) {
+      throw new Error(`Task not found: ${task_id}`);
+    }
+
+    // Get project info
+    const project = this.projectService.findProjectById(database.projects, task.project_id);
+    
+    // Get subtasks if any
+    const subtasks = database.tasks.filter(t => t.parent_id === task_id);
+    
+    // Get related memories
+    const relatedMemories = database.memories.filter(m => m.task_id === task_id);
+
+    // Format detailed response
+    let response = `# Task Details: ${task.title}\n\n`;
+    response += `**ID:** ${task.id}\n`;
+    response += `**Status:** ${task.status} ${formatStatusLabel(task.status)}\n`;
+    response += `**Priority:** ${task.priority}\n`;
+    response += `**Project:** ${project?.name || 'Unknown'} (${task.project_id})\n`;
+    response += `**Created:** ${new Date(task.created_date).toLocaleDateString()}\n`;
+
+    if (task.due_date) {
+      response += `**Due:** ${task.due_date}${isOpenTask(task) ? ` (${describeDueDate(task.due_date)})` : ''}\n`;
+    }
+
+    if (task.series_id) {
+      response += `**Repeats:** ${task.recurrence ? describeRecurrence(task.recurrence) : 'no longer'} (occurrence ${task.occurrence ?? 1} of series ${task.series_id})\n`;
+    }
+
+    if (task.completed && task.completed_date) {
+      response += `**Completed:** ${new Date(task.completed_date).toLocaleDateString()}\n`;
+    }
+    
+    if (task.progress && task.progress > 0) {
+      response += `**Progress:** ${task.progress}%\n`;
+    }
+
+    if (task.estimate) {
+      response += `**Estimate:** ${formatEstimate(task.estimate)}${this.taskService.hasEstimatedSubtasks(task, database.tasks) ? ' (from subtasks)' : ''}\n`;
+    }
+
+    const tracked = this.taskService.getTrackedMinutes(task, database.tasks);
+    const runningEntry = this.taskService.findRunningEntry(task);
+    if (task.time_entries.length > 0) {
+      response += `**Time Logged:** ${formatDuration(tracked.own)} (${task.time_entries.length} ${task.time_entries.length === 1 ? 'entry' : 'entries'})${runningEntry ? ', timer running' : ''}\n`;
+    }
+    if (tracked.total > tracked.own) {
+      response += `**Time Incl. Subtasks:** ${formatDuration(tracked.total)}\n`;
+    }
+    
+    response += `\n`;
+
+    if (task.description) {
+      response += `## Description\n${task.description}\n\n`;
+    }
+
+    if (task.line_range) {
+      response += `## Code Reference\n`;
+      response += `File: ${task.line_range.file_path}\n`;
+      response += `Lines: ${task.line_range.start_line}-${task.line_range.end_line}\n\n`;
+    }
+
+    if (task.blockers && task.blockers.length > 0) {
+      response += `## Blockers\n`;
+      task.blockers.forEach((blocker, index) => {
+        response += `${index + 1}. ${blocker}\n`;
+      });
+      response += `\n`;
+    }
+
+    if (task.time_entries.length > 0) {
+      response += `## Time Entries (${task.time_entries.length})\n`;
+      task.time_entries.slice(-5).forEach(entry => {
+        const length = entry.end ? formatDuration(entryMinutes(entry)) : `running for ${formatDuration(entryMinutes(entry))}`;
+        response += `- ${new Date(entry.start).toLocaleString()}: ${length}${entry.note ? ` - ${entry.note}` : ''}\n`;
+      });
+      if (task.time_entries.length > 5) {
+        response += `... and ${task.time_entries.length - 5} earlier entries\n`;
       }
+      response += `\n`;
+    }
 
-      summary += `---\n\n`;
+    if (task.notes && task.notes.length > 0) {
+      response += `## Notes\n`;
+      task.notes.slice(-3).forEach(note => {
+        response += `- ${note}\n`;
+      });
+      if (task.notes.length > 3) {
+        response += `... and ${task.notes.length - 3} more notes\n`;
+      }
+      response += `\n`;
+    }
+
+    if (subtasks.length > 0) {
+      response += `## Subtasks (${subtasks.length})\n`;
+      subtasks.forEach((subtask, index) => {
+        response += `${index + 1}. **${subtask.title}** ${formatStatusLabel(subtask.status)}\n`;
+      });
+      response += `\n`;
+    }
+
+    const dependencies = task.depends_on.map(id => database.tasks.find(t => t.id === id)).filter((t): t is Task => !!t);
+    if (dependencies.length > 0) {
+      response += `## Depends On (${dependencies.length})\n`;
+      dependencies.forEach((dependency, index) => {
+        response += `${index + 1}. **${dependency.title}** ${formatStatusLabel(dependency.status)} - ${dependency.id}\n`;
+      });
+      response += `\n`;
+    }
+
+    const dependents = database.tasks.filter(t => t.depends_on?.includes(task_id));
+    if (dependents.length > 0) {
+      response += `## Blocks (${dependents.length})\n`;
+      dependents.forEach((dependent, index) => {
+        response += `${index + 1}. **${dependent.title}** ${formatStatusLabel(dependent.status)} - ${dependent.id}\n`;
+      });
+      response += `\n`;
+    }
+
+    if (relatedMemories.length > 0) {
+      response += `## Related Memories (${relatedMemories.length})\n`;
+      relatedMemories.slice(0, 3).forEach((memory, index) => {
+        response += `${index + 1}. **${memory.title}** (${memory.importance} importance)\n`;
+      });
+      if (relatedMemories.length > 3) {
+        response += `... and ${relatedMemories.length - 3} more memories\n`;
+      }
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: response
+      }]
+    };
+  }
+
+  /**
+   * Incomplete tasks whose dependencies are all completed, ranked by priority
+   */
+  async next_actionable_tasks(args: any = {}): Promise<any> {
+    this.trackToolUsage('next_actionable_tasks');
+    const { project_id, limit = 10, include_archived = false } = args;
+
+    const database = this.getVisibleDatabase(include_archived, project_id);
+    const targetProjectId = project_id || database.meta.current_project_id;
+    const project = targetProjectId ? this.projectService.findProjectById(database.projects, targetProjectId) : undefined;
+    if (project_id && !project) {
+      throw new ProjectNotFoundError(project_id, database.projects.map(p => p.id));
+    }
+
+    const tasks = project ? database.tasks.filter(t => t.project_id === project.id) : database.tasks;
+    const actionable = this.taskService.getNextActionableTasks(tasks);
+    const waiting = tasks.filter(t => t.status === 'todo' || t.status === 'in_progress').length - actionable.length;
+
+    let response = `# Next Actionable Tasks\n\n`;
+    if (project) {
+      response += `**Project:** ${project.name}\n`;
+    }
+    response += `**Ready:** ${actionable.length} (showing ${Math.min(actionable.length, limit)}) | **Waiting on dependencies:** ${waiting}\n\n`;
+
+    if (actionable.length === 0) {
+      response += waiting > 0
+        ? `[INFO] Every incomplete task is waiting on another task. Use \`task_order\` to see the dependency chain.`
+        : `[INFO] No incomplete tasks.`;
+    } else {
+      actionable.slice(0, limit).forEach(({ task, unblocks }, index) => {
+        response += `${index + 1}. **${task.title}** (${task.priority}) - ${task.id}\n`;
+        if (unblocks.length > 0) {
+          response += `   Unblocks: ${unblocks.map(t => t.title).join(', ')}\n`;
+        }
+      });
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: response
+      }]
+    };
+  }
+
+  /**
+   * Shows a project's tasks in dependency order
+   */
+  async task_order(args: any = {}): Promise<any> {
+    this.trackToolUsage('task_order');
+    const { project_id, include_completed = true } = args;
+
+    const targetProjectId = project_id || this.validateCurrentProject();
+    const database = this.inMemoryStore.getDatabase();
+    const project = this.projectService.findProjectById(database.projects, targetProjectId);
+    if (!project) {
+      throw new ProjectNotFoundError(targetProjectId, database.projects.map(p => p.id));
+    }
+
+    const tasks = database.tasks.filter(t => t.project_id === project.id && (include_completed || isOpenTask(t)));
+
+    return {
+      content: [{
+        type: "text",
+        text: `# Task Order: ${project.name}\n\n${this.taskService.formatDependencyOrder(tasks, database.tasks)}`
+      }]
+    };
+  }
+
+  /**
+   * Critical path schedule for a project, as a text report followed by JSON
+   */
+  async project_schedule(args: any = {}): Promise<any> {
+    this.trackToolUsage('project_schedule');
+    const { project_id, default_duration = 1 } = args;
+
+    if (typeof default_duration !== 'number' || !(default_duration > 0)) {
+      throw new ValidationError('default_duration', default_duration, 'must be a positive number of hours');
+    }
+
+    const targetProjectId = project_id || this.validateCurrentProject();
+    const database = this.inMemoryStore.getDatabase();
+    const project = this.projectService.findProjectById(database.projects, targetProjectId);
+    if (!project) {
+      throw new ProjectNotFoundError(targetProjectId, database.projects.map(p => p.id));
+    }
+
+    const schedule = this.projectService.generateProjectSchedule(project, database.tasks, { defaultDuration: default_duration });
+    const { summary, ...timing } = schedule;
+    const json = {
+      project_id: project.id,
+      project_name: project.name,
+      total_tasks: summary.total_tasks,
+      completed_tasks: summary.completed_tasks,
+      blocked_tasks: summary.blocked_tasks,
+      completion_percentage: summary.completion_percentage,
+      ...timing
+    };
+
+    return {
+      content: [
+        { type: "text", text: this.projectService.formatProjectSchedule(schedule) },
+        { type: "text", text: JSON.stringify(json, null, 2) }
+      ]
+    };
+  }
+
+  /**
+   * Estimates against actual time for a project's completed tasks, as a text report followed by JSON
+   */
+  async estimation_report(args: any = {}): Promise<any> {
+    this.trackToolUsage('estimation_report');
+    const { project_id, unit = this.config.values.defaults.estimate_unit, actual = 'auto' } = args;
+
+    if (!['hours', 'points'].includes(unit)) {
+      throw new ValidationError('unit', unit, "must be 'hours' or 'points'");
+    }
+    if (!['auto', 'logged', 'elapsed'].includes(actual)) {
+      throw new ValidationError('actual', actual, "must be 'auto', 'logged' or 'elapsed'");
+    }
+
+    const targetProjectId = project_id || this.validateCurrentProject();
+    const database = this.inMemoryStore.getDatabase();
+    const project = this.projectService.findProjectById(database.projects, targetProjectId);
+    if (!project) {
+      throw new ProjectNotFoundError(targetProjectId, database.projects.map(p => p.id));
     }
 
-    // Add markdown file suggestion
-    const dateStr = new Date().toISOString().split('T')[0];
-    const markdownSuggestion = `\n\n[SUGGESTION] Save this summary as a markdown file for future reference:\n\`session-summary-${dateStr}.md\`\n\nThis will help you pick up where you left off in future sessions.`;
+    const report = this.projectService.generateEstimationReport(project, database.tasks, { unit, actual });
+    const { project: _project, ...details } = report;
+    const json = { project_id: project.id, project_name: project.name, ...details };
+
+    return {
+      content: [
+        { type: "text", text: this.projectService.formatEstimationReport(report) },
+        { type: "text", text: JSON.stringify(json, null, 2) }
+      ]
+    };
+  }
+
+  /**
+   * List recurring task series, or stop one so completing its open instance no longer spawns the next
+   */
+  async task_series(args: any = {}): Promise<any> {
+    return this.safeExecute('task_series', async () => {
+      this.trackToolUsage('task_series');
+      const { action = 'list', series_id, task_id, project_id, include_archived = false, dry_run = false } = args;
+
+      if (!['list', 'stop'].includes(action)) {
+        throw new ValidationError('action', action, "must be 'list' or 'stop'");
+      }
+
+      // A task ID stands for the series the task belongs to
+      let targetSeriesId = series_id;
+      if (!targetSeriesId && task_id) {
+        const task = this.taskService.findTaskById(this.inMemoryStore.getDatabase().tasks, task_id);
+        if (!task) {
+          throw new TaskNotFoundError(task_id);
+        }
+        if (!task.series_id) {
+          throw new ValidationError('task_id', task_id, 'must be a recurring task');
+        }
+        targetSeriesId = task.series_id;
+      }
+
+      const database = this.getVisibleDatabase(include_archived || Boolean(targetSeriesId), project_id);
+      let series = this.taskService.getSeries(project_id ? database.tasks.filter(t => t.project_id === project_id) : database.tasks);
+      if (targetSeriesId) {
+        series = series.filter(s => s.series_id === targetSeriesId);
+        if (series.length === 0) {
+          throw new ValidationError('series_id', targetSeriesId, 'must name an existing task series');
+        }
+      }
+
+      if (action === 'list') {
+        return {
+          content: [{
+            type: "text",
+            text: series.length === 0
+              ? `# Task Series\n\n[INFO] No recurring tasks found. Pass recurrence to create_task or update_task to start a series.`
+              : `# Task Series\n\n${this.taskService.formatSeriesList(series, Boolean(targetSeriesId))}`
+          }]
+        };
+      }
 
-    return {
-      content: [{
-        type: "text",
-        text: summary + markdownSuggestion
-      }]
-    };
-  }
+      if (!targetSeriesId) {
+        throw new Error("Missing required field 'series_id' or 'task_id' to stop a series");
+      }
+      const [target] = series;
+      if (target.status === 'ended') {
+        return {
+          content: [{
+            type: "text",
+            text: `[INFO] Series '${target.title}' (${target.series_id}) has already ended.`
+          }]
+        };
+      }
 
+      if (dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] task_series: Would stop series '${target.title}' (${target.series_id}) after ${target.instances.length} occurrences. No changes made.`
+          }],
+          isError: false
+        };
+      }
 
-  async set_current_project(args: any): Promise<any> {
-    this.trackToolUsage('set_current_project');
-    const { project_id, dry_run = false } = args;
+      await this.inMemoryStore.runExclusive(async (db) => {
+        db.tasks
+          .filter(t => t.series_id === targetSeriesId && isOpenTask(t))
+          .forEach(t => this.taskService.setRecurrence(t, undefined));
+        return {
+          result: undefined,
+          commit: true,
+          changedParts: new Set(['tasks'] as const)
+        };
+      }, 'task_series');
 
-    if (!project_id) {
-      throw new Error('Project ID is required');
-    }
+      this.buildTaskIndex();
 
-    // Handle dry run
-    if (dry_run) {
       return {
         content: [{
           type: "text",
-          text: `[DRY RUN] set_current_project: Would set project '${project_id}' as current project. No changes made.`
-        }],
-        isError: false
+          text: `[OK] **Series Stopped**\n\n**Series:** ${target.title} (${target.series_id})\n**Occurrences:** ${target.instances.length}\n${target.open_task ? `\nThe open instance ${target.open_task.id} stays on the task list but will not repeat.` : ''}`
+        }]
       };
-    }
+    });
+  }
 
-    const result = await this.inMemoryStore.runExclusive(async (db) => {
-      const project = this.projectService.findProjectById(db.projects, project_id);
+  // Template Methods
+
+  /**
+   * Saves a project's task hierarchy, or one task and its subtasks, as a named template
+   */
+  async save_template(args: any): Promise<any> {
+    return this.safeExecute('save_template', async () => {
+      this.trackToolUsage('save_template');
+
+      if (!args || typeof args !== 'object') {
+        throw new Error('Invalid arguments - expected object');
+      }
+
+      const { name, description, project_id, task_id, replace, overwrite = false, dry_run = false } = args;
+      const sanitizedName = typeof name === 'string' ? ValidationUtils.sanitizeString(name) : '';
+      if (!sanitizedName || sanitizedName.length > 100) {
+        throw new ValidationError('name', name, 'must be 1-100 characters');
+      }
+      if (replace !== undefined && (replace === null || typeof replace !== 'object' || Array.isArray(replace))) {
+        throw new ValidationError('replace', JSON.stringify(replace), 'must map text to placeholder names');
+      }
+
+      const database = this.inMemoryStore.getDatabase();
+      const rootTask = task_id ? this.taskService.findTaskById(database.tasks, task_id) : undefined;
+      if (task_id && !rootTask) {
+        throw new TaskNotFoundError(task_id, database.tasks.map(t => t.id));
+      }
+      const targetProjectId = rootTask?.project_id ?? (project_id || this.validateCurrentProject());
+      const project = this.projectService.findProjectById(database.projects, targetProjectId);
       if (!project) {
-        throw new Error(`Project not found: ${project_id}`);
+        throw new ProjectNotFoundError(targetProjectId, database.projects.map(p => p.id));
       }
 
-      // Update meta information
-      if (!db.meta) {
-        db.meta = {
-          last_updated: new Date().toISOString(),
-          version: "2.0.0",
-          session_count: 0,
-          current_project_id: project_id
+      const template = this.templateService.createTemplate({
+        name: sanitizedName,
+        description: description !== undefined ? ValidationUtils.sanitizeString(description) : undefined,
+        project,
+        tasks: database.tasks,
+        rootTaskId: rootTask?.id,
+        replace
+      });
+      if (template.tasks.length === 0) {
+        throw new ValidationError(task_id ? 'task_id' : 'project_id', task_id ?? targetProjectId, 'must have tasks to save (cancelled tasks are left out)');
+      }
+      const key = this.templateService.templateKey(sanitizedName);
+      const replaced = database.templates[key];
+      if (replaced && !overwrite) {
+        throw new DuplicateTemplateError(replaced.name);
+      }
+
+      const summary = `**Tasks:** ${template.tasks.length}\n**Placeholders:** ${template.placeholders.length > 0 ? template.placeholders.map(p => `{{${p}}}`).join(', ') : 'none'}\n\n${this.templateService.formatTemplateTasks(template)}`;
+
+      if (dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] save_template: Would ${replaced ? 'replace' : 'save'} template '${sanitizedName}' from ${rootTask ? `task '${rootTask.title}'` : `project '${project.name}'`}.\n\n${summary}\n\nNo changes made.`
+          }],
+          isError: false
         };
-      } else {
-        db.meta.current_project_id = project_id;
       }
 
+      await this.inMemoryStore.runExclusive(async (db) => {
+        db.templates[key] = template;
+        return {
+          result: template,
+          commit: true,
+          changedParts: new Set(['templates'] as const)
+        };
+      }, 'save_template');
+
       return {
-        result: project,
-        commit: true,
-        changedParts: new Set(['meta'] as const)
+        content: [{
+          type: "text",
+          text: `[OK] **Template ${replaced ? 'Replaced' : 'Saved'}**\n\n**Name:** ${template.name}\n**Source:** ${rootTask ? `${rootTask.title} in ${project.name}` : project.name}\n${summary}`
+        }]
       };
     });
+  }
 
-    // Track session activity
-    this.trackToolUsage('set_current_project', 'project_switched', result.id);
+  /**
+   * Lists saved templates, or shows one template's tasks
+   */
+  async list_templates(args: any = {}): Promise<any> {
+    this.trackToolUsage('list_templates');
+    const { name } = args;
+    const { templates } = this.inMemoryStore.getDatabase();
+
+    if (name !== undefined) {
+      const template = this.templateService.getTemplate(templates, name);
+      let response = `# Template: ${template.name}\n\n`;
+      if (template.description) {
+        response += `${template.description}\n\n`;
+      }
+      response += `**Tasks:** ${template.tasks.length}\n`;
+      response += `**Placeholders:** ${template.placeholders.length > 0 ? template.placeholders.map(p => `{{${p}}}`).join(', ') : 'none'}\n`;
+      response += `**Saved:** ${new Date(template.created_date).toLocaleDateString()}\n\n`;
+      response += `${this.templateService.formatTemplateTasks(template)}\n`;
+      return { content: [{ type: "text", text: response }] };
+    }
 
+    const sorted = Object.values(templates).sort((a, b) => a.name.localeCompare(b.name));
+    let response = `# Templates\n\n**Total Templates:** ${sorted.length}\n\n`;
+    if (sorted.length === 0) {
+      response += `[INFO] No templates saved yet. Save a project's tasks with save_template.`;
+    }
+    sorted.forEach((template, index) => {
+      response += `${index + 1}. **${template.name}** - ${template.tasks.length} ${template.tasks.length === 1 ? 'task' : 'tasks'}\n`;
+      if (template.placeholders.length > 0) {
+        response += `   Placeholders: ${template.placeholders.map(p => `{{${p}}}`).join(', ')}\n`;
+      }
+      if (template.description) {
+        response += `   ${template.description.substring(0, 100)}${template.description.length > 100 ? '...' : ''}\n`;
+      }
+      response += `\n`;
+    });
 
-    return {
-      content: [{
-        type: "text",
-        text: `[OK] Current project set to: **${result.name}**\n\nAll new tasks will be added to this project by default.`
-      }]
-    };
+    return { content: [{ type: "text", text: response }] };
   }
 
+  /**
+   * Deletes a saved template. Projects created from it are not affected.
+   */
+  async delete_template(args: any): Promise<any> {
+    return this.safeExecute('delete_template', async () => {
+      this.trackToolUsage('delete_template');
+      const { name, dry_run = false } = args ?? {};
 
+      if (typeof name !== 'string' || !name.trim()) {
+        throw new Error("Missing required field 'name'");
+      }
+      const template = this.templateService.getTemplate(this.inMemoryStore.getDatabase().templates, name);
 
-  // Getter methods for accessing internal state (useful for handlers)
-  getDatabase(): ProjectDatabase {
-    return this.inMemoryStore.getDatabase();
-  }
+      if (dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] delete_template: Would delete template '${template.name}' (${template.tasks.length} tasks). No changes made.`
+          }],
+          isError: false
+        };
+      }
 
-  getTaskIndex(): Map<string, Task> {
-    return this.taskIndex;
+      await this.inMemoryStore.runExclusive(async (db) => {
+        delete db.templates[this.templateService.templateKey(name)];
+        return {
+          result: template,
+          commit: true,
+          changedParts: new Set(['templates'] as const)
+        };
+      }, 'delete_template');
+
+      return {
+        content: [{
+          type: "text",
+          text: `[OK] **Template Deleted**\n\n**Name:** ${template.name}\n**Tasks:** ${template.tasks.length}\n\nProjects created from it keep their tasks.`
+        }]
+      };
+    });
   }
 
   /**
-   * Cleanup method for graceful shutdown
+   * Creates a project with the tasks of a template and makes it the current project
    */
-  async shutdown(): Promise<void> {
-    this.isShuttingDown = true;
+  async create_project_from_template(args: any): Promise<any> {
+    return this.safeExecute('create_project_from_template', async () => {
+      this.trackToolUsage('create_project_from_template');
 
-    // Clear task index to free memory
-    this.taskIndex.clear();
+      if (!args || typeof args !== 'object') {
+        throw new Error('Invalid arguments - expected object');
+      }
 
-    // Cleanup in-memory store
-    this.inMemoryStore.cleanup();
-  }
+      const { template: templateName, name, description = '', values, dry_run = false } = args;
+      if (typeof templateName !== 'string' || !templateName.trim()) {
+        throw new Error("Missing required field 'template'");
+      }
+      const sanitizedName = typeof name === 'string' ? ValidationUtils.sanitizeString(name) : '';
+      if (!sanitizedName) {
+        throw new Error("Missing required field 'name'");
+      }
+      if (sanitizedName.length > 200) {
+        throw new Error('Project name cannot exceed 200 characters');
+      }
 
-  /**
-   * Track tool usage and session activity
-   */
-  private trackToolUsage(toolName: string, activityType?: string, itemId?: string) {
-    // Track tool usage count
-    const currentCount = this.sessionActivity.toolUsageCount.get(toolName) || 0;
-    this.sessionActivity.toolUsageCount.set(toolName, currentCount + 1);
+      const template = this.templateService.getTemplate(this.inMemoryStore.getDatabase().templates, templateName);
+      const inputs = this.parseTemplateTasks(template, values);
 
-    // Track specific activities
-    if (activityType && itemId) {
-      switch (activityType) {
-        case 'task_created':
-          this.sessionActivity.tasksCreated.push(itemId);
-          break;
-        case 'task_updated':
-          this.sessionActivity.tasksUpdated.push(itemId);
-          break;
-        case 'task_completed':
-          this.sessionActivity.tasksCompleted.push(itemId);
-          break;
-        case 'memory_created':
-          this.sessionActivity.memoriesCreated.push(itemId);
-          break;
-        case 'project_created':
-          this.sessionActivity.projectsCreated.push(itemId);
-          break;
-        case 'project_switched':
-          this.sessionActivity.projectSwitches.push(itemId);
-          this.sessionActivity.lastActiveProject = itemId;
-          break;
+      if (dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] create_project_from_template: Would create project '${sanitizedName}' with ${inputs.length} tasks from template '${template.name}' and set it as current project. No changes made.`
+          }],
+          isError: false
+        };
       }
-    }
-  }
 
-  /**
-   * Get session activity summary
-   */
-  getSessionActivity() {
-    return {
-      ...this.sessionActivity,
-      sessionDuration: Math.round((Date.now() - this.sessionStartTime.getTime()) / 1000 / 60),
-      toolUsageCount: Object.fromEntries(this.sessionActivity.toolUsageCount)
-    };
-  }
+      const { project, tasks } = await this.inMemoryStore.runExclusive(async (db) => {
+        const project = this.projectService.createProject({
+          name: sanitizedName,
+          description: ValidationUtils.sanitizeString(description)
+        });
+        db.projects.push(project);
+        db.meta.current_project_id = project.id;
 
-  /**
-   * Reset session activity (useful for testing)
-   */
-  resetSessionActivity() {
-    this.sessionActivity = {
-      tasksCreated: [],
-      tasksUpdated: [],
-      tasksCompleted: [],
-      memoriesCreated: [],
-      projectsCreated: [],
-      projectSwitches: [],
-      keyDecisions: [],
-      toolUsageCount: new Map()
-    };
-    this.sessionStartTime = new Date();
-  }
+        const tasks = this.applyTemplateTasks(db, inputs, project.id);
+        this.projectService.updateProjectCompletion(project, db.tasks);
 
-  // MCP Tool Wrappers for hidden methods
-  
-  /**
-   * Internal system stats (no longer exposed as MCP tool)
-   */
-  private async get_system_stats(args: any = {}): Promise<any> {
-    this.trackToolUsage('get_system_stats');
-    const { dry_run = false } = args;
+        return {
+          result: { project, tasks },
+          commit: true,
+          changedParts: new Set(['projects', 'tasks', 'meta'] as const)
+        };
+      }, 'create_project_from_template');
+
+      this.buildTaskIndex();
+
+      // Track session activity
+      this.trackToolUsage('create_project_from_template', 'project_created', project.id);
+      tasks.forEach(task => this.trackToolUsage('create_project_from_template', 'task_created', task.id));
 
-    if (dry_run) {
       return {
         content: [{
           type: "text",
-          text: `[DRY RUN] get_system_stats: Would return current system statistics. No changes made.`
-        }],
-        isError: false
+          text: `[OK] **Project Created from Template**\n\n**Name:** ${project.name}\n**ID:** ${project.id}\n**Template:** ${template.name}\n**Tasks:** ${tasks.length}\n\n${this.formatCreatedTasks(tasks)}\n\nThis is now your current project.`
+        }]
       };
-    }
-
-    const stats = this.getSystemStats();
-    
-    return {
-      content: [{
-        type: "text",
-        text: `[INFO] **System Statistics**\n\n**Database:**\n- Projects: ${stats.database.projects}\n- Tasks: ${stats.database.tasks}\n- Memories: ${stats.database.memories}\n- Queued Operations: ${stats.database.queuedOperations}\n- Last Updated: ${stats.database.lastUpdated}\n\n**Session:**\n- Task Index Size: ${stats.taskIndexSize}\n- Session Duration: ${stats.sessionDuration} minutes\n- Status: ${stats.isShuttingDown ? 'Shutting down' : 'Active'}`
-      }]
-    };
+    });
   }
 
-  /**
-   * Internal data cleanup (no longer exposed as MCP tool)
-   */
-  private async cleanup_orphaned_data(args: any = {}): Promise<any> {
-    return this.safeExecute('cleanup_orphaned_data', async () => {
-      this.trackToolUsage('cleanup_orphaned_data');
-      const { dry_run = false } = args;
+  /**
+   * Adds the tasks of a template to an existing project, optionally under a parent task
+   */
+  async apply_template(args: any): Promise<any> {
+    return this.safeExecute('apply_template', async () => {
+      this.trackToolUsage('apply_template');
+
+      if (!args || typeof args !== 'object') {
+        throw new Error('Invalid arguments - expected object');
+      }
+
+      const { template: templateName, project_id, parent_id, values, dry_run = false } = args;
+      if (typeof templateName !== 'string' || !templateName.trim()) {
+        throw new Error("Missing required field 'template'");
+      }
+
+      const template = this.templateService.getTemplate(this.inMemoryStore.getDatabase().templates, templateName);
+      const inputs = this.parseTemplateTasks(template, values);
+      const targetProjectId = project_id || this.validateCurrentProject();
+      const { projects } = this.inMemoryStore.getDatabase();
+      const targetProject = this.projectService.findProjectById(projects, targetProjectId);
+      if (!targetProject) {
+        throw new ProjectNotFoundError(targetProjectId, projects.map(p => p.id));
+      }
 
       if (dry_run) {
         return {
           content: [{
             type: "text",
-            text: `[DRY RUN] cleanup_orphaned_data: Would perform data integrity cleanup. No changes made.`
+            text: `[DRY RUN] apply_template: Would add ${inputs.length} tasks from template '${template.name}' to project '${targetProject.name}'${parent_id ? ` under task '${parent_id}'` : ''}. No changes made.`
           }],
           isError: false
         };
       }
 
-      const stats = await this.cleanupOrphanedData();
-      
-      let report = `[OK] **Data Cleanup Complete**\n\n`;
-      report += `**Issues Fixed:**\n`;
-      report += `- Orphaned Tasks: ${stats.orphanedTasks}\n`;
-      report += `- Orphaned Memories: ${stats.orphanedMemories}\n`;
-      report += `- Invalid Task References: ${stats.invalidTaskReferences}\n`;
-      report += `- Invalid Current Project: ${stats.invalidCurrentProject ? 'Yes' : 'No'}\n`;
-      report += `- Duplicates Removed: ${stats.duplicatesRemoved}\n`;
-      report += `- Corrupted Data Fixed: ${stats.corruptedDataFixed}\n\n`;
-      
-      const totalIssues = stats.orphanedTasks + stats.orphanedMemories + stats.invalidTaskReferences + 
-                         (stats.invalidCurrentProject ? 1 : 0) + stats.duplicatesRemoved + stats.corruptedDataFixed;
-      
-      if (totalIssues === 0) {
-        report += `[INFO] Database is clean - no issues found.`;
-      } else {
-        report += `[INFO] Fixed ${totalIssues} total issues.`;
-      }
+      const tasks = await this.inMemoryStore.runExclusive(async (db) => {
+        const tasks = this.applyTemplateTasks(db, inputs, targetProjectId, parent_id);
+        const project = this.projectService.findProjectById(db.projects, targetProjectId);
+        if (project) {
+          this.projectService.updateProjectCompletion(project, db.tasks);
+        }
+
+        return {
+          result: tasks,
+          commit: true,
+          changedParts: new Set(['tasks', 'projects'] as const)
+        };
+      }, 'apply_template');
+
+      this.buildTaskIndex();
+
+      // Track session activity
+      tasks.forEach(task => this.trackToolUsage('apply_template', 'task_created', task.id));
 
       return {
         content: [{
           type: "text",
-          text: report
+          text: `[OK] **Template Applied**\n\n**Template:** ${template.name}\n**Project:** ${targetProject.name}\n**Tasks Added:** ${tasks.length}\n\n${this.formatCreatedTasks(tasks)}`
         }]
       };
     });
   }
 
-  // New Read-Only Tools for better agent workflow
-
   /**
-   * List tasks with filtering and pagination
+   * Fills in a template's placeholders and validates its tasks like create_task arguments
    */
-  async list_tasks(args: any = {}): Promise<any> {
-    this.trackToolUsage('list_tasks');
-    const { status, priority, project_id, completed, limit = 50, offset = 0 } = args;
-
-    const database = this.inMemoryStore.getDatabase();
-    let tasks = database.tasks;
-
-    // Apply filters
-    if (project_id) {
-      tasks = tasks.filter(task => task.project_id === project_id);
-    }
-    if (status !== undefined) {
-      // Map status to completed boolean for consistency
-      if (status === 'completed') {
-        tasks = tasks.filter(task => task.completed);
-      } else if (status === 'active') {
-        tasks = tasks.filter(task => !task.completed);
+  private parseTemplateTasks(template: ProjectTemplate, values: unknown): Array<{ key: string; parent_key?: string; depends_on: string[]; input: TaskCreation }> {
+    return this.templateService.fillPlaceholders(template, (values ?? {}) as Record<string, unknown>).map(task => ({
+      key: task.key,
+      parent_key: task.parent_key,
+      depends_on: task.depends_on,
+      input: {
+        ...this.parseTaskCreation({ title: task.title, description: task.description, priority: task.priority, tags: task.tags }),
+        estimate: task.estimate
       }
-    }
-    if (completed !== undefined) {
-      tasks = tasks.filter(task => task.completed === completed);
-    }
-    if (priority) {
-      tasks = tasks.filter(task => task.priority === priority);
-    }
-
-    // Sort by priority (critical > high > medium > low) and creation date
-    const priorityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
-    tasks = tasks.sort((a, b) => {
-      const priorityDiff = priorityOrder[a.priority] - priorityOrder[b.priority];
-      if (priorityDiff !== 0) return priorityDiff;
-      return new Date(b.created_date).getTime() - new Date(a.created_date).getTime();
-    });
-
-    // Apply pagination
-    const totalTasks = tasks.length;
-    tasks = tasks.slice(offset, offset + limit);
-
-    // Format response
-    let response = `# Task List\n\n`;
-    response += `**Total Tasks:** ${totalTasks} (showing ${tasks.length})\n`;
-    if (project_id) {
-      const project = this.projectService.findProjectById(database.projects, project_id);
-      response += `**Project:** ${project?.name || 'Unknown'}\n`;
-    }
-    response += `\n`;
+    }));
+  }
 
-    if (tasks.length === 0) {
-      response += `[INFO] No tasks found matching the criteria.`;
-    } else {
-      tasks.forEach((task, index) => {
-        const status = task.completed ? '[DONE]' : '[ACTIVE]';
-        response += `${offset + index + 1}. **${task.title}** ${status}\n`;
-        response += `   Priority: ${task.priority} | ID: ${task.id}\n`;
-        if (task.progress && task.progress > 0) {
-          response += `   Progress: ${task.progress}%\n`;
-        }
-        if (task.description) {
-          response += `   ${task.description.substring(0, 100)}${task.description.length > 100 ? '...' : ''}\n`;
-        }
-        response += `\n`;
+  /**
+   * Creates template tasks in order inside a transaction, linking them to the tasks
+   * created before them. Top-level tasks go under parentId when given.
+   */
+  private applyTemplateTasks(db: ProjectDatabase, inputs: ReturnType<MemoryPickleCore['parseTemplateTasks']>, projectId: string, parentId?: string): Task[] {
+    const created = new Map<string, string>();
+    return inputs.map(({ key, parent_key, depends_on, input }) => {
+      const { task } = this.applyTaskCreation(db, {
+        ...input,
+        project_id: projectId,
+        parent_id: parent_key && created.has(parent_key) ? created.get(parent_key) : parentId,
+        depends_on: depends_on.filter(dependency => created.has(dependency)).map(dependency => created.get(dependency)!)
       });
-    }
+      created.set(key, task.id);
+      return task;
+    });
+  }
 
-    return {
-      content: [{
-        type: "text",
-        text: response
-      }]
+  /**
+   * Lists created tasks as an indented tree
+   */
+  private formatCreatedTasks(tasks: Task[]): string {
+    const ids = new Set(tasks.map(t => t.id));
+    const lines: string[] = [];
+    const addTree = (task: Task, level: number) => {
+      lines.push(`${'  '.repeat(level)}- **${task.title}** (${task.priority}) - ${task.id}`);
+      tasks.filter(t => t.parent_id === task.id).forEach(child => addTree(child, level + 1));
     };
+    tasks.filter(t => !t.parent_id || !ids.has(t.parent_id)).forEach(task => addTree(task, 0));
+    return lines.join('\n');
   }
 
   /**
-   * List projects with basic info
+   * Starts a timer on a task. Only one timer runs per session.
    */
-  async list_projects(args: any = {}): Promise<any> {
-    this.trackToolUsage('list_projects');
-    const { status, limit = 50, offset = 0 } = args;
+  async start_timer(args: any): Promise<any> {
+    return this.safeExecute('start_timer', async () => {
+      this.trackToolUsage('start_timer');
 
-    const database = this.inMemoryStore.getDatabase();
-    let projects = database.projects;
+      if (!args || typeof args !== 'object') {
+        throw new Error('Invalid arguments - expected object');
+      }
+      const { task_id, note, dry_run = false } = args;
+      if (!task_id) {
+        throw new Error("Missing required field 'task_id'");
+      }
+      const sanitizedNote = note !== undefined ? ValidationUtils.sanitizeString(note) : undefined;
 
-    // Apply filters
-    if (status) {
-      projects = projects.filter(project => project.status === status);
-    }
+      const database = this.inMemoryStore.getDatabase();
+      const task = this.taskService.findTaskById(database.tasks, task_id);
+      if (!task) {
+        throw new TaskNotFoundError(task_id);
+      }
+      if (!isOpenTask(task)) {
+        throw new ValidationError('task_id', task_id, `must be an open task (it is ${task.status}); use log_time to record time afterwards`);
+      }
+      const running = this.sessionActivity.runningTimer;
+      if (running) {
+        const runningEntry = this.taskService.findTaskById(database.tasks, running.task_id)?.time_entries.find(entry => entry.id === running.entry_id);
+        throw new TimerAlreadyRunningError(running.task_id, runningEntry?.start ?? 'earlier in this session');
+      }
 
-    // Sort by status priority and creation date
-    const statusOrder = { in_progress: 0, planning: 1, blocked: 2, completed: 3, archived: 4 };
-    projects = projects.sort((a, b) => {
-      const statusDiff = (statusOrder[a.status] || 99) - (statusOrder[b.status] || 99);
-      if (statusDiff !== 0) return statusDiff;
-      return new Date(b.created_date).getTime() - new Date(a.created_date).getTime();
-    });
+      if (dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] start_timer: Would start a timer on task '${task.title}' (${task.id}). No changes made.`
+          }],
+          isError: false
+        };
+      }
 
-    // Apply pagination
-    const totalProjects = projects.length;
-    projects = projects.slice(offset, offset + limit);
+      const entry = await this.inMemoryStore.runExclusive(async (db) => {
+        const target = this.taskService.findTaskById(db.tasks, task_id)!;
+        return {
+          result: this.taskService.startTimer(target, sanitizedNote),
+          commit: true,
+          changedParts: new Set(['tasks'] as const)
+        };
+      }, 'start_timer');
+
+      this.buildTaskIndex();
+      this.sessionActivity.runningTimer = { task_id: task.id, entry_id: entry.id };
+      this.trackToolUsage('start_timer', 'time_tracked', entry.id);
+
+      let response = `[OK] **Timer Started**\n\n**Task:** ${task.title} (${task.id})\n`;
+      response += `**Started:** ${new Date(entry.start).toLocaleString()}\n`;
+      if (entry.note) {
+        response += `**Note:** ${entry.note}\n`;
+      }
+      response += `\nStop it with \`stop_timer\` to record the entry.`;
 
-    // Calculate task counts for each project
-    const projectsWithStats = projects.map(project => {
-      const projectTasks = database.tasks.filter(task => task.project_id === project.id);
-      const completedTasks = projectTasks.filter(task => task.completed);
       return {
-        ...project,
-        totalTasks: projectTasks.length,
-        completedTasks: completedTasks.length,
-        completion: projectTasks.length > 0 ? Math.round((completedTasks.length / projectTasks.length) * 100) : 0
+        content: [{
+          type: "text",
+          text: response
+        }]
       };
     });
-
-    // Format response
-    let response = `# Project List\n\n`;
-    response += `**Total Projects:** ${totalProjects} (showing ${projects.length})\n\n`;
-
-    if (projectsWithStats.length === 0) {
-      response += `[INFO] No projects found matching the criteria.`;
-    } else {
-      projectsWithStats.forEach((project, index) => {
-        const isCurrentProject = database.meta?.current_project_id === project.id;
-        const currentMarker = isCurrentProject ? ' [CURRENT]' : '';
-        
-        response += `${offset + index + 1}. **${project.name}**${currentMarker}\n`;
-        response += `   Status: ${project.status} | Completion: ${project.completion}%\n`;
-        response += `   Tasks: ${project.completedTasks}/${project.totalTasks} completed\n`;
-        response += `   ID: ${project.id}\n`;
-        if (project.description) {
-          response += `   ${project.description.substring(0, 100)}${project.description.length > 100 ? '...' : ''}\n`;
-        }
-        response += `\n`;
-      });
-    }
-
-    return {
-      content: [{
-        type: "text",
-        text: response
-      }]
-    };
   }
 
   /**
-   * Get detailed info for a single task
+   * Stops the session's running timer, or a timer left running on a task by an earlier session
    */
-  async get_task(args: any): Promise<any> {
-    this.trackToolUsage('get_task');
-    const { task_id } = args;
+  async stop_timer(args: any = {}): Promise<any> {
+    return this.safeExecute('stop_timer', async () => {
+      this.trackToolUsage('stop_timer');
+      const { task_id, note, dry_run = false } = args;
+      const sanitizedNote = note !== undefined ? ValidationUtils.sanitizeString(note) : undefined;
+
+      const running = this.sessionActivity.runningTimer;
+      if (running && task_id && task_id !== running.task_id) {
+        throw new ValidationError('task_id', task_id, `must be the task with the running timer ('${running.task_id}')`);
+      }
+      const targetTaskId = running?.task_id ?? task_id;
+      if (!targetTaskId) {
+        throw new NoRunningTimerError();
+      }
 
-    if (!task_id) {
-      throw new Error('Task ID is required');
-    }
+      const database = this.inMemoryStore.getDatabase();
+      const task = this.taskService.findTaskById(database.tasks, targetTaskId);
+      if (!task) {
+        throw new TaskNotFoundError(targetTaskId);
+      }
+      const openEntry = this.taskService.findRunningEntry(task);
+      if (!openEntry) {
+        throw new NoRunningTimerError(task.id);
+      }
 
-    const database = this.inMemoryStore.getDatabase();
-    const task = this.taskService.findTaskById(database.tasks, task_id);
-    
-    if (!task) {
-      throw new Error(`Task not found: ${task_id}`);
-    }
+      if (dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] stop_timer: Would stop the timer on task '${task.title}' (${task.id}) after ${formatDuration(entryMinutes(openEntry))}. No changes made.`
+          }],
+          isError: false
+        };
+      }
 
-    // Get project info
-    const project = this.projectService.findProjectById(database.projects, task.project_id);
-    
-    // Get subtasks if any
-    const subtasks = database.tasks.filter(t => t.parent_id === task_id);
-    
-    // Get related memories
-    const relatedMemories = database.memories.filter(m => m.task_id === task_id);
+      const { entry, taskMinutes } = await this.inMemoryStore.runExclusive(async (db) => {
+        const target = this.taskService.findTaskById(db.tasks, targetTaskId)!;
+        const entry = this.taskService.stopTimer(target, sanitizedNote);
+        return {
+          result: { entry, taskMinutes: totalMinutes(target.time_entries) },
+          commit: true,
+          changedParts: new Set(['tasks'] as const)
+        };
+      }, 'stop_timer');
 
-    // Format detailed response
-    let response = `# Task Details: ${task.title}\n\n`;
-    response += `**ID:** ${task.id}\n`;
-    response += `**Status:** ${task.completed ? 'Completed [DONE]' : 'Active [ACTIVE]'}\n`;
-    response += `**Priority:** ${task.priority}\n`;
-    response += `**Project:** ${project?.name || 'Unknown'} (${task.project_id})\n`;
-    response += `**Created:** ${new Date(task.created_date).toLocaleDateString()}\n`;
-    
-    if (task.completed && task.completed_date) {
-      response += `**Completed:** ${new Date(task.completed_date).toLocaleDateString()}\n`;
-    }
-    
-    if (task.progress && task.progress > 0) {
-      response += `**Progress:** ${task.progress}%\n`;
-    }
-    
-    response += `\n`;
+      this.buildTaskIndex();
+      this.sessionActivity.runningTimer = undefined;
+      if (!this.sessionActivity.timeEntries.includes(entry.id)) {
+        this.trackToolUsage('stop_timer', 'time_tracked', entry.id);
+      }
+
+      let response = `[OK] **Timer Stopped**\n\n**Task:** ${task.title} (${task.id})\n`;
+      response += `**Duration:** ${formatDuration(entryMinutes(entry))}\n`;
+      if (entry.note) {
+        response += `**Note:** ${entry.note}\n`;
+      }
+      response += `**Task Total:** ${formatDuration(taskMinutes)}\n`;
+
+      return {
+        content: [{
+          type: "text",
+          text: response
+        }]
+      };
+    });
+  }
 
-    if (task.description) {
-      response += `## Description\n${task.description}\n\n`;
-    }
+  /**
+   * Records time spent on a task without a timer. Takes two of start, end and duration;
+   * a duration alone ends now.
+   */
+  async log_time(args: any): Promise<any> {
+    return this.safeExecute('log_time', async () => {
+      this.trackToolUsage('log_time');
 
-    if (task.line_range) {
-      response += `## Code Reference\n`;
-      response += `File: ${task.line_range.file_path}\n`;
-      response += `Lines: ${task.line_range.start_line}-${task.line_range.end_line}\n\n`;
-    }
+      if (!args || typeof args !== 'object') {
+        throw new Error('Invalid arguments - expected object');
+      }
+      const { task_id, duration, start, end, note, dry_run = false } = args;
+      if (!task_id) {
+        throw new Error("Missing required field 'task_id'");
+      }
+      const sanitizedNote = note !== undefined ? ValidationUtils.sanitizeString(note) : undefined;
 
-    if (task.blockers && task.blockers.length > 0) {
-      response += `## Blockers\n`;
-      task.blockers.forEach((blocker, index) => {
-        response += `${index + 1}. ${blocker}\n`;
-      });
-      response += `\n`;
-    }
+      if (duration !== undefined && start !== undefined && end !== undefined) {
+        throw new ValidationError('duration', duration, 'cannot be combined with both start and end');
+      }
+      if (duration === undefined && (start === undefined || end === undefined)) {
+        throw new ValidationError('duration', 'missing', 'is required unless both start and end are given');
+      }
+      const minutes = duration !== undefined ? parseDuration(duration) : undefined;
+      const now = new Date();
+      let startTime = start !== undefined ? parseTimestamp(start, 'start') : undefined;
+      let endTime = end !== undefined ? parseTimestamp(end, 'end') : undefined;
+      if (minutes !== undefined) {
+        if (startTime) {
+          endTime = new Date(startTime.getTime() + minutes * 60000);
+        } else {
+          endTime = endTime ?? now;
+          startTime = new Date(endTime.getTime() - minutes * 60000);
+        }
+      }
+      if (endTime!.getTime() <= startTime!.getTime()) {
+        throw new ValidationError('end', endTime!.toISOString(), 'must be after start');
+      }
+      if (endTime!.getTime() > now.getTime()) {
+        throw new ValidationError('end', endTime!.toISOString(), 'cannot be in the future');
+      }
 
-    if (task.notes && task.notes.length > 0) {
-      response += `## Notes\n`;
-      task.notes.slice(-3).forEach(note => {
-        response += `- ${note}\n`;
-      });
-      if (task.notes.length > 3) {
-        response += `... and ${task.notes.length - 3} more notes\n`;
+      const task = this.taskService.findTaskById(this.inMemoryStore.getDatabase().tasks, task_id);
+      if (!task) {
+        throw new TaskNotFoundError(task_id);
       }
-      response += `\n`;
-    }
 
-    if (subtasks.length > 0) {
-      response += `## Subtasks (${subtasks.length})\n`;
-      subtasks.forEach((subtask, index) => {
-        const status = subtask.completed ? '[DONE]' : '[ACTIVE]';
-        response += `${index + 1}. **${subtask.title}** ${status}\n`;
-      });
-      response += `\n`;
-    }
+      const loggedMinutes = (endTime!.getTime() - startTime!.getTime()) / 60000;
+      if (dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] log_time: Would log ${formatDuration(loggedMinutes)} on task '${task.title}' (${task.id}). No changes made.`
+          }],
+          isError: false
+        };
+      }
 
-    if (relatedMemories.length > 0) {
-      response += `## Related Memories (${relatedMemories.length})\n`;
-      relatedMemories.slice(0, 3).forEach((memory, index) => {
-        response += `${index + 1}. **${memory.title}** (${memory.importance} importance)\n`;
-      });
-      if (relatedMemories.length > 3) {
-        response += `... and ${relatedMemories.length - 3} more memories\n`;
+      const { entry, taskMinutes } = await this.inMemoryStore.runExclusive(async (db) => {
+        const target = this.taskService.findTaskById(db.tasks, task_id)!;
+        const entry = this.taskService.logTime(target, startTime!, endTime!, sanitizedNote);
+        return {
+          result: { entry, taskMinutes: totalMinutes(target.time_entries) },
+          commit: true,
+          changedParts: new Set(['tasks'] as const)
+        };
+      }, 'log_time');
+
+      this.buildTaskIndex();
+      this.trackToolUsage('log_time', 'time_tracked', entry.id);
+
+      let response = `[OK] **Time Logged**\n\n**Task:** ${task.title} (${task.id})\n`;
+      response += `**Duration:** ${formatDuration(loggedMinutes)} (${new Date(entry.start).toLocaleString()} - ${new Date(entry.end!).toLocaleString()})\n`;
+      if (entry.note) {
+        response += `**Note:** ${entry.note}\n`;
       }
-    }
+      response += `**Task Total:** ${formatDuration(taskMinutes)}\n`;
 
-    return {
-      content: [{
-        type: "text",
-        text: response
-      }]
-    };
+      return {
+        content: [{
+          type: "text",
+          text: response
+        }]
+      };
+    });
   }
 
   // Additional Maintenance and Utility Tools
@@ -1435,7 +3479,7 @@ export class MemoryPickleCore {
       return {
         content: [{
           type: "text",
-          text: `[OK] **Session Data Exported (JSON)**\n\n\`\`\`json\n${jsonData}\n\`\`\`\n\n[INFO] Copy this data to save session state permanently.`
+          text: `[OK] **Session Data Exported (JSON)**\n\n\`\`\`json\n${jsonData}\n\`\`\`\n\n[INFO] Save this data to a file to keep the session state. Load it back later with \`import_session\`.`
         }]
       };
     }
@@ -1469,6 +3513,358 @@ export class MemoryPickleCore {
     };
   }
 
+  /**
+   * Import session data produced by export_session (JSON format)
+   */
+  async import_session(args: any = {}): Promise<any> {
+    return this.safeExecute('import_session', async () => {
+      this.trackToolUsage('import_session');
+      const { data, file_path, mode = 'merge', dry_run = false } = args;
+
+      if (!['replace', 'merge'].includes(mode)) {
+        throw new Error("Invalid import mode. Must be 'replace' or 'merge'");
+      }
+      if ((data === undefined || data === null) === !file_path) {
+        throw new Error("Provide exactly one of 'data' or 'file_path'");
+      }
+
+      const input = file_path ? ImportService.readImportFile(file_path) : data;
+      const { database: imported, migration } = ImportService.parseImport(input);
+
+      // A dry run goes through the same transaction but never commits, so the report is exact
+      const report = await this.inMemoryStore.runExclusive(async (db) => {
+        const importReport = ImportService.applyImport(db, imported, mode);
+        return {
+          result: importReport,
+          commit: !dry_run,
+          changedParts: new Set(['projects', 'tasks', 'memories', 'meta', 'templates'] as const)
+        };
+      }, 'import_session');
+
+      if (!dry_run) {
+        this.buildTaskIndex();
+        this.pruneSessionActivity();
+      }
+
+      let text = ImportService.formatReport(report, dry_run);
+      if (!migration.upToDate) {
+        text += `\n\n[INFO] Imported data was migrated from schema version ${migration.fromVersion} to ${migration.toVersion}.`;
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text
+        }],
+        ...(dry_run ? { isError: false } : {})
+      };
+    });
+  }
+
+  /**
+   * Three-way merge of two session exports that diverged from a common base export
+   */
+  async merge_sessions(args: any = {}): Promise<any> {
+    return this.safeExecute('merge_sessions', async () => {
+      this.trackToolUsage('merge_sessions');
+      const { base, ours, theirs, apply = false } = args;
+
+      if (!base || !theirs) {
+        throw new Error("Both 'base' and 'theirs' are required");
+      }
+
+      const parse = (value: string) => ImportService.parseImport(ImportService.readImportInput(value)).database;
+      const baseDatabase = parse(base);
+      const theirDatabase = parse(theirs);
+      // Without 'ours' the current session is merged with theirs
+      const ourDatabase = ours ? parse(ours) : this.inMemoryStore.getDatabase();
+
+      const result = MergeService.merge(baseDatabase, ourDatabase, theirDatabase);
+      let text = MergeService.formatResult(result);
+
+      if (!apply) {
+        const json = JSON.stringify({ database: result.database, conflicts: result.conflicts }, null, 2);
+        return {
+          content: [{
+            type: "text",
+            text: `[OK] **Sessions Merged**\n\n${text}\n\n\`\`\`json\n${json}\n\`\`\`\n\n[INFO] Load the merged data with \`import_session\` in replace mode, or call merge_sessions with apply: true.`
+          }]
+        };
+      }
+
+      await this.inMemoryStore.runExclusive(async (db) => {
+        ImportService.applyImport(db, result.database, 'replace');
+        return {
+          result: undefined,
+          commit: true,
+          changedParts: new Set(['projects', 'tasks', 'memories', 'meta', 'templates'] as const)
+        };
+      }, 'merge_sessions');
+
+      this.buildTaskIndex();
+      this.pruneSessionActivity();
+
+      text += '\n\n[INFO] The merged data replaced the current session. Use `undo` to revert.';
+      return {
+        content: [{
+          type: "text",
+          text: `[OK] **Sessions Merged and Applied**\n\n${text}`
+        }]
+      };
+    });
+  }
+
+  // Configuration
+
+  /**
+   * Effective configuration and where each value came from
+   */
+  getConfig(): ResolvedConfig {
+    return this.config;
+  }
+
+  /**
+   * Shows the effective store limits, cache TTLs and tool defaults with their sources
+   */
+  async get_config(args: any = {}): Promise<any> {
+    return this.safeExecute('get_config', async () => {
+      this.trackToolUsage('get_config');
+      const { format = this.config.values.defaults.output_format } = args;
+
+      const text = format === 'json'
+        ? JSON.stringify({ file: this.config.file ?? null, values: this.config.values, sources: this.config.sources }, null, 2)
+        : formatConfigReport(this.config);
+
+      return {
+        content: [{
+          type: "text",
+          text
+        }]
+      };
+    });
+  }
+
+  // Workspace Management
+
+  /**
+   * Name of the workspace all tools currently operate in
+   */
+  getActiveWorkspace(): string {
+    return this.activeWorkspace;
+  }
+
+  /**
+   * Creates a workspace with its own empty database
+   */
+  async create_workspace(args: any = {}): Promise<any> {
+    return this.safeExecute('create_workspace', async () => {
+      this.trackToolUsage('create_workspace');
+      const { name, switch_to = true, dry_run = false } = args;
+
+      this.validateWorkspaceName(name);
+      if (this.workspaceNames().includes(name)) {
+        throw new Error(`Workspace '${name}' already exists. Use switch_workspace to activate it`);
+      }
+
+      if (dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] create_workspace: Would create workspace '${name}'${switch_to ? ' and switch to it' : ''}. No changes made.`
+          }],
+          isError: false
+        };
+      }
+
+      const previous = this.activeWorkspace;
+      await this.runWorkspaceChange(async () => {
+        this.loadWorkspace(name);
+        if (switch_to) {
+          await this.swapInWorkspace(name);
+          this.workspaceSelection = 'create_workspace';
+        }
+      });
+
+      return {
+        content: [{
+          type: "text",
+          text: `[OK] **Workspace Created**\n\n**Name:** ${name}\n**Active Workspace:** ${this.activeWorkspace}${switch_to ? ` (was ${previous})` : ''}\n\n[INFO] Projects, tasks, memories and session activity are kept separately for each workspace.`
+        }]
+      };
+    });
+  }
+
+  /**
+   * Lists known workspaces with item counts for those already loaded
+   */
+  async list_workspaces(_args: any = {}): Promise<any> {
+    return this.safeExecute('list_workspaces', async () => {
+      this.trackToolUsage('list_workspaces');
+
+      const names = this.workspaceNames();
+      let text = `[INFO] **Workspaces** (${names.length})\n\n`;
+
+      for (const name of names) {
+        const store = name === this.activeWorkspace ? this.inMemoryStore : this.inactiveWorkspaces.get(name)?.store;
+        const marker = name === this.activeWorkspace ? ' (active)' : '';
+        if (store) {
+          const database = store.getDatabase();
+          text += `- **${name}**${marker} - ${database.projects.length} projects, ${database.tasks.length} tasks, ${database.memories.length} memories\n`;
+        } else {
+          text += `- **${name}** - stored, not loaded\n`;
+        }
+      }
+
+      text += `\n**Active workspace selected by:** ${this.workspaceSelection}`;
+
+      return {
+        content: [{
+          type: "text",
+          text
+        }]
+      };
+    });
+  }
+
+  /**
+   * Makes another workspace active for all following tool calls
+   */
+  async switch_workspace(args: any = {}): Promise<any> {
+    return this.safeExecute('switch_workspace', async () => {
+      this.trackToolUsage('switch_workspace');
+      const { name, create = false, dry_run = false } = args;
+
+      this.validateWorkspaceName(name);
+      const exists = this.workspaceNames().includes(name);
+      if (!exists && !create) {
+        throw new WorkspaceNotFoundError(name, this.workspaceNames());
+      }
+
+      if (name === this.activeWorkspace) {
+        return {
+          content: [{
+            type: "text",
+            text: `[INFO] Workspace '${name}' is already active.`
+          }]
+        };
+      }
+
+      if (dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: `[DRY RUN] switch_workspace: Would switch from '${this.activeWorkspace}' to ${exists ? '' : 'new '}workspace '${name}'. No changes made.`
+          }],
+          isError: false
+        };
+      }
+
+      const previous = this.activeWorkspace;
+      await this.runWorkspaceChange(async () => {
+        await this.swapInWorkspace(name);
+        this.workspaceSelection = 'switch_workspace';
+      });
+
+      const database = this.inMemoryStore.getDatabase();
+      const currentProject = database.projects.find(p => p.id === database.meta.current_project_id);
+
+      return {
+        content: [{
+          type: "text",
+          text: `[OK] **Switched Workspace**\n\n**Workspace:** ${name}${exists ? '' : ' (created)'}\n**Previous:** ${previous}\n**Contents:** ${database.projects.length} projects, ${database.tasks.length} tasks, ${database.memories.length} memories\n**Current Project:** ${currentProject ? currentProject.name : 'None'}`
+        }]
+      };
+    });
+  }
+
+  /**
+   * Activates a workspace chosen outside of the tools, e.g. from the MCP client's roots,
+   * creating it when it does not exist yet
+   */
+  async selectWorkspace(name: string, reason: string): Promise<void> {
+    return this.safeExecute('selectWorkspace', async () => {
+      this.validateWorkspaceName(name);
+      await this.runWorkspaceChange(async () => {
+        await this.swapInWorkspace(name);
+        this.workspaceSelection = reason;
+      });
+    });
+  }
+
+  private validateWorkspaceName(name: unknown): asserts name is string {
+    if (!isValidWorkspaceName(name)) {
+      throw new ValidationError('name', name, "must use lowercase letters, digits, '.', '_' and '-' (max 64 characters)");
+    }
+  }
+
+  private workspaceNames(): string[] {
+    return [...new Set([
+      DEFAULT_WORKSPACE,
+      this.activeWorkspace,
+      ...this.inactiveWorkspaces.keys(),
+      ...this.workspaceStorage.list()
+    ])].sort();
+  }
+
+  /**
+   * Runs a workspace load or swap after those requested before it. A failed change
+   * does not hold up the ones queued behind it.
+   */
+  private runWorkspaceChange<T>(change: () => Promise<T>): Promise<T> {
+    const result = this.workspaceChanges.then(change);
+    this.workspaceChanges = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Returns the state of an inactive workspace, loading it from its storage the first time.
+   * Each workspace is opened once and its store reused for every later switch.
+   */
+  private loadWorkspace(name: string): WorkspaceState {
+    const loaded = this.inactiveWorkspaces.get(name);
+    if (loaded) return loaded;
+
+    const store = new InMemoryStore(this.workspaceStorage.open(name), this.config.values);
+    store.stopMaintenanceTasks();
+    const state: WorkspaceState = {
+      store,
+      taskIndex: new Map(store.getDatabase().tasks.map(task => [task.id, task])),
+      sessionActivity: createSessionActivity(),
+      sessionStartTime: new Date()
+    };
+    this.inactiveWorkspaces.set(name, state);
+    return state;
+  }
+
+  /**
+   * Swaps the named workspace's state in, loading it first if needed. Operations already
+   * queued on the current workspace finish before the swap. Only the active store runs
+   * background maintenance; all loaded stores are closed on shutdown.
+   * Call through runWorkspaceChange.
+   */
+  private async swapInWorkspace(name: string): Promise<void> {
+    if (name === this.activeWorkspace) return;
+
+    const next = this.loadWorkspace(name);
+    await this.inMemoryStore.runExclusive(async () => ({ result: undefined, commit: false }), 'switch_workspace');
+
+    this.inMemoryStore.stopMaintenanceTasks();
+    this.inactiveWorkspaces.set(this.activeWorkspace, {
+      store: this.inMemoryStore,
+      taskIndex: this.taskIndex,
+      sessionActivity: this.sessionActivity,
+      sessionStartTime: this.sessionStartTime
+    });
+    this.inactiveWorkspaces.delete(name);
+
+    this.inMemoryStore = next.store;
+    this.inMemoryStore.startMaintenanceTasks();
+    this.taskIndex = next.taskIndex;
+    this.sessionActivity = next.sessionActivity;
+    this.sessionStartTime = next.sessionStartTime;
+    this.activeWorkspace = name;
+  }
+
   /**
    * Get system health and performance statistics
    */
@@ -1567,6 +3963,22 @@ export class MemoryPickleCore {
           }
         });
 
+        const remainingTasks = new Map(db.tasks.map(task => [task.id, task]));
+        db.projects.forEach(project => {
+          const tasks = project.tasks.filter(id => remainingTasks.get(id)?.project_id === project.id);
+          if (tasks.length !== project.tasks.length) {
+            stats.invalidTaskReferences += project.tasks.length - tasks.length;
+            project.tasks = tasks;
+          }
+        });
+        db.tasks.forEach(task => {
+          const subtasks = task.subtasks.filter(id => remainingTasks.get(id)?.parent_id === task.id);
+          if (subtasks.length !== task.subtasks.length) {
+            stats.invalidTaskReferences += task.subtasks.length - subtasks.length;
+            task.subtasks = subtasks;
+          }
+        });
+
         db.memories.forEach(memory => {
           if (memory.task_id && !taskIds.has(memory.task_id)) {
             memory.task_id = undefined;
@@ -1615,7 +4027,7 @@ export class MemoryPickleCore {
           commit: hasChanges,
           changedParts: new Set(['projects', 'tasks', 'memories', 'meta'] as const)
         };
-      });
+      }, 'cleanup_orphaned_data');
 
       // Rebuild task index if tasks were changed
       if (result.orphanedTasks > 0 || result.duplicatesRemoved > 0) {
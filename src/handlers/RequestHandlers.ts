@@ -1,6 +1,8 @@
+import { fileURLToPath } from 'url';
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
   CallToolRequestSchema,
+  RootsListChangedNotificationSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
@@ -8,6 +10,7 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 import { ALL_TOOLS } from '../tools/index.js';
 import type { MemoryPickleCore } from '../core/MemoryPickleCore.js';
+import { workspaceNameFromPath } from '../config/workspace.js';
 import { formatErrorResponse, MemoryPickleError } from '../utils/errors.js';
 
 /**
@@ -26,6 +29,33 @@ export function setupRequestHandlers(server: Server, core: MemoryPickleCore): vo
   setupTemplateHandlers(server);
 }
 
+/**
+ * Selects the active workspace from the MCP client's roots once the client has initialized,
+ * and again whenever the client reports that its roots changed.
+ *
+ * The first `file://` root names the workspace; without one the working directory is used.
+ */
+export function setupWorkspaceAutoSelection(server: Server, core: MemoryPickleCore): void {
+  const selectWorkspace = async () => {
+    try {
+      let rootPath: string | undefined;
+      if (server.getClientCapabilities()?.roots) {
+        const { roots } = await server.listRoots();
+        const fileRoot = roots.find(root => root.uri.startsWith('file://'));
+        rootPath = fileRoot ? fileURLToPath(fileRoot.uri) : undefined;
+      }
+
+      const path = rootPath ?? process.cwd();
+      await core.selectWorkspace(workspaceNameFromPath(path), `${rootPath ? 'client root' : 'working directory'} ${path}`);
+    } catch (error) {
+      console.error('Workspace auto-selection failed:', error instanceof Error ? error.message : error);
+    }
+  };
+
+  server.oninitialized = () => { void selectWorkspace(); };
+  server.setNotificationHandler(RootsListChangedNotificationSchema, selectWorkspace);
+}
+
 /**
  * Dynamically extracts tool names from the tools definition to ensure synchronization
  */
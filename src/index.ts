@@ -13,6 +13,10 @@
  * Features:
  * - 8 essential MCP tools for streamlined project lifecycle management
  * - In-memory storage with atomic transaction safety
+ * - Optional JSON file persistence (--data-file / MEMORY_PICKLE_DATA_FILE)
+ * - Versioned schema with automatic migration of older stored data
+ * - Isolated workspaces per repository (--workspace <name|auto>)
+ * - Limits, cache TTLs and defaults from .memory-pickle.json or environment variables
  * - Mutex-based concurrency control for data integrity
  * - Automatic task priority detection and progress tracking
  * - Session activity tracking and analytics
@@ -36,9 +40,40 @@
  */
 
 import { MemoryPickleCore } from './core/MemoryPickleCore.js';
-import { setupRequestHandlers } from './handlers/RequestHandlers.js';
+import { existsSync } from 'fs';
+import { resolveStorageOptions, type StorageOptions } from './config/storage.js';
+import { resolveWorkspaceOptions, workspaceStorageOptions } from './config/workspace.js';
+import { loadConfig } from './config/settings.js';
+import { createStorageAdapter, createWorkspaceStorageProvider } from './storage/index.js';
+import { formatMigrationReport, migrateDatabase } from './migrations/index.js';
+import { setupRequestHandlers, setupWorkspaceAutoSelection } from './handlers/RequestHandlers.js';
 import { createServer, createTransport, startServer } from './server/ServerConfig.js';
 
+/**
+ * Prints which migrations the stored data would need, without modifying it.
+ * Used by the --migrate-dry-run flag instead of starting the server.
+ * A missing data file is reported before any adapter is opened, since
+ * opening SQLite storage creates the file and its tables.
+ */
+function reportPendingMigrations(options: StorageOptions): void {
+  if (options.dataFile && !existsSync(options.dataFile)) {
+    console.log(`[INFO] No stored data found at ${options.dataFile}. Nothing to migrate.`);
+    return;
+  }
+
+  const storage = createStorageAdapter(options);
+  try {
+    const stored = storage.load();
+    if (stored === null || stored === undefined) {
+      console.log(`[INFO] No stored data found for ${storage.kind} storage. Nothing to migrate.`);
+      return;
+    }
+    console.log(formatMigrationReport(migrateDatabase(stored, { dryRun: true }).report));
+  } finally {
+    storage.close?.();
+  }
+}
+
 /**
  * Initializes and launches the Memory Pickle MCP Server.
  *
@@ -49,14 +84,28 @@ import { createServer, createTransport, startServer } from './server/ServerConfi
  */
 async function main(): Promise<void> {
   try {
+    // Select the storage backend (in-memory unless a data file is configured)
+    const storageOptions = resolveStorageOptions();
+    const workspaceStorage = createWorkspaceStorageProvider(storageOptions);
+    const { workspace, autoSelect } = resolveWorkspaceOptions();
+    const config = loadConfig();
+
+    if (process.argv.includes('--migrate-dry-run')) {
+      reportPendingMigrations(workspaceStorageOptions(storageOptions, workspace));
+      return;
+    }
+
     // Create the core business logic instance
-    const core = await MemoryPickleCore.create();
+    const core = await MemoryPickleCore.create({ workspaceStorage, workspace, config });
 
     // Create and configure the MCP server
     const server = createServer();
 
     // Set up all request handlers
     setupRequestHandlers(server, core);
+    if (autoSelect) {
+      setupWorkspaceAutoSelection(server, core);
+    }
 
     // Create transport and start server
     const transport = createTransport();
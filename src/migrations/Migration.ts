@@ -0,0 +1,25 @@
+/**
+ * A single schema upgrade step. Migrations run in registry order; each one
+ * receives a database at the previous schema version and upgrades it in place.
+ */
+export interface Migration {
+  /** Schema version the database is at after this migration */
+  version: string;
+  description: string;
+  /** Upgrades the database in place and returns one line per change made */
+  migrate(database: any): string[];
+}
+
+export interface MigrationStepReport {
+  version: string;
+  description: string;
+  changes: string[];
+}
+
+export interface MigrationReport {
+  fromVersion: string;
+  toVersion: string;
+  dryRun: boolean;
+  upToDate: boolean;
+  steps: MigrationStepReport[];
+}
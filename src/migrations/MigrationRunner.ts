@@ -0,0 +1,103 @@
+import { compareVersions } from '../utils/version.js';
+import { MigrationError, UnsupportedSchemaVersionError } from '../utils/errors.js';
+import type { MigrationReport } from './Migration.js';
+import { CURRENT_SCHEMA_VERSION, LEGACY_VERSION_ALIASES, MIGRATIONS } from './registry.js';
+
+// Data without a version predates schema versioning
+const UNVERSIONED = '0.0.0';
+
+/**
+ * Returns the schema version a raw database was written with, resolving legacy aliases
+ */
+export function getSchemaVersion(database: any): string {
+  const version = database?.meta?.version;
+  if (typeof version !== 'string' || !version.trim()) {
+    return UNVERSIONED;
+  }
+  return LEGACY_VERSION_ALIASES[version] ?? version;
+}
+
+/**
+ * Upgrades a raw database to CURRENT_SCHEMA_VERSION by running every registered
+ * migration newer than its version, in order. The input is never modified; the
+ * migrated copy is returned with a report of each step. In dry-run mode the
+ * migrations still run on the copy so the report is exact, but callers should
+ * discard the returned database.
+ *
+ * @throws UnsupportedSchemaVersionError if the data is from a newer schema version
+ */
+export function migrateDatabase(raw: unknown, options: { dryRun?: boolean } = {}): {
+  database: any;
+  report: MigrationReport;
+} {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new MigrationError(CURRENT_SCHEMA_VERSION, 'stored data is not a database object');
+  }
+
+  const fromVersion = getSchemaVersion(raw);
+  if (compareVersions(fromVersion, CURRENT_SCHEMA_VERSION) > 0) {
+    throw new UnsupportedSchemaVersionError(fromVersion, CURRENT_SCHEMA_VERSION);
+  }
+
+  const database = JSON.parse(JSON.stringify(raw));
+  const report: MigrationReport = {
+    fromVersion: (raw as any).meta?.version ?? 'unversioned',
+    toVersion: CURRENT_SCHEMA_VERSION,
+    dryRun: options.dryRun ?? false,
+    upToDate: true,
+    steps: []
+  };
+
+  for (const migration of MIGRATIONS) {
+    if (compareVersions(migration.version, fromVersion) <= 0) continue;
+
+    try {
+      const changes = migration.migrate(database);
+      setVersion(database, migration.version);
+      report.steps.push({ version: migration.version, description: migration.description, changes });
+    } catch (error) {
+      throw new MigrationError(migration.version, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  // Also normalizes legacy aliases such as "2.0.0" to the current version
+  setVersion(database, CURRENT_SCHEMA_VERSION);
+
+  report.upToDate = report.steps.length === 0 && report.fromVersion === CURRENT_SCHEMA_VERSION;
+  return { database, report };
+}
+
+function setVersion(database: any, version: string): void {
+  // A malformed meta section is left for schema validation to report
+  if (database.meta && typeof database.meta === 'object') {
+    database.meta.version = version;
+  }
+}
+
+/**
+ * Formats a migration report as plain text
+ */
+export function formatMigrationReport(report: MigrationReport): string {
+  if (report.upToDate) {
+    return `[INFO] Data is at schema version ${report.toVersion}. No migration needed.`;
+  }
+
+  const prefix = report.dryRun ? '[DRY RUN] ' : '[OK] ';
+  const verb = report.dryRun ? 'Would migrate' : 'Migrated';
+  let text = `${prefix}${verb} data from schema version ${report.fromVersion} to ${report.toVersion}\n`;
+
+  if (report.steps.length === 0) {
+    text += `- version label updated only\n`;
+  }
+  for (const step of report.steps) {
+    text += `- ${step.version}: ${step.description}\n`;
+    if (step.changes.length === 0) {
+      text += `    (no changes needed)\n`;
+    }
+    for (const change of step.changes) {
+      text += `    ${change}\n`;
+    }
+  }
+
+  return text.trimEnd();
+}
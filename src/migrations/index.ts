@@ -0,0 +1,3 @@
+export type { Migration, MigrationReport, MigrationStepReport } from './Migration.js';
+export { CURRENT_SCHEMA_VERSION, LEGACY_VERSION_ALIASES, MIGRATIONS } from './registry.js';
+export { getSchemaVersion, migrateDatabase, formatMigrationReport } from './MigrationRunner.js';
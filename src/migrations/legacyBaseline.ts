@@ -0,0 +1,76 @@
+import type { Migration } from './Migration.js';
+
+const PRIORITIES = ['critical', 'high', 'medium', 'low'];
+const PROJECT_STATUSES = ['planning', 'in_progress', 'blocked', 'completed', 'archived'];
+
+/**
+ * Brings data written before schema versioning (or by pre-1.3.9 releases) to the
+ * 1.3.9 shape: fills in collections and required fields that older releases
+ * could leave out, so the result passes the current Zod schema.
+ */
+export const legacyBaselineMigration: Migration = {
+  version: '1.3.9',
+  description: 'Fill in collections and required fields missing from pre-1.3.9 data',
+  migrate(database: any): string[] {
+    const changes: string[] = [];
+    const now = new Date().toISOString();
+
+    // Only fill in what is missing; malformed values are left for schema validation to reject
+    if (database.meta === undefined || database.meta === null) {
+      database.meta = {};
+      changes.push('added missing meta section');
+    }
+    if (typeof database.meta === 'object') {
+      database.meta.last_updated ??= now;
+      database.meta.session_count ??= 0;
+    }
+
+    for (const collection of ['projects', 'tasks', 'memories']) {
+      if (database[collection] === undefined) {
+        database[collection] = [];
+        changes.push(`added missing ${collection} collection`);
+      }
+    }
+    if (database.templates === undefined) {
+      database.templates = {};
+    }
+
+    const fixCount = (items: unknown, fix: (item: any) => boolean, message: string) => {
+      if (!Array.isArray(items)) return;
+      const fixed = items.filter(item => item && typeof item === 'object' && fix(item)).length;
+      if (fixed > 0) {
+        changes.push(`${fixed} ${message}`);
+      }
+    };
+
+    fixCount(database.projects, project => {
+      let fixed = false;
+      if (!PROJECT_STATUSES.includes(project.status)) { project.status = 'planning'; fixed = true; }
+      if (typeof project.completion_percentage !== 'number') { project.completion_percentage = 0; fixed = true; }
+      if (typeof project.created_date !== 'string') { project.created_date = now; fixed = true; }
+      return fixed;
+    }, 'project(s) given default status, completion or creation date');
+
+    fixCount(database.tasks, task => {
+      let fixed = false;
+      if (typeof task.completed !== 'boolean') { task.completed = Boolean(task.completed_date); fixed = true; }
+      if (!PRIORITIES.includes(task.priority)) { task.priority = 'medium'; fixed = true; }
+      if (typeof task.created_date !== 'string') { task.created_date = now; fixed = true; }
+      return fixed;
+    }, 'task(s) given default completion, priority or creation date');
+
+    fixCount(database.memories, memory => {
+      let fixed = false;
+      if (typeof memory.category !== 'string') { memory.category = 'general'; fixed = true; }
+      if (!PRIORITIES.includes(memory.importance)) { memory.importance = 'medium'; fixed = true; }
+      if (typeof memory.timestamp !== 'string') { memory.timestamp = now; fixed = true; }
+      if (typeof memory.title !== 'string') {
+        memory.title = String(memory.content ?? 'Untitled memory').substring(0, 50);
+        fixed = true;
+      }
+      return fixed;
+    }, 'memory(ies) given default category, importance, timestamp or title');
+
+    return changes;
+  }
+};
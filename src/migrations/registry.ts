@@ -0,0 +1,28 @@
+import type { Migration } from './Migration.js';
+import { legacyBaselineMigration } from './legacyBaseline.js';
+import { taskStatusMigration } from './taskStatus.js';
+import { taskLinksMigration } from './taskLinks.js';
+
+/**
+ * Schema version written to meta.version. This tracks the shape of the stored
+ * data and only changes when a migration is added, independent of the package version.
+ */
+export const CURRENT_SCHEMA_VERSION = '1.5.0';
+
+/**
+ * Version strings written by older releases that do not follow the schema
+ * numbering. create_project used to write "2.0.0" for data that is 1.3.9-shaped.
+ */
+export const LEGACY_VERSION_ALIASES: Record<string, string> = {
+  '2.0.0': '1.3.9'
+};
+
+/**
+ * Ordered list of migrations, oldest first. The last entry's version must equal
+ * CURRENT_SCHEMA_VERSION. Add new migrations to the end and bump the constant.
+ */
+export const MIGRATIONS: Migration[] = [
+  legacyBaselineMigration,
+  taskStatusMigration,
+  taskLinksMigration
+];
@@ -0,0 +1,38 @@
+import type { Migration } from './Migration.js';
+
+/**
+ * Drops entries from project task lists and task subtask lists that do not point
+ * back at the list's owner (the task is gone, belongs to another project or has
+ * another parent). Referential integrity checks these lists from 1.5.0 on.
+ */
+export const taskLinksMigration: Migration = {
+  version: '1.5.0',
+  description: 'Remove project task and subtask list entries that do not match the task',
+  migrate(database: any): string[] {
+    if (!Array.isArray(database.tasks)) {
+      return [];
+    }
+
+    const tasksById = new Map<string, any>(database.tasks.filter((task: any) => task && typeof task === 'object').map((task: any) => [task.id, task]));
+    let projectEntries = 0;
+    let subtaskEntries = 0;
+
+    for (const project of Array.isArray(database.projects) ? database.projects : []) {
+      if (!project || !Array.isArray(project.tasks)) continue;
+      const tasks = project.tasks.filter((id: string) => tasksById.get(id)?.project_id === project.id);
+      projectEntries += project.tasks.length - tasks.length;
+      project.tasks = tasks;
+    }
+    for (const task of tasksById.values()) {
+      if (!Array.isArray(task.subtasks)) continue;
+      const subtasks = task.subtasks.filter((id: string) => tasksById.get(id)?.parent_id === task.id);
+      subtaskEntries += task.subtasks.length - subtasks.length;
+      task.subtasks = subtasks;
+    }
+
+    const changes: string[] = [];
+    if (projectEntries > 0) changes.push(`${projectEntries} stale project task list entry(ies) removed`);
+    if (subtaskEntries > 0) changes.push(`${subtaskEntries} stale subtask list entry(ies) removed`);
+    return changes;
+  }
+};
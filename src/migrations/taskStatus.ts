@@ -0,0 +1,27 @@
+import type { Migration } from './Migration.js';
+
+const STATUSES = ['todo', 'in_progress', 'in_review', 'blocked', 'done', 'cancelled'];
+
+/**
+ * Replaces the completed flag as the source of truth for a task's state with a
+ * workflow status: completed tasks become 'done', tasks with progress become
+ * 'in_progress' and the rest 'todo'. The completed flag is kept in step.
+ */
+export const taskStatusMigration: Migration = {
+  version: '1.4.0',
+  description: 'Add workflow status to tasks from their completion flag',
+  migrate(database: any): string[] {
+    if (!Array.isArray(database.tasks)) {
+      return [];
+    }
+
+    const counts: Record<string, number> = {};
+    for (const task of database.tasks) {
+      if (!task || typeof task !== 'object' || STATUSES.includes(task.status)) continue;
+      task.status = task.completed ? 'done' : typeof task.progress === 'number' && task.progress > 0 ? 'in_progress' : 'todo';
+      counts[task.status] = (counts[task.status] ?? 0) + 1;
+    }
+
+    return Object.entries(counts).map(([status, count]) => `${count} task(s) given status '${status}'`);
+  }
+};
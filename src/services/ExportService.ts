@@ -1,4 +1,5 @@
 import type { ProjectDatabase } from '../types/index.js';
+import { formatStatusLabel } from '../utils/taskStatus.js';
 
 /**
  * Service for exporting session data in various formats
@@ -62,8 +63,7 @@ export class ExportService {
     // Tasks section
     markdown += `### Tasks (${database.tasks.length})\n\n`;
     database.tasks.forEach(task => {
-      const status = task.completed ? '[COMPLETED]' : '[ACTIVE]';
-      markdown += `#### ${task.title} ${status}\n`;
+      markdown += `#### ${task.title} ${formatStatusLabel(task.status)}\n`;
       markdown += `- **Priority:** ${task.priority}\n`;
       markdown += `- **Project ID:** ${task.project_id}\n`;
       markdown += `- **ID:** ${task.id}\n`;
@@ -0,0 +1,278 @@
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { ProjectDatabase, Project, Task, Memory, ImportReport } from '../types/index.js';
+import { projectDatabaseSchema } from '../types/schemas.js';
+import { migrateDatabase, type MigrationReport } from '../migrations/index.js';
+import { ValidationUtils } from '../utils/ValidationUtils.js';
+import { ValidationError } from '../utils/errors.js';
+import { generateId } from '../utils/idGenerator.js';
+
+type EntityType = 'project' | 'task' | 'memory';
+
+/**
+ * Service for loading session data produced by ExportService back into the database
+ */
+export class ImportService {
+
+  /**
+   * Reads an export file from disk
+   */
+  static readImportFile(filePath: string): string {
+    const resolvedPath = resolve(filePath);
+    if (!existsSync(resolvedPath)) {
+      throw new ValidationError('file_path', filePath, 'must point to an existing file');
+    }
+    return readFileSync(resolvedPath, 'utf-8');
+  }
+
+  /**
+   * Accepts either export JSON text or a path to a file containing it
+   */
+  static readImportInput(value: string): string {
+    const text = value.trim();
+    return text.startsWith('{') || text.includes('```json') ? value : this.readImportFile(text);
+  }
+
+  /**
+   * Parses an export_session JSON document (or a bare database) into a validated database.
+   * Accepts the raw JSON text, the full export_session response with its ```json fence,
+   * or an already parsed object. Older schema versions are migrated first.
+   */
+  static parseImport(input: string | object): { database: ProjectDatabase; migration: MigrationReport } {
+    let document: any = input;
+
+    if (typeof input === 'string') {
+      const text = input.trim();
+      const fenced = text.match(/```json\s*([\s\S]*?)```/);
+      const json = text.startsWith('{') ? text : fenced?.[1];
+      if (!json) {
+        throw new ValidationError('data', text.substring(0, 50), 'must be export_session JSON output');
+      }
+      try {
+        document = JSON.parse(json);
+      } catch (error) {
+        throw new ValidationError('data', text.substring(0, 50), `must be valid JSON (${error instanceof Error ? error.message : 'parse error'})`);
+      }
+    }
+
+    if (!document || typeof document !== 'object' || Array.isArray(document)) {
+      throw new ValidationError('data', typeof document, 'must be a JSON object');
+    }
+
+    // export_session wraps the database next to export_info and session_activity
+    const rawDatabase = document.database && typeof document.database === 'object' ? document.database : document;
+    const { database: migrated, report: migration } = migrateDatabase(rawDatabase);
+
+    const parsed = projectDatabaseSchema.safeParse(migrated);
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .slice(0, 5)
+        .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      throw new ValidationError('data', 'export document', `must match the session schema (${issues})`);
+    }
+
+    const integrity = ValidationUtils.validateReferentialIntegrity(parsed.data);
+    if (!integrity.isValid) {
+      throw new ValidationError('data', 'export document', `must be internally consistent (${integrity.errors.slice(0, 5).join('; ')})`);
+    }
+
+    return { database: parsed.data, migration };
+  }
+
+  /**
+   * Applies an imported database to the target database in place.
+   *
+   * - replace: the target's projects, tasks, memories and meta are swapped for the imported ones
+   * - merge: imported entities are added; entities whose ID already exists with identical
+   *   content are skipped, and those whose ID exists with different content are added under
+   *   a new ID, with every reference to them inside the import remapped. Project task lists,
+   *   subtask lists, completion and the status that follows it are derived from the tasks,
+   *   so differences in them alone do not count. Every added task is linked into its project's and parent's lists.
+   */
+  static applyImport(target: ProjectDatabase, imported: ProjectDatabase, mode: 'replace' | 'merge'): ImportReport {
+    const report: ImportReport = {
+      mode,
+      added: { projects: 0, tasks: 0, memories: 0 },
+      skipped: { projects: 0, tasks: 0, memories: 0 },
+      removed: { projects: 0, tasks: 0, memories: 0 },
+      conflicts: []
+    };
+
+    if (mode === 'replace') {
+      report.removed = {
+        projects: target.projects.length,
+        tasks: target.tasks.length,
+        memories: target.memories.length
+      };
+      target.projects = imported.projects;
+      target.tasks = imported.tasks;
+      target.memories = imported.memories;
+      target.templates = { ...target.templates, ...imported.templates };
+      target.meta = { ...imported.meta, session_count: target.meta.session_count };
+      report.added = {
+        projects: imported.projects.length,
+        tasks: imported.tasks.length,
+        memories: imported.memories.length
+      };
+      return report;
+    }
+
+    // Decide the ID of every imported entity before rewriting any references
+    const projectPlan = this.planCollection(target.projects, imported.projects, 'project', p => p.name, report,
+      ({ tasks, completion_percentage, status, ...project }) => project);
+    const taskPlan = this.planCollection(target.tasks, imported.tasks, 'task', t => t.title, report,
+      ({ subtasks, ...task }) => task);
+    const memoryPlan = this.planCollection(target.memories, imported.memories, 'memory', m => m.title, report);
+
+    const mapProject = (id: string) => projectPlan.idMap.get(id) ?? id;
+    const mapTask = (id: string) => taskPlan.idMap.get(id) ?? id;
+    const mapMemory = (id: string) => memoryPlan.idMap.get(id) ?? id;
+
+    const addedProjects = projectPlan.toAdd.map(project => ({
+      ...project,
+      id: mapProject(project.id),
+      tasks: project.tasks.map(mapTask)
+    }));
+    target.projects.push(...addedProjects);
+
+    const addedTasks = taskPlan.toAdd.map(task => ({
+      ...task,
+      id: mapTask(task.id),
+      project_id: mapProject(task.project_id),
+      parent_id: task.parent_id ? mapTask(task.parent_id) : undefined,
+      subtasks: task.subtasks.map(mapTask),
+      depends_on: task.depends_on.map(mapTask)
+    }));
+    target.tasks.push(...addedTasks);
+
+    this.linkAddedTasks(target, addedProjects, addedTasks);
+
+    for (const memory of memoryPlan.toAdd) {
+      target.memories.push({
+        ...memory,
+        id: mapMemory(memory.id),
+        project_id: memory.project_id ? mapProject(memory.project_id) : undefined,
+        task_id: memory.task_id ? mapTask(memory.task_id) : undefined,
+        related_memories: memory.related_memories.map(mapMemory)
+      });
+    }
+
+    if (!target.meta.current_project_id && imported.meta.current_project_id) {
+      target.meta.current_project_id = mapProject(imported.meta.current_project_id);
+    }
+
+    report.added = {
+      projects: projectPlan.toAdd.length,
+      tasks: taskPlan.toAdd.length,
+      memories: memoryPlan.toAdd.length
+    };
+    return report;
+  }
+
+  /**
+   * Brings task and subtask lists in line with the added entities. An added copy only
+   * keeps the children that point back at it, since a skipped child still belongs to the
+   * existing entity with its ID; every added task is then listed in its project and parent.
+   */
+  private static linkAddedTasks(target: ProjectDatabase, addedProjects: Project[], addedTasks: Task[]): void {
+    const projectsById = new Map(target.projects.map(project => [project.id, project]));
+    const tasksById = new Map(target.tasks.map(task => [task.id, task]));
+
+    for (const project of addedProjects) {
+      project.tasks = project.tasks.filter(id => tasksById.get(id)?.project_id === project.id);
+    }
+    for (const task of addedTasks) {
+      task.subtasks = task.subtasks.filter(id => tasksById.get(id)?.parent_id === task.id);
+    }
+
+    for (const task of addedTasks) {
+      const project = projectsById.get(task.project_id);
+      if (project && !project.tasks.includes(task.id)) {
+        project.tasks = [...project.tasks, task.id];
+      }
+      const parent = task.parent_id ? tasksById.get(task.parent_id) : undefined;
+      if (parent && !parent.subtasks.includes(task.id)) {
+        parent.subtasks = [...parent.subtasks, task.id];
+      }
+    }
+  }
+
+  /**
+   * Sorts imported entities into skipped duplicates and entities to add,
+   * assigning new IDs to those that collide with different content.
+   * Entities are compared on what `comparable` keeps of them.
+   */
+  private static planCollection<T extends Project | Task | Memory>(
+    existing: T[],
+    imported: T[],
+    type: EntityType,
+    nameOf: (entity: T) => string,
+    report: ImportReport,
+    comparable: (entity: T) => unknown = entity => entity
+  ): { toAdd: T[]; idMap: Map<string, string> } {
+    const existingById = new Map(existing.map(entity => [entity.id, entity]));
+    const prefix = type === 'project' ? 'proj' : type === 'task' ? 'task' : 'mem';
+    const collection = type === 'project' ? 'projects' : type === 'task' ? 'tasks' : 'memories';
+    const toAdd: T[] = [];
+    const idMap = new Map<string, string>();
+
+    for (const entity of imported) {
+      const current = existingById.get(entity.id);
+      if (!current) {
+        toAdd.push(entity);
+        continue;
+      }
+
+      if (this.canonicalJson(comparable(current)) === this.canonicalJson(comparable(entity))) {
+        report.skipped[collection]++;
+        continue;
+      }
+
+      const newId = generateId(prefix);
+      idMap.set(entity.id, newId);
+      toAdd.push(entity);
+      report.conflicts.push({ type, name: nameOf(entity), original_id: entity.id, new_id: newId });
+    }
+
+    return { toAdd, idMap };
+  }
+
+  /**
+   * Serializes with sorted keys so entities compare equal regardless of property order
+   */
+  private static canonicalJson(value: unknown): string {
+    return JSON.stringify(value, (_key, val) =>
+      val && typeof val === 'object' && !Array.isArray(val)
+        ? Object.fromEntries(Object.keys(val).sort().map(key => [key, val[key]]))
+        : val
+    );
+  }
+
+  /**
+   * Formats an import report as plain text
+   */
+  static formatReport(report: ImportReport, dryRun: boolean = false): string {
+    const counts = (c: { projects: number; tasks: number; memories: number }) =>
+      `${c.projects} projects, ${c.tasks} tasks, ${c.memories} memories`;
+
+    let text = dryRun
+      ? `[DRY RUN] import_session (${report.mode}): No changes made.\n\n`
+      : `[OK] **Session Imported (${report.mode})**\n\n`;
+
+    const would = dryRun ? 'Would be ' : '';
+    if (report.mode === 'replace') {
+      text += `**${would}Removed:** ${counts(report.removed)}\n`;
+    }
+    text += `**${would}Added:** ${counts(report.added)}\n`;
+    if (report.mode === 'merge') {
+      text += `**Skipped (already present):** ${counts(report.skipped)}\n`;
+      text += `**Conflicted (imported under new IDs):** ${report.conflicts.length}\n`;
+      report.conflicts.forEach(conflict => {
+        text += `- ${conflict.type} '${conflict.name}': ${conflict.original_id} -> ${conflict.new_id}\n`;
+      });
+    }
+
+    return text.trimEnd();
+  }
+}
@@ -1,14 +1,45 @@
-import type { ProjectDatabase } from '../types/index.js';
+import type { ProjectDatabase, DatabaseSnapshotInfo, MutationHistoryEntry } from '../types/index.js';
+import { projectDatabaseSchema } from '../types/schemas.js';
 import { ValidationUtils } from '../utils/ValidationUtils.js';
-import { getVersion } from '../utils/version.js';
+import { SnapshotNotFoundError } from '../utils/errors.js';
+import { generateId } from '../utils/idGenerator.js';
+import { createDraft } from '../utils/copyOnWrite.js';
+import {
+  applyDatabaseDiff,
+  describeDatabaseDiff,
+  diffDatabases,
+  getDiffParts,
+  invertDatabaseDiff,
+  isEmptyDiff,
+  type DatabaseDiff
+} from '../utils/databaseDiff.js';
+import { CURRENT_SCHEMA_VERSION, formatMigrationReport, migrateDatabase } from '../migrations/index.js';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter.js';
+import { DEFAULT_CONFIG, type MemoryPickleConfig } from '../config/settings.js';
+import type { StorageAdapter, DatabasePart } from '../storage/StorageAdapter.js';
+
+/**
+ * How a committed operation affects the undo/redo history.
+ * Operations without an action are recorded as a new undoable step.
+ */
+export type HistoryAction =
+  | { type: 'undo' | 'redo'; steps: number }
+  | { type: 'clear' };
+
+type HistoryEntry = MutationHistoryEntry & { diff: DatabaseDiff };
+
+type StoredSnapshot = DatabaseSnapshotInfo & { database: ProjectDatabase };
 
 /**
  * High-performance in-memory data store with transaction safety and caching.
- * Maintains data integrity through snapshot-based transactions while optimizing
+ * Maintains data integrity through copy-on-write transactions while optimizing
  * for single-client MCP usage with performance monitoring and smart caching.
+ * Loading and persistence are delegated to a pluggable StorageAdapter; the
+ * default adapter keeps everything in memory only.
  */
 export class InMemoryStore {
   private database: ProjectDatabase;
+  private readonly storage: StorageAdapter;
   private operationLock: Promise<void> = Promise.resolve();
   private operationQueue: Array<{
     operation: (db: ProjectDatabase) => Promise<any>;
@@ -31,31 +62,108 @@ export class InMemoryStore {
 
   // Simple caching for frequently accessed data
   private cache = new Map<string, { data: any; timestamp: number; ttl: number }>();
-  private static readonly CACHE_TTL = 30000; // 30 seconds
   private static readonly MAX_CACHE_SIZE = 100;
 
-  // Data size limits to prevent unbounded memory growth
-  private static readonly MAX_PROJECTS = 1000;
-  private static readonly MAX_TASKS = 10000;
-  private static readonly MAX_MEMORIES = 5000;
+  // Data size limits and cache TTLs come from the configuration
+  private readonly limits: MemoryPickleConfig['limits'];
+  private readonly cacheConfig: MemoryPickleConfig['cache'];
   private static readonly MAX_QUEUE_SIZE = 100;
-  private static readonly MAX_DATABASE_SIZE_MB = 50;
+  private static readonly MAX_SNAPSHOTS = 20;
+  private static readonly MAX_HISTORY = 50;
+
+  // Named full-database snapshots, oldest first
+  private snapshots: StoredSnapshot[] = [];
+
+  // Undo/redo history of committed operations, most recent last
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+
+  private maintenanceTimer?: ReturnType<typeof setInterval>;
 
-  constructor() {
-    this.database = this.createDefaultDatabase();
+  constructor(storage: StorageAdapter = new MemoryStorageAdapter(), config: MemoryPickleConfig = DEFAULT_CONFIG) {
+    this.storage = storage;
+    this.limits = config.limits;
+    this.cacheConfig = config.cache;
+    this.database = this.loadFromStorage();
     this.startMaintenanceTasks();
   }
 
+  /**
+   * Loads the initial database from the storage adapter, falling back to an empty database.
+   * Stored data from an older schema version is migrated and written back; data from a
+   * newer, unknown version is refused.
+   */
+  private loadFromStorage(): ProjectDatabase {
+    const stored = this.storage.load();
+    if (stored === null || stored === undefined) {
+      return this.createDefaultDatabase();
+    }
+
+    const { database: migrated, report } = migrateDatabase(stored);
+
+    const parsed = projectDatabaseSchema.safeParse(migrated);
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .slice(0, 5)
+        .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      throw new Error(`Stored database is invalid (${this.storage.kind} storage): ${issues}`);
+    }
+
+    if (!report.upToDate) {
+      // stderr only: stdout carries the MCP protocol
+      console.error(formatMigrationReport(report));
+      this.persistMigratedDatabase(parsed.data);
+    }
+
+    return parsed.data;
+  }
+
+  /**
+   * Writes a freshly migrated database back so the upgrade only happens once
+   */
+  private persistMigratedDatabase(database: ProjectDatabase): void {
+    if (!this.storage.persistent) return;
+
+    this.storage.beginTransaction?.();
+    try {
+      this.storage.save(database, { operationType: 'migrate' });
+      this.storage.commitTransaction?.();
+    } catch (error) {
+      this.rollbackStorageTransaction();
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the kind of storage backend in use and whether it persists data
+   */
+  getStorageInfo(): { kind: string; persistent: boolean } {
+    return { kind: this.storage.kind, persistent: this.storage.persistent };
+  }
+
   /**
    * Starts background maintenance tasks for cache cleanup and metrics
    */
-  private startMaintenanceTasks(): void {
+  startMaintenanceTasks(): void {
+    if (this.maintenanceTimer) return;
+
     // Cache cleanup every 60 seconds
-    setInterval(() => {
+    this.maintenanceTimer = setInterval(() => {
       this.cleanupCache();
     }, 60000);
   }
 
+  /**
+   * Stops background maintenance, e.g. while the store's workspace is not active
+   */
+  stopMaintenanceTasks(): void {
+    if (this.maintenanceTimer) {
+      clearInterval(this.maintenanceTimer);
+      this.maintenanceTimer = undefined;
+    }
+  }
+
   /**
    * Executes an operation with proper mutex-based transaction safety and performance monitoring.
    * Uses Promise chaining to ensure true serialization without recursion.
@@ -68,7 +176,8 @@ export class InMemoryStore {
     operation: (db: ProjectDatabase) => Promise<{
       result: T;
       commit?: boolean;
-      changedParts?: Set<'projects' | 'tasks' | 'memories' | 'meta'>;
+      changedParts?: Set<DatabasePart>;
+      history?: HistoryAction;
     }>,
     operationType: string = 'unknown'
   ): Promise<T> {
@@ -107,31 +216,48 @@ export class InMemoryStore {
 
         const { operation, resolve, reject, timestamp, operationType } = queueItem;
 
+        let storageTransactionOpen = false;
+
         try {
           this.metrics.totalOperations++;
 
-          // Create deep snapshot for true transaction safety
-          const databaseSnapshot = this.createDeepSnapshot();
+          // Map the operation onto a storage transaction when the backend supports it
+          this.storage.beginTransaction?.();
+          storageTransactionOpen = true;
 
-          // Execute operation on isolated snapshot
-          const { result, commit = false, changedParts } = await operation(databaseSnapshot);
+          // Execute the operation on a copy-on-write draft: only the collections and
+          // entities it writes to are copied, everything else stays shared
+          const transaction = createDraft(this.database);
+          const { result, commit = false, changedParts, history } = await operation(transaction.draft);
 
           // Validate and commit atomically if requested
           if (commit) {
-            this.validateDatabaseIntegrity(databaseSnapshot, changedParts);
-            this.commitChanges(databaseSnapshot);
+            const previousDatabase = this.database;
+            const nextDatabase = transaction.finalize();
+            this.validateDatabaseIntegrity(nextDatabase, changedParts, previousDatabase);
+            const committedDatabase = this.commitChanges(nextDatabase, operationType, changedParts);
+            storageTransactionOpen = false;
+
+            // Record the inverse-able diff while still holding the lock
+            this.updateHistory(operationType, previousDatabase, committedDatabase, changedParts, history);
             
             // Invalidate cache on data changes
             if (changedParts && changedParts.size > 0) {
               this.invalidateCache(changedParts);
             }
+          } else {
+            storageTransactionOpen = false;
+            this.storage.rollbackTransaction?.();
           }
 
           this.metrics.successfulOperations++;
           resolve(result);
         } catch (error) {
           this.metrics.failedOperations++;
-          // Rollback is automatic - snapshot is discarded
+          // Rollback is automatic - the draft is discarded and the database was never touched
+          if (storageTransactionOpen) {
+            this.rollbackStorageTransaction();
+          }
           reject(error);
         }
       })
@@ -151,7 +277,7 @@ export class InMemoryStore {
   /**
    * Gets cached data or computes and caches the result
    */
-  private getCached<T>(key: string, computeFn: () => T, ttl: number = InMemoryStore.CACHE_TTL): T {
+  private getCached<T>(key: string, computeFn: () => T, ttl: number = this.cacheConfig.ttl_ms): T {
     const cached = this.cache.get(key);
     const now = Date.now();
 
@@ -180,7 +306,7 @@ export class InMemoryStore {
   /**
    * Invalidates cache entries based on changed data parts
    */
-  private invalidateCache(changedParts: Set<'projects' | 'tasks' | 'memories' | 'meta'>): void {
+  private invalidateCache(changedParts: Set<DatabasePart>): void {
     const keysToDelete: string[] = [];
     
     for (const [key] of this.cache) {
@@ -234,7 +360,7 @@ export class InMemoryStore {
    * Returns a snapshot copy of the in-memory database.
    */
   async loadDatabase(): Promise<ProjectDatabase> {
-    return this.getCached('database_snapshot', () => this.createSnapshot(), 5000); // 5-second TTL for database snapshots
+    return this.getCached('database_snapshot', () => this.createSnapshot(), this.cacheConfig.snapshot_ttl_ms);
   }
 
   /**
@@ -244,12 +370,239 @@ export class InMemoryStore {
   async saveDatabase(database: ProjectDatabase): Promise<void> {
     this.validateDatabaseIntegrity(database);
     database.meta.last_updated = new Date().toISOString();
-    this.commitChanges(database);
+    this.storage.beginTransaction?.();
+    try {
+      this.commitChanges(database, 'save_database');
+    } catch (error) {
+      this.rollbackStorageTransaction();
+      throw error;
+    }
+
+    // A wholesale replacement cannot be undone step by step
+    this.clearHistory();
     
     // Clear database cache
     this.cache.delete('database_snapshot');
   }
 
+  /**
+   * Captures the full database under a label. The capture runs inside the
+   * operation queue so it never observes a half-applied operation.
+   * The oldest snapshot is dropped once MAX_SNAPSHOTS is exceeded.
+   */
+  async createNamedSnapshot(label: string): Promise<DatabaseSnapshotInfo> {
+    return this.runExclusive(async (db) => {
+      return { result: this.storeSnapshot(this.captureSnapshot(db, label)), commit: false };
+    }, 'create_snapshot');
+  }
+
+  /**
+   * Lists snapshot summaries, newest first
+   */
+  listSnapshots(): DatabaseSnapshotInfo[] {
+    return this.snapshots.map(snapshot => this.toSnapshotInfo(snapshot)).reverse();
+  }
+
+  /**
+   * Returns the summary of a single snapshot
+   */
+  getSnapshot(snapshotId: string): DatabaseSnapshotInfo {
+    return this.toSnapshotInfo(this.findSnapshot(snapshotId));
+  }
+
+  /**
+   * Swaps a snapshot back in as the current database. The restore is a
+   * regular committed operation, so it is validated and persisted atomically
+   * like any other change. The snapshot itself is kept and can be restored again.
+   * With a backup label, the current state is captured in the same operation
+   * and kept only once the restore has committed; storing it never evicts the
+   * snapshot that was restored.
+   */
+  async restoreSnapshot(
+    snapshotId: string,
+    backupLabel?: string
+  ): Promise<{ restored: DatabaseSnapshotInfo; backup?: DatabaseSnapshotInfo }> {
+    let backup: StoredSnapshot | undefined;
+
+    const restored = await this.runExclusive(async (db) => {
+      const snapshot = this.findSnapshot(snapshotId);
+      backup = backupLabel !== undefined ? this.captureSnapshot(db, backupLabel) : undefined;
+
+      const restored = JSON.parse(JSON.stringify(snapshot.database)) as ProjectDatabase;
+      db.meta = restored.meta;
+      db.projects = restored.projects;
+      db.tasks = restored.tasks;
+      db.memories = restored.memories;
+      db.templates = restored.templates;
+
+      return {
+        result: this.toSnapshotInfo(snapshot),
+        commit: true,
+        changedParts: new Set(['projects', 'tasks', 'memories', 'meta', 'templates'] as const),
+        history: { type: 'clear' }
+      };
+    }, 'restore_snapshot');
+
+    return { restored, backup: backup && this.storeSnapshot(backup, snapshotId) };
+  }
+
+  /**
+   * Reverts the last `steps` recorded operations, most recent first, by
+   * applying their inverse diffs as a single committed operation
+   */
+  async undo(steps: number = 1): Promise<MutationHistoryEntry[]> {
+    return this.runExclusive(async (db) => {
+      const entries = this.undoStack.slice(-steps).reverse();
+      if (entries.length === 0) {
+        return { result: [], commit: false };
+      }
+
+      const changedParts = new Set<DatabasePart>();
+      for (const entry of entries) {
+        const inverse = invertDatabaseDiff(entry.diff);
+        applyDatabaseDiff(db, inverse);
+        getDiffParts(inverse).forEach(part => changedParts.add(part));
+      }
+
+      return {
+        result: entries.map(entry => this.toHistoryEntry(entry)),
+        commit: true,
+        changedParts,
+        history: { type: 'undo', steps: entries.length }
+      };
+    }, 'undo');
+  }
+
+  /**
+   * Re-applies the last `steps` undone operations in their original order
+   */
+  async redo(steps: number = 1): Promise<MutationHistoryEntry[]> {
+    return this.runExclusive(async (db) => {
+      const entries = this.redoStack.slice(-steps).reverse();
+      if (entries.length === 0) {
+        return { result: [], commit: false };
+      }
+
+      const changedParts = new Set<DatabasePart>();
+      for (const entry of entries) {
+        applyDatabaseDiff(db, entry.diff);
+        getDiffParts(entry.diff).forEach(part => changedParts.add(part));
+      }
+
+      return {
+        result: entries.map(entry => this.toHistoryEntry(entry)),
+        commit: true,
+        changedParts,
+        history: { type: 'redo', steps: entries.length }
+      };
+    }, 'redo');
+  }
+
+  /**
+   * Returns the undoable and redoable operations, most recent first
+   */
+  getHistory(): { undo: MutationHistoryEntry[]; redo: MutationHistoryEntry[] } {
+    return {
+      undo: this.undoStack.map(entry => this.toHistoryEntry(entry)).reverse(),
+      redo: this.redoStack.map(entry => this.toHistoryEntry(entry)).reverse()
+    };
+  }
+
+  /**
+   * Applies a committed operation to the undo/redo history
+   */
+  private updateHistory(
+    operationType: string,
+    previous: ProjectDatabase,
+    next: ProjectDatabase,
+    changedParts?: Set<DatabasePart>,
+    action?: HistoryAction
+  ): void {
+    if (action?.type === 'clear') {
+      this.clearHistory();
+      return;
+    }
+
+    if (action?.type === 'undo' || action?.type === 'redo') {
+      const [from, to] = action.type === 'undo'
+        ? [this.undoStack, this.redoStack]
+        : [this.redoStack, this.undoStack];
+      for (let i = 0; i < action.steps; i++) {
+        const entry = from.pop();
+        if (entry) to.push(entry);
+      }
+      return;
+    }
+
+    const diff = diffDatabases(previous, next, changedParts);
+    if (isEmptyDiff(diff)) return;
+
+    this.undoStack.push({
+      operation_type: operationType,
+      description: describeDatabaseDiff(diff, next),
+      timestamp: next.meta.last_updated,
+      diff
+    });
+    if (this.undoStack.length > InMemoryStore.MAX_HISTORY) {
+      this.undoStack.splice(0, this.undoStack.length - InMemoryStore.MAX_HISTORY);
+    }
+
+    // A new change invalidates anything that was undone before it
+    this.redoStack = [];
+  }
+
+  private clearHistory(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  private toHistoryEntry(entry: HistoryEntry): MutationHistoryEntry {
+    const { operation_type, description, timestamp } = entry;
+    return { operation_type, description, timestamp };
+  }
+
+  /**
+   * Deep-copies the committed database under a label. Must run inside the
+   * operation queue so the copy never observes a half-applied operation.
+   */
+  private captureSnapshot(db: ProjectDatabase, label: string): StoredSnapshot {
+    // Committed databases share unchanged entities, so the snapshot gets its own deep copy
+    return {
+      id: generateId('snap'),
+      label,
+      created_at: new Date().toISOString(),
+      projects: db.projects.length,
+      tasks: db.tasks.length,
+      memories: db.memories.length,
+      database: this.createDeepSnapshot()
+    };
+  }
+
+  /**
+   * Keeps a captured snapshot, dropping the oldest ones beyond MAX_SNAPSHOTS
+   * except `keepId`
+   */
+  private storeSnapshot(snapshot: StoredSnapshot, keepId?: string): DatabaseSnapshotInfo {
+    this.snapshots.push(snapshot);
+    while (this.snapshots.length > InMemoryStore.MAX_SNAPSHOTS) {
+      this.snapshots.splice(this.snapshots.findIndex(s => s.id !== keepId), 1);
+    }
+    return this.toSnapshotInfo(snapshot);
+  }
+
+  private findSnapshot(snapshotId: string): StoredSnapshot {
+    const snapshot = this.snapshots.find(s => s.id === snapshotId);
+    if (!snapshot) {
+      throw new SnapshotNotFoundError(snapshotId, this.snapshots.map(s => s.id));
+    }
+    return snapshot;
+  }
+
+  private toSnapshotInfo(snapshot: DatabaseSnapshotInfo): DatabaseSnapshotInfo {
+    const { id, label, created_at, projects, tasks, memories } = snapshot;
+    return { id, label, created_at, projects, tasks, memories };
+  }
+
   /**
    * Get direct reference to the database for shared state
    */
@@ -264,7 +617,7 @@ export class InMemoryStore {
     return {
       meta: {
         last_updated: new Date().toISOString(),
-        version: getVersion(),
+        version: CURRENT_SCHEMA_VERSION,
         session_count: 0
       },
       projects: [],
@@ -275,8 +628,8 @@ export class InMemoryStore {
   }
 
   /**
-   * Creates a deep snapshot copy of the database for true transaction safety
-   * Optimized with performance monitoring
+   * Creates a deep copy of the database that shares nothing with the live one,
+   * for named snapshots and callers that keep the data around
    */
   private createDeepSnapshot(): ProjectDatabase {
     const startTime = Date.now();
@@ -307,14 +660,35 @@ export class InMemoryStore {
   }
 
   /**
-   * Commits changes atomically to the main database with optimized operations
+   * Commits changes atomically to the main database with optimized operations.
+   * The snapshot is persisted through the storage adapter first; if that fails
+   * the in-memory database is left untouched and the error propagates.
    */
-  private commitChanges(snapshot: ProjectDatabase): void {
-    snapshot.meta.last_updated = new Date().toISOString();
-    this.database = snapshot;
+  private commitChanges(
+    snapshot: ProjectDatabase,
+    operationType: string = 'unknown',
+    changedParts?: Set<DatabasePart>
+  ): ProjectDatabase {
+    // meta may be shared with the previous database, so it is replaced rather than mutated
+    const committed = { ...snapshot, meta: { ...snapshot.meta, last_updated: new Date().toISOString() } };
+    this.storage.save(committed, { operationType, changedParts, previous: this.database });
+    this.storage.commitTransaction?.();
+    this.database = committed;
     
     // Clear any database-related cache entries
     this.cache.delete('database_snapshot');
+    return committed;
+  }
+
+  /**
+   * Rolls back an open storage transaction without masking the original error
+   */
+  private rollbackStorageTransaction(): void {
+    try {
+      this.storage.rollbackTransaction?.();
+    } catch (rollbackError) {
+      console.error('Failed to roll back storage transaction:', rollbackError);
+    }
   }
 
   /**
@@ -327,27 +701,27 @@ export class InMemoryStore {
     }
 
     // Check individual collection sizes
-    if (database.projects.length > InMemoryStore.MAX_PROJECTS) {
-      throw new Error(`Too many projects: ${database.projects.length}. Maximum allowed: ${InMemoryStore.MAX_PROJECTS}`);
+    if (database.projects.length > this.limits.max_projects) {
+      throw new Error(`Too many projects: ${database.projects.length}. Maximum allowed: ${this.limits.max_projects}`);
     }
 
-    if (database.tasks.length > InMemoryStore.MAX_TASKS) {
-      throw new Error(`Too many tasks: ${database.tasks.length}. Maximum allowed: ${InMemoryStore.MAX_TASKS}`);
+    if (database.tasks.length > this.limits.max_tasks) {
+      throw new Error(`Too many tasks: ${database.tasks.length}. Maximum allowed: ${this.limits.max_tasks}`);
     }
 
-    if (database.memories.length > InMemoryStore.MAX_MEMORIES) {
-      throw new Error(`Too many memories: ${database.memories.length}. Maximum allowed: ${InMemoryStore.MAX_MEMORIES}`);
+    if (database.memories.length > this.limits.max_memories) {
+      throw new Error(`Too many memories: ${database.memories.length}. Maximum allowed: ${this.limits.max_memories}`);
     }
 
     // Check total database size (cached estimate)
     const estimatedSizeMB = this.getCached(
       'database_size_estimate',
       () => this.estimateDatabaseSize(database),
-      10000 // 10-second cache for size estimates
+      this.cacheConfig.size_estimate_ttl_ms
     );
     
-    if (estimatedSizeMB > InMemoryStore.MAX_DATABASE_SIZE_MB) {
-      throw new Error(`Database too large: ~${estimatedSizeMB}MB. Maximum allowed: ${InMemoryStore.MAX_DATABASE_SIZE_MB}MB`);
+    if (estimatedSizeMB > this.limits.max_database_size_mb) {
+      throw new Error(`Database too large: ~${estimatedSizeMB}MB. Maximum allowed: ${this.limits.max_database_size_mb}MB`);
     }
   }
 
@@ -371,8 +745,14 @@ export class InMemoryStore {
    */
   private validateDatabaseIntegrity(
     database: ProjectDatabase,
-    changedParts?: Set<'projects' | 'tasks' | 'memories' | 'meta'>
+    changedParts?: Set<DatabasePart>,
+    previous?: ProjectDatabase
   ): void {
+    // Entities still shared with the previous database were validated when it was committed.
+    // Comparing by position is enough: an entity that merely moved is validated again, which is harmless.
+    const changedEntities = <T>(entities: T[], previousEntities?: T[]): T[] =>
+      previousEntities ? entities.filter((entity, index) => entity !== previousEntities[index]) : entities;
+
     try {
       // Check size limits first to prevent unbounded growth
       this.validateDatabaseSizeLimits(database);
@@ -380,8 +760,8 @@ export class InMemoryStore {
       // Full database validation (cached)
       const validation = this.getCached(
         `db_validation_${JSON.stringify(changedParts)}`,
-        () => ValidationUtils.validateDatabase(database),
-        1000 // 1-second cache for validation results
+        () => ValidationUtils.validateDatabase(database, this.limits),
+        this.cacheConfig.validation_ttl_ms
       );
       
       if (!validation.isValid) {
@@ -390,7 +770,7 @@ export class InMemoryStore {
 
       // Additional specific validations based on changed parts
       if (changedParts?.has('projects')) {
-        database.projects.forEach((project: any) => {
+        changedEntities(database.projects, previous?.projects).forEach((project: any) => {
           const projectValidation = ValidationUtils.validateProject(project);
           if (!projectValidation.isValid) {
             throw new Error(`Project validation failed: ${projectValidation.errors.join('; ')}`);
@@ -399,7 +779,7 @@ export class InMemoryStore {
       }
 
       if (changedParts?.has('tasks')) {
-        database.tasks.forEach((task: any) => {
+        changedEntities(database.tasks, previous?.tasks).forEach((task: any) => {
           const taskValidation = ValidationUtils.validateTask(task);
           if (!taskValidation.isValid) {
             throw new Error(`Task validation failed: ${taskValidation.errors.join('; ')}`);
@@ -408,7 +788,7 @@ export class InMemoryStore {
       }
 
       if (changedParts?.has('memories')) {
-        database.memories.forEach((memory: any) => {
+        changedEntities(database.memories, previous?.memories).forEach((memory: any) => {
           const memoryValidation = ValidationUtils.validateMemory(memory);
           if (!memoryValidation.isValid) {
             throw new Error(`Memory validation failed: ${memoryValidation.errors.join('; ')}`);
@@ -471,9 +851,15 @@ export class InMemoryStore {
       reject(new Error('Database shutting down'));
     });
     this.operationQueue.length = 0;
+    this.stopMaintenanceTasks();
     
-    // Clear cache
+    // Clear cache, snapshots and history
     this.cache.clear();
+    this.snapshots = [];
+    this.clearHistory();
+
+    // Release storage resources
+    this.storage.close?.();
   }
 
   /**
@@ -485,9 +871,12 @@ export class InMemoryStore {
       reject(new Error('Database shutting down'));
     });
     this.operationQueue.length = 0;
+    this.stopMaintenanceTasks();
     
-    // Clear cache
+    // Clear cache, snapshots and history
     this.cache.clear();
+    this.snapshots = [];
+    this.clearHistory();
     
     // Wait for current operations to complete
     try {
@@ -495,6 +884,9 @@ export class InMemoryStore {
     } catch {
       // Ignore errors during shutdown
     }
+
+    // Release storage resources
+    this.storage.close?.();
   }
 
   /**
@@ -507,6 +899,10 @@ export class InMemoryStore {
     queuedOperations: number;
     lastUpdated: string;
     estimatedSizeMB: number;
+    storage: {
+      kind: string;
+      persistent: boolean;
+    };
     performance: {
       totalOperations: number;
       successfulOperations: number;
@@ -531,6 +927,7 @@ export class InMemoryStore {
       queuedOperations: this.operationQueue.length,
       lastUpdated: this.database.meta.last_updated,
       estimatedSizeMB: this.estimateDatabaseSize(this.database),
+      storage: this.getStorageInfo(),
       performance: {
         totalOperations: this.metrics.totalOperations,
         successfulOperations: this.metrics.successfulOperations,
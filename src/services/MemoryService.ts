@@ -1,5 +1,23 @@
-import type { Memory, HandoffSummary, Task, Project, LineRange } from '../types/index.js';
+import type { Memory, MemoryRevision, MemoryTagSummary, HandoffSummary, Task, Project, LineRange } from '../types/index.js';
 import { generateId } from '../utils/idGenerator.js';
+import { MemoryNotFoundError } from '../utils/errors.js';
+import { isOpenTask } from '../utils/taskStatus.js';
+
+/**
+ * Edits accepted by updateMemory; null removes a link or line range
+ */
+type MemoryUpdates = {
+  title?: string;
+  content?: string;
+  category?: string;
+  importance?: 'critical' | 'high' | 'medium' | 'low';
+  tags?: string[];
+  task_id?: string | null;
+  project_id?: string | null;
+  line_range?: LineRange | null;
+};
+
+const EDITABLE_FIELDS = ['title', 'content', 'category', 'importance', 'tags', 'task_id', 'project_id', 'line_range'] as const;
 
 /**
  * Service responsible for memory management and handoff operations
@@ -33,18 +51,7 @@ export class MemoryService {
       throw new Error('Title and content are required');
     }
 
-    // Validate line_range if provided
-    if (line_range) {
-      if (typeof line_range.start_line !== 'number' || typeof line_range.end_line !== 'number') {
-        throw new Error('Line range start_line and end_line must be numbers');
-      }
-      if (line_range.start_line < 1 || line_range.end_line < 1) {
-        throw new Error('Line numbers must be positive (1-based)');
-      }
-      if (line_range.start_line > line_range.end_line) {
-        throw new Error('start_line must be less than or equal to end_line');
-      }
-    }
+    this.validateLineRange(line_range);
 
     return {
       id: generateId('mem'),
@@ -79,6 +86,165 @@ export class MemoryService {
     return memory;
   }
 
+  /**
+   * Validates line range parameters
+   */
+  private validateLineRange(line_range: LineRange | undefined | null): void {
+    if (!line_range) return;
+
+    if (typeof line_range.start_line !== 'number' || typeof line_range.end_line !== 'number') {
+      throw new Error('Line range start_line and end_line must be numbers');
+    }
+    if (line_range.start_line < 1 || line_range.end_line < 1) {
+      throw new Error('Line numbers must be positive (1-based)');
+    }
+    if (line_range.start_line > line_range.end_line) {
+      throw new Error('start_line must be less than or equal to end_line');
+    }
+  }
+
+  /**
+   * Finds a memory by ID, failing with the available IDs when it does not exist
+   */
+  getMemoryById(memories: Memory[], memoryId: string): Memory {
+    const memory = memories.find(m => m.id === memoryId);
+    if (!memory) {
+      throw new MemoryNotFoundError(memoryId, memories.map(m => m.id));
+    }
+    return memory;
+  }
+
+  /**
+   * Names of the fields an update would actually change
+   */
+  getChangedFields(memory: Memory, updates: MemoryUpdates): Array<typeof EDITABLE_FIELDS[number]> {
+    return EDITABLE_FIELDS.filter(field =>
+      updates[field] !== undefined && JSON.stringify(updates[field] ?? undefined) !== JSON.stringify(memory[field])
+    );
+  }
+
+  /**
+   * Applies edits to a memory. Its previous state is kept as a revision whenever
+   * something changes. Returns the names of the changed fields.
+   */
+  updateMemory(memories: Memory[], memoryId: string, updates: MemoryUpdates): { memory: Memory; changed: Array<typeof EDITABLE_FIELDS[number]> } {
+    const memory = this.getMemoryById(memories, memoryId);
+
+    if (updates.title !== undefined && !updates.title.trim()) {
+      throw new Error('Memory title cannot be empty');
+    }
+    if (updates.content !== undefined && !updates.content.trim()) {
+      throw new Error('Memory content cannot be empty');
+    }
+    if (updates.category !== undefined && !updates.category.trim()) {
+      throw new Error('Memory category cannot be empty');
+    }
+    this.validateLineRange(updates.line_range);
+
+    const changed = this.getChangedFields(memory, updates);
+    if (changed.length === 0) {
+      return { memory, changed };
+    }
+
+    const now = new Date().toISOString();
+    const revision: MemoryRevision = {
+      revised_at: now,
+      title: memory.title,
+      content: memory.content,
+      importance: memory.importance,
+      category: memory.category,
+      tags: [...memory.tags],
+      task_id: memory.task_id,
+      project_id: memory.project_id,
+      line_range: memory.line_range
+    };
+
+    for (const field of changed) {
+      const value = updates[field];
+      if (value === null) {
+        delete memory[field as 'task_id' | 'project_id' | 'line_range'];
+      } else {
+        (memory as any)[field] = value;
+      }
+    }
+    memory.revisions = [...(memory.revisions || []), revision];
+    memory.updated_date = now;
+
+    return { memory, changed };
+  }
+
+  /**
+   * Removes a memory and any references to it from other memories
+   */
+  removeMemory(memories: Memory[], memoryId: string): Memory {
+    const memory = this.getMemoryById(memories, memoryId);
+    memories.splice(memories.indexOf(memory), 1);
+
+    for (const other of memories) {
+      if (other.related_memories?.includes(memoryId)) {
+        other.related_memories = other.related_memories.filter(id => id !== memoryId);
+      }
+    }
+
+    return memory;
+  }
+
+  /**
+   * Formats a single memory with its links and, optionally, its revision history
+   */
+  formatMemoryDetails(memory: Memory, options: {
+    includeRevisions?: boolean;
+    projectName?: string;
+    taskTitle?: string;
+  } = {}): string {
+    const { includeRevisions = true, projectName, taskTitle } = options;
+
+    let result = `# Memory: ${memory.title}\n\n`;
+    result += `**ID:** ${memory.id}\n`;
+    result += `**Category:** ${memory.category} | **Importance:** ${memory.importance}\n`;
+    result += `**Tags:** ${memory.tags.length > 0 ? memory.tags.join(', ') : 'none'}\n`;
+    result += `**Created:** ${memory.timestamp}\n`;
+    if (memory.updated_date) {
+      result += `**Last Updated:** ${memory.updated_date}\n`;
+    }
+    if (memory.project_id) {
+      result += `**Project:** ${projectName || 'Unknown'} (${memory.project_id})\n`;
+    }
+    if (memory.task_id) {
+      result += `**Task:** ${taskTitle || 'Unknown'} (${memory.task_id})\n`;
+    }
+    if (memory.line_range) {
+      const { file_path, start_line, end_line } = memory.line_range;
+      result += `**Lines:** ${file_path ? `${file_path}:` : ''}${start_line}-${end_line}\n`;
+    }
+    if (memory.related_memories && memory.related_memories.length > 0) {
+      result += `**Related Memories:** ${memory.related_memories.join(', ')}\n`;
+    }
+
+    result += `\n## Content\n${memory.content}\n`;
+
+    const revisions = memory.revisions || [];
+    if (includeRevisions) {
+      result += `\n## Revisions (${revisions.length})\n`;
+      if (revisions.length === 0) {
+        result += `- Never edited\n`;
+      }
+      // Newest first: each revision is the state replaced at revised_at
+      [...revisions].reverse().forEach((revision, index) => {
+        result += `\n### ${revisions.length - index}. Replaced ${revision.revised_at}\n`;
+        result += `**Title:** ${revision.title} | **Category:** ${revision.category} | **Importance:** ${revision.importance}\n`;
+        if (revision.tags.length > 0) {
+          result += `**Tags:** ${revision.tags.join(', ')}\n`;
+        }
+        result += `${revision.content}\n`;
+      });
+    } else if (revisions.length > 0) {
+      result += `\n[INFO] ${revisions.length} earlier revisions. Use include_revisions to show them.\n`;
+    }
+
+    return result;
+  }
+
   /**
    * Searches memories based on query and filters
    */
@@ -106,17 +272,87 @@ export class MemoryService {
         lowerCaseTags.some(tag => tag.includes(lowerQuery))
       );
 
-      const matchesCategory = !category || memory.category.toLowerCase() === category.toLowerCase();
-
-      // Use AND logic for tags: all provided tags must be present.
-      const matchesTags = !tags || tags.every((tag: string) => lowerCaseTags.includes(tag.toLowerCase()));
-
-      return matchesQuery && matchesCategory && matchesTags;
+      return matchesQuery && MemoryService.matchesClassification(memory, { category, tags });
     }).slice(0, limit);
 
     return results;
   }
 
+  /**
+   * Checks a memory against a category and tag filter. Matching is case-insensitive
+   * and uses AND logic for tags: all provided tags must be present.
+   */
+  static matchesClassification(memory: Memory, filter: { category?: string; tags?: string[] }): boolean {
+    const { category, tags } = filter;
+    if (category && memory.category.toLowerCase() !== category.toLowerCase()) {
+      return false;
+    }
+    if (tags && tags.length > 0) {
+      const lowerCaseTags = memory.tags.map(t => t.toLowerCase());
+      return tags.every(tag => lowerCaseTags.includes(tag.toLowerCase()));
+    }
+    return true;
+  }
+
+  /**
+   * Counts memory tags and categories per project. Memories without a project link
+   * are attributed to their task's project, or grouped as unassigned.
+   */
+  summarizeTags(memories: Memory[], projects: Project[], tasks: Task[]): MemoryTagSummary[] {
+    const taskProjects = new Map(tasks.map(t => [t.id, t.project_id]));
+    const groups = new Map<string | undefined, MemoryTagSummary>();
+
+    for (const memory of memories) {
+      const projectId = memory.project_id ?? (memory.task_id ? taskProjects.get(memory.task_id) : undefined);
+      let group = groups.get(projectId);
+      if (!group) {
+        group = {
+          project_id: projectId,
+          project_name: projectId ? projects.find(p => p.id === projectId)?.name ?? 'Unknown' : 'Unassigned',
+          memory_count: 0,
+          categories: {},
+          tags: {}
+        };
+        groups.set(projectId, group);
+      }
+
+      group.memory_count++;
+      group.categories[memory.category] = (group.categories[memory.category] || 0) + 1;
+      for (const tag of memory.tags) {
+        group.tags[tag] = (group.tags[tag] || 0) + 1;
+      }
+    }
+
+    // Projects in database order, unassigned memories last
+    const order = (summary: MemoryTagSummary) => summary.project_id
+      ? projects.findIndex(p => p.id === summary.project_id)
+      : projects.length;
+    return [...groups.values()].sort((a, b) => order(a) - order(b));
+  }
+
+  /**
+   * Formats per-project tag and category counts, most used first
+   */
+  formatTagSummary(summaries: MemoryTagSummary[]): string {
+    if (summaries.length === 0) {
+      return `[INFO] **No Memories Found**\n\nStore memories with \`remember_this\` to build up tags and categories.`;
+    }
+
+    const formatCounts = (counts: Record<string, number>) => {
+      const entries = Object.entries(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+      return entries.length > 0 ? entries.map(([name, count]) => `${name} (${count})`).join(', ') : 'none';
+    };
+
+    let result = `# Memory Tags\n`;
+    for (const summary of summaries) {
+      result += `\n## ${summary.project_name}${summary.project_id ? ` (${summary.project_id})` : ''}\n`;
+      result += `**Memories:** ${summary.memory_count}\n`;
+      result += `**Categories:** ${formatCounts(summary.categories)}\n`;
+      result += `**Tags:** ${formatCounts(summary.tags)}\n`;
+    }
+    return result;
+  }
+
   /**
    * Formats memory search results for display
    */
@@ -155,25 +391,27 @@ ${memory.content}`;
       .map(t => t.title);
 
     const inProgress = tasks
-      .filter(t => 
-        t.project_id === project.id && 
-        !t.completed &&
-        (t.progress && t.progress > 0)
+      .filter(t =>
+        t.project_id === project.id &&
+        t.status === 'in_progress'
       )
-      .map(t => `${t.title} (${t.progress}%)`);
+      .map(t => t.progress ? `${t.title} (${t.progress}%)` : t.title);
+
+    const inReview = tasks
+      .filter(t => t.project_id === project.id && t.status === 'in_review')
+      .map(t => t.title);
 
     const blocked = tasks
-      .filter(t => 
-        t.project_id === project.id && 
-        t.blockers && 
-        t.blockers.length > 0
+      .filter(t =>
+        t.project_id === project.id &&
+        (t.status === 'blocked' || (isOpenTask(t) && t.blockers && t.blockers.length > 0))
       )
-      .map(t => `${t.title}: ${t.blockers!.join(', ')}`);
+      .map(t => t.blockers && t.blockers.length > 0 ? `${t.title}: ${t.blockers.join(', ')}` : t.title);
 
     const upcoming = tasks
       .filter(t => 
         t.project_id === project.id && 
-        !t.completed &&
+        isOpenTask(t) &&
         (t.priority === 'critical' || t.priority === 'high')
       )
       .sort((a, b) => {
@@ -189,6 +427,7 @@ ${memory.content}`;
       last_session_date: new Date().toISOString(),
       completed_in_last_session: recentlyCompleted,
       in_progress: inProgress,
+      in_review: inReview,
       blocked_items: blocked,
       next_priorities: upcoming,
       session_notes: `Session #${sessionCount + 1}`
@@ -214,7 +453,7 @@ ${memory.content}`;
         result += `- No tasks completed this session\n`;
       }
 
-      result += `\n## [ACTIVE] In Progress\n`;
+      result += `\n## [IN_PROGRESS] In Progress\n`;
       if (handoff.in_progress.length > 0) {
         handoff.in_progress.forEach(item => {
           result += `- ${item}\n`;
@@ -223,6 +462,13 @@ ${memory.content}`;
         result += `- No tasks currently in progress\n`;
       }
 
+      if (handoff.in_review.length > 0) {
+        result += `\n## [IN_REVIEW] In Review\n`;
+        handoff.in_review.forEach(item => {
+          result += `- ${item}\n`;
+        });
+      }
+
       if (handoff.blocked_items.length > 0) {
         result += `\n## [BLOCKED] Blocked Items\n`;
         handoff.blocked_items.forEach(item => {
@@ -243,6 +489,7 @@ ${memory.content}`;
       result += `**Quick Summary:**\n`;
       result += `Completed: ${handoff.completed_in_last_session.length} tasks | `;
       result += `In Progress: ${handoff.in_progress.length} | `;
+      result += `In Review: ${handoff.in_review.length} | `;
       result += `Blocked: ${handoff.blocked_items.length}\n\n`;
       result += `**Continue with:** ${handoff.next_priorities[0] || 'Review project status for next tasks'}`;
     }
@@ -0,0 +1,349 @@
+import type { ProjectDatabase, Project, Task, Memory, MergeConflict, MergeResult } from '../types/index.js';
+import { ImportService } from './ImportService.js';
+import { ProjectService } from './ProjectService.js';
+import { CURRENT_SCHEMA_VERSION } from '../migrations/index.js';
+import { ValidationUtils } from '../utils/ValidationUtils.js';
+
+type EntityType = 'project' | 'task' | 'memory';
+type Side = 'ours' | 'theirs';
+
+/**
+ * Array fields merged as sets: additions from either side are kept and
+ * items removed by either side are dropped. All other fields are scalars.
+ */
+const SET_FIELDS: Record<EntityType, readonly string[]> = {
+  project: ['tasks'],
+  task: ['notes', 'blockers', 'tags', 'subtasks', 'depends_on'],
+  memory: ['tags', 'related_memories']
+};
+
+/**
+ * Array fields of objects with an ID, merged entry by entry: entries added on either
+ * side are kept and an entry changed on both sides goes to the winning side
+ */
+const ENTRY_FIELDS: Record<EntityType, readonly string[]> = {
+  project: [],
+  task: ['time_entries'],
+  memory: []
+};
+
+/**
+ * Fields recalculated after the merge, so disagreements on them are not conflicts
+ */
+const DERIVED_FIELDS: Record<EntityType, readonly string[]> = {
+  project: ['completion_percentage'],
+  task: ['completed', 'completed_date'],
+  memory: []
+};
+
+/**
+ * Three-way merge of two databases that diverged from a common base.
+ *
+ * Entities are matched by ID. Set fields are unioned, scalar fields changed on one
+ * side take that side's value, and scalar fields changed differently on both sides
+ * go to the side whose meta.last_updated is newer (last writer wins). Every such
+ * decision is reported as a conflict so the caller can review it.
+ */
+export class MergeService {
+
+  /**
+   * Merges two descendants of a common base database. The inputs are not modified.
+   */
+  static merge(base: ProjectDatabase, ours: ProjectDatabase, theirs: ProjectDatabase): MergeResult {
+    [base, ours, theirs] = [base, ours, theirs].map(db => JSON.parse(JSON.stringify(db)) as ProjectDatabase);
+    const conflicts: MergeConflict[] = [];
+    const winner: Side = ours.meta.last_updated >= theirs.meta.last_updated ? 'ours' : 'theirs';
+
+    const database: ProjectDatabase = {
+      meta: {
+        ...ours.meta,
+        version: CURRENT_SCHEMA_VERSION,
+        last_updated: winner === 'ours' ? ours.meta.last_updated : theirs.meta.last_updated,
+        session_count: Math.max(ours.meta.session_count, theirs.meta.session_count)
+      },
+      projects: this.mergeCollection('project', base.projects, ours.projects, theirs.projects, p => p.name, winner, conflicts),
+      tasks: this.mergeCollection('task', base.tasks, ours.tasks, theirs.tasks, t => t.title, winner, conflicts),
+      memories: this.mergeCollection('memory', base.memories, ours.memories, theirs.memories, m => m.title, winner, conflicts),
+      templates: winner === 'ours' ? { ...theirs.templates, ...ours.templates } : { ...ours.templates, ...theirs.templates }
+    };
+
+    const currentProject = this.mergeValue(
+      base.meta.current_project_id, ours.meta.current_project_id, theirs.meta.current_project_id, winner
+    );
+    if (currentProject.conflict) {
+      conflicts.push({
+        entity_type: 'meta', entity_id: 'meta', name: 'session', field: 'current_project_id', kind: 'field',
+        ours: ours.meta.current_project_id, theirs: theirs.meta.current_project_id, resolution: winner
+      });
+    }
+    database.meta.current_project_id = currentProject.value as string | undefined;
+
+    this.repairReferences(database, [ours, theirs, base], conflicts);
+
+    const projectService = new ProjectService();
+    database.projects.forEach(project => projectService.updateProjectCompletion(project, database.tasks));
+
+    const validation = ValidationUtils.validateReferentialIntegrity(database);
+    if (!validation.isValid) {
+      throw new Error(`Merged database is inconsistent: ${validation.errors.slice(0, 5).join('; ')}`);
+    }
+
+    return { database, conflicts };
+  }
+
+  /**
+   * Merges one collection, keeping our order and appending entities only they added
+   */
+  private static mergeCollection<T extends Project | Task | Memory>(
+    type: EntityType,
+    base: T[],
+    ours: T[],
+    theirs: T[],
+    nameOf: (entity: T) => string,
+    winner: Side,
+    conflicts: MergeConflict[]
+  ): T[] {
+    const baseById = new Map(base.map(entity => [entity.id, entity]));
+    const oursById = new Map(ours.map(entity => [entity.id, entity]));
+    const theirsById = new Map(theirs.map(entity => [entity.id, entity]));
+    const ids = [...new Set([...ours.map(e => e.id), ...theirs.map(e => e.id)])];
+    const merged: T[] = [];
+
+    for (const id of ids) {
+      const original = baseById.get(id);
+      const left = oursById.get(id);
+      const right = theirsById.get(id);
+
+      if (left && right) {
+        merged.push(this.mergeEntity(type, original, left, right, nameOf, winner, conflicts));
+        continue;
+      }
+
+      const survivor = (left ?? right)!;
+      if (!original) {
+        // Added on one side only
+        merged.push(survivor);
+        continue;
+      }
+      if (this.isEqual(original, survivor)) {
+        // Deleted on one side, untouched on the other
+        continue;
+      }
+
+      // Deleted on one side but changed on the other: keep the changes
+      conflicts.push({
+        entity_type: type, entity_id: id, name: nameOf(survivor), field: '(entity)', kind: 'delete_modify',
+        ours: left ? 'modified' : 'deleted', theirs: right ? 'modified' : 'deleted', resolution: 'kept'
+      });
+      merged.push(survivor);
+    }
+
+    return merged;
+  }
+
+  /**
+   * Merges one entity field by field
+   */
+  private static mergeEntity<T extends Project | Task | Memory>(
+    type: EntityType,
+    original: T | undefined,
+    ours: T,
+    theirs: T,
+    nameOf: (entity: T) => string,
+    winner: Side,
+    conflicts: MergeConflict[]
+  ): T {
+    const base = (original ?? {}) as Record<string, unknown>;
+    const left = ours as unknown as Record<string, unknown>;
+    const right = theirs as unknown as Record<string, unknown>;
+    const merged: Record<string, unknown> = {};
+    const fields = new Set([...Object.keys(base), ...Object.keys(left), ...Object.keys(right)]);
+
+    for (const field of fields) {
+      if (SET_FIELDS[type].includes(field)) {
+        merged[field] = this.mergeSet(
+          (base[field] as string[] | undefined) ?? [],
+          (left[field] as string[] | undefined) ?? [],
+          (right[field] as string[] | undefined) ?? []
+        );
+        continue;
+      }
+      if (ENTRY_FIELDS[type].includes(field)) {
+        merged[field] = this.mergeEntries(
+          (base[field] as Array<{ id: string }> | undefined) ?? [],
+          (left[field] as Array<{ id: string }> | undefined) ?? [],
+          (right[field] as Array<{ id: string }> | undefined) ?? [],
+          winner
+        );
+        continue;
+      }
+
+      const { value, conflict } = this.mergeValue(base[field], left[field], right[field], winner);
+      if (conflict && !DERIVED_FIELDS[type].includes(field)) {
+        conflicts.push({
+          entity_type: type, entity_id: ours.id, name: nameOf(ours), field, kind: 'field',
+          ours: left[field], theirs: right[field], resolution: winner
+        });
+      }
+      if (value !== undefined) {
+        merged[field] = value;
+      }
+    }
+
+    if (type === 'task') {
+      this.deriveCompletion(merged as unknown as Task, ours as Task, theirs as Task);
+    }
+
+    return merged as unknown as T;
+  }
+
+  /**
+   * Sets completed and completed_date from the merged status, so a task is only
+   * completed when it ended up 'done'. The completion date comes from a side that finished it.
+   */
+  private static deriveCompletion(task: Task, ours: Task, theirs: Task): void {
+    task.completed = task.status === 'done';
+    if (!task.completed) {
+      delete task.completed_date;
+      return;
+    }
+    const finished = [ours, theirs].filter(side => side.status === 'done' && side.completed_date);
+    if (finished.length > 0 && !finished.some(side => side.completed_date === task.completed_date)) {
+      task.completed_date = finished[0].completed_date;
+    }
+  }
+
+  /**
+   * Three-way merge of a scalar value
+   */
+  private static mergeValue(base: unknown, ours: unknown, theirs: unknown, winner: Side): { value: unknown; conflict: boolean } {
+    if (this.isEqual(ours, theirs)) return { value: ours, conflict: false };
+    if (this.isEqual(ours, base)) return { value: theirs, conflict: false };
+    if (this.isEqual(theirs, base)) return { value: ours, conflict: false };
+    return { value: winner === 'ours' ? ours : theirs, conflict: true };
+  }
+
+  /**
+   * Three-way merge of a string set, preserving our order
+   */
+  private static mergeSet(base: string[], ours: string[], theirs: string[]): string[] {
+    const removed = new Set(base.filter(item => !ours.includes(item) || !theirs.includes(item)));
+    return [...new Set([...ours, ...theirs])].filter(item => !removed.has(item));
+  }
+
+  /**
+   * Three-way merge of a list of entries matched by ID, preserving our order
+   */
+  private static mergeEntries<E extends { id: string }>(base: E[], ours: E[], theirs: E[], winner: Side): E[] {
+    const byId = (entries: E[]) => new Map(entries.map(entry => [entry.id, entry]));
+    const [baseById, oursById, theirsById] = [byId(base), byId(ours), byId(theirs)];
+    return this.mergeSet(base.map(e => e.id), ours.map(e => e.id), theirs.map(e => e.id))
+      .map(id => this.mergeValue(baseById.get(id), oursById.get(id), theirsById.get(id), winner).value as E);
+  }
+
+  /**
+   * Restores entities that one side deleted while the merged result still refers to them,
+   * then drops dangling IDs from list fields
+   */
+  private static repairReferences(database: ProjectDatabase, sources: ProjectDatabase[], conflicts: MergeConflict[]): void {
+    const restore = <T extends Project | Task | Memory>(
+      type: EntityType,
+      collection: T[],
+      pick: (source: ProjectDatabase) => T[],
+      id: string,
+      nameOf: (entity: T) => string
+    ): boolean => {
+      if (collection.some(entity => entity.id === id)) return false;
+      const found = sources.map(pick).map(list => list.find(entity => entity.id === id)).find(Boolean);
+      if (!found) return false;
+      collection.push(found);
+      conflicts.push({
+        entity_type: type, entity_id: id, name: nameOf(found), field: '(entity)', kind: 'delete_reference',
+        ours: 'deleted', theirs: 'referenced', resolution: 'kept'
+      });
+      return true;
+    };
+
+    // Restoring a task can bring back references to its own parent, project or dependencies, so repeat until stable
+    let restored = true;
+    while (restored) {
+      restored = false;
+      for (const task of [...database.tasks]) {
+        restored = restore('project', database.projects, s => s.projects, task.project_id, p => p.name) || restored;
+        if (task.parent_id) {
+          restored = restore('task', database.tasks, s => s.tasks, task.parent_id, t => t.title) || restored;
+        }
+        for (const dependencyId of task.depends_on ?? []) {
+          restored = restore('task', database.tasks, s => s.tasks, dependencyId, t => t.title) || restored;
+        }
+      }
+      for (const memory of database.memories) {
+        if (memory.project_id) {
+          restored = restore('project', database.projects, s => s.projects, memory.project_id, p => p.name) || restored;
+        }
+        if (memory.task_id) {
+          restored = restore('task', database.tasks, s => s.tasks, memory.task_id, t => t.title) || restored;
+        }
+      }
+    }
+
+    const projectIds = new Set(database.projects.map(p => p.id));
+    const memoryIds = new Set(database.memories.map(m => m.id));
+
+    // Task lists only keep tasks that still point back at their owner after the merge
+    const tasksById = new Map(database.tasks.map(task => [task.id, task]));
+    database.projects.forEach(project => { project.tasks = project.tasks.filter(id => tasksById.get(id)?.project_id === project.id); });
+    database.tasks.forEach(task => { task.subtasks = task.subtasks.filter(id => tasksById.get(id)?.parent_id === task.id); });
+    database.memories.forEach(memory => { memory.related_memories = memory.related_memories.filter(id => memoryIds.has(id)); });
+    if (database.meta.current_project_id && !projectIds.has(database.meta.current_project_id)) {
+      database.meta.current_project_id = undefined;
+    }
+  }
+
+  /**
+   * Compares values structurally, ignoring property order
+   */
+  private static isEqual(a: unknown, b: unknown): boolean {
+    return this.canonicalJson(a) === this.canonicalJson(b);
+  }
+
+  private static canonicalJson(value: unknown): string | undefined {
+    return JSON.stringify(value, (_key, val) =>
+      val && typeof val === 'object' && !Array.isArray(val)
+        ? Object.fromEntries(Object.keys(val).sort().map(key => [key, val[key]]))
+        : val
+    );
+  }
+
+  /**
+   * Formats a merge result as plain text
+   */
+  static formatResult(result: MergeResult): string {
+    const { database, conflicts } = result;
+    let text = `**Merged:** ${database.projects.length} projects, ${database.tasks.length} tasks, ${database.memories.length} memories\n`;
+    text += `**Conflicts:** ${conflicts.length}\n`;
+
+    conflicts.forEach(conflict => {
+      const label = `${conflict.entity_type} '${conflict.name}' (${conflict.entity_id})`;
+      if (conflict.kind === 'delete_modify') {
+        text += `- ${label}: deleted on one side, changed on the other; kept the changed version\n`;
+      } else if (conflict.kind === 'delete_reference') {
+        text += `- ${label}: deleted on one side but still referenced; kept\n`;
+      } else {
+        text += `- ${label}.${conflict.field}: ours ${JSON.stringify(conflict.ours)}, theirs ${JSON.stringify(conflict.theirs)}; took ${conflict.resolution}\n`;
+      }
+    });
+
+    return text.trimEnd();
+  }
+}
+
+/**
+ * Library entry point: merges two diverged session exports that share a common base.
+ * Each argument may be export_session JSON text (with or without its ```json fence),
+ * a parsed export document, or a bare database. Older schema versions are migrated first.
+ */
+export function mergeSessions(base: string | object, ours: string | object, theirs: string | object): MergeResult {
+  const parse = (input: string | object) => ImportService.parseImport(input).database;
+  return MergeService.merge(parse(base), parse(ours), parse(theirs));
+}
@@ -1,5 +1,9 @@
-import type { Project, Task, ProjectSummary } from '../types/index.js';
+import type { Project, Task, ProjectSummary, ProjectSchedule, ScheduledTask, ProjectDatabase, ProjectDeletionPlan, Estimate, EstimateAccuracy, EstimatedTask, EstimationGroup, EstimationReport } from '../types/index.js';
 import { generateId } from '../utils/idGenerator.js';
+import { ProjectNotFoundError } from '../utils/errors.js';
+import { isOpenTask } from '../utils/taskStatus.js';
+import { totalMinutes } from '../utils/timeTracking.js';
+import { formatEstimate } from '../utils/estimates.js';
 
 /**
  * Service responsible for project management operations
@@ -33,10 +37,11 @@ export class ProjectService {
   }
 
   /**
-   * Updates project completion percentage based on tasks
+   * Updates project completion percentage based on tasks. Cancelled tasks are left
+   * out, so dropping work does not hold a project back.
    */
   updateProjectCompletion(project: Project, tasks: Task[]): void {
-    const projectTasks = tasks.filter(t => t.project_id === project.id);
+    const projectTasks = tasks.filter(t => t.project_id === project.id && t.status !== 'cancelled');
     
     if (projectTasks.length === 0) {
       project.completion_percentage = 0;
@@ -46,6 +51,11 @@ export class ProjectService {
     const completedTasks = projectTasks.filter(t => t.completed).length;
     project.completion_percentage = Math.round((completedTasks / projectTasks.length) * 100);
 
+    // Archived projects keep their status until unarchived
+    if (project.status === 'archived') {
+      return;
+    }
+
     if (project.completion_percentage === 100) {
       project.status = 'completed';
     } else if (project.completion_percentage > 0) {
@@ -59,10 +69,12 @@ export class ProjectService {
   generateProjectSummary(project: Project, tasks: Task[]): ProjectSummary {
     const projectTasks = tasks.filter(t => t.project_id === project.id);
     
-    const completed = projectTasks.filter(t => t.completed);
-    const inProgress = projectTasks.filter(t => !t.completed && t.progress && t.progress > 0);
-    const blocked = projectTasks.filter(t => t.blockers && t.blockers.length > 0);
-    const critical = projectTasks.filter(t => t.priority === 'critical');
+    const completed = projectTasks.filter(t => t.status === 'done');
+    const inProgress = projectTasks.filter(t => t.status === 'in_progress');
+    const inReview = projectTasks.filter(t => t.status === 'in_review');
+    const blocked = projectTasks.filter(t => t.status === 'blocked' || (isOpenTask(t) && t.blockers && t.blockers.length > 0));
+    const cancelled = projectTasks.filter(t => t.status === 'cancelled');
+    const critical = projectTasks.filter(t => t.priority === 'critical' && isOpenTask(t));
     
     const recentCompletions = completed
       .filter(t => t.completed_date)
@@ -70,7 +82,7 @@ export class ProjectService {
       .slice(0, 5);
 
     const upcoming = projectTasks
-      .filter(t => !t.completed)
+      .filter(t => isOpenTask(t))
       .sort((a, b) => {
         const priorityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
         return priorityOrder[a.priority] - priorityOrder[b.priority];
@@ -82,7 +94,9 @@ export class ProjectService {
       total_tasks: projectTasks.length,
       completed_tasks: completed.length,
       in_progress_tasks: inProgress.length,
+      in_review_tasks: inReview.length,
       blocked_tasks: blocked.length,
+      cancelled_tasks: cancelled.length,
       recent_completions: recentCompletions,
       upcoming_tasks: upcoming,
       critical_items: critical,
@@ -90,6 +104,283 @@ export class ProjectService {
     };
   }
 
+  /**
+   * Computes the project schedule with the critical path method. Each task's remaining
+   * work is its duration scaled by progress, where the duration is its estimate in hours
+   * or the default duration; done and cancelled tasks take no time. A task waits
+   * for its depends_on tasks, and a task with subtasks is a summary that takes no time
+   * of its own and finishes when its last subtask does.
+   */
+  generateProjectSchedule(project: Project, tasks: Task[], options: { defaultDuration?: number } = {}): ProjectSchedule {
+    const { defaultDuration = 1 } = options;
+    const summary = this.generateProjectSummary(project, tasks);
+    const projectTasks = tasks.filter(t => t.project_id === project.id);
+    const ids = new Set(projectTasks.map(t => t.id));
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    const hasSubtasks = new Set(projectTasks.filter(t => t.parent_id && ids.has(t.parent_id)).map(t => t.parent_id!));
+    const duration = (task: Task) => !isOpenTask(task) || hasSubtasks.has(task.id)
+      ? 0
+      : (task.estimate?.unit === 'hours' ? task.estimate.value : defaultDuration) * (1 - Math.min(task.progress || 0, 100) / 100);
+
+    const predecessors = new Map(projectTasks.map(task => [task.id, [
+      ...(task.depends_on || []).filter(id => ids.has(id) && id !== task.id),
+      ...projectTasks.filter(t => t.parent_id === task.id).map(t => t.id)
+    ]]));
+    const successors = new Map(projectTasks.map(t => [t.id, [] as string[]]));
+    predecessors.forEach((preds, id) => preds.forEach(pred => successors.get(pred)!.push(id)));
+
+    // Topological order; leftovers would wait on each other forever
+    const waiting = new Map([...predecessors].map(([id, preds]) => [id, preds.length]));
+    const order: string[] = [...waiting].filter(([, count]) => count === 0).map(([id]) => id);
+    for (let i = 0; i < order.length; i++) {
+      for (const next of successors.get(order[i])!) {
+        const count = waiting.get(next)! - 1;
+        waiting.set(next, count);
+        if (count === 0) order.push(next);
+      }
+    }
+    if (order.length < projectTasks.length) {
+      const stuck = projectTasks.filter(t => !order.includes(t.id)).map(t => t.id);
+      throw new Error(`Cannot schedule project '${project.id}': tasks ${stuck.join(', ')} wait on each other through dependencies or subtasks`);
+    }
+
+    const byId = new Map(projectTasks.map(t => [t.id, t]));
+    const earliest = new Map<string, { start: number; finish: number }>();
+    for (const id of order) {
+      const start = Math.max(0, ...predecessors.get(id)!.map(pred => earliest.get(pred)!.finish));
+      earliest.set(id, { start, finish: start + duration(byId.get(id)!) });
+    }
+    const projectDuration = Math.max(0, ...[...earliest.values()].map(e => e.finish));
+
+    const latest = new Map<string, { start: number; finish: number }>();
+    for (const id of [...order].reverse()) {
+      const finish = Math.min(projectDuration, ...successors.get(id)!.map(next => latest.get(next)!.start));
+      latest.set(id, { start: finish - duration(byId.get(id)!), finish });
+    }
+
+    const scheduled: ScheduledTask[] = order.map(id => {
+      const task = byId.get(id)!;
+      const slack = round(latest.get(id)!.start - earliest.get(id)!.start);
+      return {
+        task_id: id,
+        title: task.title,
+        priority: task.priority,
+        completed: task.completed,
+        duration: round(duration(task)),
+        earliest_start: round(earliest.get(id)!.start),
+        earliest_finish: round(earliest.get(id)!.finish),
+        latest_start: round(latest.get(id)!.start),
+        latest_finish: round(latest.get(id)!.finish),
+        slack,
+        critical: isOpenTask(task) && !hasSubtasks.has(id) && slack === 0
+      };
+    }).sort((a, b) => a.earliest_start - b.earliest_start || a.slack - b.slack);
+
+    // Walk back from the last critical task through predecessors with no slack that finish just in time
+    const scheduledById = new Map(scheduled.map(s => [s.task_id, s]));
+    const criticalPath: string[] = [];
+    let current: ScheduledTask | undefined = scheduled
+      .filter(s => s.critical && s.earliest_finish === round(projectDuration))
+      .sort((a, b) => b.earliest_start - a.earliest_start)[0];
+    while (current) {
+      if (current.critical) criticalPath.unshift(current.task_id);
+      const start: number = current.earliest_start;
+      current = start > 0
+        ? predecessors.get(current.task_id)!.map(id => scheduledById.get(id)!).find(s => s.slack === 0 && s.earliest_finish === start)
+        : undefined;
+    }
+
+    return {
+      summary,
+      project_duration: round(projectDuration),
+      default_duration: defaultDuration,
+      tasks: scheduled,
+      critical_path: criticalPath
+    };
+  }
+
+  /**
+   * Formats a project schedule, critical tasks first
+   */
+  formatProjectSchedule(schedule: ProjectSchedule): string {
+    const { summary } = schedule;
+    const titles = new Map(schedule.tasks.map(t => [t.task_id, t.title]));
+    const open = schedule.tasks.filter(t => t.duration > 0);
+    const critical = open.filter(t => t.critical);
+    const flexible = open.filter(t => !t.critical).sort((a, b) => a.slack - b.slack || a.earliest_start - b.earliest_start);
+
+    let text = `# Project Schedule: ${summary.project.name}\n\n`;
+    text += `**Tasks:** ${summary.total_tasks} (${summary.completed_tasks} completed) | **Completion:** ${summary.completion_percentage}%\n`;
+    text += `**Remaining Duration:** ${schedule.project_duration}h (tasks without an estimate count as ${schedule.default_duration}h)\n`;
+    text += `**Critical Path:** ${schedule.critical_path.length > 0 ? schedule.critical_path.map(id => titles.get(id)).join(' -> ') : 'none'}\n`;
+
+    if (open.length === 0) {
+      return text + `\n[INFO] No remaining work to schedule.\n`;
+    }
+
+    if (critical.length > 0) {
+      text += `\n## Critical Tasks (${critical.length})\nIf any of these slips, the project slips.\n`;
+      critical.forEach((t, index) => {
+        text += `${index + 1}. **${t.title}** (${t.priority}) - ${t.task_id}\n`;
+        text += `   Start: ${t.earliest_start}h | Finish: ${t.earliest_finish}h | Duration: ${t.duration}h\n`;
+      });
+    }
+
+    if (flexible.length > 0) {
+      text += `\n## Tasks With Slack (${flexible.length})\n`;
+      flexible.forEach((t, index) => {
+        text += `${index + 1}. **${t.title}** (${t.priority}) - ${t.task_id}\n`;
+        text += `   Earliest start: ${t.earliest_start}h | Latest start: ${t.latest_start}h | Slack: ${t.slack}h | Duration: ${t.duration}h\n`;
+      });
+    }
+
+    return text;
+  }
+
+  /**
+   * Compares estimates with the time completed tasks actually took. Only done tasks
+   * without subtasks are compared, since a parent's estimate is the sum of its
+   * subtasks'. Actual time is logged time, or the time from creation to completion.
+   */
+  generateEstimationReport(
+    project: Project,
+    tasks: Task[],
+    options: { unit?: Estimate['unit']; actual?: EstimationReport['actual']; now?: Date } = {}
+  ): EstimationReport {
+    const { unit = 'hours', actual = 'auto', now = new Date() } = options;
+    const projectTasks = tasks.filter(t => t.project_id === project.id);
+    const parents = new Set(projectTasks.map(t => t.parent_id).filter(Boolean));
+    const done = projectTasks.filter(t => t.status === 'done' && !parents.has(t.id));
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    const skipped = { unestimated: 0, other_unit: 0, no_actual: 0 };
+    const measured: Array<{ task: Task; estimated: number; actual_hours: number; source: EstimatedTask['actual_source'] }> = [];
+    for (const task of done) {
+      if (!task.estimate || task.estimate.value <= 0) {
+        skipped.unestimated++;
+        continue;
+      }
+      if (task.estimate.unit !== unit) {
+        skipped.other_unit++;
+        continue;
+      }
+      const logged = task.time_entries.length > 0 && actual !== 'elapsed';
+      if (!logged && (actual === 'logged' || !task.completed_date)) {
+        skipped.no_actual++;
+        continue;
+      }
+      const hours = logged
+        ? totalMinutes(task.time_entries, now) / 60
+        : (new Date(task.completed_date!).getTime() - new Date(task.created_date).getTime()) / 3600000;
+      measured.push({ task, estimated: task.estimate.value, actual_hours: Math.max(0, hours), source: logged ? 'logged' : 'elapsed' });
+    }
+
+    // Points have no fixed length, so their ratios compare against the average hours per point
+    const sum = (items: typeof measured, key: 'estimated' | 'actual_hours') => items.reduce((total, item) => total + item[key], 0);
+    const hoursPerPoint = unit === 'points' && sum(measured, 'estimated') > 0
+      ? sum(measured, 'actual_hours') / sum(measured, 'estimated')
+      : undefined;
+    const accuracy = (items: typeof measured): EstimateAccuracy => {
+      const estimated = sum(items, 'estimated');
+      const actualHours = sum(items, 'actual_hours');
+      const ratio = estimated > 0 ? actualHours / estimated / (hoursPerPoint || 1) : 0;
+      return {
+        estimated: round(estimated),
+        actual_hours: round(actualHours),
+        ratio: round(ratio),
+        verdict: ratio > 1.1 ? 'underestimated' : ratio < 0.9 ? 'overestimated' : 'accurate'
+      };
+    };
+    const group = (key: string, items: typeof measured): EstimationGroup => ({ key, task_count: items.length, ...accuracy(items) });
+
+    const tags = [...new Set(measured.flatMap(m => m.task.tags))];
+    const byTag = tags
+      .map(tag => group(tag, measured.filter(m => m.task.tags.includes(tag))))
+      .sort((a, b) => b.ratio - a.ratio || b.task_count - a.task_count);
+    const byPriority = (['critical', 'high', 'medium', 'low'] as const)
+      .map(priority => group(priority, measured.filter(m => m.task.priority === priority)))
+      .filter(g => g.task_count > 0);
+
+    const estimatedTasks: EstimatedTask[] = measured.map(m => ({
+      task_id: m.task.id,
+      title: m.task.title,
+      priority: m.task.priority,
+      tags: m.task.tags,
+      actual_source: m.source,
+      ...accuracy([m])
+    })).sort((a, b) => b.ratio - a.ratio);
+
+    return {
+      project,
+      unit,
+      actual,
+      tasks: estimatedTasks,
+      totals: accuracy(measured),
+      hours_per_point: hoursPerPoint !== undefined ? round(hoursPerPoint) : undefined,
+      by_tag: byTag,
+      by_priority: byPriority,
+      skipped
+    };
+  }
+
+  /**
+   * Formats an estimation report, worst underestimates first
+   */
+  formatEstimationReport(report: EstimationReport): string {
+    const estimate = (value: number) => formatEstimate({ value, unit: report.unit });
+    const label = (accuracy: EstimateAccuracy) => accuracy.verdict === 'accurate' ? '' : ` [${accuracy.verdict.toUpperCase()}]`;
+    const line = (accuracy: EstimateAccuracy) =>
+      `estimated ${estimate(accuracy.estimated)}, took ${accuracy.actual_hours}h - ratio ${accuracy.ratio}${label(accuracy)}`;
+    const sources = { auto: 'logged time, or elapsed time where none was logged', logged: 'logged time', elapsed: 'elapsed time from creation to completion' };
+
+    let text = `# Estimation Report: ${report.project.name}\n\n`;
+    text += `**Compared:** ${report.tasks.length} completed ${report.tasks.length === 1 ? 'task' : 'tasks'} estimated in ${report.unit} | **Actual:** ${sources[report.actual]}\n`;
+    const { unestimated, other_unit, no_actual } = report.skipped;
+    if (unestimated + other_unit + no_actual > 0) {
+      const parts = [
+        unestimated > 0 ? `${unestimated} without an estimate` : '',
+        other_unit > 0 ? `${other_unit} estimated in ${report.unit === 'hours' ? 'points' : 'hours'}` : '',
+        no_actual > 0 ? `${no_actual} without logged time` : ''
+      ].filter(Boolean);
+      text += `**Skipped:** ${parts.join(', ')}\n`;
+    }
+
+    if (report.tasks.length === 0) {
+      return text + `\n[INFO] No completed tasks with an estimate in ${report.unit} to compare yet.\n`;
+    }
+
+    text += `**Overall:** ${line(report.totals)}\n`;
+    if (report.hours_per_point !== undefined) {
+      text += `**Hours per Point:** ${report.hours_per_point} (ratios compare each group's hours per point with this)\n`;
+    } else {
+      text += `Ratios above 1 mean the work took longer than estimated.\n`;
+    }
+
+    if (report.by_tag.length > 0) {
+      text += `\n## By Tag\n`;
+      report.by_tag.forEach((g, index) => {
+        text += `${index + 1}. **${g.key}** (${g.task_count} ${g.task_count === 1 ? 'task' : 'tasks'}) - ${line(g)}\n`;
+      });
+    }
+
+    text += `\n## By Priority\n`;
+    report.by_priority.forEach((g, index) => {
+      text += `${index + 1}. **${g.key}** (${g.task_count} ${g.task_count === 1 ? 'task' : 'tasks'}) - ${line(g)}\n`;
+    });
+
+    const underestimated = report.tasks.filter(t => t.verdict === 'underestimated').slice(0, 5);
+    if (underestimated.length > 0) {
+      text += `\n## Most Underestimated Tasks\n`;
+      underestimated.forEach((t, index) => {
+        text += `${index + 1}. **${t.title}** (${t.priority}) - ${t.task_id}\n`;
+        text += `   ${line(t)} (${t.actual_source})\n`;
+      });
+    }
+
+    return text;
+  }
+
   /**
    * Updates a project with new values
    */
@@ -104,6 +395,107 @@ export class ProjectService {
     return project;
   }
 
+  /**
+   * Archives a project, remembering its status so unarchiveProject can restore it
+   */
+  archiveProject(project: Project): void {
+    if (project.status === 'archived') {
+      throw new Error(`Project '${project.id}' is already archived`);
+    }
+    project.archived_from_status = project.status;
+    project.archived_date = new Date().toISOString();
+    project.status = 'archived';
+  }
+
+  /**
+   * Restores an archived project's previous status, adjusted for tasks completed meanwhile
+   */
+  unarchiveProject(project: Project, tasks: Task[]): void {
+    if (project.status !== 'archived') {
+      throw new Error(`Project '${project.id}' is not archived`);
+    }
+    project.status = project.archived_from_status ?? 'planning';
+    delete project.archived_from_status;
+    delete project.archived_date;
+    this.updateProjectCompletion(project, tasks);
+  }
+
+  /**
+   * Returns the database without archived projects and their tasks and memories,
+   * as seen by default listings and recall
+   */
+  withoutArchived(database: ProjectDatabase): ProjectDatabase {
+    const archivedIds = new Set(database.projects.filter(p => p.status === 'archived').map(p => p.id));
+    if (archivedIds.size === 0) {
+      return database;
+    }
+
+    const archivedTaskIds = new Set(database.tasks.filter(t => archivedIds.has(t.project_id)).map(t => t.id));
+    return {
+      ...database,
+      projects: database.projects.filter(p => !archivedIds.has(p.id)),
+      tasks: database.tasks.filter(t => !archivedTaskIds.has(t.id)),
+      memories: database.memories.filter(m =>
+        !(m.project_id && archivedIds.has(m.project_id)) && !(m.task_id && archivedTaskIds.has(m.task_id))
+      )
+    };
+  }
+
+  /**
+   * Works out everything deleting a project removes without changing anything
+   */
+  planProjectDeletion(database: ProjectDatabase, projectId: string): ProjectDeletionPlan {
+    const project = this.findProjectById(database.projects, projectId);
+    if (!project) {
+      throw new ProjectNotFoundError(projectId, database.projects.map(p => p.id));
+    }
+
+    const deletedTasks = database.tasks.filter(t => t.project_id === projectId);
+    const taskIds = new Set(deletedTasks.map(t => t.id));
+
+    return {
+      project,
+      deleted_tasks: deletedTasks,
+      deleted_memories: database.memories.filter(m => m.project_id === projectId || (m.task_id !== undefined && taskIds.has(m.task_id))),
+      clears_current_project: database.meta.current_project_id === projectId
+    };
+  }
+
+  /**
+   * Removes a project with its tasks and memories as planned by planProjectDeletion
+   */
+  applyProjectDeletion(database: ProjectDatabase, plan: ProjectDeletionPlan): void {
+    const taskIds = new Set(plan.deleted_tasks.map(t => t.id));
+    const memoryIds = new Set(plan.deleted_memories.map(m => m.id));
+
+    database.projects = database.projects.filter(p => p.id !== plan.project.id);
+    database.tasks = database.tasks.filter(t => !taskIds.has(t.id));
+    database.memories = database.memories.filter(m => !memoryIds.has(m.id));
+
+    for (const memory of database.memories) {
+      if (memory.related_memories?.some(id => memoryIds.has(id))) {
+        memory.related_memories = memory.related_memories.filter(id => !memoryIds.has(id));
+      }
+    }
+
+    if (plan.clears_current_project) {
+      database.meta.current_project_id = undefined;
+    }
+  }
+
+  /**
+   * Lists everything a project deletion removes
+   */
+  formatProjectDeletionPlan(plan: ProjectDeletionPlan): string {
+    let text = `**Project deleted:** ${plan.project.name} (${plan.project.id})\n`;
+    text += `\n**Tasks deleted (${plan.deleted_tasks.length}):**\n${plan.deleted_tasks.map(t => `- ${t.title} (${t.id})\n`).join('')}`;
+    text += `\n**Memories deleted (${plan.deleted_memories.length}):**\n${plan.deleted_memories.map(m => `- ${m.title} (${m.id})\n`).join('')}`;
+    if (plan.clears_current_project) {
+      text += `\n**Current project:** cleared\n`;
+    }
+    return text;
+  }
+
   /**
    * Finds a project by ID
    */
@@ -132,10 +524,11 @@ export class ProjectService {
     projects.forEach(project => {
       const projectTasks = tasks.filter(t => t.project_id === project.id);
       const completedTasks = projectTasks.filter(t => t.completed).length;
+      const cancelledTasks = projectTasks.filter(t => t.status === 'cancelled').length;
       
       result += `## ${project.name}\n`;
       result += `**Status:** ${project.status} | **Completion:** ${project.completion_percentage}%\n`;
-      result += `**Tasks:** ${completedTasks}/${projectTasks.length} completed\n`;
+      result += `**Tasks:** ${completedTasks}/${projectTasks.length - cancelledTasks} completed${cancelledTasks > 0 ? ` (${cancelledTasks} cancelled)` : ''}\n`;
       result += `**ID:** ${project.id}\n\n`;
     });
 
@@ -1,4 +1,8 @@
-import type { ProjectDatabase, Project, Task, Memory } from '../types/index.js';
+import type { ProjectDatabase, Project, Task, Memory, TaskStatus } from '../types/index.js';
+import { TASK_STATUSES } from '../types/index.js';
+import { describeDueDate, getDueStatus } from '../utils/dueDates.js';
+import { formatStatusLabel, isOpenTask } from '../utils/taskStatus.js';
+import { MemoryService } from './MemoryService.js';
 
 /**
  * Service for universal state recall - combines projects, tasks, and memories
@@ -16,14 +20,20 @@ export class RecallService {
       project_id?: string;
       include_completed?: boolean;
       memory_importance?: 'low' | 'medium' | 'high' | 'critical';
+      memory_category?: string;
+      memory_tags?: string[];
+      due_soon_days?: number;
       focus?: 'tasks' | 'projects' | 'memories' | 'all';
     } = {}
   ): {
     current_project: Project | null;
     active_tasks: Task[];
     overdue_tasks: Task[];
+    due_soon_tasks: Task[];
+    blocked_tasks: Task[];
     recent_completions: Task[];
     recent_memories: Memory[];
+    task_tags: Array<{ tag: string; active: number; completed: number }>;
     project_stats: {
       total: number;
       in_progress: number;
@@ -36,6 +46,9 @@ export class RecallService {
       completed: number;
       critical: number;
       high_priority: number;
+      overdue: number;
+      due_soon: number;
+      by_status: Record<TaskStatus, number>;
     };
     session_context: {
       current_project_id?: string;
@@ -49,6 +62,9 @@ export class RecallService {
       project_id,
       include_completed = false,
       memory_importance,
+      memory_category,
+      memory_tags,
+      due_soon_days = 3,
       focus = 'all'
     } = args;
 
@@ -64,9 +80,9 @@ export class RecallService {
       tasks = tasks.filter(t => t.project_id === currentProjectId);
     }
 
-    // Get active tasks (prioritized and ranked)
+    // Get active tasks (prioritized and ranked); done and cancelled tasks are closed
     const activeTasks = tasks
-      .filter(t => !t.completed)
+      .filter(t => isOpenTask(t))
       .sort((a, b) => {
         // Sort by priority first, then creation date
         const priorityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
@@ -76,13 +92,21 @@ export class RecallService {
       })
       .slice(0, Math.floor(limit * 0.6)); // 60% of limit for active tasks
 
-    // Get overdue tasks (tasks with blockers or high priority older than 7 days)
-    const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    // Get overdue and due-soon tasks, soonest due date first
+    const now = new Date();
+    const byDueDate = (a: Task, b: Task) => a.due_date!.localeCompare(b.due_date!);
     const overdueTasks = tasks
-      .filter(t => !t.completed && (
-        (t.blockers && t.blockers.length > 0) ||
-        (t.priority === 'critical' && new Date(t.created_date) < sevenDaysAgo)
-      ))
+      .filter(t => isOpenTask(t) && getDueStatus(t.due_date, due_soon_days, now) === 'overdue')
+      .sort(byDueDate)
+      .slice(0, 5);
+    const dueSoonTasks = tasks
+      .filter(t => isOpenTask(t) && getDueStatus(t.due_date, due_soon_days, now) === 'due_soon')
+      .sort(byDueDate)
+      .slice(0, 5);
+
+    // Get blocked tasks: moved to 'blocked' or still open with blockers recorded
+    const blockedTasks = tasks
+      .filter(t => t.status === 'blocked' || (isOpenTask(t) && t.blockers && t.blockers.length > 0))
       .slice(0, 5);
 
     // Get recent completions
@@ -104,6 +128,9 @@ export class RecallService {
     if (memory_importance) {
       memories = memories.filter(m => m.importance === memory_importance);
     }
+    if (memory_category || memory_tags) {
+      memories = memories.filter(m => MemoryService.matchesClassification(m, { category: memory_category, tags: memory_tags }));
+    }
 
     // Get recent memories (ranked by importance and recency)
     const recentMemories = memories
@@ -116,6 +143,20 @@ export class RecallService {
       })
       .slice(0, Math.floor(limit * 0.2)); // 20% of limit
 
+    // Tag summary over the current project's tasks, grouped case-insensitively under the first spelling seen
+    const tagCounts = new Map<string, { tag: string; active: number; completed: number }>();
+    for (const task of tasks) {
+      for (const tag of task.tags) {
+        const key = tag.toLowerCase();
+        const entry = tagCounts.get(key) ?? { tag, active: 0, completed: 0 };
+        // Cancelled tasks count as neither
+        if (task.completed) entry.completed++; else if (isOpenTask(task)) entry.active++;
+        tagCounts.set(key, entry);
+      }
+    }
+    const taskTags = [...tagCounts.values()]
+      .sort((a, b) => b.active - a.active || b.completed - a.completed || a.tag.localeCompare(b.tag));
+
     // Calculate project stats
     const projectStats = {
       total: database.projects.length,
@@ -126,12 +167,18 @@ export class RecallService {
 
     // Calculate task stats
     const allTasks = database.tasks;
+    const openTasks = allTasks.filter(t => isOpenTask(t));
+    const byStatus = Object.fromEntries(TASK_STATUSES.map(status => [status, 0])) as Record<TaskStatus, number>;
+    allTasks.forEach(t => byStatus[t.status]++);
     const taskStats = {
       total: allTasks.length,
-      active: allTasks.filter(t => !t.completed).length,
+      active: openTasks.length,
       completed: allTasks.filter(t => t.completed).length,
-      critical: allTasks.filter(t => t.priority === 'critical' && !t.completed).length,
-      high_priority: allTasks.filter(t => t.priority === 'high' && !t.completed).length
+      critical: openTasks.filter(t => t.priority === 'critical').length,
+      high_priority: openTasks.filter(t => t.priority === 'high').length,
+      overdue: openTasks.filter(t => getDueStatus(t.due_date, due_soon_days, now) === 'overdue').length,
+      due_soon: openTasks.filter(t => getDueStatus(t.due_date, due_soon_days, now) === 'due_soon').length,
+      by_status: byStatus
     };
 
     // Session context
@@ -146,8 +193,11 @@ export class RecallService {
       current_project: currentProject,
       active_tasks: activeTasks,
       overdue_tasks: overdueTasks,
+      due_soon_tasks: dueSoonTasks,
+      blocked_tasks: blockedTasks,
       recent_completions: recentCompletions,
       recent_memories: recentMemories,
+      task_tags: taskTags,
       project_stats: projectStats,
       task_stats: taskStats,
       session_context: sessionContext
@@ -178,7 +228,8 @@ export class RecallService {
       output += `## 🔥 Active Tasks (${stateData.active_tasks.length})\n`;
       stateData.active_tasks.forEach((task, index) => {
         const priorityEmoji = { critical: '🚨', high: '⚡', medium: '📌', low: '📝' };
-        output += `${index + 1}. ${priorityEmoji[task.priority]} **${task.title}** (${task.priority})\n`;
+        const status = task.status === 'todo' ? '' : ` ${formatStatusLabel(task.status)}`;
+        output += `${index + 1}. ${priorityEmoji[task.priority]} **${task.title}** (${task.priority})${status}\n`;
         if (task.progress && task.progress > 0) {
           output += `   Progress: ${task.progress}%\n`;
         }
@@ -186,13 +237,33 @@ export class RecallService {
       output += `\n`;
     }
 
-    // Overdue/blocked tasks
+    // Overdue tasks
     if (stateData.overdue_tasks.length > 0) {
-      output += `## ⚠️ Overdue/Blocked Tasks (${stateData.overdue_tasks.length})\n`;
+      output += `## ⚠️ Overdue Tasks (${stateData.overdue_tasks.length})\n`;
       stateData.overdue_tasks.forEach((task, index) => {
+        output += `${index + 1}. **${task.title}** (${task.priority})\n`;
+        output += `   Due: ${task.due_date} (${describeDueDate(task.due_date!)})\n`;
+      });
+      output += `\n`;
+    }
+
+    // Tasks due soon
+    if (stateData.due_soon_tasks.length > 0) {
+      output += `## ⏰ Due Soon (${stateData.due_soon_tasks.length})\n`;
+      stateData.due_soon_tasks.forEach((task, index) => {
+        output += `${index + 1}. **${task.title}** (${task.priority})\n`;
+        output += `   Due: ${task.due_date} (${describeDueDate(task.due_date!)})\n`;
+      });
+      output += `\n`;
+    }
+
+    // Blocked tasks
+    if (stateData.blocked_tasks.length > 0) {
+      output += `## 🚫 Blocked Tasks (${stateData.blocked_tasks.length})\n`;
+      stateData.blocked_tasks.forEach((task, index) => {
         output += `${index + 1}. **${task.title}** (${task.priority})\n`;
         if (task.blockers && task.blockers.length > 0) {
-          output += `   🚫 Blocked: ${task.blockers[0]}\n`;
+          output += `   Blocked: ${task.blockers[0]}\n`;
         }
       });
       output += `\n`;
@@ -215,12 +286,22 @@ export class RecallService {
       output += `## 🧠 Recent Context (${stateData.recent_memories.length})\n`;
       stateData.recent_memories.forEach((memory, index) => {
         const importanceEmoji = { critical: '🚨', high: '⚡', medium: '📝', low: '💡' };
-        output += `${index + 1}. ${importanceEmoji[memory.importance]} **${memory.title}**\n`;
+        const tags = memory.tags.length > 0 ? ` #${memory.tags.join(' #')}` : '';
+        output += `${index + 1}. ${importanceEmoji[memory.importance]} **${memory.title}** [${memory.category}]${tags}\n`;
         output += `   ${memory.content.substring(0, 100)}${memory.content.length > 100 ? '...' : ''}\n`;
       });
       output += `\n`;
     }
 
+    // Task tags
+    if (stateData.task_tags.length > 0) {
+      output += `## 🏷️ Task Tags (${stateData.task_tags.length})\n`;
+      stateData.task_tags.forEach(({ tag, active, completed }) => {
+        output += `- **${tag}:** ${active} active, ${completed} completed\n`;
+      });
+      output += `\n`;
+    }
+
     // Summary stats
     output += `## 📊 Summary Statistics\n`;
     output += `**Projects:** ${stateData.project_stats.total} total`;
@@ -236,6 +317,12 @@ export class RecallService {
     if (stateData.task_stats.critical > 0) {
       output += ` (${stateData.task_stats.critical} critical)`;
     }
+    if (stateData.task_stats.overdue > 0) {
+      output += ` (${stateData.task_stats.overdue} overdue)`;
+    }
+    if (stateData.task_stats.by_status.in_review > 0) {
+      output += ` (${stateData.task_stats.by_status.in_review} in review)`;
+    }
     output += `\n`;
     
     output += `**Memories:** ${stateData.session_context.total_memories} stored\n`;
@@ -1,5 +1,11 @@
-import type { Task, Project, LineRange } from '../types/index.js';
+import type { Estimate, Task, Project, LineRange, ProjectDatabase, RecurrenceRule, TaskDeletionPlan, TaskSeries, TaskStatus, TimeEntry } from '../types/index.js';
+import { TASK_STATUSES } from '../types/index.js';
+import { DEFAULT_TASK_TRANSITIONS, type TaskTransitions } from '../config/settings.js';
 import { generateId } from '../utils/idGenerator.js';
+import { describeRecurrence, nextOccurrence } from '../utils/recurrence.js';
+import { formatStatusLabel, isOpenTask } from '../utils/taskStatus.js';
+import { totalMinutes } from '../utils/timeTracking.js';
+import { CircularDependencyError, InvalidStatusTransitionError, NoRunningTimerError, TaskNotFoundError, TimerAlreadyRunningError } from '../utils/errors.js';
 
 /**
  * High-performance service for task management operations with optimized algorithms and caching
@@ -9,6 +15,11 @@ export class TaskService {
   private static priorityCache = new Map<string, 'critical' | 'high' | 'medium' | 'low'>();
   private static readonly PRIORITY_CACHE_SIZE = 100;
 
+  /**
+   * @param transitions Statuses each status may move to, from the workflow config
+   */
+  constructor(private readonly transitions: TaskTransitions = DEFAULT_TASK_TRANSITIONS) {}
+
   /**
    * Creates a new task with intelligent priority detection
    */
@@ -19,6 +30,9 @@ export class TaskService {
     priority?: 'critical' | 'high' | 'medium' | 'low';
     due_date?: string;
     tags?: string[];
+    depends_on?: string[];
+    recurrence?: RecurrenceRule;
+    estimate?: Estimate;
     project_id: string;
     line_range?: LineRange;
   }): Task {
@@ -29,6 +43,9 @@ export class TaskService {
       priority,
       due_date,
       tags = [],
+      depends_on = [],
+      recurrence,
+      estimate,
       project_id,
       line_range
     } = args;
@@ -52,12 +69,13 @@ export class TaskService {
     // Auto-detect priority from title and description
     const detectedPriority = priority || this.detectPriorityFromText(title, description);
 
-    return {
+    const task: Task = {
       id: generateId('task'),
       project_id,
       parent_id,
       title: title.trim(),
       description: description?.trim(),
+      status: 'todo',
       completed: false,
       progress: 0,
       created_date: new Date().toISOString(),
@@ -65,10 +83,86 @@ export class TaskService {
       priority: detectedPriority,
       tags: Array.isArray(tags) ? tags.filter(tag => tag?.trim()) : [],
       subtasks: [],
+      depends_on: [...depends_on],
       notes: [],
       blockers: [],
-      line_range
+      line_range,
+      time_entries: [],
+      estimate
     };
+    this.setRecurrence(task, recurrence);
+    return task;
+  }
+
+  /**
+   * Sets or removes a task's recurrence rule. A task that gets its first rule starts
+   * a new series; removing the rule ends the series once this instance is completed.
+   */
+  setRecurrence(task: Task, rule: RecurrenceRule | undefined): void {
+    if (!rule) {
+      delete task.recurrence;
+      return;
+    }
+    task.recurrence = rule;
+    if (!task.series_id) {
+      task.series_id = generateId('series');
+      task.occurrence = 1;
+    }
+  }
+
+  /**
+   * The entry of the timer running on a task, if any
+   */
+  findRunningEntry(task: Task): TimeEntry | undefined {
+    return task.time_entries.find(entry => !entry.end);
+  }
+
+  /**
+   * Starts a timer on a task: an entry with a start but no end yet
+   */
+  startTimer(task: Task, note?: string, now: Date = new Date()): TimeEntry {
+    const running = this.findRunningEntry(task);
+    if (running) {
+      throw new TimerAlreadyRunningError(task.id, running.start);
+    }
+    const entry: TimeEntry = { id: generateId('time'), start: now.toISOString() };
+    if (note) entry.note = note;
+    task.time_entries.push(entry);
+    return entry;
+  }
+
+  /**
+   * Stops the timer running on a task. A note replaces the one given at start.
+   */
+  stopTimer(task: Task, note?: string, now: Date = new Date()): TimeEntry {
+    const running = this.findRunningEntry(task);
+    if (!running) {
+      throw new NoRunningTimerError(task.id);
+    }
+    running.end = new Date(Math.max(now.getTime(), new Date(running.start).getTime())).toISOString();
+    if (note) running.note = note;
+    return running;
+  }
+
+  /**
+   * Adds a finished entry for time spent without a timer
+   */
+  logTime(task: Task, start: Date, end: Date, note?: string): TimeEntry {
+    const entry: TimeEntry = { id: generateId('time'), start: start.toISOString(), end: end.toISOString() };
+    if (note) entry.note = note;
+    task.time_entries.push(entry);
+    return entry;
+  }
+
+  /**
+   * Minutes tracked on a task and on the task together with all its subtasks
+   */
+  getTrackedMinutes(task: Task, allTasks: Task[], now: Date = new Date()): { own: number; total: number } {
+    const own = totalMinutes(task.time_entries, now);
+    const total = allTasks
+      .filter(t => t.parent_id === task.id)
+      .reduce((sum, subtask) => sum + this.getTrackedMinutes(subtask, allTasks, now).total, own);
+    return { own, total };
   }
 
   /**
@@ -108,13 +202,11 @@ export class TaskService {
       
       task.progress = Math.round(progress); // Round to avoid floating point issues
       
-      if (task.progress === 100 && !task.completed) {
-        task.completed = true;
-        task.completed_date = new Date().toISOString();
-      } else if (task.progress < 100 && task.completed) {
-        // If progress is reduced below 100, un-complete the task
-        task.completed = false;
-        task.completed_date = undefined;
+      if (task.progress === 100 && task.status !== 'done') {
+        this.applyStatus(task, 'done');
+      } else if (task.progress < 100 && task.status === 'done') {
+        // If progress is reduced below 100, reopen the task
+        this.applyStatus(task, 'in_progress');
       }
     }
 
@@ -132,26 +224,66 @@ export class TaskService {
    * Updates parent task progress based on subtasks with optimized calculation
    */
   updateParentProgress(parentTask: Task, allTasks: Task[]): void {
-    if (!parentTask.subtasks || parentTask.subtasks.length === 0) return;
-
-    // Use Set for O(1) lookup instead of Array.includes
-    const subtaskIds = new Set(parentTask.subtasks);
-    const subtasks = allTasks.filter(t => subtaskIds.has(t.id));
-
-    if (subtasks.length === 0) return;
+    const counted = this.getCountedSubtasks(parentTask, allTasks);
+    if (counted.length === 0) return;
 
-    const totalProgress = subtasks.reduce((sum, task) => {
+    const totalProgress = counted.reduce((sum, task) => {
       return sum + (task.completed ? 100 : (task.progress || 0));
     }, 0);
 
-    parentTask.progress = Math.round(totalProgress / subtasks.length);
+    parentTask.progress = Math.round(totalProgress / counted.length);
     
-    if (parentTask.progress === 100 && !parentTask.completed) {
-      parentTask.completed = true;
-      parentTask.completed_date = new Date().toISOString();
+    if (parentTask.progress === 100 && isOpenTask(parentTask)) {
+      this.applyStatus(parentTask, 'done');
+    }
+  }
+
+  /**
+   * Sets a parent's estimate to the sum of its subtasks' estimates. Subtasks without an
+   * estimate are left out; estimates in different units cannot be added up, so a parent
+   * whose subtasks mix hours and points keeps its own estimate.
+   */
+  updateParentEstimate(parentTask: Task, allTasks: Task[]): void {
+    const estimated = this.getCountedSubtasks(parentTask, allTasks).filter(task => task.estimate);
+    const units = new Set(estimated.map(task => task.estimate!.unit));
+    if (estimated.length === 0 || units.size > 1) return;
+
+    const total = estimated.reduce((sum, task) => sum + task.estimate!.value, 0);
+    parentTask.estimate = { value: Math.round(total * 100) / 100, unit: estimated[0].estimate!.unit };
+  }
+
+  /**
+   * Rolls estimates up from a task through all of its ancestors
+   */
+  rollUpEstimates(task: Task, allTasks: Task[]): void {
+    const byId = new Map(allTasks.map(t => [t.id, t]));
+    const visited = new Set<string>();
+    let parent = task.parent_id ? byId.get(task.parent_id) : undefined;
+    while (parent && !visited.has(parent.id)) {
+      visited.add(parent.id);
+      this.updateParentEstimate(parent, allTasks);
+      parent = parent.parent_id ? byId.get(parent.parent_id) : undefined;
     }
   }
 
+  /**
+   * Whether a task's estimate comes from its subtasks rather than being set directly
+   */
+  hasEstimatedSubtasks(task: Task, allTasks: Task[]): boolean {
+    return this.getCountedSubtasks(task, allTasks).some(subtask => subtask.estimate);
+  }
+
+  /**
+   * Subtasks that count toward a parent's progress and estimate; cancelled subtasks
+   * are left out, like they are from project completion
+   */
+  private getCountedSubtasks(parentTask: Task, allTasks: Task[]): Task[] {
+    // Use Set for O(1) lookup instead of Array.includes; parent_id also catches
+    // subtasks created before they were linked into the parent's list
+    const subtaskIds = new Set(parentTask.subtasks ?? []);
+    return allTasks.filter(t => (subtaskIds.has(t.id) || t.parent_id === parentTask.id) && t.status !== 'cancelled');
+  }
+
   /**
    * Links task to project and parent task efficiently
    */
@@ -185,7 +317,10 @@ export class TaskService {
   }
 
   /**
-   * Updates a task in the tasks array with comprehensive validation
+   * Updates a task in the tasks array with comprehensive validation. A status change
+   * must be allowed by the configured transitions. Without an explicit status,
+   * `completed` moves the task to done or reopens it, reaching 100% progress completes
+   * it and starting progress on a todo task moves it to in_progress, where allowed.
    */
   updateTask(tasks: Task[], taskId: string, updates: Partial<Task>): Task {
     const task = this.findTaskById(tasks, taskId);
@@ -208,25 +343,169 @@ export class TaskService {
       throw new Error('Task title cannot be empty');
     }
 
-    // Apply updates
-    Object.assign(task, updates);
+    if (updates.status !== undefined && !TASK_STATUSES.includes(updates.status)) {
+      throw new Error(`Invalid status: ${updates.status}. Must be one of: ${TASK_STATUSES.join(', ')}`);
+    }
 
-    // Handle completion date when completed is set to true
-    if (updates.completed === true && !task.completed_date) {
-      task.completed_date = new Date().toISOString();
-    } else if (updates.completed === false) {
-      task.completed_date = undefined;
+    // Work out the target status before changing anything
+    const { status, completed, completed_date, ...fields } = updates;
+    let target = status;
+    if (target === undefined && completed !== undefined) {
+      target = completed ? 'done' : task.status === 'done' ? ((updates.progress ?? task.progress ?? 0) > 0 ? 'in_progress' : 'todo') : task.status;
+    }
+    if (target === undefined && updates.progress !== undefined) {
+      if (updates.progress >= 100 && this.canTransition(task.status, 'done')) {
+        target = 'done';
+      } else if (updates.progress > 0 && task.status === 'todo' && this.canTransition('todo', 'in_progress')) {
+        target = 'in_progress';
+      }
+    }
+    if (target !== undefined && target !== task.status && !this.canTransition(task.status, target)) {
+      throw new InvalidStatusTransitionError(task.id, task.status, target, this.transitions[task.status] ?? []);
     }
 
-    // Handle progress-based completion (only if progress reaches 100 and completed wasn't explicitly set)
-    if (updates.progress !== undefined && updates.progress >= 100 && updates.completed === undefined) {
-      task.completed = true;
-      task.completed_date = new Date().toISOString();
+    // Apply updates
+    Object.assign(task, fields);
+    if (target !== undefined && target !== task.status) {
+      this.applyStatus(task, target);
     }
 
     return task;
   }
 
+  /**
+   * Works out which tasks, memories and projects deleting a task touches without changing anything.
+   * In 'refuse' mode a task with subtasks cannot be deleted.
+   */
+  planTaskDeletion(
+    database: ProjectDatabase,
+    taskId: string,
+    subtaskMode: TaskDeletionPlan['subtask_mode'] = 'refuse',
+    memoryMode: TaskDeletionPlan['memory_mode'] = 'detach'
+  ): TaskDeletionPlan {
+    const task = this.findTaskById(database.tasks, taskId);
+    if (!task) {
+      throw new TaskNotFoundError(taskId, database.tasks.map(t => t.id));
+    }
+
+    const children = database.tasks.filter(t => t.parent_id === taskId);
+    if (children.length > 0 && subtaskMode === 'refuse') {
+      throw new Error(`Task '${taskId}' has ${children.length} subtasks (${children.map(t => t.id).join(', ')}). Use subtask_mode 'cascade' to delete them or 'reparent' to move them to the parent task`);
+    }
+
+    // Collect descendants breadth-first so the listing reads top-down
+    const deletedTasks = [task];
+    if (subtaskMode === 'cascade') {
+      for (let i = 0; i < deletedTasks.length; i++) {
+        const parentId = deletedTasks[i].id;
+        deletedTasks.push(...database.tasks.filter(t => t.parent_id === parentId));
+      }
+    }
+    const deletedIds = new Set(deletedTasks.map(t => t.id));
+    const reparentedTasks = subtaskMode === 'reparent' ? children : [];
+
+    const updatedParents = database.tasks.filter(t =>
+      !deletedIds.has(t.id) && (t.id === task.parent_id || t.subtasks?.some(id => deletedIds.has(id)))
+    );
+    const updatedDependents = database.tasks.filter(t =>
+      !deletedIds.has(t.id) && t.depends_on?.some(id => deletedIds.has(id))
+    );
+
+    const linkedMemories = database.memories.filter(m => m.task_id !== undefined && deletedIds.has(m.task_id));
+
+    return {
+      task,
+      subtask_mode: subtaskMode,
+      memory_mode: memoryMode,
+      deleted_tasks: deletedTasks,
+      reparented_tasks: reparentedTasks,
+      updated_parents: updatedParents,
+      updated_dependents: updatedDependents,
+      detached_memories: memoryMode === 'detach' ? linkedMemories : [],
+      deleted_memories: memoryMode === 'delete' ? linkedMemories : [],
+      project: database.projects.find(p => p.id === task.project_id)
+    };
+  }
+
+  /**
+   * Applies a deletion plan made by planTaskDeletion against the same database.
+   * Project completion is left to the caller.
+   */
+  applyTaskDeletion(database: ProjectDatabase, plan: TaskDeletionPlan): void {
+    const deletedIds = new Set(plan.deleted_tasks.map(t => t.id));
+    const deletedMemoryIds = new Set(plan.deleted_memories.map(m => m.id));
+    const newParentId = plan.task.parent_id;
+
+    for (const child of plan.reparented_tasks) {
+      child.parent_id = newParentId;
+    }
+
+    for (const parent of plan.updated_parents) {
+      const subtasks = (parent.subtasks || []).filter(id => !deletedIds.has(id));
+      if (parent.id === newParentId) {
+        subtasks.push(...plan.reparented_tasks.map(t => t.id).filter(id => !subtasks.includes(id)));
+      }
+      parent.subtasks = subtasks;
+    }
+
+    for (const dependent of plan.updated_dependents) {
+      dependent.depends_on = dependent.depends_on.filter(id => !deletedIds.has(id));
+    }
+
+    if (plan.project) {
+      plan.project.tasks = plan.project.tasks.filter(id => !deletedIds.has(id));
+      for (const milestone of plan.project.milestones || []) {
+        if (milestone.tasks.some(id => deletedIds.has(id))) {
+          milestone.tasks = milestone.tasks.filter(id => !deletedIds.has(id));
+        }
+      }
+    }
+
+    for (const memory of plan.detached_memories) {
+      memory.task_id = undefined;
+    }
+    if (deletedMemoryIds.size > 0) {
+      database.memories = database.memories.filter(m => !deletedMemoryIds.has(m.id));
+      for (const memory of database.memories) {
+        if (memory.related_memories?.some(id => deletedMemoryIds.has(id))) {
+          memory.related_memories = memory.related_memories.filter(id => !deletedMemoryIds.has(id));
+        }
+      }
+    }
+
+    database.tasks = database.tasks.filter(t => !deletedIds.has(t.id));
+  }
+
+  /**
+   * Lists every entity a deletion plan touches
+   */
+  formatTaskDeletionPlan(plan: TaskDeletionPlan): string {
+    const listTasks = (tasks: Task[]) => tasks.map(t => `- ${t.title} (${t.id})\n`).join('');
+    let text = `**Tasks deleted (${plan.deleted_tasks.length}):**\n${listTasks(plan.deleted_tasks)}`;
+
+    if (plan.reparented_tasks.length > 0) {
+      const target = plan.task.parent_id ? `task ${plan.task.parent_id}` : 'top level';
+      text += `\n**Subtasks moved to ${target} (${plan.reparented_tasks.length}):**\n${listTasks(plan.reparented_tasks)}`;
+    }
+    if (plan.updated_parents.length > 0) {
+      text += `\n**Parent tasks updated (${plan.updated_parents.length}):**\n${listTasks(plan.updated_parents)}`;
+    }
+    if (plan.updated_dependents.length > 0) {
+      text += `\n**Dependencies removed from (${plan.updated_dependents.length}):**\n${listTasks(plan.updated_dependents)}`;
+    }
+    if (plan.detached_memories.length > 0) {
+      text += `\n**Memories detached (${plan.detached_memories.length}):**\n${plan.detached_memories.map(m => `- ${m.title} (${m.id})\n`).join('')}`;
+    }
+    if (plan.deleted_memories.length > 0) {
+      text += `\n**Memories deleted (${plan.deleted_memories.length}):**\n${plan.deleted_memories.map(m => `- ${m.title} (${m.id})\n`).join('')}`;
+    }
+    if (plan.project) {
+      text += `\n**Project updated:** ${plan.project.name} (${plan.project.id}) - task list and completion\n`;
+    }
+
+    return text;
+  }
+
   /**
    * Optimized task toggling with overloaded signatures
    */
@@ -251,27 +530,71 @@ export class TaskService {
    * Helper method for toggling a single task
    */
   private toggleSingleTask(task: Task): void {
-    task.completed = !task.completed;
     if (task.completed) {
-      task.completed_date = new Date().toISOString();
-      task.progress = 100;
-    } else {
-      task.completed_date = undefined;
+      this.applyStatus(task, 'todo');
       task.progress = 0;
+    } else {
+      this.applyStatus(task, 'done');
+      task.progress = 100;
     }
   }
 
+  /**
+   * Whether the workflow allows moving from one status to another
+   */
+  canTransition(from: TaskStatus, to: TaskStatus): boolean {
+    return this.transitions[from]?.includes(to) ?? false;
+  }
+
+  /**
+   * Sets a task's status, keeping the completed flag and completion date in step
+   */
+  private applyStatus(task: Task, status: TaskStatus): void {
+    task.status = status;
+    task.completed = status === 'done';
+    task.completed_date = status === 'done' ? new Date().toISOString() : undefined;
+  }
+
+  /**
+   * Checks whether a task carries any or all of the given tags (case-insensitive)
+   */
+  matchesTags(task: Task, tags: string[], mode: 'any' | 'all' = 'any'): boolean {
+    const taskTags = new Set(task.tags.map(tag => tag.toLowerCase()));
+    const wanted = tags.map(tag => tag.toLowerCase());
+    return mode === 'all'
+      ? wanted.every(tag => taskTags.has(tag))
+      : wanted.some(tag => taskTags.has(tag));
+  }
+
+  /**
+   * Removes and then adds task tags. Tags already present (ignoring case) are not
+   * added again and removal ignores case. Returns the tags that actually changed.
+   */
+  updateTags(task: Task, add: string[] = [], remove: string[] = []): { added: string[]; removed: string[] } {
+    const removeKeys = new Set(remove.map(tag => tag.toLowerCase()));
+    const removed = task.tags.filter(tag => removeKeys.has(tag.toLowerCase()));
+    const kept = task.tags.filter(tag => !removeKeys.has(tag.toLowerCase()));
+
+    const keptKeys = new Set(kept.map(tag => tag.toLowerCase()));
+    const added = add.filter(tag => !keptKeys.has(tag.toLowerCase()));
+
+    task.tags = [...kept, ...added];
+    return { added, removed };
+  }
+
   /**
    * Optimized task filtering with better performance for large datasets
    */
   filterTasks(tasks: Task[], filters: {
-    status?: 'completed' | 'pending' | 'in_progress';
+    status?: TaskStatus;
     project_id?: string;
     parent_id?: string;
     priority?: 'critical' | 'high' | 'medium' | 'low';
     text_search?: string;
+    tags?: string[];
+    tag_match?: 'any' | 'all';
   }): Task[] {
-    const { status, project_id, parent_id, priority, text_search } = filters;
+    const { status, project_id, parent_id, priority, text_search, tags, tag_match = 'any' } = filters;
     
     let filteredTasks = tasks;
 
@@ -289,17 +612,11 @@ export class TaskService {
     }
 
     if (status) {
-      switch (status) {
-        case 'completed':
-          filteredTasks = filteredTasks.filter(t => t.completed === true);
-          break;
-        case 'pending':
-          filteredTasks = filteredTasks.filter(t => !t.completed && (!t.progress || t.progress === 0));
-          break;
-        case 'in_progress':
-          filteredTasks = filteredTasks.filter(t => !t.completed && t.progress && t.progress > 0 && t.progress < 100);
-          break;
-      }
+      filteredTasks = filteredTasks.filter(t => t.status === status);
+    }
+
+    if (tags && tags.length > 0) {
+      filteredTasks = filteredTasks.filter(t => this.matchesTags(t, tags, tag_match));
     }
 
     if (text_search?.trim()) {
@@ -321,9 +638,9 @@ export class TaskService {
     const priorityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
     
     return [...tasks].sort((a, b) => {
-      // Always sort completed tasks after incomplete ones
-      if (a.completed !== b.completed) {
-        return a.completed ? 1 : -1;
+      // Always sort done and cancelled tasks after open ones
+      if (isOpenTask(a) !== isOpenTask(b)) {
+        return isOpenTask(a) ? -1 : 1;
       }
 
       switch (sortBy) {
@@ -341,12 +658,242 @@ export class TaskService {
     });
   }
 
+  /**
+   * Validates a task's dependencies: each must exist in the same project and
+   * must not already depend on the task, directly or transitively
+   */
+  validateDependencies(tasks: Task[], task: Pick<Task, 'id' | 'project_id'>, dependencyIds: string[]): void {
+    const byId = new Map(tasks.map(t => [t.id, t]));
+
+    for (const dependencyId of dependencyIds) {
+      const dependency = byId.get(dependencyId);
+      if (!dependency) {
+        throw new TaskNotFoundError(dependencyId, tasks.map(t => t.id));
+      }
+      if (dependency.project_id !== task.project_id) {
+        throw new Error(`Dependency '${dependencyId}' must be in the same project as task '${task.id}'`);
+      }
+
+      const path = this.findDependencyPath(byId, dependencyId, task.id);
+      if (path) {
+        throw new CircularDependencyError(task.id, dependencyId, [task.id, ...path]);
+      }
+    }
+  }
+
+  /**
+   * Follows depends_on edges depth-first and returns the path between two tasks, if any
+   */
+  private findDependencyPath(byId: Map<string, Task>, fromId: string, toId: string): string[] | undefined {
+    const visited = new Set<string>();
+    const visit = (id: string): string[] | undefined => {
+      if (id === toId) return [id];
+      if (visited.has(id)) return undefined;
+      visited.add(id);
+
+      for (const nextId of byId.get(id)?.depends_on || []) {
+        const path = visit(nextId);
+        if (path) return [id, ...path];
+      }
+      return undefined;
+    };
+    return visit(fromId);
+  }
+
+  /**
+   * Whether a task can be worked on now: it is todo or in progress and every dependency
+   * is done or cancelled. Dependencies that no longer exist count as met.
+   */
+  isActionable(task: Task, byId: Map<string, Task>): boolean {
+    return (task.status === 'todo' || task.status === 'in_progress')
+      && (task.depends_on || []).every(id => { const dependency = byId.get(id); return !dependency || !isOpenTask(dependency); });
+  }
+
+  /**
+   * Incomplete tasks whose dependencies are all completed, ranked by priority,
+   * then by how many waiting tasks they unblock, then oldest first
+   */
+  getNextActionableTasks(tasks: Task[]): Array<{ task: Task; unblocks: Task[] }> {
+    const priorityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
+    const byId = new Map(tasks.map(t => [t.id, t]));
+
+    return tasks
+      .filter(task => this.isActionable(task, byId))
+      .map(task => ({
+        task,
+        unblocks: tasks.filter(t => isOpenTask(t) && t.depends_on?.includes(task.id))
+      }))
+      .sort((a, b) =>
+        priorityOrder[a.task.priority] - priorityOrder[b.task.priority] ||
+        b.unblocks.length - a.unblocks.length ||
+        new Date(a.task.created_date).getTime() - new Date(b.task.created_date).getTime()
+      );
+  }
+
+  /**
+   * Orders tasks so each comes after its dependencies (Kahn's algorithm), grouped into
+   * levels: a task's level is one more than that of its deepest dependency. Tasks within
+   * a level are ranked by priority, then oldest first. Dependencies outside the given
+   * tasks are ignored; tasks caught in a cycle (possible only in imported or merged
+   * data) are returned separately.
+   */
+  getDependencyLevels(tasks: Task[]): { levels: Task[][]; cyclic: Task[] } {
+    const priorityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
+    const rank = (a: Task, b: Task) =>
+      priorityOrder[a.priority] - priorityOrder[b.priority] ||
+      new Date(a.created_date).getTime() - new Date(b.created_date).getTime();
+
+    const ids = new Set(tasks.map(t => t.id));
+    const remaining = new Map(tasks.map(t => [t.id, (t.depends_on || []).filter(id => ids.has(id) && id !== t.id).length]));
+    const levels: Task[][] = [];
+
+    let current = tasks.filter(t => remaining.get(t.id) === 0);
+    while (current.length > 0) {
+      levels.push([...current].sort(rank));
+      current.forEach(t => remaining.delete(t.id));
+
+      const placed = new Set(current.map(t => t.id));
+      const next: Task[] = [];
+      for (const task of tasks) {
+        if (!remaining.has(task.id)) continue;
+        const left = remaining.get(task.id)! - (task.depends_on || []).filter(id => placed.has(id)).length;
+        remaining.set(task.id, left);
+        if (left === 0) next.push(task);
+      }
+      current = next;
+    }
+
+    return { levels, cyclic: tasks.filter(t => remaining.has(t.id)) };
+  }
+
+  /**
+   * Formats dependency levels with each task's state: ready to start, waiting on
+   * dependencies, or its status when it is not todo or in progress
+   */
+  formatDependencyOrder(tasks: Task[], allTasks: Task[]): string {
+    const { levels, cyclic } = this.getDependencyLevels(tasks);
+    const byId = new Map(allTasks.map(t => [t.id, t]));
+    const state = (task: Task) => task.status !== 'todo' && task.status !== 'in_progress'
+      ? formatStatusLabel(task.status)
+      : this.isActionable(task, byId) ? '[READY]' : '[WAITING]';
+
+    let position = 0;
+    const formatTask = (task: Task) => {
+      let line = `${++position}. ${state(task)} **${task.title}** (${task.priority}) - ${task.id}\n`;
+      const dependencies = (task.depends_on || []).map(id => byId.get(id)?.title ?? id);
+      if (dependencies.length > 0) {
+        line += `   After: ${dependencies.join(', ')}\n`;
+      }
+      return line;
+    };
+
+    let text = `**Tasks:** ${tasks.length} | **Levels:** ${levels.length}\n`;
+    levels.forEach((level, index) => {
+      text += `\n## Level ${index + 1}\n${level.map(formatTask).join('')}`;
+    });
+    if (cyclic.length > 0) {
+      text += `\n## Circular Dependencies (${cyclic.length})\n[WARNING] These tasks depend on each other and can never start. Remove one of their dependencies with update_task.\n${cyclic.map(formatTask).join('')}`;
+    }
+    return text;
+  }
+
+  /**
+   * Creates the instance that follows a completed recurring task. The next due date
+   * follows the rule from the completed instance's due date (or from today if it had
+   * none); occurrences that passed while the task was overdue are skipped. Returns
+   * undefined when the series is exhausted by COUNT or UNTIL.
+   */
+  createNextOccurrence(task: Task, today: string): Task | undefined {
+    const rule = task.recurrence;
+    if (!rule || !task.series_id) return undefined;
+
+    let dueDate = nextOccurrence(rule, task.due_date ?? today);
+    let nextNumber = (task.occurrence ?? 1) + 1;
+    while (dueDate < today) {
+      dueDate = nextOccurrence(rule, dueDate);
+      nextNumber++;
+    }
+    if ((rule.count !== undefined && nextNumber > rule.count) || (rule.until !== undefined && dueDate > rule.until)) {
+      return undefined;
+    }
+
+    const next = this.createTask({
+      title: task.title,
+      description: task.description,
+      parent_id: task.parent_id,
+      priority: task.priority,
+      due_date: dueDate,
+      tags: task.tags,
+      estimate: task.estimate ? { ...task.estimate } : undefined,
+      project_id: task.project_id,
+      line_range: task.line_range
+    });
+    next.recurrence = { ...rule };
+    next.series_id = task.series_id;
+    next.occurrence = nextNumber;
+    return next;
+  }
+
+  /**
+   * Groups recurring tasks by series, most recently created series first
+   */
+  getSeries(tasks: Task[]): TaskSeries[] {
+    const groups = new Map<string, Task[]>();
+    for (const task of tasks) {
+      if (!task.series_id) continue;
+      groups.set(task.series_id, [...(groups.get(task.series_id) ?? []), task]);
+    }
+
+    return [...groups.entries()]
+      .map(([series_id, instances]) => {
+        instances.sort((a, b) => (a.occurrence ?? 1) - (b.occurrence ?? 1));
+        const latest = instances[instances.length - 1];
+        const open_task = instances.find(t => isOpenTask(t) && t.recurrence);
+        return {
+          series_id,
+          title: latest.title,
+          project_id: latest.project_id,
+          recurrence: latest.recurrence,
+          status: open_task ? 'active' as const : 'ended' as const,
+          instances,
+          open_task
+        };
+      })
+      .sort((a, b) => new Date(b.instances[0].created_date).getTime() - new Date(a.instances[0].created_date).getTime());
+  }
+
+  /**
+   * Formats series with their rule and next open instance; single series list every instance
+   */
+  formatSeriesList(series: TaskSeries[], showInstances: boolean): string {
+    const active = series.filter(s => s.status === 'active').length;
+    let text = `**Series:** ${series.length} (${active} active)\n`;
+
+    series.forEach((entry, index) => {
+      const completed = entry.instances.filter(t => t.completed).length;
+      text += `\n${index + 1}. **${entry.title}** [${entry.status.toUpperCase()}] - ${entry.series_id}\n`;
+      if (entry.recurrence) {
+        text += `   Repeats: ${describeRecurrence(entry.recurrence)}\n`;
+      }
+      text += `   Occurrences: ${entry.instances.length} (${completed} completed)\n`;
+      if (entry.open_task) {
+        text += `   Next: ${entry.open_task.id}${entry.open_task.due_date ? ` due ${entry.open_task.due_date}` : ''}\n`;
+      }
+      if (showInstances) {
+        entry.instances.forEach(task => {
+          text += `   #${task.occurrence ?? 1} ${formatStatusLabel(task.status)} ${task.id}${task.due_date ? ` - due ${task.due_date}` : ''}\n`;
+        });
+      }
+    });
+    return text;
+  }
+
   /**
    * Optimized task tree formatting with better performance
    */
   formatTaskTree(task: Task, allTasks: Task[], indent: number = 0): string {
     const indentStr = '  '.repeat(indent);
-    const checkbox = task.completed ? '[DONE]' : '[ ]';
+    const checkbox = task.status === 'todo' ? '[ ]' : formatStatusLabel(task.status);
     const progress = task.progress ? ` (${task.progress}%)` : '';
     
     let result = `${indentStr}${checkbox} ${task.title}${progress} [${task.priority}]\n`;
@@ -375,17 +922,15 @@ export class TaskService {
     let result = `# Task List\n\n`;
     
     if (includeStats) {
-      const completed = tasks.filter(t => t.completed).length;
-      const inProgress = tasks.filter(t => !t.completed && t.progress && t.progress > 0).length;
-      const blocked = tasks.filter(t => t.blockers && t.blockers.length > 0).length;
+      const count = (status: TaskStatus) => tasks.filter(t => t.status === status).length;
       
-      result += `**Summary:** ${tasks.length} total • ${completed} completed • ${inProgress} in progress • ${blocked} blocked\n\n`;
+      result += `**Summary:** ${tasks.length} total • ${count('done')} completed • ${count('in_progress')} in progress • ${count('in_review')} in review • ${count('blocked')} blocked • ${count('cancelled')} cancelled\n\n`;
     } else {
       result += `**Found:** ${tasks.length} tasks\n\n`;
     }
 
     tasks.forEach(task => {
-      const status = task.completed ? '[DONE]' : '[ ]';
+      const status = task.status === 'todo' ? '[ ]' : formatStatusLabel(task.status);
       result += `${status} **${task.title}** (${task.id})\n`;
       result += `   Priority: ${task.priority} | Progress: ${task.progress || 0}%`;
       
@@ -415,7 +960,7 @@ export class TaskService {
     const indentStr = '  '.repeat(indent);
     const checkbox = task.completed ? '- [x]' : '- [ ]';
     
-    let result = `${indentStr}${checkbox} ${task.title}`;
+    let result = `${indentStr}${checkbox} ${task.status === 'cancelled' ? `~~${task.title}~~` : task.title}`;
     if (task.priority !== 'medium') result += ` (${task.priority})`;
     if (task.progress && !task.completed) result += ` - ${task.progress}%`;
     result += '\n';
@@ -506,7 +1051,7 @@ export class TaskService {
       tasksByProject.get(task.project_id)!.push(task);
 
       // By status index
-      const status = task.completed ? 'completed' : 'active';
+      const status = task.status;
       if (!tasksByStatus.has(status)) {
         tasksByStatus.set(status, []);
       }
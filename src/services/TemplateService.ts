@@ -0,0 +1,158 @@
+import type { Project, ProjectTemplate, Task, TemplateTask } from '../types/index.js';
+import { TemplateNotFoundError, ValidationError } from '../utils/errors.js';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+const PLACEHOLDER_NAME = /^[A-Za-z_][\w-]*$/;
+
+/**
+ * Service responsible for project templates: task hierarchies saved under a name
+ * and stamped out again with their {{placeholders}} filled in
+ */
+export class TemplateService {
+  /**
+   * Key a template is stored under; names are matched case-insensitively
+   */
+  templateKey(name: string): string {
+    return name.trim().toLowerCase();
+  }
+
+  /**
+   * Finds a template by name
+   */
+  getTemplate(templates: Record<string, ProjectTemplate>, name: string): ProjectTemplate {
+    const template = templates[this.templateKey(name)];
+    if (!template) {
+      throw new TemplateNotFoundError(name, Object.values(templates).map(t => t.name));
+    }
+    return template;
+  }
+
+  /**
+   * Builds a template from a project's tasks, or from one task and its subtasks when
+   * rootTaskId is given. Cancelled tasks are left out. `replace` maps literal text to
+   * placeholder names, so {"2.1": "version"} saves "Release 2.1" as "Release {{version}}".
+   */
+  createTemplate(args: {
+    name: string;
+    description?: string;
+    project: Project;
+    tasks: Task[];
+    rootTaskId?: string;
+    replace?: Record<string, string>;
+  }): ProjectTemplate {
+    const { name, description, project, tasks, rootTaskId, replace = {} } = args;
+
+    for (const [literal, placeholder] of Object.entries(replace)) {
+      if (!literal || typeof placeholder !== 'string' || !PLACEHOLDER_NAME.test(placeholder)) {
+        throw new ValidationError('replace', `${literal} -> ${placeholder}`, 'must map non-empty text to placeholder names made of letters, digits, _ and -');
+      }
+    }
+    // Longer text first, so "2.1.0" is replaced before "2.1"
+    const replacements = Object.entries(replace).sort((a, b) => b[0].length - a[0].length);
+    const substitute = (text: string) => replacements.reduce((result, [literal, placeholder]) => result.split(literal).join(`{{${placeholder}}}`), text);
+
+    let selected = tasks.filter(t => t.project_id === project.id && t.status !== 'cancelled');
+    if (rootTaskId) {
+      const subtree = selected.filter(t => t.id === rootTaskId);
+      for (let i = 0; i < subtree.length; i++) {
+        subtree.push(...selected.filter(t => t.parent_id === subtree[i].id));
+      }
+      selected = subtree;
+    }
+
+    // Parents and dependencies go first so tasks can be created in template order
+    const byId = new Map(selected.map(t => [t.id, t]));
+    const ordered: Task[] = [];
+    const visited = new Set<string>();
+    const visit = (task: Task) => {
+      if (visited.has(task.id)) return;
+      visited.add(task.id);
+      for (const id of [task.parent_id, ...task.depends_on]) {
+        const before = id ? byId.get(id) : undefined;
+        if (before) visit(before);
+      }
+      ordered.push(task);
+    };
+    selected.forEach(visit);
+
+    const keys = new Map(ordered.map((task, index) => [task.id, `t${index + 1}`]));
+    const templateTasks: TemplateTask[] = ordered.map(task => ({
+      key: keys.get(task.id)!,
+      title: substitute(task.title),
+      description: task.description ? substitute(task.description) : undefined,
+      priority: task.priority,
+      tags: [...task.tags],
+      parent_key: task.parent_id ? keys.get(task.parent_id) : undefined,
+      depends_on: task.depends_on.filter(id => keys.has(id)).map(id => keys.get(id)!),
+      estimate: task.estimate ? { ...task.estimate } : undefined
+    }));
+
+    return {
+      name,
+      description,
+      created_date: new Date().toISOString(),
+      source_project_id: project.id,
+      placeholders: this.findPlaceholders(templateTasks),
+      tasks: templateTasks
+    };
+  }
+
+  /**
+   * Placeholder names used in task titles and descriptions, in order of first use
+   */
+  findPlaceholders(tasks: TemplateTask[]): string[] {
+    const names = new Set<string>();
+    for (const task of tasks) {
+      for (const match of `${task.title}\n${task.description ?? ''}`.matchAll(PLACEHOLDER_PATTERN)) {
+        names.add(match[1]);
+      }
+    }
+    return [...names];
+  }
+
+  /**
+   * Returns the template's tasks with placeholders replaced by the given values.
+   * Every placeholder needs a value, and values for names the template does not use are refused.
+   */
+  fillPlaceholders(template: ProjectTemplate, values: Record<string, unknown> = {}): TemplateTask[] {
+    if (values === null || typeof values !== 'object' || Array.isArray(values)
+      || Object.values(values).some(value => typeof value !== 'string' && typeof value !== 'number')) {
+      throw new ValidationError('values', JSON.stringify(values), 'must map placeholder names to text');
+    }
+    const unknown = Object.keys(values).filter(name => !template.placeholders.includes(name));
+    if (unknown.length > 0) {
+      throw new ValidationError('values', unknown.join(', '), `must only name placeholders of template '${template.name}' (${template.placeholders.join(', ') || 'none'})`);
+    }
+    const missing = template.placeholders.filter(name => values[name] === undefined);
+    if (missing.length > 0) {
+      throw new ValidationError('values', missing.join(', '), `must give a value for every placeholder of template '${template.name}'`);
+    }
+
+    const fill = (text: string) => text.replace(PLACEHOLDER_PATTERN, (_match, name: string) => String(values[name]));
+    return template.tasks.map(task => ({
+      ...task,
+      title: fill(task.title),
+      description: task.description !== undefined ? fill(task.description) : undefined
+    }));
+  }
+
+  /**
+   * Formats a template's tasks as an indented tree
+   */
+  formatTemplateTasks(template: ProjectTemplate): string {
+    const titles = new Map(template.tasks.map(t => [t.key, t.title]));
+    const keys = new Set(titles.keys());
+    const lines: string[] = [];
+    const addTree = (task: TemplateTask, level: number) => {
+      const details = [
+        task.priority,
+        ...(task.tags.length > 0 ? [task.tags.join(', ')] : []),
+        ...(task.depends_on.length > 0 ? [`after ${task.depends_on.map(key => titles.get(key)).join(', ')}`] : [])
+      ];
+      lines.push(`${'  '.repeat(level)}- ${task.title} (${details.join('; ')})`);
+      template.tasks.filter(t => t.parent_key === task.key).forEach(child => addTree(child, level + 1));
+    };
+    template.tasks.filter(t => !t.parent_key || !keys.has(t.parent_key)).forEach(task => addTree(task, 0));
+    return lines.join('\n');
+  }
+}
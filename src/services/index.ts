@@ -3,4 +3,6 @@ export { ProjectService } from './ProjectService.js';
 export { TaskService } from './TaskService.js';
 export { MemoryService } from './MemoryService.js';
 export { RecallService } from './RecallService.js';
-export { ExportService } from './ExportService.js';
\ No newline at end of file
+export { ExportService } from './ExportService.js';
+export { ImportService } from './ImportService.js';export { MergeService, mergeSessions } from './MergeService.js';
+export { TemplateService } from './TemplateService.js';
@@ -0,0 +1,236 @@
+import { closeSync, existsSync, fsyncSync, ftruncateSync, mkdirSync, openSync, readFileSync, writeSync } from 'fs';
+import { dirname } from 'path';
+import type { ProjectDatabase } from '../types/index.js';
+import { applyDatabaseDiff, diffDatabases, isEmptyDiff, type DatabaseDiff } from '../utils/databaseDiff.js';
+import { CURRENT_SCHEMA_VERSION } from '../migrations/index.js';
+import { JsonFileStorageAdapter } from './JsonFileStorageAdapter.js';
+import type { CommitContext, DatabasePart, StorageAdapter } from './StorageAdapter.js';
+
+/**
+ * One committed store operation as recorded in the journal
+ */
+export interface JournalEntry {
+  sequence: number;
+  timestamp: string;
+  operationType: string;
+  changedParts: DatabasePart[];
+  diff: DatabaseDiff;
+}
+
+export interface JournalStorageOptions {
+  /** Journal size in bytes after which it is folded into the base snapshot */
+  compactThresholdBytes?: number;
+}
+
+/**
+ * Append-only mutation journal on top of a JSON base snapshot.
+ *
+ * Every commit appends one line with the operation type, changed parts and
+ * entity-level diff to `<dataFile>.journal` and fsyncs it before the commit
+ * completes. Loading reads the base snapshot and replays the journal, so a
+ * crash loses at most the operation that had not finished committing. Once
+ * the journal grows past the threshold it is compacted on the next commit: the
+ * current database is written as the new base snapshot and the journal is
+ * truncated. Replaying an entry is idempotent, which keeps a crash between
+ * those two steps safe. Loading never writes, so it is safe for dry runs; a
+ * torn final entry is cut off before the next append.
+ */
+export class JournalStorageAdapter implements StorageAdapter {
+  readonly kind = 'journal';
+  readonly persistent = true;
+
+  static readonly DEFAULT_COMPACT_THRESHOLD_BYTES = 1024 * 1024; // 1 MB
+
+  private readonly baseSnapshot: JsonFileStorageAdapter;
+  private readonly journalPath: string;
+  private readonly compactThresholdBytes: number;
+  private journalFd: number | null = null;
+  private journalBytes = 0;
+  private nextSequence = 1;
+
+  // Repairs found while loading, applied before the next append
+  private truncateJournalTo: number | null = null;
+  private journalNeedsNewline = false;
+
+  constructor(private readonly filePath: string, options: JournalStorageOptions = {}) {
+    this.baseSnapshot = new JsonFileStorageAdapter(filePath);
+    this.journalPath = `${filePath}.journal`;
+    this.compactThresholdBytes = options.compactThresholdBytes ?? JournalStorageAdapter.DEFAULT_COMPACT_THRESHOLD_BYTES;
+  }
+
+  /**
+   * Returns the path of the journal file
+   */
+  getJournalPath(): string {
+    return this.journalPath;
+  }
+
+  /**
+   * Loads the base snapshot and replays every journal entry on top of it
+   */
+  load(): unknown | null {
+    const base = this.baseSnapshot.load() as ProjectDatabase | null;
+    const entries = this.readJournal();
+
+    if (base === null && entries.length === 0) {
+      return null;
+    }
+
+    const database = base ?? this.createEmptyBase();
+    for (const entry of entries) {
+      applyDatabaseDiff(database, entry.diff);
+      if (database.meta) {
+        database.meta.last_updated = entry.timestamp;
+      }
+    }
+
+    this.nextSequence = entries.length > 0 ? entries[entries.length - 1].sequence + 1 : 1;
+    return database;
+  }
+
+  /**
+   * Reads journal entries, tolerating a torn final line from an interrupted write
+   */
+  private readJournal(): JournalEntry[] {
+    this.truncateJournalTo = null;
+    this.journalNeedsNewline = false;
+    if (!existsSync(this.journalPath)) {
+      this.journalBytes = 0;
+      return [];
+    }
+
+    const content = readFileSync(this.journalPath, 'utf-8');
+    this.journalBytes = Buffer.byteLength(content);
+
+    const lines = content.split('\n');
+    const entries: JournalEntry[] = [];
+    let validBytes = 0;
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index];
+      const isLastLine = index === lines.length - 1;
+      const lineBytes = Buffer.byteLength(line) + (isLastLine ? 0 : 1);
+
+      if (!line.trim()) {
+        validBytes += lineBytes;
+        continue;
+      }
+
+      try {
+        entries.push(JSON.parse(line));
+        validBytes += lineBytes;
+      } catch (error) {
+        if (lines.slice(index + 1).some(rest => rest.trim())) {
+          throw new Error(`Corrupted journal entry ${index + 1} in ${this.journalPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+        // The torn entry is cut off before the next append, so it starts on a clean line
+        console.error(`Ignoring incomplete final journal entry in ${this.journalPath}`);
+        this.truncateJournalTo = validBytes;
+        this.journalBytes = validBytes;
+        return entries;
+      }
+    }
+
+    this.journalNeedsNewline = content.length > 0 && !content.endsWith('\n');
+    return entries;
+  }
+
+  save(database: ProjectDatabase, context: CommitContext): void {
+    // The first commit writes the starting point so the journal always has a base to replay onto
+    if (!existsSync(this.filePath)) {
+      this.baseSnapshot.save(context.previous ?? database);
+    }
+
+    const diff = context.previous
+      ? diffDatabases(context.previous, database, context.changedParts)
+      : diffDatabases(this.createEmptyBase(), database);
+
+    if (isEmptyDiff(diff)) {
+      return;
+    }
+
+    this.append({
+      sequence: this.nextSequence,
+      timestamp: database.meta.last_updated,
+      operationType: context.operationType,
+      changedParts: Array.from(context.changedParts ?? []),
+      diff
+    });
+    this.nextSequence++;
+
+    // The entry is durable at this point, so a failed compaction must not fail the commit;
+    // it is retried on the next one
+    if (this.journalBytes > this.compactThresholdBytes) {
+      try {
+        this.compact(database);
+      } catch (error) {
+        console.error(`Failed to compact journal ${this.journalPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
+  /**
+   * Appends one entry and flushes it to disk before returning
+   */
+  private append(entry: JournalEntry): void {
+    const fd = this.openJournal();
+    if (this.truncateJournalTo !== null) {
+      ftruncateSync(fd, this.truncateJournalTo);
+      this.truncateJournalTo = null;
+    }
+    const line = `${this.journalNeedsNewline ? '\n' : ''}${JSON.stringify(entry)}\n`;
+    this.journalNeedsNewline = false;
+
+    try {
+      writeSync(fd, line);
+      fsyncSync(fd);
+    } catch (error) {
+      throw new Error(`Failed to append to journal ${this.journalPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    this.journalBytes += Buffer.byteLength(line);
+  }
+
+  /**
+   * Folds the journal into a new base snapshot and truncates it
+   */
+  compact(database: ProjectDatabase): void {
+    this.baseSnapshot.save(database);
+
+    const fd = this.openJournal();
+    ftruncateSync(fd, 0);
+    fsyncSync(fd);
+    this.journalBytes = 0;
+    this.truncateJournalTo = null;
+    this.journalNeedsNewline = false;
+  }
+
+  private openJournal(): number {
+    if (this.journalFd === null) {
+      mkdirSync(dirname(this.journalPath), { recursive: true });
+      this.journalFd = openSync(this.journalPath, 'a');
+    }
+    return this.journalFd;
+  }
+
+  private createEmptyBase(): ProjectDatabase {
+    return {
+      meta: {
+        last_updated: new Date().toISOString(),
+        version: CURRENT_SCHEMA_VERSION,
+        session_count: 0
+      },
+      projects: [],
+      tasks: [],
+      memories: [],
+      templates: {}
+    };
+  }
+
+  close(): void {
+    if (this.journalFd !== null) {
+      closeSync(this.journalFd);
+      this.journalFd = null;
+    }
+  }
+}
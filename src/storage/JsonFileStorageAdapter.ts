@@ -0,0 +1,78 @@
+import { closeSync, existsSync, fsyncSync, mkdirSync, openSync, readFileSync, renameSync, unlinkSync, writeSync } from 'fs';
+import { dirname } from 'path';
+import type { ProjectDatabase } from '../types/index.js';
+import type { StorageAdapter } from './StorageAdapter.js';
+
+/**
+ * Persists the whole database to a single JSON file.
+ *
+ * Every commit writes the database to a temporary file next to the target,
+ * flushes it to disk and renames it over the previous file, so a crash
+ * mid-write leaves either the old or the new database, never a partial one.
+ */
+export class JsonFileStorageAdapter implements StorageAdapter {
+  readonly kind = 'json';
+  readonly persistent = true;
+
+  constructor(private readonly filePath: string) {
+    if (!filePath?.trim()) {
+      throw new Error('JSON storage requires a file path');
+    }
+  }
+
+  /**
+   * Returns the path of the backing JSON file
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  load(): unknown | null {
+    if (!existsSync(this.filePath)) {
+      return null;
+    }
+
+    const content = readFileSync(this.filePath, 'utf-8');
+    if (!content.trim()) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Failed to parse data file ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  save(database: ProjectDatabase): void {
+    this.writeAtomically(JSON.stringify(database, null, 2));
+  }
+
+  /**
+   * Writes content to a temp file, fsyncs it and renames it over the target
+   */
+  private writeAtomically(content: string): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+
+    try {
+      const fd = openSync(tempPath, 'w');
+      try {
+        writeSync(fd, content);
+        fsyncSync(fd);
+      } finally {
+        closeSync(fd);
+      }
+      renameSync(tempPath, this.filePath);
+    } catch (error) {
+      if (existsSync(tempPath)) {
+        try {
+          unlinkSync(tempPath);
+        } catch {
+          // Ignore cleanup errors, the original error is more useful
+        }
+      }
+      throw new Error(`Failed to write data file ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import type { StorageAdapter } from './StorageAdapter.js';
+
+/**
+ * Default adapter for pure in-memory operation.
+ * Nothing is loaded at startup and commits are not persisted anywhere.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly kind = 'memory';
+  readonly persistent = false;
+
+  load(): null {
+    return null;
+  }
+
+  save(): void {
+    // Data lives only in the InMemoryStore
+  }
+}
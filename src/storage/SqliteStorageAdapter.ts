@@ -0,0 +1,351 @@
+import { mkdirSync } from 'fs';
+import { createRequire } from 'module';
+import { dirname } from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import type { ProjectDatabase } from '../types/index.js';
+import type { CommitContext, DatabasePart, StorageAdapter } from './StorageAdapter.js';
+
+type EntityTable = 'projects' | 'tasks' | 'memories';
+
+/**
+ * Column layout of each entity table. Indexed scalar fields get their own
+ * columns; the complete entity is kept in `data` so schema additions do not
+ * require SQL migrations.
+ */
+const ENTITY_COLUMNS: Record<EntityTable, string[]> = {
+  projects: ['id', 'name', 'status', 'created_date', 'data'],
+  tasks: ['id', 'project_id', 'parent_id', 'title', 'completed', 'priority', 'created_date', 'data'],
+  memories: ['id', 'project_id', 'task_id', 'importance', 'category', 'timestamp', 'data']
+};
+
+const SCHEMA_SQL = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS projects (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_date TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS tasks (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    parent_id TEXT,
+    title TEXT NOT NULL,
+    completed INTEGER NOT NULL,
+    priority TEXT NOT NULL,
+    created_date TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_tasks_project_id ON tasks(project_id);
+  CREATE INDEX IF NOT EXISTS idx_tasks_parent_id ON tasks(parent_id);
+
+  CREATE TABLE IF NOT EXISTS memories (
+    id TEXT PRIMARY KEY,
+    project_id TEXT,
+    task_id TEXT,
+    importance TEXT NOT NULL,
+    category TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_memories_project_id ON memories(project_id);
+  CREATE INDEX IF NOT EXISTS idx_memories_task_id ON memories(task_id);
+  CREATE INDEX IF NOT EXISTS idx_memories_timestamp ON memories(timestamp);
+`;
+
+/**
+ * Loads the optional better-sqlite3 dependency only when SQLite storage is used
+ */
+function loadSqliteDriver(): typeof BetterSqlite3 {
+  try {
+    const require = createRequire(import.meta.url);
+    return require('better-sqlite3');
+  } catch (error) {
+    throw new Error(
+      `SQLite storage requires the optional 'better-sqlite3' package (npm install better-sqlite3): ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Stores projects, tasks and memories in a local SQLite file, one row per entity.
+ *
+ * Each exclusive store operation runs inside a SQL transaction. On commit
+ * only the rows that were added, changed or removed since the last commit
+ * are written. The store shares unchanged entities between database versions,
+ * so with the previous version at hand only entities that are new objects are
+ * serialized; without it every row is compared against the contents this
+ * adapter last persisted.
+ */
+export class SqliteStorageAdapter implements StorageAdapter {
+  readonly kind = 'sqlite';
+  readonly persistent = true;
+
+  private readonly db: BetterSqlite3.Database;
+
+  // Serialized rows as last committed to SQLite, keyed by table and id
+  private persistedRows: Record<EntityTable | 'meta', Map<string, string>> = {
+    projects: new Map(),
+    tasks: new Map(),
+    memories: new Map(),
+    meta: new Map()
+  };
+
+  // Row changes written in the open transaction, applied to persistedRows on commit
+  private pendingRows: Array<{ table: EntityTable | 'meta'; id: string; value: string | null }> = [];
+
+  constructor(private readonly filePath: string) {
+    if (!filePath?.trim()) {
+      throw new Error('SQLite storage requires a file path');
+    }
+
+    const Database = loadSqliteDriver();
+    if (filePath !== ':memory:') {
+      mkdirSync(dirname(filePath), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = NORMAL');
+    this.db.exec(SCHEMA_SQL);
+  }
+
+  /**
+   * Returns the path of the backing SQLite file
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  load(): unknown | null {
+    const metaRows = this.db.prepare('SELECT key, value FROM meta').all() as Array<{ key: string; value: string }>;
+    const entities = {
+      projects: this.loadTable('projects'),
+      tasks: this.loadTable('tasks'),
+      memories: this.loadTable('memories')
+    };
+
+    if (metaRows.length === 0 && entities.projects.length === 0 && entities.tasks.length === 0 && entities.memories.length === 0) {
+      return null;
+    }
+
+    const meta: Record<string, unknown> = {};
+    let templates: unknown = {};
+    for (const row of metaRows) {
+      this.persistedRows.meta.set(row.key, row.value);
+      if (row.key === 'templates') {
+        templates = JSON.parse(row.value);
+      } else {
+        meta[row.key] = JSON.parse(row.value);
+      }
+    }
+
+    return { meta, ...entities, templates };
+  }
+
+  /**
+   * Reads every row of an entity table in insertion order
+   */
+  private loadTable(table: EntityTable): unknown[] {
+    const rows = this.db.prepare(`SELECT id, data FROM ${table} ORDER BY rowid`).all() as Array<{ id: string; data: string }>;
+    return rows.map(row => {
+      this.persistedRows[table].set(row.id, row.data);
+      return JSON.parse(row.data);
+    });
+  }
+
+  beginTransaction(): void {
+    if (!this.db.inTransaction) {
+      this.db.exec('BEGIN IMMEDIATE');
+    }
+    this.pendingRows = [];
+  }
+
+  commitTransaction(): void {
+    if (this.db.inTransaction) {
+      this.db.exec('COMMIT');
+    }
+    for (const { table, id, value } of this.pendingRows) {
+      if (value === null) {
+        this.persistedRows[table].delete(id);
+      } else {
+        this.persistedRows[table].set(id, value);
+      }
+    }
+    this.pendingRows = [];
+  }
+
+  rollbackTransaction(): void {
+    if (this.db.inTransaction) {
+      this.db.exec('ROLLBACK');
+    }
+    this.pendingRows = [];
+  }
+
+  save(database: ProjectDatabase, context: CommitContext): void {
+    const ownsTransaction = !this.db.inTransaction;
+    if (ownsTransaction) {
+      this.beginTransaction();
+    }
+
+    try {
+      const parts = context.changedParts && context.changedParts.size > 0
+        ? context.changedParts
+        : new Set<DatabasePart>(['projects', 'tasks', 'memories', 'meta']);
+
+      for (const table of ['projects', 'tasks', 'memories'] as const) {
+        if (parts.has(table)) {
+          this.saveEntityTable(
+            table,
+            database[table] as Array<Record<string, any>>,
+            context.previous?.[table] as Array<Record<string, any>> | undefined
+          );
+        }
+      }
+
+      // meta.last_updated changes on every commit, so meta is always written
+      this.saveMeta(database);
+
+      if (ownsTransaction) {
+        this.commitTransaction();
+      }
+    } catch (error) {
+      if (ownsTransaction) {
+        this.rollbackTransaction();
+      }
+      throw new Error(`Failed to write SQLite database ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Upserts changed rows and deletes removed rows of an entity table
+   */
+  private saveEntityTable(table: EntityTable, entities: Array<Record<string, any>>, previous?: Array<Record<string, any>>): void {
+    const columns = ENTITY_COLUMNS[table];
+    const upsert = this.db.prepare(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(c => `@${c}`).join(', ')}) ` +
+      `ON CONFLICT(id) DO UPDATE SET ${columns.filter(c => c !== 'id').map(c => `${c} = excluded.${c}`).join(', ')}`
+    );
+    const remove = this.db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+
+    const persisted = this.persistedRows[table];
+    const { changed, removedIds } = previous
+      ? this.changedEntities(entities, previous)
+      : this.changedEntities(entities, [...persisted.keys()].map(id => ({ id })));
+
+    for (const entity of changed) {
+      const data = JSON.stringify(entity);
+      if (persisted.get(entity.id) === data) {
+        continue;
+      }
+      upsert.run(this.toRow(table, entity, data));
+      this.pendingRows.push({ table, id: entity.id, value: data });
+    }
+
+    for (const id of removedIds) {
+      if (persisted.has(id)) {
+        remove.run(id);
+        this.pendingRows.push({ table, id, value: null });
+      }
+    }
+  }
+
+  /**
+   * Entities that are not shared with the previous version, and the IDs that are gone.
+   * Entities updated in place or appended are found by position; removals and
+   * reordering fall back to matching by ID.
+   */
+  private changedEntities(
+    entities: Array<Record<string, any>>,
+    previous: Array<Record<string, any>>
+  ): { changed: Array<Record<string, any>>; removedIds: string[] } {
+    if (entities === previous) {
+      return { changed: [], removedIds: [] };
+    }
+
+    const changed: Array<Record<string, any>> = [];
+    let aligned = entities.length >= previous.length;
+    for (let index = 0; aligned && index < previous.length; index++) {
+      if (entities[index] === previous[index]) continue;
+      if (entities[index].id !== previous[index].id) {
+        aligned = false;
+      } else {
+        changed.push(entities[index]);
+      }
+    }
+    if (aligned) {
+      return { changed: [...changed, ...entities.slice(previous.length)], removedIds: [] };
+    }
+
+    const previousById = new Map(previous.map(entity => [entity.id, entity]));
+    const currentIds = new Set(entities.map(entity => entity.id));
+    return {
+      changed: entities.filter(entity => previousById.get(entity.id) !== entity),
+      removedIds: previous.filter(entity => !currentIds.has(entity.id)).map(entity => entity.id)
+    };
+  }
+
+  /**
+   * Writes meta fields and templates as key/value rows
+   */
+  private saveMeta(database: ProjectDatabase): void {
+    const upsert = this.db.prepare('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value');
+    const remove = this.db.prepare('DELETE FROM meta WHERE key = ?');
+
+    const entries: Array<[string, unknown]> = Object.entries(database.meta)
+      .filter(([, value]) => value !== undefined);
+    entries.push(['templates', database.templates ?? {}]);
+
+    const persisted = this.persistedRows.meta;
+    const seen = new Set<string>();
+
+    for (const [key, value] of entries) {
+      const serialized = JSON.stringify(value);
+      seen.add(key);
+      if (persisted.get(key) === serialized) {
+        continue;
+      }
+      upsert.run(key, serialized);
+      this.pendingRows.push({ table: 'meta', id: key, value: serialized });
+    }
+
+    for (const key of persisted.keys()) {
+      if (!seen.has(key)) {
+        remove.run(key);
+        this.pendingRows.push({ table: 'meta', id: key, value: null });
+      }
+    }
+  }
+
+  /**
+   * Maps an entity onto the column values of its table
+   */
+  private toRow(table: EntityTable, entity: Record<string, any>, data: string): Record<string, unknown> {
+    const row: Record<string, unknown> = {};
+    for (const column of ENTITY_COLUMNS[table]) {
+      if (column === 'data') {
+        row.data = data;
+      } else if (column === 'completed') {
+        row.completed = entity.completed ? 1 : 0;
+      } else {
+        row[column] = entity[column] ?? null;
+      }
+    }
+    return row;
+  }
+
+  close(): void {
+    if (this.db.open) {
+      if (this.db.inTransaction) {
+        this.db.exec('ROLLBACK');
+      }
+      this.db.close();
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import type { ProjectDatabase } from '../types/index.js';
+
+/**
+ * Top-level database sections that an operation can report as changed
+ */
+export type DatabasePart = 'projects' | 'tasks' | 'memories' | 'meta' | 'templates';
+
+/**
+ * Context passed to a storage adapter when a transaction commits
+ */
+export interface CommitContext {
+  operationType: string;
+  changedParts?: Set<DatabasePart>;
+  /** Database as it was before this commit */
+  previous?: ProjectDatabase;
+}
+
+/**
+ * Persistence backend used by InMemoryStore.
+ *
+ * The store keeps the working copy of the database in memory and delegates
+ * loading at construction and persisting on every commit to its adapter.
+ * Methods are synchronous so that a commit stays inside the store's
+ * operation lock and either fully succeeds or leaves the database untouched.
+ */
+export interface StorageAdapter {
+  /** Short identifier of the backend, e.g. 'memory' or 'json' */
+  readonly kind: string;
+
+  /** Whether data written through this adapter survives a process restart */
+  readonly persistent: boolean;
+
+  /**
+   * Loads the previously persisted database.
+   * Returns null when nothing has been stored yet.
+   */
+  load(): unknown | null;
+
+  /**
+   * Persists the committed database. Throwing aborts the commit.
+   */
+  save(database: ProjectDatabase, context: CommitContext): void;
+
+  /**
+   * Called when an exclusive store operation starts. Backends with native
+   * transactions open one here so the operation maps onto it.
+   */
+  beginTransaction?(): void;
+
+  /**
+   * Called after the operation has been saved successfully
+   */
+  commitTransaction?(): void;
+
+  /**
+   * Called when the operation throws or finishes without committing
+   */
+  rollbackTransaction?(): void;
+
+  /**
+   * Releases any resources held by the adapter
+   */
+  close?(): void;
+}
+
+/**
+ * Opens the storage of each named workspace
+ */
+export interface WorkspaceStorageProvider {
+  /** Opens the storage of a workspace; nothing is written until its first commit */
+  open(workspace: string): StorageAdapter;
+
+  /** Names of workspaces that already have stored data */
+  list(): string[];
+}
@@ -0,0 +1,41 @@
+import type { StorageOptions } from '../config/storage.js';
+import { listStoredWorkspaces, workspaceStorageOptions } from '../config/workspace.js';
+import type { StorageAdapter, WorkspaceStorageProvider } from './StorageAdapter.js';
+import { MemoryStorageAdapter } from './MemoryStorageAdapter.js';
+import { JsonFileStorageAdapter } from './JsonFileStorageAdapter.js';
+import { SqliteStorageAdapter } from './SqliteStorageAdapter.js';
+import { JournalStorageAdapter } from './JournalStorageAdapter.js';
+
+export type { StorageAdapter, CommitContext, DatabasePart, WorkspaceStorageProvider } from './StorageAdapter.js';
+export { MemoryStorageAdapter } from './MemoryStorageAdapter.js';
+export { JsonFileStorageAdapter } from './JsonFileStorageAdapter.js';
+export { SqliteStorageAdapter } from './SqliteStorageAdapter.js';
+export { JournalStorageAdapter } from './JournalStorageAdapter.js';
+export type { JournalEntry, JournalStorageOptions } from './JournalStorageAdapter.js';
+
+/**
+ * Creates the storage adapter described by the resolved storage options
+ */
+export function createStorageAdapter(options: StorageOptions): StorageAdapter {
+  switch (options.kind) {
+    case 'json':
+      return new JsonFileStorageAdapter(options.dataFile!);
+    case 'sqlite':
+      return new SqliteStorageAdapter(options.dataFile!);
+    case 'journal':
+      return new JournalStorageAdapter(options.dataFile!, { compactThresholdBytes: options.journalMaxBytes });
+    case 'memory':
+    default:
+      return new MemoryStorageAdapter();
+  }
+}
+
+/**
+ * Creates a provider that opens per-workspace storage of the configured backend
+ */
+export function createWorkspaceStorageProvider(options: StorageOptions): WorkspaceStorageProvider {
+  return {
+    open: (workspace: string) => createStorageAdapter(workspaceStorageOptions(options, workspace)),
+    list: () => listStoredWorkspaces(options)
+  };
+}
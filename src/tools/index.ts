@@ -1,5 +1,5 @@
 /**
- * MCP Tools Registry - 13 secure tools for AI-powered project management
+ * MCP Tools Registry - 46 secure tools for AI-powered project management
  * 
  * Security-hardened descriptions following MCP best practices:
  * - Factual, descriptive language only
@@ -16,10 +16,14 @@ const CORE_TOOLS = [
     inputSchema: {
       type: "object",
       properties: {
-        limit: { type: "number", default: 20, description: "Maximum number of items to return per category" },
+        limit: { type: "number", minimum: 1, maximum: 200, description: "Maximum number of items to return per category (defaults to the configured recall limit)" },
         project_id: { type: "string", description: "Specific project ID to focus on (optional, defaults to current project)" },
         include_completed: { type: "boolean", default: false, description: "Include completed tasks in the summary" },
-        focus: { type: "string", enum: ["tasks", "projects", "memories", "all"], default: "all", description: "Focus the recall on specific data types" }
+        focus: { type: "string", enum: ["tasks", "projects", "memories", "all"], default: "all", description: "Focus the recall on specific data types" },
+        memory_category: { type: "string", description: "Only include memories in this category (case-insensitive)" },
+        memory_tags: { type: "array", items: { type: "string" }, description: "Only include memories carrying all of these tags (case-insensitive)" },
+        format: { type: "string", enum: ["text", "json"], description: "Output format (defaults to the configured output format)" },
+        include_archived: { type: "boolean", default: false, description: "Include archived projects and their tasks and memories" }
       }
     },
     annotations: {
@@ -31,16 +35,28 @@ const CORE_TOOLS = [
   },
   {
     name: "list_tasks",
-    description: "Returns filtered list of tasks with pagination support. Supports filtering by status, priority, project, and completion state.",
+    description: "Returns filtered list of tasks with pagination support. Supports filtering by status, priority, project, tags, and completion state.",
     inputSchema: {
       type: "object",
       properties: {
-        status: { type: "string", enum: ["active", "completed"], description: "Filter by completion status" },
+        status: {
+          oneOf: [
+            { type: "string", enum: ["active", "completed", "todo", "in_progress", "in_review", "blocked", "done", "cancelled"] },
+            { type: "array", items: { type: "string", enum: ["active", "completed", "todo", "in_progress", "in_review", "blocked", "done", "cancelled"] } }
+          ],
+          description: "Filter by workflow status, or several statuses; 'active' matches every open status and 'completed' is the same as 'done'"
+        },
         priority: { type: "string", enum: ["critical", "high", "medium", "low"], description: "Filter by priority level" },
         project_id: { type: "string", description: "Filter by specific project ID" },
         completed: { type: "boolean", description: "Boolean filter for completion status (alternative to status)" },
+        tags: { type: "array", items: { type: "string" }, description: "Filter by tags (case-insensitive)" },
+        tag_match: { type: "string", enum: ["any", "all"], default: "any", description: "Match tasks carrying any or all of the given tags" },
+        due_after: { type: "string", description: "Only tasks due on or after this date (ISO date or phrase like 'today')" },
+        due_before: { type: "string", description: "Only tasks due on or before this date (ISO date or phrase like 'next friday')" },
+        sort_by: { type: "string", enum: ["priority", "due_date", "created_date"], default: "priority", description: "Sort order; due_date puts tasks without a due date last" },
         limit: { type: "number", default: 50, minimum: 1, maximum: 200, description: "Maximum number of tasks to return" },
-        offset: { type: "number", default: 0, minimum: 0, description: "Number of tasks to skip for pagination" }
+        offset: { type: "number", default: 0, minimum: 0, description: "Number of tasks to skip for pagination" },
+        include_archived: { type: "boolean", default: false, description: "Include archived projects and their tasks (implied when project_id names an archived project)" }
       }
     },
     annotations: {
@@ -58,7 +74,8 @@ const CORE_TOOLS = [
       properties: {
         status: { type: "string", enum: ["planning", "in_progress", "blocked", "completed", "archived"], description: "Filter projects by status" },
         limit: { type: "number", default: 50, minimum: 1, maximum: 200, description: "Maximum number of projects to return" },
-        offset: { type: "number", default: 0, minimum: 0, description: "Number of projects to skip for pagination" }
+        offset: { type: "number", default: 0, minimum: 0, description: "Number of projects to skip for pagination" },
+        include_archived: { type: "boolean", default: false, description: "Include archived projects (implied when filtering by status 'archived')" }
       }
     },
     annotations: {
@@ -70,7 +87,7 @@ const CORE_TOOLS = [
   },
   {
     name: "get_task",
-    description: "Returns detailed information for a single task including subtasks, notes, blockers, and related memories.",
+    description: "Returns detailed information for a single task including subtasks, dependencies, notes, blockers, and related memories.",
     inputSchema: {
       type: "object",
       properties: {
@@ -85,6 +102,58 @@ const CORE_TOOLS = [
       idempotentHint: true
     }
   },
+  {
+    name: "next_actionable_tasks",
+    description: "Returns incomplete tasks whose dependencies are all completed, ranked by priority and by how many waiting tasks each would unblock.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: { type: "string", description: "Project to look in (defaults to the current project, or all projects when none is set)" },
+        limit: { type: "number", default: 10, minimum: 1, maximum: 100, description: "Maximum number of tasks to return" },
+        include_archived: { type: "boolean", default: false, description: "Include tasks of archived projects (implied when project_id names an archived project)" }
+      }
+    },
+    annotations: {
+      title: "Next Actionable Tasks",
+      readOnlyHint: true,
+      openWorldHint: false,
+      idempotentHint: true
+    }
+  },
+  {
+    name: "task_order",
+    description: "Shows a project's tasks in dependency (topological) order, grouped into levels, with each task marked done, ready or waiting.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: { type: "string", description: "Project ID (optional, uses current project if not specified)" },
+        include_completed: { type: "boolean", default: true, description: "Include completed tasks in the order" }
+      }
+    },
+    annotations: {
+      title: "Task Dependency Order",
+      readOnlyHint: true,
+      openWorldHint: false,
+      idempotentHint: true
+    }
+  },
+  {
+    name: "project_schedule",
+    description: "Computes a project's critical path schedule from task dependencies: earliest and latest start, slack, and the tasks that delay the project if they slip. Returns a text report followed by the same schedule as JSON.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: { type: "string", description: "Project ID (optional, uses current project if not specified)" },
+        default_duration: { type: "number", default: 1, exclusiveMinimum: 0, description: "Hours assumed for each task without an estimate in hours" }
+      }
+    },
+    annotations: {
+      title: "Project Critical Path Schedule",
+      readOnlyHint: true,
+      openWorldHint: false,
+      idempotentHint: true
+    }
+  },
 
   // WRITE TOOLS  
   {
@@ -130,6 +199,63 @@ const CORE_TOOLS = [
       idempotentHint: false
     }
   },
+  {
+    name: "archive_project",
+    description: "Archives a project. Archived projects and their tasks and memories are left out of listings, statistics and recall unless requested. Clears the current project if it is the archived one.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: { type: "string", description: "Project ID to archive (required)" },
+        dry_run: { type: "boolean", default: false, description: "Preview archiving without changing the project" }
+      },
+      required: ["project_id"]
+    },
+    annotations: {
+      title: "Project Archiving",
+      readOnlyHint: false,
+      destructiveHint: false,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
+  {
+    name: "unarchive_project",
+    description: "Restores an archived project to the status it had before archiving.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: { type: "string", description: "Archived project ID to restore (required)" },
+        dry_run: { type: "boolean", default: false, description: "Preview the restore without changing the project" }
+      },
+      required: ["project_id"]
+    },
+    annotations: {
+      title: "Project Unarchiving",
+      readOnlyHint: false,
+      destructiveHint: false,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
+  {
+    name: "delete_project",
+    description: "Deletes a project together with all of its tasks and the memories linked to the project or its tasks. Clears the current project if it is the deleted one.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: { type: "string", description: "Project ID to delete (required)" },
+        dry_run: { type: "boolean", default: false, description: "List every task and memory that would be deleted without deleting" }
+      },
+      required: ["project_id"]
+    },
+    annotations: {
+      title: "Project Deletion",
+      readOnlyHint: false,
+      destructiveHint: true,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
   {
     name: "set_current_project",
     description: "Changes the active project context. Subsequent task creation operations will default to this project.",
@@ -157,7 +283,18 @@ const CORE_TOOLS = [
       properties: {
         title: { type: "string", minLength: 1, maxLength: 200, description: "Task title/summary (required)" },
         description: { type: "string", maxLength: 2000, description: "Detailed task description" },
-        priority: { type: "string", enum: ["critical", "high", "medium", "low"], default: "medium", description: "Task priority level" },
+        priority: { type: "string", enum: ["critical", "high", "medium", "low"], description: "Task priority level (defaults to the configured default priority)" },
+        due_date: { type: "string", description: "Due date as YYYY-MM-DD or a phrase like 'tomorrow', 'next friday' or 'in 3 days'" },
+        recurrence: { type: "string", description: "Repeat rule: daily, weekly, monthly, yearly, 'every N weeks' or an RRULE such as 'FREQ=WEEKLY;BYDAY=MO,TH;COUNT=10'. Completing the task creates the next occurrence" },
+        estimate: {
+          oneOf: [
+            { type: "number", minimum: 0, description: "Estimate in the configured default unit" },
+            { type: "string", description: "Hours such as '3h' or '1h30m', or points such as '5 points'" }
+          ],
+          description: "Expected effort in hours or story points; parent tasks add up their subtasks' estimates"
+        },
+        tags: { type: "array", items: { type: "string" }, description: "Tags naming the area of work, e.g. frontend or migration" },
+        depends_on: { type: "array", items: { type: "string" }, description: "IDs of tasks in the same project that must be completed first" },
         project_id: { type: "string", description: "Project ID (optional, uses current project if not specified)" },
         parent_id: { type: "string", description: "Parent task ID for creating subtasks" },
         line_range: {
@@ -185,7 +322,7 @@ const CORE_TOOLS = [
   },
   {
     name: "update_task",
-    description: "Updates task properties including completion status, progress percentage, notes, and blockers. Progress notes are automatically timestamped.",
+    description: "Updates task properties including workflow status, progress percentage, notes, blockers, and tags. Progress notes are automatically timestamped.",
     inputSchema: {
       type: "object",
       properties: {
@@ -193,7 +330,18 @@ const CORE_TOOLS = [
         title: { type: "string", minLength: 1, maxLength: 200, description: "New task title" },
         description: { type: "string", maxLength: 2000, description: "New task description" },
         priority: { type: "string", enum: ["critical", "high", "medium", "low"], description: "New priority level" },
-        completed: { type: "boolean", description: "Mark task as completed (true) or active (false)" },
+        due_date: { type: ["string", "null"], description: "New due date (YYYY-MM-DD or a phrase like 'in 2 weeks'), or null to clear it" },
+        recurrence: { type: ["string", "null"], description: "New repeat rule (same formats as create_task), or null to stop repeating" },
+        estimate: {
+          oneOf: [
+            { type: "number", minimum: 0, description: "Estimate in the configured default unit" },
+            { type: "string", description: "Hours such as '3h' or '1h30m', or points such as '5 points'" },
+            { type: "null", description: "Clear the estimate" }
+          ],
+          description: "New estimate; tasks whose subtasks have estimates take theirs from the subtasks"
+        },
+        status: { type: "string", enum: ["todo", "in_progress", "in_review", "blocked", "done", "cancelled"], description: "Move the task to a workflow status (only transitions allowed by the workflow config)" },
+        completed: { type: "boolean", description: "Mark task as done (true) or reopen it (false); cannot be combined with status" },
         progress: { type: "number", minimum: 0, maximum: 100, description: "Progress percentage (0-100)" },
         notes: { 
           oneOf: [
@@ -203,6 +351,10 @@ const CORE_TOOLS = [
           description: "Progress notes (automatically timestamped)"
         },
         blockers: { type: "array", items: { type: "string" }, description: "List of blockers preventing task completion" },
+        add_tags: { type: "array", items: { type: "string" }, description: "Tags to add (tags already present are ignored)" },
+        remove_tags: { type: "array", items: { type: "string" }, description: "Tags to remove (case-insensitive)" },
+        add_dependencies: { type: "array", items: { type: "string" }, description: "IDs of tasks that must be completed first (rejected if they would create a cycle)" },
+        remove_dependencies: { type: "array", items: { type: "string" }, description: "IDs of tasks to no longer wait for" },
         dry_run: { type: "boolean", default: false, description: "Preview changes without updating" }
       },
       required: ["task_id"]
@@ -215,17 +367,303 @@ const CORE_TOOLS = [
       idempotentHint: false
     }
   },
+  {
+    name: "delete_task",
+    description: "Deletes a task and removes it from its project and parent task. Subtasks are refused, deleted with it or moved to the parent task; linked memories are detached or deleted. Project completion is recalculated.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: { type: "string", description: "Task ID to delete (required)" },
+        subtask_mode: { type: "string", enum: ["refuse", "cascade", "reparent"], default: "refuse", description: "Handling of subtasks: refuse to delete, delete them too, or move them to the deleted task's parent" },
+        memory_mode: { type: "string", enum: ["detach", "delete"], default: "detach", description: "Handling of memories linked to deleted tasks: keep them without the task link, or delete them" },
+        dry_run: { type: "boolean", default: false, description: "List every affected task, memory and project without deleting" }
+      },
+      required: ["task_id"]
+    },
+    annotations: {
+      title: "Task Deletion",
+      readOnlyHint: false,
+      destructiveHint: true,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
+  {
+    name: "batch",
+    description: "Runs an ordered list of task create, update and complete operations as one transaction: either every operation applies or none does. '$N' in task_id, parent_id or dependency lists refers to the task created by operation N.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        operations: {
+          type: "array",
+          minItems: 1,
+          maxItems: 100,
+          items: {
+            type: "object",
+            properties: {
+              op: { type: "string", enum: ["create", "update", "complete"], description: "create takes create_task fields, update takes update_task fields, complete marks task_id done" },
+              task_id: { type: "string", description: "Task to update or complete; may be '$N'" },
+              title: { type: "string", minLength: 1, maxLength: 200, description: "Task title (required for create)" },
+              parent_id: { type: "string", description: "Parent task ID or '$N'" },
+              depends_on: { type: "array", items: { type: "string" }, description: "Task IDs or '$N' references" }
+            },
+            required: ["op"],
+            additionalProperties: true
+          },
+          description: "Operations in the order to run them, each with the same fields as create_task or update_task"
+        },
+        dry_run: { type: "boolean", default: false, description: "Run every operation and report the outcome without saving" }
+      },
+      required: ["operations"]
+    },
+    annotations: {
+      title: "Batch Task Operations",
+      readOnlyHint: false,
+      destructiveHint: false,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
+  {
+    name: "task_series",
+    description: "Lists recurring task series with their repeat rule, occurrences and next open instance, or stops a series so completing its open instance no longer creates the next one.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        action: { type: "string", enum: ["list", "stop"], default: "list", description: "List series or stop one" },
+        series_id: { type: "string", description: "Series to show or stop" },
+        task_id: { type: "string", description: "Any task of the series, instead of series_id" },
+        project_id: { type: "string", description: "Only series in this project" },
+        include_archived: { type: "boolean", default: false, description: "Include series in archived projects" },
+        dry_run: { type: "boolean", default: false, description: "Preview stopping without saving" }
+      }
+    },
+    annotations: {
+      title: "Recurring Task Series",
+      readOnlyHint: false,
+      destructiveHint: false,
+      openWorldHint: false,
+      idempotentHint: true
+    }
+  },
+
+  // TIME TOOLS
+  {
+    name: "start_timer",
+    description: "Starts a timer on an open task. Only one timer runs per session; stop_timer records the time entry.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: { type: "string", description: "Task to time (required)" },
+        note: { type: "string", maxLength: 500, description: "What the time is spent on" },
+        dry_run: { type: "boolean", default: false, description: "Preview without starting the timer" }
+      },
+      required: ["task_id"]
+    },
+    annotations: {
+      title: "Start Task Timer",
+      readOnlyHint: false,
+      destructiveHint: false,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
+  {
+    name: "stop_timer",
+    description: "Stops the running timer and records its time entry on the task. Returns the entry duration and the task's total time.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: { type: "string", description: "Task whose timer to stop; only needed for a timer left running by an earlier session" },
+        note: { type: "string", maxLength: 500, description: "Note for the entry (replaces the note given at start)" },
+        dry_run: { type: "boolean", default: false, description: "Preview without stopping the timer" }
+      }
+    },
+    annotations: {
+      title: "Stop Task Timer",
+      readOnlyHint: false,
+      destructiveHint: false,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
+  {
+    name: "log_time",
+    description: "Records time spent on a task without a timer. Takes two of start, end and duration; a duration alone ends now.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: { type: "string", description: "Task the time was spent on (required)" },
+        duration: {
+          oneOf: [
+            { type: "number", description: "Minutes" },
+            { type: "string", description: "Duration such as '45m', '1h30m' or '1.5 hours'" }
+          ],
+          description: "Length of the entry"
+        },
+        start: { type: "string", description: "ISO datetime the work started" },
+        end: { type: "string", description: "ISO datetime the work ended (not in the future)" },
+        note: { type: "string", maxLength: 500, description: "What the time was spent on" },
+        dry_run: { type: "boolean", default: false, description: "Preview without saving" }
+      },
+      required: ["task_id"]
+    },
+    annotations: {
+      title: "Log Task Time",
+      readOnlyHint: false,
+      destructiveHint: false,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
+  {
+    name: "estimation_report",
+    description: "Compares estimates with the time completed tasks took, per project, grouped by tag and priority to show which kinds of tasks run over. Returns a text report followed by the same data as JSON.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: { type: "string", description: "Project ID (optional, uses current project if not specified)" },
+        unit: { type: "string", enum: ["hours", "points"], description: "Which estimates to compare (defaults to the configured estimate unit)" },
+        actual: { type: "string", enum: ["auto", "logged", "elapsed"], default: "auto", description: "Actual time: logged time entries, elapsed time from creation to completion, or logged time where there is any (auto)" }
+      }
+    },
+    annotations: {
+      title: "Estimate Accuracy Report",
+      readOnlyHint: true,
+      openWorldHint: false,
+      idempotentHint: true
+    }
+  },
+
+  // TEMPLATE TOOLS
+  {
+    name: "save_template",
+    description: "Saves a project's task hierarchy, or one task and its subtasks, as a named template with titles, descriptions, priorities, tags, estimates and dependencies. Text in titles and descriptions can be turned into {{placeholders}}.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", minLength: 1, maxLength: 100, description: "Template name, e.g. 'bugfix' (required, case-insensitive)" },
+        description: { type: "string", maxLength: 2000, description: "What the template is for" },
+        project_id: { type: "string", description: "Project to save (optional, uses current project if not specified)" },
+        task_id: { type: "string", description: "Save only this task and its subtasks" },
+        replace: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description: "Text to turn into placeholders, e.g. {\"2.1\": \"version\"} saves 'Release 2.1' as 'Release {{version}}'"
+        },
+        overwrite: { type: "boolean", default: false, description: "Replace a template with the same name" },
+        dry_run: { type: "boolean", default: false, description: "Preview the template without saving" }
+      },
+      required: ["name"]
+    },
+    annotations: {
+      title: "Save Project Template",
+      readOnlyHint: false,
+      destructiveHint: false,
+      openWorldHint: false,
+      idempotentHint: true
+    }
+  },
+  {
+    name: "list_templates",
+    description: "Lists saved templates with task counts and placeholders, or shows one template's tasks when a name is given.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Template to show in full" }
+      }
+    },
+    annotations: {
+      title: "List Templates",
+      readOnlyHint: true,
+      openWorldHint: false,
+      idempotentHint: true
+    }
+  },
+  {
+    name: "delete_template",
+    description: "Deletes a saved template. Projects and tasks created from it are not affected.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Template to delete (required)" },
+        dry_run: { type: "boolean", default: false, description: "Preview without deleting" }
+      },
+      required: ["name"]
+    },
+    annotations: {
+      title: "Delete Template",
+      readOnlyHint: false,
+      destructiveHint: true,
+      openWorldHint: false,
+      idempotentHint: true
+    }
+  },
+  {
+    name: "create_project_from_template",
+    description: "Creates a project with the tasks of a template, keeping parent/child links, dependencies, priorities, tags and estimates, and sets it as the current project.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        template: { type: "string", description: "Template name (required)" },
+        name: { type: "string", minLength: 1, maxLength: 200, description: "Project name (required)" },
+        description: { type: "string", maxLength: 2000, description: "Project description" },
+        values: {
+          type: "object",
+          additionalProperties: { type: ["string", "number"] },
+          description: "Value for every placeholder of the template, e.g. {\"version\": \"2.2\"}"
+        },
+        dry_run: { type: "boolean", default: false, description: "Preview without creating" }
+      },
+      required: ["template", "name"]
+    },
+    annotations: {
+      title: "Create Project from Template",
+      readOnlyHint: false,
+      destructiveHint: false,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
+  {
+    name: "apply_template",
+    description: "Adds the tasks of a template to an existing project, keeping parent/child links, dependencies, priorities, tags and estimates. Top-level template tasks can go under a parent task.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        template: { type: "string", description: "Template name (required)" },
+        project_id: { type: "string", description: "Project ID (optional, uses current project if not specified)" },
+        parent_id: { type: "string", description: "Task to put the template's top-level tasks under" },
+        values: {
+          type: "object",
+          additionalProperties: { type: ["string", "number"] },
+          description: "Value for every placeholder of the template"
+        },
+        dry_run: { type: "boolean", default: false, description: "Preview without creating" }
+      },
+      required: ["template"]
+    },
+    annotations: {
+      title: "Apply Template",
+      readOnlyHint: false,
+      destructiveHint: false,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
 
   // MEMORY TOOLS
   {
     name: "remember_this",
-    description: "Stores information, decisions, or context with importance classification and optional linking to projects, tasks, or code locations.",
+    description: "Stores information, decisions, or context with importance, category and tag classification and optional linking to projects, tasks, or code locations.",
     inputSchema: {
       type: "object",
       properties: {
         content: { type: "string", minLength: 1, maxLength: 50000, description: "Information to remember (required)" },
         title: { type: "string", maxLength: 500, description: "Memory title (auto-generated if not provided)" },
-        importance: { type: "string", enum: ["critical", "high", "medium", "low"], default: "medium", description: "Importance level classification" },
+        importance: { type: "string", enum: ["critical", "high", "medium", "low"], description: "Importance level classification (defaults to the configured default importance)" },
+        category: { type: "string", minLength: 1, maxLength: 100, default: "general", description: "Category such as decision, convention or bug" },
+        tags: { type: "array", items: { type: "string", maxLength: 100 }, description: "Tags for filtering; duplicates are ignored case-insensitively" },
         project_id: { type: "string", description: "Link to specific project (uses current project if not specified)" },
         task_id: { type: "string", description: "Link to specific task" },
         line_range: {
@@ -253,14 +691,17 @@ const CORE_TOOLS = [
   },
   {
     name: "recall_context",
-    description: "Searches stored memories by query text with filtering options for project, importance level, and result limits. Searches both title and content fields.",
+    description: "Searches stored memories by query text with filtering options for project, importance level, category, tags, and result limits. Searches both title and content fields.",
     inputSchema: {
       type: "object",
       properties: {
         query: { type: "string", description: "Search query (searches title and content)" },
         project_id: { type: "string", description: "Filter memories by project" },
         importance: { type: "string", enum: ["critical", "high", "medium", "low"], description: "Filter by importance level" },
-        limit: { type: "number", default: 10, minimum: 1, maximum: 100, description: "Maximum number of memories to return" }
+        category: { type: "string", description: "Filter by category (case-insensitive)" },
+        tags: { type: "array", items: { type: "string" }, description: "Filter to memories carrying all of these tags (case-insensitive)" },
+        limit: { type: "number", default: 10, minimum: 1, maximum: 100, description: "Maximum number of memories to return" },
+        include_archived: { type: "boolean", default: false, description: "Include memories of archived projects (implied when project_id names an archived project)" }
       }
     },
     annotations: {
@@ -270,6 +711,98 @@ const CORE_TOOLS = [
       idempotentHint: true
     }
   },
+  {
+    name: "list_memory_tags",
+    description: "Returns the tags and categories used by stored memories, with usage counts per project.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: { type: "string", description: "Only count memories of this project" },
+        include_archived: { type: "boolean", default: false, description: "Include memories of archived projects (implied when project_id names an archived project)" },
+        format: { type: "string", enum: ["text", "json"], description: "Output format (defaults to the configured output format)" }
+      }
+    },
+    annotations: {
+      title: "Memory Tag Overview",
+      readOnlyHint: true,
+      openWorldHint: false,
+      idempotentHint: true
+    }
+  },
+  {
+    name: "get_memory",
+    description: "Returns a single memory with its links and the revision history of earlier titles, contents and classifications.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        memory_id: { type: "string", description: "Memory ID to retrieve (required)" },
+        include_revisions: { type: "boolean", default: true, description: "Include earlier versions of the memory" }
+      },
+      required: ["memory_id"]
+    },
+    annotations: {
+      title: "Memory Detail & History",
+      readOnlyHint: true,
+      openWorldHint: false,
+      idempotentHint: true
+    }
+  },
+  {
+    name: "update_memory",
+    description: "Corrects a stored memory's title, content, importance, category, tags, project or task link, or code location. The previous version is kept as a timestamped revision.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        memory_id: { type: "string", description: "Memory ID to update (required)" },
+        title: { type: "string", minLength: 1, maxLength: 500, description: "New memory title" },
+        content: { type: "string", minLength: 1, maxLength: 50000, description: "New memory content" },
+        importance: { type: "string", enum: ["critical", "high", "medium", "low"], description: "New importance level" },
+        category: { type: "string", minLength: 1, maxLength: 100, description: "New category" },
+        tags: { type: "array", items: { type: "string" }, description: "Replacement list of tags" },
+        project_id: { type: ["string", "null"], description: "Project to link to, or null to remove the project link" },
+        task_id: { type: ["string", "null"], description: "Task to link to, or null to remove the task link" },
+        line_range: {
+          type: ["object", "null"],
+          properties: {
+            start_line: { type: "number", minimum: 1, description: "Starting line number" },
+            end_line: { type: "number", minimum: 1, description: "Ending line number" },
+            file_path: { type: "string", description: "File path" }
+          },
+          required: ["start_line", "end_line"],
+          additionalProperties: false,
+          description: "New code location, or null to remove it"
+        },
+        dry_run: { type: "boolean", default: false, description: "Preview which fields would change without updating" }
+      },
+      required: ["memory_id"]
+    },
+    annotations: {
+      title: "Memory Correction",
+      readOnlyHint: false,
+      destructiveHint: false,
+      openWorldHint: false,
+      idempotentHint: true
+    }
+  },
+  {
+    name: "delete_memory",
+    description: "Deletes a stored memory and removes references to it from related memories.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        memory_id: { type: "string", description: "Memory ID to delete (required)" },
+        dry_run: { type: "boolean", default: false, description: "Preview the deletion without deleting" }
+      },
+      required: ["memory_id"]
+    },
+    annotations: {
+      title: "Memory Deletion",
+      readOnlyHint: false,
+      destructiveHint: true,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
 
   // SESSION MANAGEMENT
   {
@@ -290,6 +823,47 @@ const CORE_TOOLS = [
       idempotentHint: true
     }
   },
+  {
+    name: "import_session",
+    description: "Loads session data produced by export_session in JSON format, from inline data or a file path. Replace mode swaps in the imported data; merge mode adds it alongside existing data, assigning new IDs where IDs collide.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        data: { type: "string", description: "export_session JSON output (the surrounding response text and code fence are accepted)" },
+        file_path: { type: "string", description: "Path to a file containing export_session JSON output (alternative to data)" },
+        mode: { type: "string", enum: ["merge", "replace"], default: "merge", description: "Merge into existing data or replace it" },
+        dry_run: { type: "boolean", default: false, description: "Report what would be added, skipped or conflicted without importing" }
+      }
+    },
+    annotations: {
+      title: "Session Data Import",
+      readOnlyHint: false,
+      destructiveHint: true,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
+  {
+    name: "merge_sessions",
+    description: "Three-way merge of two session exports that diverged from a common base export. Items are matched by ID; notes, blockers and tags are combined, scalar fields changed on both sides take the most recently updated side, and every conflict is listed.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        base: { type: "string", description: "Common ancestor: export_session JSON output or a path to a file containing it" },
+        ours: { type: "string", description: "First descendant: export_session JSON output or a file path (defaults to the current session)" },
+        theirs: { type: "string", description: "Second descendant: export_session JSON output or a file path" },
+        apply: { type: "boolean", default: false, description: "Replace the current session with the merged data instead of returning it as JSON" }
+      },
+      required: ["base", "theirs"]
+    },
+    annotations: {
+      title: "Three-Way Session Merge",
+      readOnlyHint: false,
+      destructiveHint: true,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
   {
     name: "generate_handoff_summary",
     description: "Generates comprehensive session summary with activity overview, progress updates, and current state for session continuity.",
@@ -306,6 +880,171 @@ const CORE_TOOLS = [
       openWorldHint: false,
       idempotentHint: true
     }
+  },
+
+  // SNAPSHOT TOOLS
+  {
+    name: "create_snapshot",
+    description: "Captures the complete current state (projects, tasks, memories) as a named snapshot that can be restored later.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        label: { type: "string", minLength: 1, maxLength: 200, description: "Snapshot label (defaults to the current date and time)" },
+        dry_run: { type: "boolean", default: false, description: "Preview snapshot creation without capturing" }
+      }
+    },
+    annotations: {
+      title: "Snapshot Creation",
+      readOnlyHint: false,
+      destructiveHint: false,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
+  {
+    name: "list_snapshots",
+    description: "Returns the available snapshots, newest first, with labels, timestamps, and item counts.",
+    inputSchema: {
+      type: "object",
+      properties: {}
+    },
+    annotations: {
+      title: "Snapshot Listing",
+      readOnlyHint: true,
+      openWorldHint: false,
+      idempotentHint: true
+    }
+  },
+  {
+    name: "restore_snapshot",
+    description: "Replaces the current state with a previously captured snapshot. The state before the restore is saved as a new snapshot.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        snapshot_id: { type: "string", description: "Snapshot ID to restore (required)" },
+        dry_run: { type: "boolean", default: false, description: "Preview the restore without changing data" }
+      },
+      required: ["snapshot_id"]
+    },
+    annotations: {
+      title: "Snapshot Restore",
+      readOnlyHint: false,
+      destructiveHint: true,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
+
+  // HISTORY TOOLS
+  {
+    name: "undo",
+    description: "Reverts the most recent committed changes (task, project, memory and current project updates) and reports exactly what was reverted.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        steps: { type: "number", default: 1, minimum: 1, maximum: 50, description: "Number of recent changes to revert" },
+        dry_run: { type: "boolean", default: false, description: "Preview what would be reverted" }
+      }
+    },
+    annotations: {
+      title: "Undo Changes",
+      readOnlyHint: false,
+      destructiveHint: true,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
+  {
+    name: "redo",
+    description: "Re-applies changes previously reverted with undo. Redo history is discarded once a new change is made.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        steps: { type: "number", default: 1, minimum: 1, maximum: 50, description: "Number of undone changes to re-apply" },
+        dry_run: { type: "boolean", default: false, description: "Preview what would be re-applied" }
+      }
+    },
+    annotations: {
+      title: "Redo Changes",
+      readOnlyHint: false,
+      destructiveHint: false,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
+
+  // WORKSPACE TOOLS
+  {
+    name: "create_workspace",
+    description: "Creates a named workspace with its own projects, tasks, memories, current project and session activity.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", pattern: "^[a-z0-9][a-z0-9._-]{0,63}$", description: "Workspace name (lowercase letters, digits, '.', '_' and '-')" },
+        switch_to: { type: "boolean", default: true, description: "Make the new workspace active" },
+        dry_run: { type: "boolean", default: false, description: "Preview workspace creation without creating" }
+      },
+      required: ["name"]
+    },
+    annotations: {
+      title: "Workspace Creation",
+      readOnlyHint: false,
+      destructiveHint: false,
+      openWorldHint: false,
+      idempotentHint: false
+    }
+  },
+  {
+    name: "list_workspaces",
+    description: "Lists workspaces with item counts, the active workspace and how it was selected.",
+    inputSchema: {
+      type: "object",
+      properties: {}
+    },
+    annotations: {
+      title: "Workspace Overview",
+      readOnlyHint: true,
+      openWorldHint: false,
+      idempotentHint: true
+    }
+  },
+  {
+    name: "switch_workspace",
+    description: "Switches the active workspace. All other tools operate inside the active workspace.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", pattern: "^[a-z0-9][a-z0-9._-]{0,63}$", description: "Workspace to activate" },
+        create: { type: "boolean", default: false, description: "Create the workspace if it does not exist" },
+        dry_run: { type: "boolean", default: false, description: "Preview the switch without changing workspace" }
+      },
+      required: ["name"]
+    },
+    annotations: {
+      title: "Workspace Switching",
+      readOnlyHint: false,
+      destructiveHint: false,
+      openWorldHint: false,
+      idempotentHint: true
+    }
+  },
+
+  // CONFIGURATION TOOLS
+  {
+    name: "get_config",
+    description: "Returns the effective store limits, cache TTLs and tool defaults, and whether each value comes from an environment variable, the config file or the built-in defaults.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        format: { type: "string", enum: ["text", "json"], description: "Output format (defaults to the configured output format)" }
+      }
+    },
+    annotations: {
+      title: "Configuration Overview",
+      readOnlyHint: true,
+      openWorldHint: false,
+      idempotentHint: true
+    }
   }
 ];
 
@@ -1,8 +1,9 @@
 import type { z } from 'zod';
-import type { projectDatabaseSchema, Task, Project, Memory } from './schemas.js';
+import type { projectDatabaseSchema, ProjectDatabase, Task, Project, Memory, RecurrenceRule, Estimate } from './schemas.js';
 
 // --- Core Database Types (from Zod schemas) ---
-export type { ProjectDatabase, Task, Project, Memory, Milestone, LineRange } from './schemas.js';
+export type { ProjectDatabase, Task, Project, Memory, MemoryRevision, Milestone, LineRange, RecurrenceRule, TaskStatus, TimeEntry, Estimate, TemplateTask, ProjectTemplate } from './schemas.js';
+export { TASK_STATUSES } from './schemas.js';
 
 
 // --- View Model & Non-persistent Interfaces ---
@@ -12,19 +13,104 @@ export interface ProjectSummary {
   total_tasks: number;
   completed_tasks: number;
   in_progress_tasks: number;
+  in_review_tasks: number;
   blocked_tasks: number;
+  /** Left out of completion_percentage */
+  cancelled_tasks: number;
   recent_completions: Task[];
   upcoming_tasks: Task[];
   critical_items: Task[];
   completion_percentage: number;
 }
 
+/**
+ * A task's place in the project schedule. Times are in hours from now.
+ */
+export interface ScheduledTask {
+  task_id: string;
+  title: string;
+  priority: Task['priority'];
+  completed: boolean;
+  /** Remaining work; zero for completed tasks and for tasks with subtasks */
+  duration: number;
+  earliest_start: number;
+  earliest_finish: number;
+  latest_start: number;
+  latest_finish: number;
+  /** How far the task can slip without delaying the project */
+  slack: number;
+  /** Incomplete work item with no slack: if it slips, the project slips */
+  critical: boolean;
+}
+
+export interface ProjectSchedule {
+  summary: ProjectSummary;
+  /** Remaining hours until every task is done, following dependencies */
+  project_duration: number;
+  /** Hours assumed for tasks without an estimate */
+  default_duration: number;
+  /** Tasks in order of earliest start */
+  tasks: ScheduledTask[];
+  /** Task IDs of one longest chain of critical tasks, first to last */
+  critical_path: string[];
+}
+
+/**
+ * How far actual time ran over or under the estimate. For hours the ratio is actual
+ * hours over estimated hours; for points it is hours per point relative to the
+ * project's average, so 1.5 means half as many hours again per point.
+ */
+export interface EstimateAccuracy {
+  estimated: number;
+  actual_hours: number;
+  ratio: number;
+  /** Ratios above 1.1 are underestimated, below 0.9 overestimated */
+  verdict: 'underestimated' | 'overestimated' | 'accurate';
+}
+
+export interface EstimatedTask extends EstimateAccuracy {
+  task_id: string;
+  title: string;
+  priority: Task['priority'];
+  tags: string[];
+  /** Where actual_hours came from */
+  actual_source: 'logged' | 'elapsed';
+}
+
+export interface EstimationGroup extends EstimateAccuracy {
+  /** Tag name or priority */
+  key: string;
+  task_count: number;
+}
+
+export interface EstimationReport {
+  project: Project;
+  unit: Estimate['unit'];
+  /** 'auto' uses logged time where a task has any and elapsed time otherwise */
+  actual: 'auto' | 'logged' | 'elapsed';
+  /** Completed tasks without subtasks compared against their estimates, most underestimated first */
+  tasks: EstimatedTask[];
+  totals: EstimateAccuracy;
+  /** Average actual hours per point; only for point estimates */
+  hours_per_point?: number;
+  by_tag: EstimationGroup[];
+  by_priority: EstimationGroup[];
+  skipped: {
+    /** No estimate, or an estimate of zero */
+    unestimated: number;
+    other_unit: number;
+    /** Logged mode only: done tasks without time entries */
+    no_actual: number;
+  };
+}
+
 export interface HandoffSummary {
   project_name: string;
   completion_percentage: number;
   last_session_date: string;
   completed_in_last_session: string[];
   in_progress: string[];
+  in_review: string[];
   blocked_items: string[];
   next_priorities: string[];
   session_notes: string;
@@ -39,3 +125,119 @@ export interface MemoryTemplate {
   auto_trigger: string[];
 }
 
+
+/**
+ * Summary of a named database snapshot (the captured database itself stays inside the store)
+ */
+export interface DatabaseSnapshotInfo {
+  id: string;
+  label: string;
+  created_at: string;
+  projects: number;
+  tasks: number;
+  memories: number;
+}
+
+/**
+ * One committed mutation in the undo/redo history
+ */
+export interface MutationHistoryEntry {
+  operation_type: string;
+  description: string;
+  timestamp: string;
+}
+
+/**
+ * Outcome of importing a session export into the current database
+ */
+export interface ImportReport {
+  mode: 'replace' | 'merge';
+  added: { projects: number; tasks: number; memories: number };
+  skipped: { projects: number; tasks: number; memories: number };
+  removed: { projects: number; tasks: number; memories: number };
+  conflicts: Array<{
+    type: 'project' | 'task' | 'memory';
+    name: string;
+    original_id: string;
+    new_id: string;
+  }>;
+}
+
+/**
+ * A disagreement found while merging two diverged copies of the same session
+ */
+export interface MergeConflict {
+  entity_type: 'project' | 'task' | 'memory' | 'meta';
+  entity_id: string;
+  name: string;
+  /** Field that differed, or '(entity)' when one side deleted what the other changed or referenced */
+  field: string;
+  kind: 'field' | 'delete_modify' | 'delete_reference';
+  ours: unknown;
+  theirs: unknown;
+  resolution: 'ours' | 'theirs' | 'kept';
+}
+
+/**
+ * Result of a three-way session merge
+ */
+export interface MergeResult {
+  database: ProjectDatabase;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Entities affected by deleting a task, worked out before anything is changed
+ */
+export interface TaskDeletionPlan {
+  task: Task;
+  subtask_mode: 'cascade' | 'reparent' | 'refuse';
+  memory_mode: 'detach' | 'delete';
+  /** The task itself followed by any descendants removed with it */
+  deleted_tasks: Task[];
+  /** Direct subtasks moved up to the deleted task's parent */
+  reparented_tasks: Task[];
+  /** Remaining tasks whose subtasks list changes */
+  updated_parents: Task[];
+  /** Remaining tasks that depend on a deleted task and lose that dependency */
+  updated_dependents: Task[];
+  detached_memories: Memory[];
+  deleted_memories: Memory[];
+  project?: Project;
+}
+
+/**
+ * Everything removed together with a project
+ */
+export interface ProjectDeletionPlan {
+  project: Project;
+  deleted_tasks: Task[];
+  /** Memories linked to the project or to one of its tasks */
+  deleted_memories: Memory[];
+  clears_current_project: boolean;
+}
+
+export interface MemoryTagSummary {
+  /** Undefined for memories linked to no project */
+  project_id?: string;
+  project_name: string;
+  memory_count: number;
+  categories: Record<string, number>;
+  tags: Record<string, number>;
+}
+
+/**
+ * The instances of a recurring task, oldest occurrence first
+ */
+export interface TaskSeries {
+  series_id: string;
+  title: string;
+  project_id: string;
+  /** Rule of the latest instance */
+  recurrence?: RecurrenceRule;
+  /** Active while an open instance still carries a rule; ended once stopped or exhausted */
+  status: 'active' | 'ended';
+  instances: Task[];
+  /** The incomplete instance that spawns the next one when completed */
+  open_task?: Task;
+}
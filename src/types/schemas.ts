@@ -3,6 +3,10 @@ import { z } from 'zod';
 // Schemas for primitive/reused types
 const prioritySchema = z.enum(['critical', 'high', 'medium', 'low']);
 
+// Task workflow states; done and cancelled close a task
+export const TASK_STATUSES = ['todo', 'in_progress', 'in_review', 'blocked', 'done', 'cancelled'] as const;
+export const taskStatusSchema = z.enum(TASK_STATUSES);
+
 // Line range schema for code/content references
 const lineRangeSchema = z.object({
   start_line: z.number().int().positive(),
@@ -16,12 +20,41 @@ const lineRangeSchema = z.object({
   }
 ).optional();
 
+// Recurrence rule for repeating tasks, a subset of iCalendar RRULE
+const recurrenceSchema = z.object({
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+  interval: z.number().int().positive(),
+  by_weekday: z.array(z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'])).optional(),
+  by_month_day: z.number().int().min(1).max(31).optional(),
+  // Total occurrences in the series, counting the first
+  count: z.number().int().positive().optional(),
+  until: z.string().optional(),
+});
+
+// Time spent on a task, from a timer or logged by hand
+export const timeEntrySchema = z.object({
+  id: z.string(),
+  start: z.string(),
+  // Absent while the timer is running
+  end: z.string().optional(),
+  note: z.string().optional(),
+});
+
+export const estimateUnitSchema = z.enum(['hours', 'points']);
+
+export const estimateSchema = z.object({
+  value: z.number().nonnegative(),
+  unit: estimateUnitSchema,
+});
+
 export const taskSchema = z.object({
   id: z.string(),
   project_id: z.string(),
   parent_id: z.string().optional(),
   title: z.string(),
   description: z.string().optional(),
+  status: taskStatusSchema,
+  // True exactly when status is 'done'; kept for clients that only know completion
   completed: z.boolean(),
   completed_date: z.string().optional(),
   created_date: z.string(),
@@ -30,9 +63,18 @@ export const taskSchema = z.object({
   priority: prioritySchema,
   tags: z.array(z.string()).default([]),
   subtasks: z.array(z.string()).optional().default([]),
+  // Tasks in the same project that must be completed before this one can start
+  depends_on: z.array(z.string()).optional().default([]),
   notes: z.array(z.string()).optional().default([]),
   blockers: z.array(z.string()).optional().default([]),
   line_range: lineRangeSchema,
+  // Set on repeating tasks; completing the open instance of a series spawns the next one
+  recurrence: recurrenceSchema.optional(),
+  series_id: z.string().optional(),
+  occurrence: z.number().int().positive().optional(),
+  time_entries: z.array(timeEntrySchema).optional().default([]),
+  // Rolled up from subtasks that have estimates in the same unit
+  estimate: estimateSchema.optional(),
 });
 
 export const milestoneSchema = z.object({
@@ -53,6 +95,22 @@ const projectSchema = z.object({
   completion_percentage: z.number(),
   tasks: z.array(z.string()).default([]),
   milestones: z.array(milestoneSchema).optional().default([]),
+  // Set while archived; the status to return to when unarchived
+  archived_date: z.string().optional(),
+  archived_from_status: z.enum(['planning', 'in_progress', 'blocked', 'completed']).optional(),
+});
+
+// Earlier state of a memory, recorded each time it is edited
+const memoryRevisionSchema = z.object({
+  revised_at: z.string(),
+  title: z.string(),
+  content: z.string(),
+  importance: prioritySchema,
+  category: z.string(),
+  tags: z.array(z.string()).default([]),
+  task_id: z.string().optional(),
+  project_id: z.string().optional(),
+  line_range: lineRangeSchema,
 });
 
 // Schema for Memory
@@ -68,6 +126,31 @@ const memorySchema = z.object({
   task_id: z.string().optional(),
   project_id: z.string().optional(),
   line_range: lineRangeSchema,
+  updated_date: z.string().optional(),
+  revisions: z.array(memoryRevisionSchema).optional(),
+});
+
+// Task in a project template; key, parent_key and depends_on refer to other tasks of the same template
+const templateTaskSchema = z.object({
+  key: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  priority: prioritySchema,
+  tags: z.array(z.string()).default([]),
+  parent_key: z.string().optional(),
+  depends_on: z.array(z.string()).default([]),
+  estimate: estimateSchema.optional(),
+});
+
+// Saved task hierarchy; {{placeholders}} in titles and descriptions are filled in when it is used
+export const projectTemplateSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  created_date: z.string(),
+  source_project_id: z.string().optional(),
+  placeholders: z.array(z.string()).default([]),
+  // Parents and dependencies come before the tasks that refer to them
+  tasks: z.array(templateTaskSchema),
 });
 
 // Main Database Schema
@@ -81,7 +164,8 @@ export const projectDatabaseSchema = z.object({
   projects: z.array(projectSchema).default([]),
   tasks: z.array(taskSchema).default([]),
   memories: z.array(memorySchema).default([]),
-  templates: z.record(z.any()).default({}),
+  // Keyed by lower-cased template name
+  templates: z.record(projectTemplateSchema).default({}),
 });
 
 // Type inference for easy use
@@ -89,5 +173,12 @@ export type ProjectDatabase = z.infer<typeof projectDatabaseSchema>;
 export type Task = z.infer<typeof taskSchema>;
 export type Project = z.infer<typeof projectSchema>;
 export type Memory = z.infer<typeof memorySchema>;
+export type MemoryRevision = z.infer<typeof memoryRevisionSchema>;
 export type Milestone = z.infer<typeof milestoneSchema>;
-export type LineRange = z.infer<typeof lineRangeSchema>;
\ No newline at end of file
+export type LineRange = z.infer<typeof lineRangeSchema>;
+export type RecurrenceRule = z.infer<typeof recurrenceSchema>;
+export type TaskStatus = z.infer<typeof taskStatusSchema>;
+export type TimeEntry = z.infer<typeof timeEntrySchema>;
+export type Estimate = z.infer<typeof estimateSchema>;
+export type TemplateTask = z.infer<typeof templateTaskSchema>;
+export type ProjectTemplate = z.infer<typeof projectTemplateSchema>;
\ No newline at end of file
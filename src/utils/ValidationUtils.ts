@@ -1,5 +1,7 @@
 import type { Project, Task, Memory, ProjectDatabase, LineRange } from '../types/index.js';
+import { TASK_STATUSES } from '../types/index.js';
 import { ValidationError, InvalidPriorityError, InvalidProgressError } from './errors.js';
+import { DEFAULT_CONFIG, type LimitsConfig } from '../config/settings.js';
 
 /**
  * Comprehensive validation utilities for data integrity and schema enforcement
@@ -78,6 +80,10 @@ export class ValidationUtils {
       errors.push('Task completed must be a boolean');
     }
 
+    if (task.status !== undefined && !TASK_STATUSES.includes(task.status)) {
+      errors.push(`Task status must be one of: ${TASK_STATUSES.join(', ')}`);
+    }
+
     if (task.notes && !Array.isArray(task.notes)) {
       errors.push('Task notes must be an array');
     } else if (task.notes) {
@@ -121,6 +127,14 @@ export class ValidationUtils {
       errors.push('Memory importance must be one of: low, medium, high, critical');
     }
 
+    if (memory.category !== undefined && (typeof memory.category !== 'string' || memory.category.length === 0 || memory.category.length > 100)) {
+      errors.push('Memory category must be a string between 1 and 100 characters');
+    }
+
+    if (memory.tags !== undefined && (!Array.isArray(memory.tags) || memory.tags.some(tag => typeof tag !== 'string' || tag.length > 100))) {
+      errors.push('Memory tags must be an array of strings of at most 100 characters');
+    }
+
     if (memory.project_id && typeof memory.project_id !== 'string') {
       errors.push('Memory project_id must be a string');
     }
@@ -232,23 +246,40 @@ export class ValidationUtils {
     const sanitized = { ...memory };
     if (sanitized.title) sanitized.title = this.sanitizeString(sanitized.title);
     if (sanitized.content) sanitized.content = this.sanitizeString(sanitized.content);
+    if (typeof sanitized.category === 'string') sanitized.category = this.sanitizeString(sanitized.category);
+    if (Array.isArray(sanitized.tags)) sanitized.tags = this.sanitizeTags(sanitized.tags);
     return sanitized;
   }
 
+  /**
+   * Trims tags and drops empty ones and case-insensitive duplicates, keeping the first spelling
+   */
+  static sanitizeTags(tags: string[]): string[] {
+    const seen = new Set<string>();
+    return tags
+      .map(tag => this.sanitizeString(tag))
+      .filter(tag => {
+        const key = tag.toLowerCase();
+        if (!tag || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+
   // Data limits validation
-  static validateDataLimits(database: ProjectDatabase): { isValid: boolean; errors: string[] } {
+  static validateDataLimits(database: ProjectDatabase, limits: LimitsConfig = DEFAULT_CONFIG.limits): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
     
-    if (database.projects.length > 5000) {
-      errors.push('Too many projects - maximum 5000 allowed');
+    if (database.projects.length > limits.max_projects) {
+      errors.push(`Too many projects - maximum ${limits.max_projects} allowed`);
     }
     
-    if (database.tasks.length > 50000) {
-      errors.push('Too many tasks - maximum 50000 allowed');
+    if (database.tasks.length > limits.max_tasks) {
+      errors.push(`Too many tasks - maximum ${limits.max_tasks} allowed`);
     }
     
-    if (database.memories.length > 25000) {
-      errors.push('Too many memories - maximum 25000 allowed');
+    if (database.memories.length > limits.max_memories) {
+      errors.push(`Too many memories - maximum ${limits.max_memories} allowed`);
     }
 
     return { isValid: errors.length === 0, errors };
@@ -259,6 +290,14 @@ export class ValidationUtils {
     const errors: string[] = [];
     const projectIds = new Set(database.projects.map(p => p.id));
     const taskIds = new Set(database.tasks.map(t => t.id));
+    const tasksById = new Map(database.tasks.map(t => [t.id, t]));
+
+    // Check project task lists only name tasks of that project
+    database.projects.forEach(project => {
+      (project.tasks || []).filter(id => tasksById.get(id)?.project_id !== project.id).forEach(id => {
+        errors.push(`Project ${project.id} lists task ${id}, which ${taskIds.has(id) ? 'belongs to another project' : 'does not exist'}`);
+      });
+    });
 
     // Check tasks reference valid projects
     database.tasks.forEach(task => {
@@ -268,6 +307,12 @@ export class ValidationUtils {
       if (task.parent_id && !taskIds.has(task.parent_id)) {
         errors.push(`Task ${task.id} references non-existent parent task ${task.parent_id}`);
       }
+      (task.depends_on || []).filter(id => !taskIds.has(id)).forEach(id => {
+        errors.push(`Task ${task.id} depends on non-existent task ${id}`);
+      });
+      (task.subtasks || []).filter(id => tasksById.get(id)?.parent_id !== task.id).forEach(id => {
+        errors.push(`Task ${task.id} lists subtask ${id}, which ${taskIds.has(id) ? 'has a different parent' : 'does not exist'}`);
+      });
     });
 
     // Check memories reference valid projects/tasks
@@ -289,13 +334,13 @@ export class ValidationUtils {
   }
 
   // Comprehensive database validation
-  static validateDatabase(database: ProjectDatabase): { isValid: boolean; errors: string[] } {
+  static validateDatabase(database: ProjectDatabase, limits?: LimitsConfig): { isValid: boolean; errors: string[] } {
     const schemaValidation = this.validateDatabaseSchema(database);
     if (!schemaValidation.isValid) {
       return schemaValidation;
     }
 
-    const limitsValidation = this.validateDataLimits(database);
+    const limitsValidation = this.validateDataLimits(database, limits);
     if (!limitsValidation.isValid) {
       return limitsValidation;
     }
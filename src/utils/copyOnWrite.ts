@@ -0,0 +1,217 @@
+/**
+ * Copy-on-write drafts for store transactions
+ *
+ * A draft is a proxy over an immutable base value. Reads go straight to the
+ * base; the first write to an object or array shallow-copies it together with
+ * its parents up to the root, so an operation only pays for what it touches.
+ * Finalizing the draft yields a new value that shares every untouched object
+ * with the base. Discarding the draft leaves the base exactly as it was.
+ */
+
+interface DraftState {
+  base: any;
+  copy?: any;
+  parent?: DraftState;
+  /** Drafts handed out for properties still holding their base value */
+  children: Map<PropertyKey, any>;
+  proxy: any;
+  finalized: boolean;
+  result?: any;
+}
+
+export interface Draft<T> {
+  /** Proxy to pass to the operation in place of the base value */
+  draft: T;
+  /**
+   * Produces the value with all changes applied. Untouched objects are shared
+   * with the base. After finalizing, the draft reads and writes the result.
+   */
+  finalize(): T;
+  /** Whether anything was written through the draft */
+  isModified(): boolean;
+}
+
+const DRAFT_STATE = Symbol('draftState');
+
+function isDraftable(value: unknown): value is object {
+  if (value === null || typeof value !== 'object') return false;
+  if (Array.isArray(value)) return true;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function getState(value: unknown): DraftState | undefined {
+  return value !== null && typeof value === 'object' ? (value as any)[DRAFT_STATE] : undefined;
+}
+
+function source(state: DraftState): any {
+  return state.finalized ? state.result : state.copy ?? state.base;
+}
+
+/**
+ * Copies the state's base on first write and makes sure every parent up to the
+ * root holds a copy that points at this draft
+ */
+function markModified(state: DraftState): void {
+  if (state.copy) return;
+
+  state.copy = Array.isArray(state.base) ? state.base.slice() : { ...state.base };
+  for (const [key, child] of state.children) {
+    state.copy[key] = child;
+  }
+
+  if (state.parent) {
+    markModified(state.parent);
+  }
+}
+
+function createDraftState(base: any, parent?: DraftState): DraftState {
+  const state: DraftState = { base, parent, children: new Map(), proxy: undefined, finalized: false };
+
+  // Arrays need an array target so Array.isArray and JSON.stringify treat the proxy as one
+  const target = Array.isArray(base) ? [] : {};
+  state.proxy = new Proxy(target, {
+    get(_target, prop) {
+      if (prop === DRAFT_STATE) return state;
+
+      const current = source(state);
+      const value = Reflect.get(current, prop);
+      if (state.finalized || !isDraftable(value) || getState(value)) {
+        return value;
+      }
+
+      // Only values still shared with the base need a draft; values the operation
+      // assigned itself already belong to this transaction
+      if (value !== state.base[prop]) {
+        return value;
+      }
+
+      let child = state.children.get(prop);
+      if (!child) {
+        child = createDraftState(value, state).proxy;
+        state.children.set(prop, child);
+        if (state.copy) {
+          state.copy[prop] = child;
+        }
+      }
+      return child;
+    },
+
+    set(_target, prop, value) {
+      if (state.finalized) {
+        return Reflect.set(state.result, prop, value);
+      }
+      markModified(state);
+      state.children.delete(prop);
+      state.copy[prop] = value;
+      return true;
+    },
+
+    deleteProperty(_target, prop) {
+      if (state.finalized) {
+        return Reflect.deleteProperty(state.result, prop);
+      }
+      markModified(state);
+      state.children.delete(prop);
+      delete state.copy[prop];
+      return true;
+    },
+
+    has(_target, prop) {
+      return prop === DRAFT_STATE || Reflect.has(source(state), prop);
+    },
+
+    ownKeys() {
+      return Reflect.ownKeys(source(state));
+    },
+
+    getOwnPropertyDescriptor(target, prop) {
+      const descriptor = Reflect.getOwnPropertyDescriptor(source(state), prop);
+      if (!descriptor) return undefined;
+
+      // Array length is non-configurable on the target, so it must be reported as such
+      const targetDescriptor = Reflect.getOwnPropertyDescriptor(target, prop);
+      return {
+        ...descriptor,
+        value: Reflect.get(state.proxy, prop),
+        configurable: targetDescriptor ? targetDescriptor.configurable : true
+      };
+    },
+
+    defineProperty(_target, prop, descriptor) {
+      if (state.finalized) {
+        return Reflect.defineProperty(state.result, prop, descriptor);
+      }
+      markModified(state);
+      state.children.delete(prop);
+      return Reflect.defineProperty(state.copy, prop, descriptor);
+    },
+
+    getPrototypeOf() {
+      return Object.getPrototypeOf(state.base);
+    }
+  });
+
+  return state;
+}
+
+/**
+ * Resolves a draft to its final value, replacing nested drafts along the way
+ */
+function finalizeState(state: DraftState, seen: Set<object>): any {
+  if (state.finalized) return state.result;
+
+  state.result = state.copy ?? state.base;
+  if (state.copy) {
+    finalizeChildren(state.copy, state.base, seen);
+  }
+
+  state.finalized = true;
+  state.children.clear();
+  return state.result;
+}
+
+/**
+ * Replaces drafts inside a container the transaction owns. Values still shared
+ * with the base cannot hold drafts and are skipped; values the operation built
+ * itself (e.g. the array returned by filter on a draft) are searched.
+ */
+function finalizeChildren(container: any, base: any, seen: Set<object>): void {
+  if (seen.has(container)) return;
+  seen.add(container);
+
+  // Index loop for arrays: collections can hold thousands of entities
+  if (Array.isArray(container)) {
+    for (let index = 0; index < container.length; index++) {
+      finalizeEntry(container, index, base, seen);
+    }
+  } else {
+    for (const key of Object.keys(container)) {
+      finalizeEntry(container, key, base, seen);
+    }
+  }
+}
+
+function finalizeEntry(container: any, key: string | number, base: any, seen: Set<object>): void {
+  const value = container[key];
+  if (base && value === base[key]) return;
+
+  const childState = getState(value);
+  if (childState) {
+    container[key] = finalizeState(childState, seen);
+  } else if (isDraftable(value)) {
+    finalizeChildren(value, undefined, seen);
+  }
+}
+
+/**
+ * Creates a copy-on-write draft of a plain JSON-like value
+ */
+export function createDraft<T extends object>(base: T): Draft<T> {
+  const root = createDraftState(base);
+  return {
+    draft: root.proxy as T,
+    finalize: () => finalizeState(root, new Set()) as T,
+    isModified: () => root.copy !== undefined
+  };
+}
@@ -0,0 +1,332 @@
+/**
+ * Entity-level diffs between two versions of the project database
+ *
+ * Diffs keep both the before and after version of every changed entity so
+ * they can be replayed forwards (journal recovery) and inverted (undo).
+ */
+
+import type { ProjectDatabase, Project, Task, Memory } from '../types/index.js';
+import type { DatabasePart } from '../storage/StorageAdapter.js';
+
+type EntityCollection = 'projects' | 'tasks' | 'memories';
+
+export interface CollectionDiff<T> {
+  added: T[];
+  updated: Array<{ before: T; after: T }>;
+  removed: T[];
+}
+
+export interface DatabaseDiff {
+  projects?: CollectionDiff<Project>;
+  tasks?: CollectionDiff<Task>;
+  memories?: CollectionDiff<Memory>;
+  meta?: { before: ProjectDatabase['meta']; after: ProjectDatabase['meta'] };
+  templates?: { before: ProjectDatabase['templates']; after: ProjectDatabase['templates'] };
+}
+
+const ENTITY_COLLECTIONS: EntityCollection[] = ['projects', 'tasks', 'memories'];
+
+/**
+ * Computes the entity-level changes between two databases.
+ * Only the given parts are compared; all parts are compared when omitted.
+ */
+export function diffDatabases(
+  before: ProjectDatabase,
+  after: ProjectDatabase,
+  parts?: Set<DatabasePart>
+): DatabaseDiff {
+  const diff: DatabaseDiff = {};
+  const compareAll = !parts || parts.size === 0;
+
+  for (const collection of ENTITY_COLLECTIONS) {
+    if (!compareAll && !parts!.has(collection)) continue;
+
+    const collectionDiff = diffCollection<{ id: string }>(before[collection], after[collection]);
+    if (collectionDiff.added.length > 0 || collectionDiff.updated.length > 0 || collectionDiff.removed.length > 0) {
+      (diff as any)[collection] = collectionDiff;
+    }
+  }
+
+  // last_updated changes on every commit, so it alone does not count as a meta change
+  if (compareAll || parts!.has('meta')) {
+    const { last_updated: _beforeUpdated, ...beforeMeta } = before.meta;
+    const { last_updated: _afterUpdated, ...afterMeta } = after.meta;
+    if (!sameValue(beforeMeta, afterMeta)) {
+      diff.meta = { before: clone(before.meta), after: clone(after.meta) };
+    }
+  }
+
+  // Templates are few and small, so the whole record is kept
+  if ((compareAll || parts!.has('templates')) && before.templates !== after.templates && !sameValue(before.templates, after.templates)) {
+    diff.templates = { before: clone(before.templates), after: clone(after.templates) };
+  }
+
+  return diff;
+}
+
+/**
+ * Compares two entity arrays by id
+ */
+function diffCollection<T extends { id: string }>(before: T[], after: T[]): CollectionDiff<T> {
+  const aligned = diffAlignedCollection(before, after);
+  if (aligned) return aligned;
+
+  const beforeById = new Map(before.map(entity => [entity.id, entity]));
+  const afterIds = new Set<string>();
+  const result: CollectionDiff<T> = { added: [], updated: [], removed: [] };
+
+  for (const entity of after) {
+    afterIds.add(entity.id);
+    const previous = beforeById.get(entity.id);
+    if (!previous) {
+      result.added.push(clone(entity));
+    } else if (previous !== entity && !sameValue(previous, entity)) {
+      result.updated.push({ before: clone(previous), after: clone(entity) });
+    }
+  }
+
+  for (const entity of before) {
+    if (!afterIds.has(entity.id)) {
+      result.removed.push(clone(entity));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fast path for the common case of entities updated in place or appended:
+ * unchanged entities are shared between versions, so comparing by position
+ * skips them without building lookup maps. Returns undefined when entities
+ * were removed or reordered.
+ */
+function diffAlignedCollection<T extends { id: string }>(before: T[], after: T[]): CollectionDiff<T> | undefined {
+  if (after.length < before.length) return undefined;
+
+  const result: CollectionDiff<T> = { added: [], updated: [], removed: [] };
+  for (let index = 0; index < before.length; index++) {
+    const previous = before[index];
+    const entity = after[index];
+    if (previous === entity) continue;
+    if (previous.id !== entity.id) return undefined;
+    if (!sameValue(previous, entity)) {
+      result.updated.push({ before: clone(previous), after: clone(entity) });
+    }
+  }
+
+  for (let index = before.length; index < after.length; index++) {
+    result.added.push(clone(after[index]));
+  }
+  return result;
+}
+
+/**
+ * Applies a diff to a database in place.
+ * Application is idempotent: replaying an already-applied diff is a no-op.
+ */
+export function applyDatabaseDiff(database: ProjectDatabase, diff: DatabaseDiff): void {
+  for (const collection of ENTITY_COLLECTIONS) {
+    const collectionDiff = diff[collection] as CollectionDiff<{ id: string }> | undefined;
+    if (!collectionDiff) continue;
+
+    const removedIds = new Set(collectionDiff.removed.map(entity => entity.id));
+    let entities = (database[collection] as Array<{ id: string }>).filter(entity => !removedIds.has(entity.id));
+
+    const replacements = new Map<string, { id: string }>();
+    for (const { after } of collectionDiff.updated) {
+      replacements.set(after.id, after);
+    }
+    for (const entity of collectionDiff.added) {
+      replacements.set(entity.id, entity);
+    }
+
+    entities = entities.map(entity => {
+      const replacement = replacements.get(entity.id);
+      if (replacement) {
+        replacements.delete(entity.id);
+        return clone(replacement);
+      }
+      return entity;
+    });
+
+    for (const entity of replacements.values()) {
+      entities.push(clone(entity));
+    }
+
+    (database as any)[collection] = entities;
+  }
+
+  if (diff.meta) {
+    database.meta = clone(diff.meta.after);
+  }
+  if (diff.templates) {
+    database.templates = clone(diff.templates.after);
+  }
+}
+
+/**
+ * Returns the diff that reverts the given diff
+ */
+export function invertDatabaseDiff(diff: DatabaseDiff): DatabaseDiff {
+  const inverted: DatabaseDiff = {};
+
+  for (const collection of ENTITY_COLLECTIONS) {
+    const collectionDiff = diff[collection] as CollectionDiff<any> | undefined;
+    if (!collectionDiff) continue;
+
+    (inverted as any)[collection] = {
+      added: collectionDiff.removed,
+      updated: collectionDiff.updated.map(({ before, after }) => ({ before: after, after: before })),
+      removed: collectionDiff.added
+    };
+  }
+
+  if (diff.meta) {
+    inverted.meta = { before: diff.meta.after, after: diff.meta.before };
+  }
+  if (diff.templates) {
+    inverted.templates = { before: diff.templates.after, after: diff.templates.before };
+  }
+
+  return inverted;
+}
+
+/**
+ * Returns true when the diff contains no changes
+ */
+export function isEmptyDiff(diff: DatabaseDiff): boolean {
+  return !diff.projects && !diff.tasks && !diff.memories && !diff.meta && !diff.templates;
+}
+
+/**
+ * Returns the database parts touched by a diff
+ */
+export function getDiffParts(diff: DatabaseDiff): Set<DatabasePart> {
+  const parts = new Set<DatabasePart>();
+  for (const collection of ENTITY_COLLECTIONS) {
+    if (diff[collection]) parts.add(collection);
+  }
+  if (diff.meta) parts.add('meta');
+  if (diff.templates) parts.add('templates');
+  return parts;
+}
+
+/**
+ * Describes a diff in plain words, e.g. "task 'Write docs' marked complete".
+ * The database is used to resolve project names referenced from meta.
+ */
+export function describeDatabaseDiff(diff: DatabaseDiff, database?: ProjectDatabase): string {
+  const phrases: string[] = [];
+
+  describeCollection(phrases, 'task', diff.tasks, task => task.title, describeTaskUpdate);
+  describeCollection(phrases, 'memory', diff.memories, memory => memory.title, () => ['updated']);
+  describeCollection(phrases, 'project', diff.projects, project => project.name, describeProjectUpdate);
+
+  if (diff.meta && diff.meta.before.current_project_id !== diff.meta.after.current_project_id) {
+    const projectId = diff.meta.after.current_project_id;
+    if (!projectId) {
+      phrases.push('current project cleared');
+    } else {
+      const project = database?.projects.find(p => p.id === projectId);
+      phrases.push(`current project set to '${project?.name ?? projectId}'`);
+    }
+  }
+
+  if (diff.templates) {
+    const { before, after } = diff.templates;
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (!before[key]) {
+        phrases.push(`template '${after[key].name}' saved`);
+      } else if (!after[key]) {
+        phrases.push(`template '${before[key].name}' deleted`);
+      } else if (!sameValue(before[key], after[key])) {
+        phrases.push(`template '${after[key].name}' replaced`);
+      }
+    }
+  }
+
+  return phrases.length > 0 ? phrases.join('; ') : 'no visible changes';
+}
+
+// Above this many entities of one kind, changes are summarized as a count
+const DESCRIBE_ITEM_LIMIT = 3;
+
+function describeCollection<T>(
+  phrases: string[],
+  noun: string,
+  collectionDiff: CollectionDiff<T> | undefined,
+  nameOf: (entity: T) => string,
+  describeUpdate: (before: T, after: T) => string[]
+): void {
+  if (!collectionDiff) return;
+
+  const plural = noun === 'memory' ? 'memories' : `${noun}s`;
+  const describeEach = (entities: T[], verb: string) => {
+    if (entities.length > DESCRIBE_ITEM_LIMIT) {
+      phrases.push(`${entities.length} ${plural} ${verb}`);
+    } else {
+      entities.forEach(entity => phrases.push(`${noun} '${nameOf(entity)}' ${verb}`));
+    }
+  };
+
+  describeEach(collectionDiff.added, 'created');
+  describeEach(collectionDiff.removed, 'deleted');
+
+  const updates = collectionDiff.updated
+    .map(({ before, after }) => ({ after, changes: describeUpdate(before, after) }))
+    .filter(update => update.changes.length > 0);
+
+  if (updates.length > DESCRIBE_ITEM_LIMIT) {
+    phrases.push(`${updates.length} ${plural} updated`);
+  } else {
+    updates.forEach(({ after, changes }) => phrases.push(`${noun} '${nameOf(after)}' ${changes.join(', ')}`));
+  }
+}
+
+function describeTaskUpdate(before: Task, after: Task): string[] {
+  const changes: string[] = [];
+  if (before.completed !== after.completed) {
+    changes.push(after.completed ? 'marked complete' : `reopened as ${after.status}`);
+  } else if (before.status !== after.status) {
+    changes.push(`moved to ${after.status}`);
+  }
+  if (before.title !== after.title) {
+    changes.push(`renamed from '${before.title}'`);
+  }
+  const otherFields = changedFields(before, after, ['status', 'completed', 'completed_date', 'title']);
+  if (otherFields.length > 0) {
+    changes.push(`${otherFields.join(', ')} updated`);
+  }
+  return changes;
+}
+
+function describeProjectUpdate(before: Project, after: Project): string[] {
+  const changes: string[] = [];
+  if (before.name !== after.name) {
+    changes.push(`renamed from '${before.name}'`);
+  }
+  if (before.status !== after.status) {
+    changes.push(`status set to '${after.status}'`);
+  }
+  // completion_percentage is derived from the tasks and would only add noise
+  const otherFields = changedFields(before, after, ['name', 'status', 'completion_percentage']);
+  if (otherFields.length > 0) {
+    changes.push(`${otherFields.join(', ')} updated`);
+  }
+  return changes;
+}
+
+function changedFields<T extends object>(before: T, after: T, ignored: string[]): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(keys).filter(key =>
+    !ignored.includes(key) && !sameValue((before as any)[key], (after as any)[key])
+  );
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,115 @@
+/**
+ * Due date parsing and comparison
+ *
+ * Due dates are stored as calendar days (YYYY-MM-DD) in the server's local time zone.
+ * A task is overdue once its due day has passed, and due soon from its due day
+ * minus the due-soon window up to the end of that day.
+ */
+
+import { ValidationError } from './errors.js';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const DUE_DATE_HINT = 'must be an ISO date (YYYY-MM-DD) or a phrase like "today", "tomorrow", "next friday" or "in 3 days"';
+
+/**
+ * Formats a date as a local calendar day
+ */
+export function toDateString(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Shifts a calendar day by whole days, months or years. Month arithmetic keeps
+ * the day of month where possible and otherwise clamps to the month's last day.
+ */
+export function shiftDate(day: string, amount: number, unit: 'day' | 'week' | 'month' | 'year'): string {
+  const [year, month, date] = day.split('-').map(Number);
+  if (unit === 'day' || unit === 'week') {
+    return toDateString(new Date(year, month - 1, date + amount * (unit === 'week' ? 7 : 1)));
+  }
+
+  const months = unit === 'year' ? amount * 12 : amount;
+  const lastDay = new Date(year, month - 1 + months + 1, 0).getDate();
+  return toDateString(new Date(year, month - 1 + months, Math.min(date, lastDay)));
+}
+
+/**
+ * Whole days from one calendar day to another
+ */
+export function daysBetween(from: string, to: string): number {
+  const toUtc = (day: string) => {
+    const [year, month, date] = day.split('-').map(Number);
+    return Date.UTC(year, month - 1, date);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / 86400000);
+}
+
+/**
+ * Parses a due date given as an ISO date or datetime, or as a relative phrase:
+ * today, tomorrow, yesterday, in N days/weeks/months, next week/month,
+ * a weekday name (optionally with "this" or "next"), or end of week/month.
+ * Weekday names mean their next occurrence after today. Errors name `field`,
+ * so the same parser serves due_date and the list_tasks due window.
+ */
+export function parseDueDate(input: string, options: { now?: Date; field?: string } = {}): string {
+  const { now = new Date(), field = 'due_date' } = options;
+  const text = typeof input === 'string' ? input.trim().toLowerCase().replace(/\s+/g, ' ') : '';
+  const today = toDateString(now);
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})(t[\d:.]+(z|[+-]\d{2}:?\d{2})?)?$/);
+  if (iso) {
+    const parsed = iso[4] ? new Date(input.trim()) : new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    const day = iso[4] ? toDateString(parsed) : `${iso[1]}-${iso[2]}-${iso[3]}`;
+    if (Number.isNaN(parsed.getTime()) || (!iso[4] && toDateString(parsed) !== day)) {
+      throw new ValidationError(field, input, DUE_DATE_HINT);
+    }
+    return day;
+  }
+
+  switch (text) {
+    case 'today': return today;
+    case 'tomorrow': return shiftDate(today, 1, 'day');
+    case 'yesterday': return shiftDate(today, -1, 'day');
+    case 'next week': return shiftDate(today, 1, 'week');
+    case 'next month': return shiftDate(today, 1, 'month');
+    case 'end of week': return shiftDate(today, (7 - now.getDay()) % 7, 'day');
+    case 'end of month': return toDateString(new Date(now.getFullYear(), now.getMonth() + 1, 0));
+  }
+
+  const relative = text.match(/^in (\d+|a|an|one) (day|week|month|year)s?$/);
+  if (relative) {
+    const amount = /^\d+$/.test(relative[1]) ? Number(relative[1]) : 1;
+    return shiftDate(today, amount, relative[2] as 'day' | 'week' | 'month' | 'year');
+  }
+
+  const weekday = text.match(/^(?:(?:this|next|on) )?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)$/);
+  if (weekday) {
+    const ahead = (WEEKDAYS.indexOf(weekday[1]) - now.getDay() + 7) % 7 || 7;
+    return shiftDate(today, ahead, 'day');
+  }
+
+  throw new ValidationError(field, input, DUE_DATE_HINT);
+}
+
+/**
+ * Where a due date falls relative to today
+ */
+export function getDueStatus(dueDate: string | undefined, dueSoonDays: number, now: Date = new Date()): 'overdue' | 'due_soon' | 'later' | 'none' {
+  if (!dueDate) return 'none';
+  const days = daysBetween(toDateString(now), dueDate.slice(0, 10));
+  if (days < 0) return 'overdue';
+  return days <= dueSoonDays ? 'due_soon' : 'later';
+}
+
+/**
+ * Describes a due date relative to today, e.g. "due tomorrow" or "3 days overdue"
+ */
+export function describeDueDate(dueDate: string, now: Date = new Date()): string {
+  const days = daysBetween(toDateString(now), dueDate.slice(0, 10));
+  if (days === 0) return 'due today';
+  if (days === 1) return 'due tomorrow';
+  if (days > 1) return `due in ${days} days`;
+  return days === -1 ? '1 day overdue' : `${-days} days overdue`;
+}
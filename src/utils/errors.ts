@@ -37,9 +37,29 @@ export class TaskNotFoundError extends MemoryPickleError {
   }
 }
 
+export class SnapshotNotFoundError extends MemoryPickleError {
+  constructor(snapshotId: string, availableSnapshots: string[] = []) {
+    const suggestion = availableSnapshots.length > 0
+      ? ` Available snapshots: ${availableSnapshots.join(', ')}`
+      : ' No snapshots exist yet. Use create_snapshot first.';
+    super(`Snapshot '${snapshotId}' not found.${suggestion}`);
+    this.code = 'SNAPSHOT_NOT_FOUND';
+  }
+}
+
+export class WorkspaceNotFoundError extends MemoryPickleError {
+  constructor(workspace: string, availableWorkspaces: string[] = []) {
+    super(`Workspace '${workspace}' not found. Available workspaces: ${availableWorkspaces.join(', ')}`);
+    this.code = 'WORKSPACE_NOT_FOUND';
+  }
+}
+
 export class MemoryNotFoundError extends MemoryPickleError {
-  constructor(query: string) {
-    super(`No memories found matching query: '${query}'. Try broader search terms or check spelling.`);
+  constructor(memoryId: string, availableMemories: string[] = []) {
+    const suggestion = availableMemories.length > 0
+      ? ` Available memories: ${availableMemories.slice(0, 5).join(', ')}${availableMemories.length > 5 ? '...' : ''}`
+      : ' No memories are stored yet.';
+    super(`Memory '${memoryId}' not found.${suggestion}`);
     this.code = 'MEMORY_NOT_FOUND';
   }
 }
@@ -51,6 +71,23 @@ export class DuplicateProjectError extends MemoryPickleError {
   }
 }
 
+export class TemplateNotFoundError extends MemoryPickleError {
+  constructor(name: string, availableTemplates: string[] = []) {
+    const suggestion = availableTemplates.length > 0
+      ? ` Available templates: ${availableTemplates.join(', ')}`
+      : ' No templates have been saved yet; save one with save_template.';
+    super(`Template '${name}' not found.${suggestion}`);
+    this.code = 'TEMPLATE_NOT_FOUND';
+  }
+}
+
+export class DuplicateTemplateError extends MemoryPickleError {
+  constructor(name: string) {
+    super(`Template '${name}' already exists. Use a different name or pass overwrite: true to replace it.`);
+    this.code = 'DUPLICATE_TEMPLATE';
+  }
+}
+
 export class InvalidPriorityError extends MemoryPickleError {
   constructor(priority: string) {
     super(`Invalid priority '${priority}'. Must be one of: critical, high, medium, low`);
@@ -66,12 +103,63 @@ export class InvalidProgressError extends MemoryPickleError {
 }
 
 export class CircularDependencyError extends MemoryPickleError {
-  constructor(taskId: string, parentId: string) {
-    super(`Cannot set parent '${parentId}' for task '${taskId}': would create circular dependency.`);
+  constructor(taskId: string, dependencyId: string, cycle: string[] = []) {
+    const path = cycle.length > 0 ? ` (${cycle.join(' -> ')})` : '';
+    super(`Cannot make task '${taskId}' depend on '${dependencyId}': would create circular dependency${path}.`);
     this.code = 'CIRCULAR_DEPENDENCY';
   }
 }
 
+export class InvalidStatusTransitionError extends MemoryPickleError {
+  constructor(taskId: string, from: string, to: string, allowed: string[]) {
+    super(`Cannot move task '${taskId}' from '${from}' to '${to}'. Allowed from '${from}': ${allowed.length > 0 ? allowed.join(', ') : 'none'}.`);
+    this.code = 'INVALID_STATUS_TRANSITION';
+  }
+}
+
+export class TimerAlreadyRunningError extends MemoryPickleError {
+  constructor(taskId: string, startedAt: string) {
+    super(`A timer is already running on task '${taskId}' since ${startedAt}. Stop it with stop_timer before starting another.`);
+    this.code = 'TIMER_ALREADY_RUNNING';
+  }
+}
+
+export class NoRunningTimerError extends MemoryPickleError {
+  constructor(taskId?: string) {
+    super(taskId ? `No timer is running on task '${taskId}'.` : 'No timer is running in this session. Start one with start_timer.');
+    this.code = 'NO_RUNNING_TIMER';
+  }
+}
+
+export class BatchOperationError extends MemoryPickleError {
+  constructor(position: number, op: string | undefined, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Operation ${position}${op ? ` (${op})` : ''} failed: ${reason}. No changes were made.`);
+    this.code = 'BATCH_OPERATION_FAILED';
+  }
+}
+
+export class UnsupportedSchemaVersionError extends MemoryPickleError {
+  constructor(version: string, supportedVersion: string) {
+    super(`Data was written with schema version ${version}, which is newer than the supported version ${supportedVersion}. Upgrade memory-pickle-mcp to read it.`);
+    this.code = 'UNSUPPORTED_SCHEMA_VERSION';
+  }
+}
+
+export class MigrationError extends MemoryPickleError {
+  constructor(version: string, reason: string) {
+    super(`Migration to schema version ${version} failed: ${reason}`);
+    this.code = 'MIGRATION_FAILED';
+  }
+}
+
+export class ConfigurationError extends MemoryPickleError {
+  constructor(source: string, issues: string[]) {
+    super(`Invalid configuration in ${source}: ${issues.join('; ')}`);
+    this.code = 'INVALID_CONFIGURATION';
+  }
+}
+
 export class DryRunResult extends MemoryPickleError {
   constructor(operation: string, wouldHave: string) {
     super(`[DRY RUN] ${operation}: Would have ${wouldHave}`);
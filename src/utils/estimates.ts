@@ -0,0 +1,47 @@
+/**
+ * Task estimates in hours or story points
+ *
+ * Hours can be given like durations ("3h", "90m", "1h30m"); points as "5 points",
+ * "5 pts" or "5sp". A bare number uses the configured default unit.
+ */
+
+import type { Estimate } from '../types/index.js';
+import { ValidationError } from './errors.js';
+import { parseDuration } from './timeTracking.js';
+
+const ESTIMATE_HINT = 'must be a non-negative number, hours such as "3h" or "1h30m", or points such as "5 points"';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Parses an estimate. Errors name `field`.
+ */
+export function parseEstimate(input: number | string, defaultUnit: Estimate['unit'], field: string = 'estimate'): Estimate {
+  if (typeof input === 'number' || (typeof input === 'string' && /^\s*\d+(\.\d+)?\s*$/.test(input))) {
+    const value = Number(input);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new ValidationError(field, input, ESTIMATE_HINT);
+    }
+    return { value: round(value), unit: defaultUnit };
+  }
+
+  const text = typeof input === 'string' ? input.trim().toLowerCase() : '';
+  const points = text.match(/^(\d+(?:\.\d+)?)\s*(points?|pts?|sp)$/);
+  if (points) {
+    return { value: round(Number(points[1])), unit: 'points' };
+  }
+  try {
+    return { value: round(parseDuration(text, field) / 60), unit: 'hours' };
+  } catch {
+    throw new ValidationError(field, input, ESTIMATE_HINT);
+  }
+}
+
+/**
+ * Formats an estimate, e.g. "1.5h" or "5 points"
+ */
+export function formatEstimate(estimate: Estimate): string {
+  return estimate.unit === 'hours'
+    ? `${estimate.value}h`
+    : `${estimate.value} ${estimate.value === 1 ? 'point' : 'points'}`;
+}
@@ -0,0 +1,180 @@
+/**
+ * Recurrence rules for repeating tasks
+ *
+ * Rules are given as a preset ("daily", "weekly", "monthly", "yearly"), as
+ * "every N days/weeks/months/years", or as an iCalendar RRULE limited to FREQ,
+ * INTERVAL, BYDAY (weekly), BYMONTHDAY (monthly), COUNT and UNTIL.
+ */
+
+import type { RecurrenceRule } from '../types/index.js';
+import { ValidationError } from './errors.js';
+import { shiftDate } from './dueDates.js';
+
+type Weekday = NonNullable<RecurrenceRule['by_weekday']>[number];
+
+// Monday first, matching the RRULE default week start
+const WEEKDAY_CODES: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const UNITS = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' } as const;
+
+const RECURRENCE_HINT = 'must be daily, weekly, monthly, yearly, "every N days/weeks/months/years" or an RRULE such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"';
+
+const weekdayIndex = (day: string): number => {
+  const [year, month, date] = day.split('-').map(Number);
+  return (new Date(year, month - 1, date).getDay() + 6) % 7;
+};
+
+/**
+ * Parses a recurrence rule. Errors name `field`.
+ */
+export function parseRecurrence(input: string, field: string = 'recurrence'): RecurrenceRule {
+  const text = typeof input === 'string' ? input.trim() : '';
+  const lower = text.toLowerCase().replace(/\s+/g, ' ');
+
+  if (lower === 'daily' || lower === 'weekly' || lower === 'monthly' || lower === 'yearly') {
+    return { frequency: lower, interval: 1 };
+  }
+
+  const every = lower.match(/^every (?:(\d+) )?(day|week|month|year)s?$/);
+  if (every) {
+    const interval = every[1] ? Number(every[1]) : 1;
+    if (interval < 1) {
+      throw new ValidationError(field, input, 'must repeat at least every 1 ' + every[2]);
+    }
+    const frequency = (Object.keys(UNITS) as RecurrenceRule['frequency'][]).find(key => UNITS[key] === every[2])!;
+    return { frequency, interval };
+  }
+
+  if (!/^(rrule:)?freq=/i.test(text)) {
+    throw new ValidationError(field, input, RECURRENCE_HINT);
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of text.replace(/^rrule:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined || parts.has(key.toUpperCase())) {
+      throw new ValidationError(field, input, `has a malformed or repeated part '${part}'`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const frequency = parts.get('FREQ')?.toLowerCase();
+  if (frequency !== 'daily' && frequency !== 'weekly' && frequency !== 'monthly' && frequency !== 'yearly') {
+    throw new ValidationError(field, input, 'FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY');
+  }
+  const rule: RecurrenceRule = { frequency, interval: 1 };
+
+  const positive = (key: string, max = Infinity): number => {
+    const value = Number(parts.get(key));
+    if (!/^\d+$/.test(parts.get(key)!) || value < 1 || value > max) {
+      throw new ValidationError(field, input, `${key} must be a whole number from 1${max === Infinity ? '' : ` to ${max}`}`);
+    }
+    return value;
+  };
+
+  for (const key of parts.keys()) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = positive(key);
+        break;
+      case 'COUNT':
+        rule.count = positive(key);
+        break;
+      case 'BYMONTHDAY':
+        if (frequency !== 'monthly') {
+          throw new ValidationError(field, input, 'BYMONTHDAY is only supported with FREQ=MONTHLY');
+        }
+        rule.by_month_day = positive(key, 31);
+        break;
+      case 'BYDAY': {
+        const days = parts.get(key)!.split(',');
+        if (frequency !== 'weekly' || days.some(day => !WEEKDAY_CODES.includes(day as Weekday))) {
+          throw new ValidationError(field, input, 'BYDAY must list weekday codes (MO-SU) and is only supported with FREQ=WEEKLY');
+        }
+        rule.by_weekday = WEEKDAY_CODES.filter(code => days.includes(code));
+        break;
+      }
+      case 'UNTIL': {
+        const until = parts.get(key)!.match(/^(\d{4})-?(\d{2})-?(\d{2})(T[\dZ]*)?$/);
+        if (!until) {
+          throw new ValidationError(field, input, 'UNTIL must be a date such as 20261231');
+        }
+        rule.until = `${until[1]}-${until[2]}-${until[3]}`;
+        break;
+      }
+      default:
+        throw new ValidationError(field, input, `uses unsupported part '${key}' (supported: FREQ, INTERVAL, BYDAY, BYMONTHDAY, COUNT, UNTIL)`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new ValidationError(field, input, 'cannot combine COUNT and UNTIL');
+  }
+  return rule;
+}
+
+/**
+ * Pins a monthly rule without BYMONTHDAY to the day of the first due date, so a
+ * series starting on the 31st comes back to the 31st after shorter months.
+ */
+export function anchorRecurrence(rule: RecurrenceRule, dueDate?: string): RecurrenceRule {
+  if (rule.frequency !== 'monthly' || rule.by_month_day !== undefined || !dueDate) {
+    return rule;
+  }
+  return { ...rule, by_month_day: Number(dueDate.slice(8, 10)) };
+}
+
+/**
+ * The first occurrence of a rule after the given calendar day
+ */
+export function nextOccurrence(rule: RecurrenceRule, from: string): string {
+  switch (rule.frequency) {
+    case 'daily':
+      return shiftDate(from, rule.interval, 'day');
+    case 'yearly':
+      return shiftDate(from, rule.interval, 'year');
+    case 'monthly': {
+      if (rule.by_month_day === undefined) {
+        return shiftDate(from, rule.interval, 'month');
+      }
+      const [year, month] = shiftDate(`${from.slice(0, 7)}-01`, rule.interval, 'month').split('-').map(Number);
+      const day = Math.min(rule.by_month_day, new Date(year, month, 0).getDate());
+      return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    }
+    case 'weekly': {
+      if (!rule.by_weekday || rule.by_weekday.length === 0) {
+        return shiftDate(from, rule.interval, 'week');
+      }
+      // A later listed day in the same week, otherwise the first listed day of the next week in the cycle
+      const current = weekdayIndex(from);
+      const laterThisWeek = rule.by_weekday.map(code => WEEKDAY_CODES.indexOf(code)).find(index => index > current);
+      if (laterThisWeek !== undefined) {
+        return shiftDate(from, laterThisWeek - current, 'day');
+      }
+      const weekStart = shiftDate(from, -current + 7 * rule.interval, 'day');
+      return shiftDate(weekStart, WEEKDAY_CODES.indexOf(rule.by_weekday[0]), 'day');
+    }
+  }
+}
+
+/**
+ * Describes a rule, e.g. "every 2 weeks on MO, TH, 6 times"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  let text = rule.interval === 1 ? rule.frequency : `every ${rule.interval} ${UNITS[rule.frequency]}s`;
+  if (rule.by_weekday && rule.by_weekday.length > 0) {
+    text += ` on ${rule.by_weekday.join(', ')}`;
+  }
+  if (rule.by_month_day !== undefined) {
+    text += ` on day ${rule.by_month_day}`;
+  }
+  if (rule.count !== undefined) {
+    text += `, ${rule.count} times`;
+  }
+  if (rule.until !== undefined) {
+    text += `, until ${rule.until}`;
+  }
+  return text;
+}
@@ -0,0 +1,19 @@
+/**
+ * Task status helpers shared by services and tools
+ */
+
+import type { Task, TaskStatus } from '../types/index.js';
+
+/**
+ * Whether a task still needs work: neither done nor cancelled
+ */
+export function isOpenTask(task: Pick<Task, 'status'>): boolean {
+  return task.status !== 'done' && task.status !== 'cancelled';
+}
+
+/**
+ * Status as shown in task listings, e.g. [IN_REVIEW]
+ */
+export function formatStatusLabel(status: TaskStatus): string {
+  return `[${status.toUpperCase()}]`;
+}
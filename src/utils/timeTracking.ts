@@ -0,0 +1,74 @@
+/**
+ * Durations and totals for task time entries
+ *
+ * Entries store ISO timestamps; durations are worked out in minutes. A running
+ * entry (no end yet) counts up to the given moment.
+ */
+
+import type { TimeEntry } from '../types/index.js';
+import { ValidationError } from './errors.js';
+
+const DURATION_HINT = 'must be a number of minutes or a duration such as "45m", "1h30m" or "1.5 hours"';
+
+const UNIT_MINUTES: Record<string, number> = { h: 60, hr: 60, hrs: 60, hour: 60, hours: 60, m: 1, min: 1, mins: 1, minute: 1, minutes: 1 };
+
+/**
+ * Parses a duration into minutes. Errors name `field`.
+ */
+export function parseDuration(input: string | number, field: string = 'duration'): number {
+  if (typeof input === 'number') {
+    if (!Number.isFinite(input) || input <= 0) {
+      throw new ValidationError(field, input, DURATION_HINT);
+    }
+    return input;
+  }
+
+  const text = typeof input === 'string' ? input.trim().toLowerCase() : '';
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return parseDuration(Number(text), field);
+  }
+  const parts = [...text.matchAll(/(\d+(?:\.\d+)?)\s*([a-z]+)/g)];
+  if (!/^(\d+(\.\d+)?\s*[a-z]+\s*)+$/.test(text) || parts.some(part => UNIT_MINUTES[part[2]] === undefined)) {
+    throw new ValidationError(field, input, DURATION_HINT);
+  }
+
+  const minutes = parts.reduce((sum, part) => sum + Number(part[1]) * UNIT_MINUTES[part[2]], 0);
+  return parseDuration(minutes, field);
+}
+
+/**
+ * Parses an ISO date or datetime used as the start or end of an entry
+ */
+export function parseTimestamp(input: string, field: string): Date {
+  const date = typeof input === 'string' && /^\d{4}-\d{2}-\d{2}/.test(input.trim()) ? new Date(input.trim()) : new Date(NaN);
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(field, input, 'must be an ISO datetime such as 2026-03-02T09:30:00');
+  }
+  return date;
+}
+
+/**
+ * Minutes covered by an entry; a running entry counts up to `now`
+ */
+export function entryMinutes(entry: TimeEntry, now: Date = new Date()): number {
+  const end = entry.end ? new Date(entry.end) : now;
+  return Math.max(0, (end.getTime() - new Date(entry.start).getTime()) / 60000);
+}
+
+/**
+ * Total minutes of a list of entries
+ */
+export function totalMinutes(entries: TimeEntry[] | undefined, now: Date = new Date()): number {
+  return (entries ?? []).reduce((sum, entry) => sum + entryMinutes(entry, now), 0);
+}
+
+/**
+ * Formats minutes as e.g. "1h 30m", "45m" or "0m"
+ */
+export function formatDuration(minutes: number): string {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
@@ -61,3 +61,20 @@ export function clearVersionCache(): void {
   cachedVersion = null;
   cachedPackageJson = null;
 }
+
+/**
+ * Compares two dotted version strings numerically.
+ *
+ * @returns A negative number if `a` is older than `b`, 0 if equal, positive if newer.
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(part => parseInt(part, 10) || 0);
+  const partsB = b.split('.').map(part => parseInt(part, 10) || 0);
+  const length = Math.max(partsA.length, partsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
@@ -5,6 +5,7 @@
  */
 
 import { MemoryPickleCore } from '../../src/core/MemoryPickleCore.js';
+import type { Task } from '../../src/types/index.js';
 
 export class TestCoreUtils {
   /**
@@ -142,6 +143,24 @@ export class TestCoreUtils {
     return match[1];
   }
 
+  /**
+   * Extract the ID from an MCP tool response
+   */
+  static extractResponseId(response: any): string {
+    return this.extractId(response.content[0].text);
+  }
+
+  /**
+   * Find a task in the current database by its title
+   */
+  static findTaskByTitle(core: MemoryPickleCore, title: string): Task {
+    const task = core.getDatabase().tasks.find(t => t.title === title);
+    if (!task) {
+      throw new Error(`Task '${title}' not found`);
+    }
+    return task;
+  }
+
   /**
    * Wait for a specific amount of time (useful for timing tests)
    */
@@ -0,0 +1,80 @@
+/**
+ * Integration Tests for Batch Workflows
+ *
+ * Tests running create, update and complete operations in one transaction,
+ * references to tasks created earlier in the batch and all-or-nothing failure
+ */
+
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+import { TestCoreUtils } from '../../helpers/TestCoreUtils.js';
+
+describe('Batch Workflows Integration', () => {
+  let core: MemoryPickleCore;
+
+  beforeEach(async () => {
+    core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+    await core.create_project({ name: 'Checkout' });
+    await core.create_task({ title: 'Spike' });
+  });
+
+  it('should create a plan with references in one undoable step', async () => {
+    const response = await core.batch({
+      operations: [
+        { op: 'create', title: 'Redesign', priority: 'high' },
+        { op: 'create', title: 'Payment form', parent_id: '$1', estimate: '3h' },
+        { op: 'create', title: 'Confirmation email', parent_id: '$1', depends_on: ['$2'], estimate: '1h' },
+        { op: 'update', task_id: '$2', add_tags: ['frontend'] },
+        { op: 'complete', task_id: TestCoreUtils.findTaskByTitle(core, 'Spike').id }
+      ]
+    });
+
+    const text = response.content[0].text;
+    expect(text).toContain('[OK] **Batch Completed** (5 operations)');
+    expect(text).toContain(`2. Created **Payment form** (${TestCoreUtils.findTaskByTitle(core, 'Payment form').id}) under Redesign`);
+    expect(text).toContain(`4. Updated **Payment form** (${TestCoreUtils.findTaskByTitle(core, 'Payment form').id}): add_tags`);
+    expect(text).toContain(`5. Completed **Spike** (${TestCoreUtils.findTaskByTitle(core, 'Spike').id})`);
+
+    expect(TestCoreUtils.findTaskByTitle(core, 'Payment form').parent_id).toBe(TestCoreUtils.findTaskByTitle(core, 'Redesign').id);
+    expect(TestCoreUtils.findTaskByTitle(core, 'Confirmation email').depends_on).toEqual([TestCoreUtils.findTaskByTitle(core, 'Payment form').id]);
+    expect(TestCoreUtils.findTaskByTitle(core, 'Redesign').subtasks).toEqual([TestCoreUtils.findTaskByTitle(core, 'Payment form').id, TestCoreUtils.findTaskByTitle(core, 'Confirmation email').id]);
+    expect(TestCoreUtils.findTaskByTitle(core, 'Redesign').estimate).toEqual({ value: 4, unit: 'hours' });
+    expect(TestCoreUtils.findTaskByTitle(core, 'Payment form').tags).toEqual(['frontend']);
+    expect(core.getDatabase().projects[0].completion_percentage).toBe(25);
+
+    await core.undo();
+    expect(core.getDatabase().tasks.map(t => t.title)).toEqual(['Spike']);
+    expect(TestCoreUtils.findTaskByTitle(core, 'Spike').status).toBe('todo');
+  });
+
+  it('should leave the database untouched when any operation fails', async () => {
+    const before = core.getDatabase();
+
+    await expect(core.batch({
+      operations: [
+        { op: 'create', title: 'Redesign' },
+        { op: 'complete', task_id: TestCoreUtils.findTaskByTitle(core, 'Spike').id },
+        { op: 'update', task_id: 'task_missing', priority: 'low' }
+      ]
+    })).rejects.toThrow('batch: Operation 3 (update) failed: Task not found: task_missing. No changes were made.');
+    expect(core.getDatabase()).toBe(before);
+
+    await expect(core.batch({ operations: [{ op: 'create', title: 'Child', parent_id: '$2' }, { op: 'create', title: 'Parent' }] }))
+      .rejects.toThrow("Operation 1 (create) failed: Validation failed for field 'parent_id': must refer to a create operation earlier in the batch");
+    await expect(core.batch({ operations: [{ op: 'create', title: 'Ok' }, { op: 'delete', task_id: TestCoreUtils.findTaskByTitle(core, 'Spike').id }] }))
+      .rejects.toThrow("Operation 2 (delete) failed: Validation failed for field 'op'");
+    await expect(core.batch({ operations: [] })).rejects.toThrow("Validation failed for field 'operations'");
+    expect(core.getDatabase().tasks).toHaveLength(1);
+  });
+
+  it('should run every operation on a dry run without saving', async () => {
+    const preview = await core.batch({
+      operations: [{ op: 'create', title: 'Redesign' }, { op: 'complete', task_id: '$1' }],
+      dry_run: true
+    });
+
+    expect(preview.isError).toBe(false);
+    expect(preview.content[0].text).toMatch(/^\[DRY RUN\] batch: Would run 2 operations:\n\n1\. Created \*\*Redesign\*\*.*\n2\. Completed \*\*Redesign\*\*/);
+    expect(core.getDatabase().tasks.map(t => t.title)).toEqual(['Spike']);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Integration Tests for Configuration Workflows
+ *
+ * Tests loading settings from the config file and environment variables and
+ * applying them to store limits and tool defaults
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+import { CONFIG_FILE_NAME, DEFAULT_CONFIG, loadConfig } from '../../../src/config/settings.js';
+
+describe('Configuration Workflows Integration', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'memory-pickle-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeConfig = (config: unknown, name: string = CONFIG_FILE_NAME) => {
+    const file = join(tempDir, name);
+    writeFileSync(file, JSON.stringify(config));
+    return file;
+  };
+
+  it('should let environment variables override the config file and report each source', () => {
+    const file = writeConfig({ limits: { max_tasks: 200, max_memories: 50 }, defaults: { task_priority: 'high' } });
+
+    const config = loadConfig([], { MEMORY_PICKLE_MAX_TASKS: '300', MEMORY_PICKLE_OUTPUT_FORMAT: 'json' }, tempDir);
+
+    expect(config.file).toBe(file);
+    expect(config.values.limits).toEqual({ ...DEFAULT_CONFIG.limits, max_tasks: 300, max_memories: 50 });
+    expect(config.values.defaults.task_priority).toBe('high');
+    expect(config.values.defaults.output_format).toBe('json');
+    expect(config.sources['limits.max_tasks']).toEqual({ source: 'env', origin: 'MEMORY_PICKLE_MAX_TASKS' });
+    expect(config.sources['limits.max_memories']).toEqual({ source: 'file', origin: file });
+    expect(config.sources['limits.max_projects']).toEqual({ source: 'default' });
+  });
+
+  it('should reject invalid values, unknown keys and missing explicit files', () => {
+    writeConfig({ limits: { max_tasks: -1 } });
+    expect(() => loadConfig([], {}, tempDir)).toThrow(/limits\.max_tasks \(.*\.memory-pickle\.json\)/);
+
+    writeConfig({ defaults: { colour: 'blue' } });
+    expect(() => loadConfig([], {}, tempDir)).toThrow("Unrecognized key(s) in object: 'colour'");
+
+    expect(() => loadConfig([], { MEMORY_PICKLE_RECALL_LIMIT: 'many' }, join(tempDir, 'empty')))
+      .toThrow('defaults.recall_limit (MEMORY_PICKLE_RECALL_LIMIT): Expected number, received string');
+
+    expect(() => loadConfig(['--config', 'missing.json'], {}, tempDir)).toThrow('file not found');
+  });
+
+  it('should apply configured limits and defaults to the tools', async () => {
+    const file = writeConfig({ limits: { max_tasks: 2 } }, 'custom.json');
+    const config = loadConfig([], {
+      MEMORY_PICKLE_CONFIG: file,
+      MEMORY_PICKLE_DEFAULT_PRIORITY: 'low',
+      MEMORY_PICKLE_DEFAULT_IMPORTANCE: 'critical'
+    }, tempDir);
+
+    const core = await MemoryPickleCore.create({ config });
+    (global as any).trackCoreInstance(core);
+
+    await core.create_project({ name: 'Configured' });
+    const task = await core.create_task({ title: 'First' });
+    expect(task.content[0].text).toContain('**Priority:** low');
+
+    const memory = await core.remember_this({ content: 'Uses the configured importance' });
+    expect(memory.content[0].text).toContain('**Importance:** critical');
+
+    await core.create_task({ title: 'Second' });
+    await expect(core.create_task({ title: 'Third' })).rejects.toThrow('Too many tasks: 3. Maximum allowed: 2');
+    expect(core.getDatabase().tasks).toHaveLength(2);
+
+    const report = (await core.get_config()).content[0].text;
+    expect(report).toContain(`**Config file:** ${file}`);
+    expect(report).toContain(`- max_tasks: 2 (file ${file})`);
+    expect(report).toContain('- task_priority: low (env MEMORY_PICKLE_DEFAULT_PRIORITY)');
+    expect(report).toContain('- max_projects: 1000 (default)');
+
+    const json = JSON.parse((await core.get_config({ format: 'json' })).content[0].text);
+    expect(json.values.limits.max_tasks).toBe(2);
+    expect(json.sources['defaults.memory_importance'].source).toBe('env');
+  });
+});
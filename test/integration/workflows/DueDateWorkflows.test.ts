@@ -0,0 +1,80 @@
+/**
+ * Integration Tests for Due Date Workflows
+ *
+ * Tests setting due dates on create and update, the due window and sort order
+ * of list_tasks and the overdue and due-soon sections of recall_state
+ */
+
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+import { TestCoreUtils } from '../../helpers/TestCoreUtils.js';
+import { parseDueDate, shiftDate, toDateString } from '../../../src/utils/dueDates.js';
+
+describe('Due Date Workflows Integration', () => {
+  let core: MemoryPickleCore;
+  const today = toDateString(new Date());
+  const daysFromToday = (days: number) => shiftDate(today, days, 'day');
+
+  beforeEach(async () => {
+    core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+
+    await core.create_project({ name: 'Release' });
+    await core.create_task({ title: 'Write notes', due_date: 'tomorrow' });
+    await core.create_task({ title: 'Fix login', priority: 'critical', due_date: daysFromToday(-2) });
+    await core.create_task({ title: 'Plan roadmap', priority: 'low', due_date: 'in 2 weeks' });
+    await core.create_task({ title: 'Tidy backlog' });
+  });
+
+  it('should parse due dates on create and change or clear them on update', async () => {
+    expect(TestCoreUtils.findTaskByTitle(core, 'Write notes').due_date).toBe(daysFromToday(1));
+    expect(TestCoreUtils.findTaskByTitle(core, 'Plan roadmap').due_date).toBe(daysFromToday(14));
+
+    const created = await core.create_task({ title: 'Ship build', due_date: 'today' });
+    expect(created.content[0].text).toContain(`**Due:** ${today} (due today)`);
+
+    const updated = await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Tidy backlog').id, due_date: 'friday' });
+    expect(updated.content[0].text).toContain(`Due: ${parseDueDate('friday')}`);
+
+    const cleared = await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Tidy backlog').id, due_date: null });
+    expect(cleared.content[0].text).toContain('Due: cleared');
+    expect(TestCoreUtils.findTaskByTitle(core, 'Tidy backlog').due_date).toBeUndefined();
+
+    await expect(core.create_task({ title: 'Bad', due_date: 'whenever' })).rejects.toThrow("Validation failed for field 'due_date'");
+    await expect(core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Write notes').id, due_date: '2026-13-01' })).rejects.toThrow("Validation failed for field 'due_date'");
+  });
+
+  it('should filter list_tasks by due window and sort by due date', async () => {
+    const window = (await core.list_tasks({ due_after: 'yesterday', due_before: 'in 1 week' })).content[0].text;
+    expect(window).toContain('**Total Tasks:** 1');
+    expect(window).toContain(`**Due:** ${daysFromToday(-1)} to ${daysFromToday(7)}`);
+    expect(window).toContain(`   Due: ${daysFromToday(1)} (due tomorrow)`);
+
+    const sorted = (await core.list_tasks({ sort_by: 'due_date' })).content[0].text;
+    const order = ['Fix login', 'Write notes', 'Plan roadmap', 'Tidy backlog'].map(title => sorted.indexOf(`**${title}**`));
+    expect(order).toEqual([...order].sort((a, b) => a - b));
+    expect(sorted).toContain('**Sorted By:** due_date');
+
+    await expect(core.list_tasks({ sort_by: 'title' })).rejects.toThrow("Validation failed for field 'sort_by'");
+    await expect(core.list_tasks({ due_before: 'later' })).rejects.toThrow("Validation failed for field 'due_before'");
+  });
+
+  it('should report overdue and due-soon tasks in recall_state', async () => {
+    await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Tidy backlog').id, blockers: ['Waiting on triage'] });
+
+    const state = JSON.parse((await core.recall_state({ format: 'json' })).content[0].text);
+    expect(state.overdue_tasks.map((t: any) => t.title)).toEqual(['Fix login']);
+    expect(state.due_soon_tasks.map((t: any) => t.title)).toEqual(['Write notes']);
+    expect(state.blocked_tasks.map((t: any) => t.title)).toEqual(['Tidy backlog']);
+    expect(state.task_stats).toMatchObject({ overdue: 1, due_soon: 1 });
+
+    const text = (await core.recall_state()).content[0].text;
+    expect(text).toContain(`## ⚠️ Overdue Tasks (1)\n1. **Fix login** (critical)\n   Due: ${daysFromToday(-2)} (2 days overdue)`);
+    expect(text).toContain('## ⏰ Due Soon (1)\n1. **Write notes** (medium)\n   Due:');
+    expect(text).toContain('## 🚫 Blocked Tasks (1)\n1. **Tidy backlog** (medium)\n   Blocked: Waiting on triage');
+
+    // Completed tasks are no longer overdue
+    await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Fix login').id, completed: true });
+    const after = JSON.parse((await core.recall_state({ format: 'json' })).content[0].text);
+    expect(after.overdue_tasks).toEqual([]);
+  });
+});
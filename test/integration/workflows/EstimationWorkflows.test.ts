@@ -0,0 +1,96 @@
+/**
+ * Integration Tests for Estimation Workflows
+ *
+ * Tests setting estimates, rolling them up to parent tasks, using them in the
+ * project schedule and comparing them with actual time in estimation_report
+ */
+
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+import { TestCoreUtils } from '../../helpers/TestCoreUtils.js';
+
+describe('Estimation Workflows Integration', () => {
+  let core: MemoryPickleCore;
+
+  beforeEach(async () => {
+    core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+    await core.create_project({ name: 'Checkout' });
+  });
+
+  it('should roll subtask estimates up to their parents', async () => {
+    await core.create_task({ title: 'Payment flow' });
+    await core.create_task({ title: 'Card form', parent_id: TestCoreUtils.findTaskByTitle(core, 'Payment flow').id, estimate: '3h' });
+    const created = await core.create_task({ title: 'Receipts', parent_id: TestCoreUtils.findTaskByTitle(core, 'Payment flow').id, estimate: 2 });
+    expect(created.content[0].text).toContain('**Estimate:** 2h');
+    expect(TestCoreUtils.findTaskByTitle(core, 'Payment flow').estimate).toEqual({ value: 5, unit: 'hours' });
+    expect(TestCoreUtils.findTaskByTitle(core, 'Payment flow').subtasks).toEqual([TestCoreUtils.findTaskByTitle(core, 'Card form').id, TestCoreUtils.findTaskByTitle(core, 'Receipts').id]);
+
+    await expect(core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Payment flow').id, estimate: '8h' }))
+      .rejects.toThrow('is rolled up from subtasks');
+
+    const updated = await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Card form').id, estimate: '4h30m' });
+    expect(updated.content[0].text).toContain('Estimate: 4.5h');
+    expect(TestCoreUtils.findTaskByTitle(core, 'Payment flow').estimate).toEqual({ value: 6.5, unit: 'hours' });
+
+    // Cancelled and deleted subtasks drop out of the sum
+    await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Receipts').id, status: 'cancelled' });
+    expect(TestCoreUtils.findTaskByTitle(core, 'Payment flow').estimate).toEqual({ value: 4.5, unit: 'hours' });
+    await core.create_task({ title: 'Refunds', parent_id: TestCoreUtils.findTaskByTitle(core, 'Payment flow').id, estimate: '1h' });
+    await core.delete_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Refunds').id });
+    expect(TestCoreUtils.findTaskByTitle(core, 'Payment flow').estimate).toEqual({ value: 4.5, unit: 'hours' });
+
+    const details = (await core.get_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Payment flow').id })).content[0].text;
+    expect(details).toContain('**Estimate:** 4.5h (from subtasks)');
+
+    // Mixed units cannot be added up, so the parent keeps its estimate
+    await core.create_task({ title: 'Wallets', parent_id: TestCoreUtils.findTaskByTitle(core, 'Payment flow').id, estimate: '5 points' });
+    expect(TestCoreUtils.findTaskByTitle(core, 'Payment flow').estimate).toEqual({ value: 4.5, unit: 'hours' });
+
+    await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Wallets').id, estimate: null });
+    expect(TestCoreUtils.findTaskByTitle(core, 'Wallets').estimate).toBeUndefined();
+    await expect(core.create_task({ title: 'Bad', estimate: 'soon' })).rejects.toThrow("Validation failed for field 'estimate'");
+  });
+
+  it('should schedule tasks by their hour estimates', async () => {
+    await core.create_task({ title: 'Design', estimate: '4h' });
+    await core.create_task({ title: 'Build', depends_on: [TestCoreUtils.findTaskByTitle(core, 'Design').id], estimate: '3 points' });
+
+    const schedule = JSON.parse((await core.project_schedule({ default_duration: 2 })).content[1].text);
+    expect(schedule.project_duration).toBe(6);
+    expect(schedule.tasks.find((t: any) => t.title === 'Design').duration).toBe(4);
+  });
+
+  it('should report which tags and priorities run over their estimates', async () => {
+    await core.create_task({ title: 'Migrate orders', priority: 'high', tags: ['database'], estimate: '2h' });
+    await core.create_task({ title: 'Index carts', tags: ['database'], estimate: '1h' });
+    await core.create_task({ title: 'Button copy', tags: ['frontend'], estimate: '2h' });
+    await core.create_task({ title: 'Not started', estimate: '1h' });
+    await core.create_task({ title: 'Sized', estimate: '3 points' });
+    await core.log_time({ task_id: TestCoreUtils.findTaskByTitle(core, 'Migrate orders').id, duration: '5h' });
+    await core.log_time({ task_id: TestCoreUtils.findTaskByTitle(core, 'Index carts').id, duration: '1h' });
+    await core.log_time({ task_id: TestCoreUtils.findTaskByTitle(core, 'Button copy').id, duration: '1h' });
+    for (const title of ['Migrate orders', 'Index carts', 'Button copy', 'Sized']) {
+      await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, title).id, completed: true });
+    }
+
+    const result = await core.estimation_report({ actual: 'logged' });
+    const text = result.content[0].text;
+    expect(text).toContain('**Compared:** 3 completed tasks estimated in hours | **Actual:** logged time');
+    expect(text).toContain('**Skipped:** 1 estimated in points');
+    expect(text).toContain('**Overall:** estimated 5h, took 7h - ratio 1.4 [UNDERESTIMATED]');
+    expect(text).toContain('1. **database** (2 tasks) - estimated 3h, took 6h - ratio 2 [UNDERESTIMATED]');
+    expect(text).toContain('2. **frontend** (1 task) - estimated 2h, took 1h - ratio 0.5 [OVERESTIMATED]');
+    expect(text).toContain('1. **high** (1 task) - estimated 2h, took 5h - ratio 2.5 [UNDERESTIMATED]');
+    expect(text).toContain('## Most Underestimated Tasks\n1. **Migrate orders** (high)');
+
+    const json = JSON.parse(result.content[1].text);
+    expect(json.by_priority.map((g: any) => g.key)).toEqual(['high', 'medium']);
+    expect(json.skipped).toEqual({ unestimated: 0, other_unit: 1, no_actual: 0 });
+
+    // Points are compared by hours per point; "Sized" has no logged time, so elapsed time is used
+    const points = JSON.parse((await core.estimation_report({ unit: 'points' })).content[1].text);
+    expect(points.tasks).toEqual([expect.objectContaining({ title: 'Sized', actual_source: 'elapsed', ratio: 1 })]);
+
+    await expect(core.estimation_report({ actual: 'guessed' })).rejects.toThrow("Validation failed for field 'actual'");
+  });
+});
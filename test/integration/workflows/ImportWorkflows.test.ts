@@ -0,0 +1,149 @@
+/**
+ * Integration Tests for Session Import Workflows
+ *
+ * Tests round-tripping export_session JSON through import_session
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+import { TestCoreUtils } from '../../helpers/TestCoreUtils.js';
+import { ValidationUtils } from '../../../src/utils/ValidationUtils.js';
+
+describe('Import Workflows Integration', () => {
+  let source: MemoryPickleCore;
+  let target: MemoryPickleCore;
+
+  const createCore = async () => {
+    const core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+    return core;
+  };
+
+  const exportJson = async (core: MemoryPickleCore) =>
+    (await core.export_session({ format: 'json' })).content[0].text;
+
+  beforeEach(async () => {
+    source = await createCore();
+    target = await createCore();
+
+    await source.create_project({ name: 'Exported Project' });
+    const task = await source.create_task({ title: 'Exported task' });
+    const taskId = TestCoreUtils.extractResponseId(task);
+    await source.create_task({ title: 'Exported subtask', parent_id: taskId });
+    await source.remember_this({ title: 'Exported memory', content: 'Linked to the task', task_id: taskId });
+  });
+
+  it('should round-trip the export_session response in replace mode', async () => {
+    await target.create_project({ name: 'Replaced Project' });
+
+    const response = await target.import_session({ data: await exportJson(source), mode: 'replace' });
+    expect(response.content[0].text).toContain('Session Imported (replace)');
+    expect(response.content[0].text).toContain('**Removed:** 1 projects, 0 tasks, 0 memories');
+
+    const imported = target.getDatabase();
+    const original = source.getDatabase();
+    expect(imported.projects).toEqual(original.projects);
+    expect(imported.tasks).toEqual(original.tasks);
+    expect(imported.memories).toEqual(original.memories);
+    expect(imported.meta.current_project_id).toBe(original.meta.current_project_id);
+    expect(target.getTaskIndex().size).toBe(2);
+  });
+
+  it('should skip identical items and remap colliding IDs when merging', async () => {
+    const exported = await exportJson(source);
+    await target.import_session({ data: exported });
+
+    // Change the source task so the same ID now carries different content
+    const parent = source.getDatabase().tasks.find(t => t.title === 'Exported task')!;
+    await source.update_task({ task_id: parent.id, title: 'Renamed in source' });
+
+    const response = await target.import_session({ data: await exportJson(source), mode: 'merge' });
+    const text = response.content[0].text;
+
+    expect(text).toContain('**Added:** 0 projects, 1 tasks, 0 memories');
+    expect(text).toContain('**Skipped (already present):** 1 projects, 1 tasks, 1 memories');
+    expect(text).toContain('**Conflicted (imported under new IDs):** 1');
+    expect(text).toContain(`task 'Renamed in source': ${parent.id} ->`);
+
+    const database = target.getDatabase();
+    const renamed = database.tasks.find(t => t.title === 'Renamed in source')!;
+    expect(renamed.id).not.toBe(parent.id);
+    expect(renamed.project_id).toBe(parent.project_id);
+    expect(database.tasks.find(t => t.id === parent.id)!.title).toBe('Exported task');
+  });
+
+  it('should link re-imported tasks into existing projects and parents without forking the project', async () => {
+    await target.import_session({ data: await exportJson(source) });
+
+    // Diverge the source: a new subtask, a completion and a renamed parent
+    const parent = source.getDatabase().tasks.find(t => t.title === 'Exported task')!;
+    const subtask = source.getDatabase().tasks.find(t => t.title === 'Exported subtask')!;
+    await source.create_task({ title: 'Added in source', parent_id: parent.id });
+    await source.update_task({ task_id: subtask.id, completed: true });
+    await source.update_task({ task_id: parent.id, title: 'Renamed in source' });
+
+    const response = await target.import_session({ data: await exportJson(source), mode: 'merge' });
+    expect(response.content[0].text).toContain('**Added:** 0 projects, 3 tasks, 0 memories');
+
+    const database = target.getDatabase();
+    expect(database.projects).toHaveLength(1);
+    const project = database.projects[0];
+    const byTitle = (title: string) => database.tasks.filter(t => t.title === title);
+    const [renamed] = byTitle('Renamed in source');
+    const [added] = byTitle('Added in source');
+    const completedCopy = byTitle('Exported subtask').find(t => t.id !== subtask.id)!;
+
+    expect(project.tasks).toEqual([parent.id, subtask.id, renamed.id, completedCopy.id, added.id]);
+    expect(added.parent_id).toBe(renamed.id);
+    expect(completedCopy.parent_id).toBe(renamed.id);
+    expect(renamed.subtasks).toEqual([completedCopy.id, added.id]);
+    expect(database.tasks.find(t => t.id === parent.id)!.subtasks).toEqual([subtask.id]);
+    expect(ValidationUtils.validateReferentialIntegrity(database)).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('should import from a file path and report without changes on dry run', async () => {
+    const tempDir = mkdtempSync(join(tmpdir(), 'memory-pickle-import-'));
+    try {
+      const filePath = join(tempDir, 'export.json');
+      const exported = await exportJson(source);
+      writeFileSync(filePath, exported.match(/```json\n([\s\S]*?)\n```/)![1]);
+
+      const preview = await target.import_session({ file_path: filePath, dry_run: true });
+      expect(preview.content[0].text).toContain('[DRY RUN]');
+      expect(preview.content[0].text).toContain('**Would be Added:** 1 projects, 2 tasks, 1 memories');
+      expect(target.getDatabase().projects).toHaveLength(0);
+
+      await target.import_session({ file_path: filePath });
+      expect(target.getDatabase().tasks).toHaveLength(2);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should merge a diverged export into the current session', async () => {
+    const base = await exportJson(source);
+    await target.import_session({ data: base, mode: 'replace' });
+
+    const parent = source.getDatabase().tasks.find(t => t.title === 'Exported task')!;
+    await source.update_task({ task_id: parent.id, notes: 'Added on the source machine' });
+    await target.update_task({ task_id: parent.id, blockers: ['Found on the target machine'] });
+
+    const response = await target.merge_sessions({ base, theirs: await exportJson(source), apply: true });
+    expect(response.content[0].text).toContain('Sessions Merged and Applied');
+    expect(response.content[0].text).toContain('**Conflicts:** 0');
+
+    const merged = target.getDatabase().tasks.find(t => t.id === parent.id)!;
+    expect(merged.notes.some(note => note.includes('Added on the source machine'))).toBe(true);
+    expect(merged.blockers).toEqual(['Found on the target machine']);
+  });
+
+  it('should reject documents that do not match the schema', async () => {
+    await expect(target.import_session({ data: '{"database":{"projects":[{"id":1}]}}' }))
+      .rejects.toThrow('must match the session schema');
+    await expect(target.import_session({ data: 'not json' }))
+      .rejects.toThrow('must be export_session JSON output');
+    expect(target.getDatabase().projects).toHaveLength(0);
+  });
+});
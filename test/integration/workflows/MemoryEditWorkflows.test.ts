@@ -0,0 +1,98 @@
+/**
+ * Integration Tests for Memory Edit Workflows
+ *
+ * Tests correcting memories with revision history, unlinking them and
+ * deleting them with reference cleanup
+ */
+
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+
+describe('Memory Edit Workflows Integration', () => {
+  let core: MemoryPickleCore;
+  let projectId: string;
+  let memoryId: string;
+
+  beforeEach(async () => {
+    core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+
+    await core.create_project({ name: 'Auth' });
+    projectId = core.getDatabase().meta.current_project_id!;
+    await core.remember_this({
+      title: 'Auth decision',
+      content: 'Use JWT tokens',
+      importance: 'medium',
+      project_id: projectId,
+      line_range: { start_line: 3, end_line: 9, file_path: 'src/auth.ts' }
+    });
+    memoryId = core.getDatabase().memories[0].id;
+  });
+
+  it('should keep the previous version as a revision when a memory is corrected', async () => {
+    const preview = await core.update_memory({ memory_id: memoryId, content: 'Use session cookies', dry_run: true });
+    expect(preview.content[0].text).toContain("[DRY RUN] update_memory: Would update content of memory 'Auth decision' and keep the current version as revision 1");
+    expect(core.getDatabase().memories[0].content).toBe('Use JWT tokens');
+
+    const response = await core.update_memory({ memory_id: memoryId, content: 'Use session cookies', importance: 'high', tags: ['auth'] });
+    expect(response.content[0].text).toContain('**Changed:** content, importance, tags');
+    expect(response.content[0].text).toContain('**Revisions:** 1');
+
+    const memory = core.getDatabase().memories[0];
+    expect(memory.content).toBe('Use session cookies');
+    expect(memory.updated_date).toBeDefined();
+    expect(memory.revisions).toHaveLength(1);
+    expect(memory.revisions![0]).toMatchObject({ content: 'Use JWT tokens', importance: 'medium', tags: [] });
+
+    const details = (await core.get_memory({ memory_id: memoryId })).content[0].text;
+    expect(details).toContain('**Project:** Auth');
+    expect(details).toContain('**Lines:** src/auth.ts:3-9');
+    expect(details).toContain('## Content\nUse session cookies');
+    expect(details).toContain('## Revisions (1)');
+    expect(details).toContain('Use JWT tokens');
+
+    const unchanged = await core.update_memory({ memory_id: memoryId, content: 'Use session cookies' });
+    expect(unchanged.content[0].text).toContain('already has these values');
+    expect(core.getDatabase().memories[0].revisions).toHaveLength(1);
+  });
+
+  it('should remove links with null and validate new ones', async () => {
+    await core.update_memory({ memory_id: memoryId, project_id: null, line_range: null });
+
+    const memory = core.getDatabase().memories[0];
+    expect(memory.project_id).toBeUndefined();
+    expect(memory.line_range).toBeUndefined();
+    expect(memory.revisions![0].project_id).toBe(projectId);
+
+    await expect(core.update_memory({ memory_id: memoryId, task_id: 'task_missing' })).rejects.toThrow("Task 'task_missing' not found");
+    await expect(core.update_memory({ memory_id: memoryId, title: '   ' })).rejects.toThrow();
+    await expect(core.update_memory({ memory_id: 'mem_missing', title: 'x' })).rejects.toThrow(`Memory 'mem_missing' not found. Available memories: ${memoryId}`);
+  });
+
+  it('should delete a memory and remove references to it', async () => {
+    // Related memories only arrive through imports
+    const exportText = (await core.export_session({ format: 'json' })).content[0].text;
+    const exported = JSON.parse(exportText.match(/```json\s*([\s\S]*?)```/)![1]);
+    exported.database.memories.push({
+      ...exported.database.memories[0],
+      id: 'mem_related',
+      title: 'Follow-up',
+      related_memories: [memoryId]
+    });
+    await core.import_session({ data: JSON.stringify(exported), mode: 'replace' });
+
+    const preview = await core.delete_memory({ memory_id: memoryId, dry_run: true });
+    expect(preview.content[0].text).toContain('**References removed from:** Follow-up (mem_related)');
+    expect(core.getDatabase().memories).toHaveLength(2);
+
+    const response = await core.delete_memory({ memory_id: memoryId });
+    expect(response.content[0].text).toContain('[OK] **Memory Deleted**');
+
+    const database = core.getDatabase();
+    expect(database.memories.map(m => m.id)).toEqual(['mem_related']);
+    expect(database.memories[0].related_memories).toEqual([]);
+
+    await core.undo();
+    expect(core.getDatabase().memories).toHaveLength(2);
+    await expect(core.get_memory({ memory_id: 'mem_gone' })).rejects.toThrow("Memory 'mem_gone' not found");
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Integration Tests for Memory Category and Tag Workflows
+ *
+ * Tests classifying memories on create and update, filtering recall by
+ * category and tags, and summarizing tag usage per project
+ */
+
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+
+describe('Memory Tag Workflows Integration', () => {
+  let core: MemoryPickleCore;
+  let apiId: string;
+  let webId: string;
+
+  beforeEach(async () => {
+    core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+
+    await core.create_project({ name: 'API' });
+    apiId = core.getDatabase().meta.current_project_id!;
+    await core.create_project({ name: 'Web' });
+    webId = core.getDatabase().meta.current_project_id!;
+
+    await core.remember_this({ title: 'Token format', content: 'Use JWT', category: 'decision', tags: ['auth', ' Security ', 'AUTH'], project_id: apiId });
+    await core.remember_this({ title: 'Error shape', content: 'Return problem+json', category: 'convention', tags: ['errors'], project_id: apiId });
+    await core.remember_this({ title: 'Login form', content: 'Uses the token endpoint', category: 'decision', tags: ['auth'], project_id: webId });
+    await core.remember_this({ title: 'Loose note', content: 'Unlinked context' });
+  });
+
+  it('should store category and normalized tags on create and update', async () => {
+    const memory = core.getDatabase().memories[0];
+    expect(memory.category).toBe('decision');
+    expect(memory.tags).toEqual(['auth', 'Security']);
+    expect(core.getDatabase().memories[3].category).toBe('general');
+
+    const saved = await core.remember_this({ content: 'Preview only', tags: ['x'], dry_run: true });
+    expect(saved.content[0].text).toContain("in category 'general' tagged x");
+
+    await core.update_memory({ memory_id: memory.id, category: 'architecture', tags: ['auth', 'jwt'] });
+    expect(core.getDatabase().memories[0]).toMatchObject({ category: 'architecture', tags: ['auth', 'jwt'] });
+
+    await expect(core.remember_this({ content: 'Bad tags', tags: 'auth' })).rejects.toThrow("Validation failed for field 'tags'");
+  });
+
+  it('should filter recall_context and recall_state by category and tags', async () => {
+    const decisions = (await core.recall_context({ category: 'Decision' })).content[0].text;
+    expect(decisions).toContain('Token format');
+    expect(decisions).toContain('Login form');
+    expect(decisions).not.toContain('Error shape');
+
+    const both = (await core.recall_context({ tags: ['auth', 'security'] })).content[0].text;
+    expect(both).toContain('Token format');
+    expect(both).toContain('**Tags:** auth, Security');
+    expect(both).not.toContain('Login form');
+
+    const state = JSON.parse((await core.recall_state({ project_id: apiId, memory_tags: ['errors'], format: 'json' })).content[0].text);
+    expect(state.recent_memories.map((m: any) => m.title)).toEqual(['Error shape']);
+
+    const text = (await core.recall_state({ project_id: apiId, memory_category: 'decision' })).content[0].text;
+    expect(text).toContain('**Token format** [decision] #auth #Security');
+    expect(text).not.toContain('Error shape');
+
+    await expect(core.recall_context({ tags: 'auth' })).rejects.toThrow("Validation failed for field 'tags'");
+    await expect(core.recall_state({ memory_tags: 'auth' })).rejects.toThrow("Validation failed for field 'memory_tags'");
+  });
+
+  it('should count tags and categories per project', async () => {
+    const summary = (await core.list_memory_tags()).content[0].text;
+    expect(summary).toContain(`## API (${apiId})\n**Memories:** 2\n**Categories:** convention (1), decision (1)\n**Tags:** auth (1), errors (1), Security (1)`);
+    expect(summary).toContain(`## Web (${webId})\n**Memories:** 1`);
+    expect(summary).toContain('## Unassigned\n**Memories:** 1\n**Categories:** general (1)\n**Tags:** none');
+
+    const json = JSON.parse((await core.list_memory_tags({ project_id: webId, format: 'json' })).content[0].text);
+    expect(json).toEqual([{ project_id: webId, project_name: 'Web', memory_count: 1, categories: { decision: 1 }, tags: { auth: 1 } }]);
+
+    await expect(core.list_memory_tags({ project_id: 'proj_missing' })).rejects.toThrow("Project 'proj_missing' not found");
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Integration Tests for Project Archive and Deletion Workflows
+ *
+ * Tests hiding archived projects from listings and recall, restoring them,
+ * and deleting projects with their tasks and memories
+ */
+
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+
+describe('Project Archive Workflows Integration', () => {
+  let core: MemoryPickleCore;
+  let oldProjectId: string;
+  let activeProjectId: string;
+
+  beforeEach(async () => {
+    core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+
+    await core.create_project({ name: 'Old Project', status: 'in_progress' });
+    oldProjectId = core.getDatabase().meta.current_project_id!;
+    await core.create_task({ title: 'Old task' });
+    await core.remember_this({ title: 'Old decision', content: 'Legacy approach', project_id: oldProjectId });
+
+    await core.create_project({ name: 'Active Project' });
+    activeProjectId = core.getDatabase().meta.current_project_id!;
+    await core.create_task({ title: 'Active task' });
+    await core.set_current_project({ project_id: oldProjectId });
+  });
+
+  it('should hide an archived project, its tasks and memories from listings and recall', async () => {
+    const archived = await core.archive_project({ project_id: oldProjectId });
+    expect(archived.content[0].text).toContain('**Current Project:** cleared');
+    expect(core.getDatabase().meta.current_project_id).toBeUndefined();
+
+    const recall = (await core.recall_state()).content[0].text;
+    expect(recall).toContain('**Projects:** 1 total');
+    expect(recall).toContain('**Tasks:** 1/1 active');
+    expect(recall).toContain('**Memories:** 0 stored');
+
+    expect((await core.list_projects()).content[0].text).not.toContain('Old Project');
+    expect((await core.list_tasks()).content[0].text).not.toContain('Old task');
+    expect((await core.recall_context({ query: 'Legacy' })).content[0].text).toContain('No Memories Found');
+
+    // Still reachable on request
+    expect((await core.list_projects({ status: 'archived' })).content[0].text).toContain('Old Project');
+    expect((await core.list_tasks({ project_id: oldProjectId })).content[0].text).toContain('Old task');
+    expect((await core.recall_state({ include_archived: true })).content[0].text).toContain('**Tasks:** 2/2 active');
+
+    await expect(core.archive_project({ project_id: oldProjectId })).rejects.toThrow('already archived');
+  });
+
+  it('should restore the previous status when unarchived', async () => {
+    await core.archive_project({ project_id: oldProjectId });
+
+    // Progress on a task of an archived project does not change its status
+    const oldTask = core.getDatabase().tasks.find(t => t.title === 'Old task')!;
+    await core.update_task({ task_id: oldTask.id, progress: 50 });
+    expect(core.getDatabase().projects.find(p => p.id === oldProjectId)!.status).toBe('archived');
+
+    const restored = await core.unarchive_project({ project_id: oldProjectId });
+    expect(restored.content[0].text).toContain('**Status:** in_progress');
+
+    const project = core.getDatabase().projects.find(p => p.id === oldProjectId)!;
+    expect(project.archived_date).toBeUndefined();
+    expect((await core.list_tasks()).content[0].text).toContain('Old task');
+    await expect(core.unarchive_project({ project_id: activeProjectId })).rejects.toThrow('is not archived');
+  });
+
+  it('should archive and unarchive through update_project status changes', async () => {
+    const archived = await core.update_project({ project_id: oldProjectId, status: 'archived' });
+    expect(archived.content[0].text).toContain('**Current Project:** cleared');
+
+    let project = core.getDatabase().projects.find(p => p.id === oldProjectId)!;
+    expect(project.archived_from_status).toBe('in_progress');
+    expect(project.archived_date).toBeDefined();
+    expect(core.getDatabase().meta.current_project_id).toBeUndefined();
+
+    // Back to the remembered status
+    await core.unarchive_project({ project_id: oldProjectId });
+    expect(core.getDatabase().projects.find(p => p.id === oldProjectId)!.status).toBe('in_progress');
+
+    // Leaving the archive with an explicit status drops the archive fields
+    await core.update_project({ project_id: oldProjectId, status: 'archived' });
+    await core.update_project({ project_id: oldProjectId, status: 'blocked' });
+    project = core.getDatabase().projects.find(p => p.id === oldProjectId)!;
+    expect(project.status).toBe('blocked');
+    expect(project.archived_from_status).toBeUndefined();
+    expect(project.archived_date).toBeUndefined();
+  });
+
+  it('should delete a project with its tasks and memories', async () => {
+    const preview = await core.delete_project({ project_id: oldProjectId, dry_run: true });
+    expect(preview.content[0].text).toContain('**Tasks deleted (1):**\n- Old task');
+    expect(preview.content[0].text).toContain('**Memories deleted (1):**\n- Old decision');
+    expect(preview.content[0].text).toContain('**Current project:** cleared');
+    expect(core.getDatabase().projects).toHaveLength(2);
+
+    await core.delete_project({ project_id: oldProjectId });
+
+    const database = core.getDatabase();
+    expect(database.projects.map(p => p.name)).toEqual(['Active Project']);
+    expect(database.tasks.map(t => t.title)).toEqual(['Active task']);
+    expect(database.memories).toHaveLength(0);
+    expect(database.meta.current_project_id).toBeUndefined();
+    expect(core.getSessionActivity().projectsCreated).toEqual([activeProjectId]);
+
+    await expect(core.delete_project({ project_id: oldProjectId })).rejects.toThrow("Project '" + oldProjectId + "' not found");
+  });
+});
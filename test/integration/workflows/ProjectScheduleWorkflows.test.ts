@@ -0,0 +1,68 @@
+/**
+ * Integration Tests for Project Schedule Workflows
+ *
+ * Tests critical path scheduling over task dependencies and subtasks
+ */
+
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+
+describe('Project Schedule Workflows Integration', () => {
+  let core: MemoryPickleCore;
+
+  beforeEach(async () => {
+    core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+    await core.create_project({ name: 'Launch' });
+  });
+
+  const taskId = (title: string) => core.getDatabase().tasks.find(t => t.title === title)!.id;
+  const schedule = async (args: any = {}) => {
+    const response = await core.project_schedule(args);
+    return { text: response.content[0].text, json: JSON.parse(response.content[1].text) };
+  };
+
+  it('should compute start times, slack and the critical path', async () => {
+    await core.create_task({ title: 'Design' });
+    await core.create_task({ title: 'Backend', depends_on: [taskId('Design')] });
+    await core.create_task({ title: 'Copy', depends_on: [taskId('Design')] });
+    await core.create_task({ title: 'Deploy', depends_on: [taskId('Backend')] });
+    await core.create_task({ title: 'Logo' });
+
+    const { text, json } = await schedule({ default_duration: 2 });
+    expect(json.project_duration).toBe(6);
+    expect(json.critical_path).toEqual([taskId('Design'), taskId('Backend'), taskId('Deploy')]);
+
+    const copy = json.tasks.find((t: any) => t.title === 'Copy');
+    expect(copy).toMatchObject({ earliest_start: 2, earliest_finish: 4, latest_start: 4, latest_finish: 6, slack: 2, critical: false });
+    expect(json.tasks.find((t: any) => t.title === 'Logo').slack).toBe(4);
+
+    expect(text).toContain('**Remaining Duration:** 6h (tasks without an estimate count as 2h)');
+    expect(text).toContain('**Critical Path:** Design -> Backend -> Deploy');
+    expect(text).toContain('## Critical Tasks (3)\nIf any of these slips, the project slips.\n1. **Design**');
+    expect(text).toContain('## Tasks With Slack (2)\n1. **Copy**');
+
+    // Progress shortens remaining work and completed tasks drop out
+    await core.update_task({ task_id: taskId('Design'), progress: 50 });
+    await core.update_task({ task_id: taskId('Backend'), completed: true });
+    const later = (await schedule({ default_duration: 2 })).json;
+    expect(later.project_duration).toBe(3);
+    expect(later.critical_path).toEqual([taskId('Design'), taskId('Copy')]);
+  });
+
+  it('should finish a parent task with its last subtask', async () => {
+    await core.create_task({ title: 'Backend' });
+    await core.create_task({ title: 'Model', parent_id: taskId('Backend') });
+    await core.create_task({ title: 'Routes', parent_id: taskId('Backend'), depends_on: [taskId('Model')] });
+    await core.create_task({ title: 'Release', depends_on: [taskId('Backend')] });
+
+    const { json } = await schedule();
+    expect(json.project_duration).toBe(3);
+    expect(json.critical_path).toEqual([taskId('Model'), taskId('Routes'), taskId('Release')]);
+    expect(json.tasks.find((t: any) => t.title === 'Backend')).toMatchObject({ duration: 0, earliest_finish: 2, critical: false });
+
+    // A subtask waiting on its own parent can never be scheduled
+    await core.update_task({ task_id: taskId('Model'), add_dependencies: [taskId('Backend')] });
+    await expect(core.project_schedule()).rejects.toThrow('wait on each other through dependencies or subtasks');
+    await expect(core.project_schedule({ default_duration: 0 })).rejects.toThrow("Validation failed for field 'default_duration'");
+  });
+});
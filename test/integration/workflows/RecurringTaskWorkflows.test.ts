@@ -0,0 +1,88 @@
+/**
+ * Integration Tests for Recurring Task Workflows
+ *
+ * Tests spawning the next occurrence when a recurring task is completed, ending
+ * a series by COUNT and listing and stopping series with task_series
+ */
+
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+import { shiftDate, toDateString } from '../../../src/utils/dueDates.js';
+
+describe('Recurring Task Workflows Integration', () => {
+  let core: MemoryPickleCore;
+
+  beforeEach(async () => {
+    core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+    await core.create_project({ name: 'Ops' });
+  });
+
+  const openInstance = (title: string) => core.getDatabase().tasks.find(t => t.title === title && !t.completed)!;
+  const complete = async (title: string) => (await core.update_task({ task_id: openInstance(title).id, completed: true })).content[0].text;
+
+  it('should spawn the next occurrence on completion and keep monthly dates on their day', async () => {
+    const created = await core.create_task({ title: 'Rotate API keys', due_date: '2030-01-31', recurrence: 'monthly', tags: ['security'], priority: 'high' });
+    expect(created.content[0].text).toContain('**Repeats:** monthly on day 31 (series series_');
+    const first = openInstance('Rotate API keys');
+
+    const response = await complete('Rotate API keys');
+    const second = openInstance('Rotate API keys');
+    expect(response).toContain(`Next occurrence: ${second.id} due 2030-02-28 (#2)`);
+    expect(second).toMatchObject({ series_id: first.series_id, occurrence: 2, priority: 'high', tags: ['security'], completed: false });
+
+    await complete('Rotate API keys');
+    expect(openInstance('Rotate API keys').due_date).toBe('2030-03-31');
+
+    // Reopening and completing an earlier instance does not spawn a duplicate
+    await core.update_task({ task_id: first.id, completed: false });
+    await core.update_task({ task_id: first.id, completed: true });
+    expect(core.getDatabase().tasks.filter(t => t.series_id === first.series_id)).toHaveLength(3);
+  });
+
+  it('should end a series after COUNT occurrences and skip missed ones', async () => {
+    // 2030-01-07 is a Monday
+    await core.create_task({ title: 'Standup notes', due_date: '2030-01-07', recurrence: 'FREQ=WEEKLY;BYDAY=MO,TH;COUNT=3' });
+    await complete('Standup notes');
+    expect(openInstance('Standup notes').due_date).toBe('2030-01-10');
+    await complete('Standup notes');
+    expect(openInstance('Standup notes')).toMatchObject({ due_date: '2030-01-14', occurrence: 3 });
+    expect(await complete('Standup notes')).toContain('has no occurrences left');
+    expect(openInstance('Standup notes')).toBeUndefined();
+
+    const today = toDateString(new Date());
+    await core.create_task({ title: 'Water plants', due_date: shiftDate(today, -5, 'day'), recurrence: 'every 2 days' });
+    await complete('Water plants');
+    expect(openInstance('Water plants')).toMatchObject({ due_date: shiftDate(today, 1, 'day'), occurrence: 4 });
+
+    await expect(core.create_task({ title: 'Bad', recurrence: 'FREQ=HOURLY' })).rejects.toThrow("Validation failed for field 'recurrence'");
+  });
+
+  it('should list and stop series', async () => {
+    await core.create_task({ title: 'Dependency audit', due_date: '2030-03-04', recurrence: 'weekly' });
+    await core.create_task({ title: 'One-off' });
+    await core.update_task({ task_id: openInstance('One-off').id, recurrence: 'every 2 weeks' });
+    await complete('Dependency audit');
+    const audit = openInstance('Dependency audit');
+
+    const list = (await core.task_series()).content[0].text;
+    expect(list).toContain('**Series:** 2 (2 active)');
+    expect(list).toContain(`**Dependency audit** [ACTIVE] - ${audit.series_id}\n   Repeats: weekly\n   Occurrences: 2 (1 completed)\n   Next: ${audit.id} due 2030-03-11`);
+    expect(list).toContain('Repeats: every 2 weeks');
+
+    const preview = await core.task_series({ action: 'stop', task_id: audit.id, dry_run: true });
+    expect(preview.content[0].text).toContain('[DRY RUN] task_series: Would stop series');
+
+    const stopped = await core.task_series({ action: 'stop', task_id: audit.id });
+    expect(stopped.content[0].text).toContain(`The open instance ${audit.id} stays on the task list but will not repeat.`);
+
+    const detail = (await core.task_series({ series_id: audit.series_id })).content[0].text;
+    expect(detail).toContain('[ENDED]');
+    expect(detail).toContain('   #2 [TODO]');
+
+    expect(await complete('Dependency audit')).not.toContain('Next occurrence');
+    expect(core.getDatabase().tasks.filter(t => t.title === 'Dependency audit')).toHaveLength(2);
+
+    await expect(core.task_series({ action: 'stop' })).rejects.toThrow("Missing required field 'series_id'");
+    await expect(core.task_series({ series_id: 'series_missing' })).rejects.toThrow("Validation failed for field 'series_id'");
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Integration Tests for Snapshot Workflows
+ *
+ * Tests capturing, listing and restoring named database snapshots
+ */
+
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+import { TestCoreUtils } from '../../helpers/TestCoreUtils.js';
+
+describe('Snapshot Workflows Integration', () => {
+  let core: MemoryPickleCore;
+
+  beforeEach(async () => {
+    core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+  });
+
+  it('should restore the database to the captured state', async () => {
+    await core.create_project({ name: 'Snapshot Project' });
+    const taskId = TestCoreUtils.extractResponseId(await core.create_task({ title: 'Keep me' }));
+
+    const snapshotId = TestCoreUtils.extractResponseId(await core.create_snapshot({ label: 'Clean state' }));
+
+    // A burst of bad updates
+    await core.update_task({ task_id: taskId, title: 'Renamed by mistake', completed: true });
+    await core.create_task({ title: 'Accidental task' });
+    await core.remember_this({ content: 'Accidental memory' });
+
+    const response = await core.restore_snapshot({ snapshot_id: snapshotId });
+    expect(response.content[0].text).toContain('Snapshot Restored');
+
+    const database = core.getDatabase();
+    expect(database.tasks.map(t => t.title)).toEqual(['Keep me']);
+    expect(database.tasks[0].completed).toBe(false);
+    expect(database.memories).toHaveLength(0);
+    expect(database.projects[0].completion_percentage).toBe(0);
+
+    // The task index and session activity follow the restored database
+    expect(Array.from(core.getTaskIndex().keys())).toEqual([taskId]);
+    const activity = core.getSessionActivity();
+    expect(activity.tasksCreated).toEqual([taskId]);
+    expect(activity.tasksCompleted).toEqual([]);
+    expect(activity.memoriesCreated).toEqual([]);
+  });
+
+  it('should save the replaced state so a restore can be reverted', async () => {
+    await core.create_project({ name: 'Revert Project' });
+    const snapshotId = TestCoreUtils.extractResponseId(await core.create_snapshot({ label: 'Empty project' }));
+    await core.create_task({ title: 'Work in progress' });
+
+    await core.restore_snapshot({ snapshot_id: snapshotId });
+    expect(core.getDatabase().tasks).toHaveLength(0);
+
+    const listing = await core.list_snapshots();
+    expect(listing.content[0].text).toContain("Before restoring 'Empty project'");
+
+    const backupId = listing.content[0].text.match(/ID: (snap_[^\s|]+)/)?.[1];
+    await core.restore_snapshot({ snapshot_id: backupId });
+    expect(core.getDatabase().tasks.map(t => t.title)).toEqual(['Work in progress']);
+  });
+
+  it('should restore the oldest snapshot when the snapshot limit is reached', async () => {
+    await core.create_project({ name: 'Full Project' });
+    const oldestId = TestCoreUtils.extractResponseId(await core.create_snapshot({ label: 'Oldest' }));
+    await core.create_task({ title: 'Added later' });
+    for (let i = 1; i < 20; i++) {
+      await core.create_snapshot({ label: `Snapshot ${i}` });
+    }
+
+    await core.restore_snapshot({ snapshot_id: oldestId });
+    expect(core.getDatabase().tasks).toHaveLength(0);
+
+    // The backup took the slot of the oldest snapshot other than the restored one
+    const listing = (await core.list_snapshots()).content[0].text;
+    expect(listing).toContain('**Total Snapshots:** 20');
+    expect(listing).toContain(oldestId);
+    expect(listing).toContain("Before restoring 'Oldest'");
+    expect(listing).not.toContain('**Snapshot 1**');
+  });
+
+  it('should isolate snapshots from later changes', async () => {
+    await core.create_project({ name: 'Isolation Project' });
+    const taskId = TestCoreUtils.extractResponseId(await core.create_task({ title: 'Original' }));
+    const snapshotId = TestCoreUtils.extractResponseId(await core.create_snapshot({ label: 'Original' }));
+
+    await core.update_task({ task_id: taskId, title: 'Changed' });
+    await core.restore_snapshot({ snapshot_id: snapshotId });
+    await core.update_task({ task_id: taskId, title: 'Changed again' });
+    await core.restore_snapshot({ snapshot_id: snapshotId });
+
+    expect(core.getDatabase().tasks[0].title).toBe('Original');
+  });
+
+  it('should not change data on dry run and reject unknown snapshots', async () => {
+    await core.create_project({ name: 'Dry Run Project' });
+    const snapshotId = TestCoreUtils.extractResponseId(await core.create_snapshot({}));
+    await core.create_task({ title: 'Still here' });
+
+    const preview = await core.restore_snapshot({ snapshot_id: snapshotId, dry_run: true });
+    expect(preview.content[0].text).toContain('[DRY RUN]');
+    expect(core.getDatabase().tasks).toHaveLength(1);
+
+    await expect(core.restore_snapshot({ snapshot_id: 'snap_missing' })).rejects.toThrow("Snapshot 'snap_missing' not found");
+  });
+});
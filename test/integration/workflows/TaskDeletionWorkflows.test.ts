@@ -0,0 +1,89 @@
+/**
+ * Integration Tests for Task Deletion Workflows
+ *
+ * Tests deleting tasks with subtask and memory handling, dry runs and project completion
+ */
+
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+
+describe('Task Deletion Workflows Integration', () => {
+  let core: MemoryPickleCore;
+
+  beforeEach(async () => {
+    core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+  });
+
+  const taskId = (title: string) => core.getDatabase().tasks.find(t => t.title === title)!.id;
+
+  // Root > Middle > Leaf, plus a completed sibling of Root
+  const seedTree = async () => {
+    await core.create_project({ name: 'Cleanup' });
+    await core.create_task({ title: 'Root' });
+    await core.create_task({ title: 'Middle', parent_id: taskId('Root') });
+    await core.create_task({ title: 'Leaf', parent_id: taskId('Middle') });
+    await core.create_task({ title: 'Done' });
+    await core.update_task({ task_id: taskId('Done'), completed: true });
+    await core.remember_this({ title: 'Middle decision', content: 'Chosen approach', task_id: taskId('Middle') });
+  };
+
+  it('should refuse to delete a task with subtasks unless a subtask mode is chosen', async () => {
+    await seedTree();
+
+    await expect(core.delete_task({ task_id: taskId('Root') })).rejects.toThrow("has 1 subtasks");
+    await expect(core.delete_task({ task_id: 'task_missing' })).rejects.toThrow("Task 'task_missing' not found");
+    expect(core.getDatabase().tasks).toHaveLength(4);
+  });
+
+  it('should list every affected entity in a dry run without changing anything', async () => {
+    await seedTree();
+    const before = core.getDatabase();
+
+    const preview = await core.delete_task({ task_id: taskId('Root'), subtask_mode: 'cascade', memory_mode: 'delete', dry_run: true });
+    const text = preview.content[0].text;
+
+    expect(text).toContain('[DRY RUN] delete_task');
+    expect(text).toContain('**Tasks deleted (3):**');
+    expect(text).toContain(`- Leaf (${taskId('Leaf')})`);
+    expect(text).toContain('**Memories deleted (1):**\n- Middle decision');
+    expect(text).toContain('**Project updated:** Cleanup');
+    expect(core.getDatabase()).toBe(before);
+  });
+
+  it('should cascade deletes and recalculate project completion', async () => {
+    await seedTree();
+    const projectId = core.getDatabase().projects[0].id;
+    const rootId = taskId('Root');
+
+    await core.delete_task({ task_id: rootId, subtask_mode: 'cascade', memory_mode: 'delete' });
+
+    const database = core.getDatabase();
+    expect(database.tasks.map(t => t.title)).toEqual(['Done']);
+    expect(database.memories).toHaveLength(0);
+    expect(database.projects[0].completion_percentage).toBe(100);
+    expect(core.getTaskIndex().has(rootId)).toBe(false);
+
+    const listing = await core.list_tasks({ project_id: projectId });
+    expect(listing.content[0].text).not.toContain('Root');
+  });
+
+  it('should move subtasks to the grandparent and detach memories', async () => {
+    await seedTree();
+    const rootId = taskId('Root');
+    const middleId = taskId('Middle');
+
+    const response = await core.delete_task({ task_id: middleId, subtask_mode: 'reparent' });
+    expect(response.content[0].text).toContain(`**Subtasks moved to task ${rootId} (1):**`);
+
+    const database = core.getDatabase();
+    const leaf = database.tasks.find(t => t.title === 'Leaf')!;
+    expect(leaf.parent_id).toBe(rootId);
+    expect(database.tasks.find(t => t.id === rootId)!.subtasks).toEqual([leaf.id]);
+    expect(database.memories[0].task_id).toBeUndefined();
+    expect(database.memories[0].title).toBe('Middle decision');
+
+    await core.undo();
+    expect(core.getDatabase().tasks.find(t => t.id === middleId)).toBeDefined();
+    expect(core.getDatabase().memories[0].task_id).toBe(middleId);
+  });
+});
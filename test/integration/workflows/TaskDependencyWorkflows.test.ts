@@ -0,0 +1,94 @@
+/**
+ * Integration Tests for Task Dependency Workflows
+ *
+ * Tests depends_on links with cycle detection, the next actionable tasks,
+ * the dependency order view and cleanup when a dependency is deleted
+ */
+
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+
+describe('Task Dependency Workflows Integration', () => {
+  let core: MemoryPickleCore;
+
+  beforeEach(async () => {
+    core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+  });
+
+  const taskId = (title: string) => core.getDatabase().tasks.find(t => t.title === title)!.id;
+
+  // Schema -> API -> UI, with Docs depending on both API and Schema
+  const seedChain = async () => {
+    await core.create_project({ name: 'Release' });
+    await core.create_task({ title: 'Schema', priority: 'low' });
+    await core.create_task({ title: 'API', priority: 'high', depends_on: [taskId('Schema')] });
+    await core.create_task({ title: 'UI', priority: 'critical', depends_on: [taskId('API')] });
+    await core.create_task({ title: 'Docs', priority: 'medium', depends_on: [taskId('API'), taskId('Schema')] });
+    await core.create_task({ title: 'Changelog', priority: 'medium' });
+  };
+
+  it('should reject dependencies that would create a cycle', async () => {
+    await seedChain();
+
+    await expect(core.update_task({ task_id: taskId('Schema'), add_dependencies: [taskId('UI')] }))
+      .rejects.toThrow(`Cannot make task '${taskId('Schema')}' depend on '${taskId('UI')}': would create circular dependency (${taskId('Schema')} -> ${taskId('UI')} -> ${taskId('API')} -> ${taskId('Schema')})`);
+    await expect(core.update_task({ task_id: taskId('API'), add_dependencies: [taskId('API')] }))
+      .rejects.toThrow('would create circular dependency');
+    await expect(core.create_task({ title: 'Orphan', depends_on: ['task_missing'] })).rejects.toThrow("Task 'task_missing' not found");
+
+    await core.create_project({ name: 'Other' });
+    await expect(core.create_task({ title: 'Cross', depends_on: [taskId('Schema')] })).rejects.toThrow('must be in the same project');
+
+    expect(core.getDatabase().tasks.find(t => t.title === 'Schema')!.depends_on).toEqual([]);
+  });
+
+  it('should rank tasks whose dependencies are completed and report unblocked tasks', async () => {
+    await seedChain();
+
+    const before = (await core.next_actionable_tasks()).content[0].text;
+    expect(before).toContain('**Ready:** 2 (showing 2) | **Waiting on dependencies:** 3');
+    // Priority ranks first, so Changelog comes before Schema even though Schema unblocks more
+    expect(before).toContain('1. **Changelog** (medium)');
+    expect(before).toContain('2. **Schema** (low)');
+    expect(before).toContain('   Unblocks: API, Docs');
+
+    const completed = await core.update_task({ task_id: taskId('Schema'), completed: true });
+    expect(completed.content[0].text).toContain(`Now unblocked: API (${taskId('API')})`);
+
+    const after = (await core.next_actionable_tasks()).content[0].text;
+    expect(after).toContain('1. **API** (high)');
+    expect(after).not.toContain('**Schema**');
+  });
+
+  it('should show the dependency order in levels', async () => {
+    await seedChain();
+    await core.update_task({ task_id: taskId('Schema'), completed: true });
+
+    const order = (await core.task_order()).content[0].text;
+    expect(order).toContain('# Task Order: Release\n\n**Tasks:** 5 | **Levels:** 3');
+    expect(order).toContain(`## Level 1\n1. [READY] **Changelog** (medium) - ${taskId('Changelog')}\n2. [DONE] **Schema** (low)`);
+    expect(order).toContain(`## Level 2\n3. [READY] **API** (high) - ${taskId('API')}\n   After: Schema`);
+    expect(order).toContain('## Level 3\n4. [WAITING] **UI** (critical)');
+    expect(order).toContain('5. [WAITING] **Docs** (medium)');
+    expect(order).toContain('   After: API, Schema');
+
+    const details = (await core.get_task({ task_id: taskId('API') })).content[0].text;
+    expect(details).toContain('## Depends On (1)\n1. **Schema** [DONE]');
+    expect(details).toContain('## Blocks (2)');
+  });
+
+  it('should remove dependencies on a deleted task', async () => {
+    await seedChain();
+    const apiId = taskId('API');
+
+    const preview = await core.delete_task({ task_id: apiId, dry_run: true });
+    expect(preview.content[0].text).toContain('**Dependencies removed from (2):**');
+
+    await core.delete_task({ task_id: apiId });
+    expect(core.getDatabase().tasks.find(t => t.title === 'UI')!.depends_on).toEqual([]);
+    expect(core.getDatabase().tasks.find(t => t.title === 'Docs')!.depends_on).toEqual([taskId('Schema')]);
+
+    await core.update_task({ task_id: taskId('Docs'), remove_dependencies: [taskId('Schema')] });
+    expect(core.getDatabase().tasks.find(t => t.title === 'Docs')!.depends_on).toEqual([]);
+  });
+});
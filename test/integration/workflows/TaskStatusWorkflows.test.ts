@@ -0,0 +1,92 @@
+/**
+ * Integration Tests for Task Status Workflows
+ *
+ * Tests workflow status transitions, status filters, completion math that
+ * leaves out cancelled tasks and custom transitions from the config
+ */
+
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+import { TestCoreUtils } from '../../helpers/TestCoreUtils.js';
+import { defaultConfig } from '../../../src/config/settings.js';
+
+describe('Task Status Workflows Integration', () => {
+  let core: MemoryPickleCore;
+
+  beforeEach(async () => {
+    core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+    await core.create_project({ name: 'Release' });
+  });
+
+  it('should move tasks through allowed transitions and reject the rest', async () => {
+    await core.create_task({ title: 'Review API' });
+    expect(TestCoreUtils.findTaskByTitle(core, 'Review API')).toMatchObject({ status: 'todo', completed: false });
+
+    await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Review API').id, progress: 30 });
+    expect(TestCoreUtils.findTaskByTitle(core, 'Review API').status).toBe('in_progress');
+
+    const review = await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Review API').id, status: 'in_review' });
+    expect(review.content[0].text).toContain('Status: in_review [IN_REVIEW]');
+
+    await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Review API').id, status: 'done' });
+    expect(TestCoreUtils.findTaskByTitle(core, 'Review API')).toMatchObject({ status: 'done', completed: true });
+    expect(TestCoreUtils.findTaskByTitle(core, 'Review API').completed_date).toBeDefined();
+
+    // Reopening with completed=false returns a started task to in_progress
+    await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Review API').id, completed: false });
+    expect(TestCoreUtils.findTaskByTitle(core, 'Review API')).toMatchObject({ status: 'in_progress', completed: false, completed_date: undefined });
+
+    await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Review API').id, status: 'cancelled' });
+    await expect(core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Review API').id, status: 'done' }))
+      .rejects.toThrow(`Cannot move task '${TestCoreUtils.findTaskByTitle(core, 'Review API').id}' from 'cancelled' to 'done'. Allowed from 'cancelled': todo`);
+    await expect(core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Review API').id, status: 'shipped' }))
+      .rejects.toThrow("Validation failed for field 'status'");
+    await expect(core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Review API').id, status: 'todo', completed: true }))
+      .rejects.toThrow('cannot be combined with status');
+    expect(TestCoreUtils.findTaskByTitle(core, 'Review API').status).toBe('cancelled');
+  });
+
+  it('should leave cancelled tasks out of completion and filter by status', async () => {
+    for (const title of ['Build', 'Docs', 'Legacy export', 'QA']) {
+      await core.create_task({ title });
+    }
+    await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Build').id, completed: true });
+    await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Legacy export').id, status: 'cancelled' });
+    await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'QA').id, status: 'blocked', blockers: ['Waiting for staging'] });
+
+    expect(core.getDatabase().projects[0].completion_percentage).toBe(33);
+
+    const active = (await core.list_tasks({ status: 'active' })).content[0].text;
+    expect(active).toContain('**Total Tasks:** 2');
+    expect(active).toContain('**QA** [BLOCKED]');
+    const closed = (await core.list_tasks({ status: ['done', 'cancelled'] })).content[0].text;
+    expect(closed).toContain('**Build** [DONE]');
+    expect(closed).toContain('**Legacy export** [CANCELLED]');
+    await expect(core.list_tasks({ status: 'finished' })).rejects.toThrow("Validation failed for field 'status'");
+
+    const handoff = (await core.generate_handoff_summary()).content[0].text;
+    expect(handoff).toContain('**Tasks:** 1/3 completed (1 cancelled)');
+    expect(handoff).toContain('### [BLOCKED] Blocked\n- **QA** (medium priority)\n  Blocked by: Waiting for staging');
+    expect(handoff).toContain('### [CANCELLED] Cancelled\n- **Legacy export**');
+
+    const recall = (await core.recall_state()).content[0].text;
+    expect(recall).toContain('## 🚫 Blocked Tasks (1)\n1. **QA** (medium)\n   Blocked: Waiting for staging');
+  });
+
+  it('should apply custom transitions from the workflow config', async () => {
+    const config = defaultConfig();
+    config.values.workflow.transitions = { ...config.values.workflow.transitions, todo: ['in_progress'] };
+    const strict = await MemoryPickleCore.create({ config });
+    (global as any).trackCoreInstance(strict);
+    await strict.create_project({ name: 'Strict' });
+    await strict.create_task({ title: 'Ship' });
+    const shipId = strict.getDatabase().tasks[0].id;
+
+    await expect(strict.update_task({ task_id: shipId, completed: true }))
+      .rejects.toThrow("Allowed from 'todo': in_progress");
+
+    // Progress only moves a task along where the workflow allows it
+    await strict.update_task({ task_id: shipId, progress: 100 });
+    expect(strict.getDatabase().tasks[0]).toMatchObject({ status: 'in_progress', completed: false });
+  });
+});
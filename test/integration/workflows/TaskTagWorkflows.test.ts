@@ -0,0 +1,65 @@
+/**
+ * Integration Tests for Task Tag Workflows
+ *
+ * Tests tagging tasks on create and update, filtering list_tasks by tags and
+ * the tag summary in recall_state
+ */
+
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+import { TestCoreUtils } from '../../helpers/TestCoreUtils.js';
+
+describe('Task Tag Workflows Integration', () => {
+  let core: MemoryPickleCore;
+
+  beforeEach(async () => {
+    core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+
+    await core.create_project({ name: 'Storefront' });
+    await core.create_task({ title: 'Checkout page', tags: ['frontend', ' Payments ', 'FRONTEND'] });
+    await core.create_task({ title: 'Orders table', tags: ['migration', 'backend'] });
+    await core.create_task({ title: 'Payment webhook', tags: ['backend', 'payments'] });
+    await core.create_task({ title: 'Untagged chore' });
+  });
+
+  it('should add and remove tags on create and update', async () => {
+    expect(TestCoreUtils.findTaskByTitle(core, 'Checkout page').tags).toEqual(['frontend', 'Payments']);
+
+    const response = await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Orders table').id, add_tags: ['Backend', 'data'], remove_tags: ['MIGRATION'] });
+    expect(response.content[0].text).toContain('Tags added: data');
+    expect(response.content[0].text).toContain('Tags removed: migration');
+    expect(TestCoreUtils.findTaskByTitle(core, 'Orders table').tags).toEqual(['backend', 'data']);
+
+    await expect(core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Orders table').id, add_tags: ['x'], remove_tags: ['X'] }))
+      .rejects.toThrow("Validation failed for field 'add_tags'");
+    await expect(core.create_task({ title: 'Bad', tags: 'frontend' })).rejects.toThrow("Validation failed for field 'tags'");
+  });
+
+  it('should filter list_tasks by any or all tags', async () => {
+    const any = (await core.list_tasks({ tags: ['frontend', 'migration'] })).content[0].text;
+    expect(any).toContain('**Total Tasks:** 2');
+    expect(any).toContain('**Tags (any):** frontend, migration');
+    expect(any).toContain('Tags: frontend, Payments');
+
+    const all = (await core.list_tasks({ tags: ['payments', 'backend'], tag_match: 'all' })).content[0].text;
+    expect(all).toContain('**Total Tasks:** 1');
+    expect(all).toContain('Payment webhook');
+
+    await expect(core.list_tasks({ tags: ['x'], tag_match: 'some' })).rejects.toThrow("Validation failed for field 'tag_match'");
+  });
+
+  it('should summarize tags by active and completed tasks in recall_state', async () => {
+    await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Payment webhook').id, completed: true });
+
+    const state = JSON.parse((await core.recall_state({ format: 'json' })).content[0].text);
+    expect(state.task_tags).toEqual([
+      { tag: 'backend', active: 1, completed: 1 },
+      { tag: 'Payments', active: 1, completed: 1 },
+      { tag: 'frontend', active: 1, completed: 0 },
+      { tag: 'migration', active: 1, completed: 0 }
+    ]);
+
+    const text = (await core.recall_state()).content[0].text;
+    expect(text).toContain('## 🏷️ Task Tags (4)\n- **backend:** 1 active, 1 completed');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Integration Tests for Template Workflows
+ *
+ * Tests saving task hierarchies as templates, filling placeholders when creating
+ * projects from them or applying them to existing projects, and undoing both
+ */
+
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+
+describe('Template Workflows Integration', () => {
+  let core: MemoryPickleCore;
+
+  beforeEach(async () => {
+    core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+    await core.create_project({ name: 'Release 2.1' });
+    await core.batch({
+      operations: [
+        { op: 'create', title: 'Ship 2.1', priority: 'high', tags: ['release'] },
+        { op: 'create', title: 'Write changelog for 2.1', parent_id: '$1', tags: ['docs'], estimate: '2h' },
+        { op: 'create', title: 'Tag v2.1', parent_id: '$1', priority: 'critical', depends_on: ['$2'], description: 'git tag v2.1' },
+        { op: 'create', title: 'Dropped idea', parent_id: '$1' },
+        { op: 'update', task_id: '$4', status: 'cancelled' }
+      ]
+    });
+  });
+
+  const tasksOf = (projectName: string) => {
+    const database = core.getDatabase();
+    const project = database.projects.find(p => p.name === projectName)!;
+    return database.tasks.filter(t => t.project_id === project.id);
+  };
+
+  it('should save a project as a template with placeholders and create a project from it', async () => {
+    const saved = (await core.save_template({ name: 'Release Checklist', replace: { '2.1': 'version' } })).content[0].text;
+    expect(saved).toContain('[OK] **Template Saved**');
+    expect(saved).toContain('**Tasks:** 3');
+    expect(saved).toContain('**Placeholders:** {{version}}');
+    expect(saved).toContain('- Ship {{version}} (high; release)\n  - Write changelog for {{version}} (medium; docs)\n  - Tag v{{version}} (critical; after Write changelog for {{version}})');
+
+    const listed = (await core.list_templates()).content[0].text;
+    expect(listed).toContain('1. **Release Checklist** - 3 tasks\n   Placeholders: {{version}}');
+
+    const created = (await core.create_project_from_template({ template: 'release checklist', name: 'Release 2.2', values: { version: '2.2' } })).content[0].text;
+    expect(created).toContain('[OK] **Project Created from Template**');
+    expect(created).toContain('**Tasks:** 3');
+
+    const database = core.getDatabase();
+    const project = database.projects.find(p => p.name === 'Release 2.2')!;
+    expect(database.meta.current_project_id).toBe(project.id);
+
+    const [ship, changelog, tag] = ['Ship 2.2', 'Write changelog for 2.2', 'Tag v2.2'].map(title => tasksOf('Release 2.2').find(t => t.title === title)!);
+    expect(ship).toMatchObject({ priority: 'high', tags: ['release'], status: 'todo', parent_id: undefined });
+    expect(ship.subtasks).toEqual([changelog.id, tag.id]);
+    expect(changelog).toMatchObject({ parent_id: ship.id, tags: ['docs'], estimate: { value: 2, unit: 'hours' } });
+    expect(tag).toMatchObject({ parent_id: ship.id, priority: 'critical', depends_on: [changelog.id], description: 'git tag v2.2' });
+    expect(project.tasks).toEqual([ship.id, changelog.id, tag.id]);
+    expect(tasksOf('Release 2.2')).toHaveLength(3);
+  });
+
+  it('should apply a subtree template under a parent task in one undoable step', async () => {
+    const ship = tasksOf('Release 2.1').find(t => t.title === 'Ship 2.1')!;
+    const tag = tasksOf('Release 2.1').find(t => t.title === 'Tag v2.1')!;
+    await core.save_template({ name: 'tagging', task_id: tag.id, replace: { 'v2.1': 'tag' } });
+
+    const template = core.getDatabase().templates['tagging'];
+    expect(template.tasks).toEqual([expect.objectContaining({ key: 't1', title: 'Tag {{tag}}', description: 'git tag {{tag}}', depends_on: [] })]);
+
+    const applied = (await core.apply_template({ template: 'Tagging', parent_id: ship.id, values: { tag: 'v2.1.1' } })).content[0].text;
+    expect(applied).toContain('[OK] **Template Applied**');
+    const hotfix = tasksOf('Release 2.1').find(t => t.title === 'Tag v2.1.1')!;
+    expect(hotfix).toMatchObject({ parent_id: ship.id, priority: 'critical' });
+    expect(core.getDatabase().tasks.find(t => t.id === ship.id)!.subtasks).toContain(hotfix.id);
+
+    await core.undo();
+    expect(tasksOf('Release 2.1').find(t => t.title === 'Tag v2.1.1')).toBeUndefined();
+    expect(core.getDatabase().tasks.find(t => t.id === ship.id)!.subtasks).not.toContain(hotfix.id);
+  });
+
+  it('should reject missing, unknown and duplicate names without changing anything', async () => {
+    await core.save_template({ name: 'Release Checklist', replace: { '2.1': 'version' } });
+    const before = core.getDatabase().tasks.length;
+
+    await expect(core.create_project_from_template({ template: 'release checklist', name: 'Next' }))
+      .rejects.toThrow("must give a value for every placeholder of template 'Release Checklist'");
+    await expect(core.apply_template({ template: 'release checklist', values: { version: '3.0', codename: 'x' } }))
+      .rejects.toThrow("must only name placeholders of template 'Release Checklist' (version)");
+    await expect(core.apply_template({ template: 'hotfix' }))
+      .rejects.toThrow("Template 'hotfix' not found. Available templates: Release Checklist");
+    await expect(core.save_template({ name: 'RELEASE CHECKLIST' }))
+      .rejects.toThrow("Template 'Release Checklist' already exists");
+
+    const preview = await core.apply_template({ template: 'release checklist', values: { version: '3.0' }, dry_run: true });
+    expect(preview.content[0].text).toContain("[DRY RUN] apply_template: Would add 3 tasks from template 'Release Checklist' to project 'Release 2.1'");
+    expect(core.getDatabase().tasks).toHaveLength(before);
+    expect(core.getDatabase().projects).toHaveLength(1);
+  });
+
+  it('should delete templates and undo the deletion', async () => {
+    await core.save_template({ name: 'bugfix' });
+    const deleted = (await core.delete_template({ name: 'Bugfix' })).content[0].text;
+    expect(deleted).toContain('[OK] **Template Deleted**');
+    expect(core.getDatabase().templates).toEqual({});
+    expect((await core.list_templates()).content[0].text).toContain('No templates saved yet');
+
+    const undone = (await core.undo()).content[0].text;
+    expect(undone).toContain("reverted: template 'bugfix' deleted");
+    expect(core.getDatabase().templates['bugfix'].tasks).toHaveLength(3);
+
+    await expect(core.list_templates({ name: 'missing' })).rejects.toThrow("Template 'missing' not found");
+  });
+});
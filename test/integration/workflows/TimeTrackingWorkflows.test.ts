@@ -0,0 +1,80 @@
+/**
+ * Integration Tests for Time Tracking Workflows
+ *
+ * Tests timers, manual time entries and the totals shown by get_task,
+ * list_projects and generate_handoff_summary
+ */
+
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+import { TestCoreUtils } from '../../helpers/TestCoreUtils.js';
+
+describe('Time Tracking Workflows Integration', () => {
+  let core: MemoryPickleCore;
+
+  beforeEach(async () => {
+    core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+    await core.create_project({ name: 'Billing' });
+    await core.create_task({ title: 'Invoice export' });
+    await core.create_task({ title: 'Tax rules' });
+  });
+
+  it('should run one timer per session and record its entry', async () => {
+    const started = await core.start_timer({ task_id: TestCoreUtils.findTaskByTitle(core, 'Invoice export').id, note: 'CSV layout' });
+    expect(started.content[0].text).toContain('[OK] **Timer Started**');
+    expect(TestCoreUtils.findTaskByTitle(core, 'Invoice export').time_entries).toEqual([expect.objectContaining({ note: 'CSV layout' })]);
+    expect(TestCoreUtils.findTaskByTitle(core, 'Invoice export').time_entries[0].end).toBeUndefined();
+
+    await expect(core.start_timer({ task_id: TestCoreUtils.findTaskByTitle(core, 'Tax rules').id }))
+      .rejects.toThrow(`A timer is already running on task '${TestCoreUtils.findTaskByTitle(core, 'Invoice export').id}'`);
+    await expect(core.stop_timer({ task_id: TestCoreUtils.findTaskByTitle(core, 'Tax rules').id })).rejects.toThrow("Validation failed for field 'task_id'");
+
+    const stopped = (await core.stop_timer({ note: 'CSV layout and headers' })).content[0].text;
+    expect(stopped).toContain('**Duration:** 0m');
+    expect(stopped).toContain('**Note:** CSV layout and headers');
+    expect(TestCoreUtils.findTaskByTitle(core, 'Invoice export').time_entries[0].end).toBeDefined();
+
+    await expect(core.stop_timer()).rejects.toThrow('No timer is running in this session');
+
+    // A finished task cannot be timed, but time can still be logged on it
+    await core.update_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Tax rules').id, completed: true });
+    await expect(core.start_timer({ task_id: TestCoreUtils.findTaskByTitle(core, 'Tax rules').id })).rejects.toThrow('must be an open task');
+  });
+
+  it('should log manual entries and show totals per task, project and session', async () => {
+    await core.create_task({ title: 'Rounding', parent_id: TestCoreUtils.findTaskByTitle(core, 'Invoice export').id });
+    await core.log_time({ task_id: TestCoreUtils.findTaskByTitle(core, 'Invoice export').id, duration: '1h30m', note: 'Review' });
+    await core.log_time({ task_id: TestCoreUtils.findTaskByTitle(core, 'Rounding').id, start: '2026-03-02T09:00:00', end: '2026-03-02T09:45:00' });
+    await core.log_time({ task_id: TestCoreUtils.findTaskByTitle(core, 'Tax rules').id, duration: 20 });
+
+    await expect(core.log_time({ task_id: TestCoreUtils.findTaskByTitle(core, 'Tax rules').id })).rejects.toThrow("Validation failed for field 'duration'");
+    await expect(core.log_time({ task_id: TestCoreUtils.findTaskByTitle(core, 'Tax rules').id, start: '2026-03-02T10:00:00', end: '2026-03-02T09:00:00' }))
+      .rejects.toThrow('must be after start');
+    await expect(core.log_time({ task_id: TestCoreUtils.findTaskByTitle(core, 'Tax rules').id, duration: '1h', start: '2099-01-01T00:00:00' }))
+      .rejects.toThrow('cannot be in the future');
+
+    const details = (await core.get_task({ task_id: TestCoreUtils.findTaskByTitle(core, 'Invoice export').id })).content[0].text;
+    expect(details).toContain('**Time Logged:** 1h 30m (1 entry)');
+    expect(details).toContain('**Time Incl. Subtasks:** 2h 15m');
+    expect(details).toContain('## Time Entries (1)\n- ');
+    expect(details).toContain(': 1h 30m - Review');
+
+    const projects = (await core.list_projects()).content[0].text;
+    expect(projects).toContain('   Time Logged: 2h 35m');
+
+    await core.start_timer({ task_id: TestCoreUtils.findTaskByTitle(core, 'Tax rules').id });
+    const handoff = (await core.generate_handoff_summary()).content[0].text;
+    expect(handoff).toContain('## [TIME] Time Tracked This Session\n\n**Total:** 2h 35m\n- **Invoice export:** 1h 30m');
+    expect(handoff).toContain('- **Tax rules:** 20m');
+    expect(handoff).toContain('**Timer Running:** Tax rules');
+  });
+
+  it('should forget the running timer when its entry is undone', async () => {
+    await core.start_timer({ task_id: TestCoreUtils.findTaskByTitle(core, 'Tax rules').id });
+    await core.undo();
+
+    expect(TestCoreUtils.findTaskByTitle(core, 'Tax rules').time_entries).toEqual([]);
+    await expect(core.stop_timer()).rejects.toThrow('No timer is running in this session');
+    await core.start_timer({ task_id: TestCoreUtils.findTaskByTitle(core, 'Invoice export').id });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Integration Tests for Undo/Redo Workflows
+ *
+ * Tests reverting and re-applying committed mutations through the history tools
+ */
+
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+import { TestCoreUtils } from '../../helpers/TestCoreUtils.js';
+
+describe('Undo/Redo Workflows Integration', () => {
+  let core: MemoryPickleCore;
+
+  beforeEach(async () => {
+    core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+  });
+
+  it('should revert a task completion together with the project completion', async () => {
+    await core.create_project({ name: 'Undo Project' });
+    const taskId = TestCoreUtils.extractResponseId(await core.create_task({ title: 'Write docs' }));
+    await core.update_task({ task_id: taskId, completed: true });
+
+    expect(core.getDatabase().projects[0].completion_percentage).toBe(100);
+
+    const response = await core.undo();
+    expect(response.content[0].text).toContain("reverted: task 'Write docs' marked complete");
+
+    const database = core.getDatabase();
+    expect(database.tasks[0].completed).toBe(false);
+    expect(database.projects[0].completion_percentage).toBe(0);
+    expect(core.getSessionActivity().tasksCompleted).toEqual([]);
+  });
+
+  it('should undo several steps and redo them in order', async () => {
+    await core.create_project({ name: 'First Project' });
+    await core.create_project({ name: 'Second Project' });
+    await core.create_task({ title: 'Second task' });
+    await core.remember_this({ title: 'Decision', content: 'Use undo' });
+
+    const undone = await core.undo({ steps: 3 });
+    const text = undone.content[0].text;
+    expect(text).toContain("reverted: memory 'Decision' created");
+    expect(text).toContain("reverted: task 'Second task' created");
+    expect(text).toContain("reverted: project 'Second Project' created; current project set to 'Second Project'");
+
+    let database = core.getDatabase();
+    expect(database.projects.map(p => p.name)).toEqual(['First Project']);
+    expect(database.meta.current_project_id).toBe(database.projects[0].id);
+    expect(database.tasks).toHaveLength(0);
+    expect(core.getTaskIndex().size).toBe(0);
+
+    await core.redo({ steps: 2 });
+    database = core.getDatabase();
+    expect(database.projects.map(p => p.name)).toEqual(['First Project', 'Second Project']);
+    expect(database.tasks.map(t => t.title)).toEqual(['Second task']);
+    expect(database.memories).toHaveLength(0);
+    expect(core.getTaskIndex().size).toBe(1);
+  });
+
+  it('should discard redo history when a new change is made', async () => {
+    await core.create_project({ name: 'Branch Project' });
+    await core.create_task({ title: 'Undone task' });
+    await core.undo();
+
+    await core.create_task({ title: 'New task' });
+
+    const response = await core.redo();
+    expect(response.content[0].text).toContain('Nothing to Redo');
+    expect(core.getDatabase().tasks.map(t => t.title)).toEqual(['New task']);
+  });
+
+  it('should clear history when a snapshot is restored', async () => {
+    await core.create_project({ name: 'Snapshot Project' });
+    const snapshotId = TestCoreUtils.extractResponseId(await core.create_snapshot({ label: 'Start' }));
+    await core.create_task({ title: 'After snapshot' });
+
+    await core.restore_snapshot({ snapshot_id: snapshotId });
+
+    const response = await core.undo();
+    expect(response.content[0].text).toContain('Nothing to Undo');
+    expect(core.getDatabase().projects).toHaveLength(1);
+  });
+
+  it('should preview without reverting on dry run', async () => {
+    await core.create_project({ name: 'Preview Project' });
+    await core.create_task({ title: 'Kept task' });
+
+    const preview = await core.undo({ dry_run: true });
+    expect(preview.content[0].text).toContain("would be reverted: task 'Kept task' created");
+    expect(core.getDatabase().tasks).toHaveLength(1);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Integration Tests for Workspace Workflows
+ *
+ * Tests isolating projects, tasks, memories and session activity per workspace
+ */
+
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { jest } from '@jest/globals';
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+import { createWorkspaceStorageProvider } from '../../../src/storage/index.js';
+import { resolveWorkspaceOptions, workspaceNameFromPath } from '../../../src/config/workspace.js';
+
+describe('Workspace Workflows Integration', () => {
+  let core: MemoryPickleCore;
+
+  beforeEach(async () => {
+    core = await MemoryPickleCore.create();
+    (global as any).trackCoreInstance(core);
+  });
+
+  it('should keep data and current project separate per workspace', async () => {
+    await core.create_project({ name: 'Default Project' });
+    await core.create_task({ title: 'Default task' });
+
+    const created = await core.create_workspace({ name: 'billing-service' });
+    expect(created.content[0].text).toContain('**Active Workspace:** billing-service (was default)');
+    expect(core.getDatabase().projects).toHaveLength(0);
+
+    await core.create_project({ name: 'Billing Project' });
+    await core.remember_this({ title: 'Billing note', content: 'Invoices are monthly' });
+
+    const listing = await core.list_tasks();
+    expect(listing.content[0].text).not.toContain('Default task');
+    expect(core.getSessionActivity().projectsCreated).toHaveLength(1);
+
+    const switched = await core.switch_workspace({ name: 'default' });
+    expect(switched.content[0].text).toContain('**Current Project:** Default Project');
+
+    const database = core.getDatabase();
+    expect(database.projects.map(p => p.name)).toEqual(['Default Project']);
+    expect(database.memories).toHaveLength(0);
+    expect(Array.from(core.getTaskIndex().values()).map(t => t.title)).toEqual(['Default task']);
+    expect(core.getSessionActivity().tasksCreated).toHaveLength(1);
+
+    const workspaces = await core.list_workspaces();
+    const text = workspaces.content[0].text;
+    expect(text).toContain('**billing-service** - 1 projects, 0 tasks, 1 memories');
+    expect(text).toContain('**default** (active) - 1 projects, 1 tasks, 0 memories');
+    expect(text).toContain('**Active workspace selected by:** switch_workspace');
+  });
+
+  it('should reject unknown and invalid workspace names', async () => {
+    await expect(core.switch_workspace({ name: 'missing' })).rejects.toThrow("Workspace 'missing' not found");
+    await expect(core.create_workspace({ name: '../escape' })).rejects.toThrow("Validation failed for field 'name'");
+    await expect(core.create_workspace({ name: 'default' })).rejects.toThrow('already exists');
+
+    const preview = await core.switch_workspace({ name: 'missing', create: true, dry_run: true });
+    expect(preview.content[0].text).toContain('[DRY RUN]');
+    expect(core.getActiveWorkspace()).toBe('default');
+
+    await core.switch_workspace({ name: 'missing', create: true });
+    expect(core.getActiveWorkspace()).toBe('missing');
+  });
+
+  it('should auto-select a workspace named after a directory', async () => {
+    expect(workspaceNameFromPath('/home/dev/My Repo/')).toBe('my-repo');
+    expect(resolveWorkspaceOptions(['--workspace', 'auto'], {})).toEqual({ workspace: 'default', autoSelect: true });
+    expect(resolveWorkspaceOptions([], { MEMORY_PICKLE_WORKSPACE: 'api' })).toEqual({ workspace: 'api', autoSelect: false });
+
+    await core.selectWorkspace(workspaceNameFromPath('/home/dev/payments'), 'client root /home/dev/payments');
+    await core.create_project({ name: 'Payments' });
+
+    const listing = await core.list_workspaces();
+    expect(listing.content[0].text).toContain('**payments** (active)');
+    expect(listing.content[0].text).toContain('selected by:** client root /home/dev/payments');
+  });
+
+  it('should open each workspace once when activations overlap', async () => {
+    const memoryStorage = createWorkspaceStorageProvider({ kind: 'memory' });
+    const opened: string[] = [];
+    const workspaceStorage = {
+      open: (name: string) => { opened.push(name); return memoryStorage.open(name); },
+      list: () => memoryStorage.list()
+    };
+    const racing = await MemoryPickleCore.create({ workspaceStorage });
+    (global as any).trackCoreInstance(racing);
+    const clearInterval = jest.spyOn(global, 'clearInterval');
+
+    // Roots-based auto-selection arriving while a switch to the same workspace is in flight
+    await Promise.all([
+      racing.selectWorkspace('payments', 'client root /home/dev/payments'),
+      racing.switch_workspace({ name: 'payments', create: true }),
+      racing.selectWorkspace('payments', 'roots changed')
+    ]);
+    expect(opened).toEqual(['default', 'payments']);
+    expect(racing.getActiveWorkspace()).toBe('payments');
+
+    await racing.create_project({ name: 'Payments' });
+    await racing.switch_workspace({ name: 'default' });
+    await racing.switch_workspace({ name: 'payments' });
+    expect(opened).toEqual(['default', 'payments']);
+    expect(racing.getDatabase().projects.map(p => p.name)).toEqual(['Payments']);
+
+    // Shutting down stops the maintenance timer of the active store
+    const cleared = clearInterval.mock.calls.length;
+    await racing.shutdown();
+    expect(clearInterval.mock.calls.length).toBe(cleared + 1);
+    clearInterval.mockRestore();
+  });
+
+  describe('file storage', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'memory-pickle-workspaces-'));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should store each workspace next to the data file and find it after a restart', async () => {
+      const dataFile = join(tempDir, 'memory-pickle.json');
+      const workspaceStorage = createWorkspaceStorageProvider({ kind: 'json', dataFile });
+
+      const first = await MemoryPickleCore.create({ workspaceStorage });
+      (global as any).trackCoreInstance(first);
+      await first.create_project({ name: 'Default Project' });
+      await first.create_workspace({ name: 'frontend' });
+      await first.create_project({ name: 'Frontend Project' });
+      await first.shutdown();
+
+      expect(existsSync(dataFile)).toBe(true);
+      expect(existsSync(join(tempDir, 'workspaces', 'frontend', 'memory-pickle.json'))).toBe(true);
+
+      const second = await MemoryPickleCore.create({ workspaceStorage });
+      (global as any).trackCoreInstance(second);
+      const listing = await second.list_workspaces();
+      expect(listing.content[0].text).toContain('**frontend** - stored, not loaded');
+
+      await second.switch_workspace({ name: 'frontend' });
+      expect(second.getDatabase().projects.map(p => p.name)).toEqual(['Frontend Project']);
+    });
+  });
+});
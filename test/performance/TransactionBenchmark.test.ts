@@ -0,0 +1,89 @@
+/**
+ * Performance Benchmark for copy-on-write transactions
+ *
+ * Measures the per-operation cost of small InMemoryStore transactions at several
+ * database sizes and compares it with the full JSON deep clone the store used to
+ * take before every operation
+ */
+
+import { InMemoryStore } from '../../src/services/InMemoryStore.js';
+import type { ProjectDatabase } from '../../src/types/index.js';
+
+const SIZES = [500, 2500, 10000];
+const OPERATIONS = 200;
+
+const seedStore = async (store: InMemoryStore, taskCount: number) => {
+  await store.runExclusive(async (db: ProjectDatabase) => {
+    const now = new Date().toISOString();
+    for (let p = 0; p < 10; p++) {
+      db.projects.push({
+        id: `proj_${p}`, name: `Project ${p}`, created_date: now,
+        status: 'in_progress', completion_percentage: 0, tasks: [], milestones: []
+      } as any);
+    }
+    for (let t = 0; t < taskCount; t++) {
+      db.tasks.push({
+        id: `task_${t}`, project_id: `proj_${t % 10}`, title: `Task ${t}`, description: 'Benchmark task',
+        completed: false, priority: 'medium', created_date: now,
+        tags: ['benchmark'], subtasks: [], notes: [`${now}: created`], blockers: []
+      } as any);
+    }
+    return { result: undefined, commit: true, changedParts: new Set(['projects', 'tasks'] as const) };
+  }, 'seed');
+};
+
+const timePerOperation = async (run: (i: number) => Promise<unknown> | unknown, count: number = OPERATIONS): Promise<number> => {
+  // Warm up first so the smallest size does not pay for JIT compilation
+  for (let i = 0; i < 20; i++) {
+    await run(i);
+  }
+  const start = performance.now();
+  for (let i = 0; i < count; i++) {
+    await run(i);
+  }
+  return (performance.now() - start) / count;
+};
+
+describe('Copy-on-write Transaction Benchmark', () => {
+  it('should keep small transactions cheap as the database grows', async () => {
+    const results: Array<{ tasks: number; setCurrentProject: number; updateTask: number; deepClone: number }> = [];
+
+    for (const size of SIZES) {
+      const store = new InMemoryStore();
+      try {
+        await seedStore(store, size);
+
+        const setCurrentProject = await timePerOperation(i => store.runExclusive(async (db) => {
+          db.meta.current_project_id = `proj_${i % 10}`;
+          return { result: undefined, commit: true, changedParts: new Set(['meta'] as const) };
+        }, 'set_current_project'));
+
+        const updateTask = await timePerOperation(i => store.runExclusive(async (db) => {
+          db.tasks[i % size].progress = i % 100;
+          return { result: undefined, commit: true, changedParts: new Set(['tasks'] as const) };
+        }, 'update_task'));
+
+        // What every operation paid up front before copy-on-write
+        const deepClone = await timePerOperation(() => JSON.parse(JSON.stringify(store.getDatabase())), 20);
+
+        results.push({ tasks: size, setCurrentProject, updateTask, deepClone });
+      } finally {
+        await store.shutdownAsync();
+      }
+    }
+
+    console.log('Per-operation cost (ms):\n' + results.map(r =>
+      `  ${String(r.tasks).padStart(6)} tasks | set_current_project ${r.setCurrentProject.toFixed(3)} | ` +
+      `update_task ${r.updateTask.toFixed(3)} | former deep clone ${r.deepClone.toFixed(3)}`
+    ).join('\n'));
+
+    const smallest = results[0];
+    const largest = results[results.length - 1];
+
+    // A meta-only change does not touch the collections at all
+    expect(largest.setCurrentProject).toBeLessThan(Math.max(smallest.setCurrentProject * 3, 0.5));
+
+    // Updating one task costs a fraction of what the deep clone alone used to cost
+    expect(largest.updateTask).toBeLessThan(largest.deepClone / 5);
+  });
+});
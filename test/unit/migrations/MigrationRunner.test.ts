@@ -0,0 +1,166 @@
+/**
+ * Unit Tests for the schema migration framework
+ *
+ * Tests version detection, ordered migration, dry-run reports and refusal of newer data
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { jest } from '@jest/globals';
+import {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATIONS,
+  formatMigrationReport,
+  getSchemaVersion,
+  migrateDatabase
+} from '../../../src/migrations/index.js';
+import { InMemoryStore } from '../../../src/services/InMemoryStore.js';
+import { JsonFileStorageAdapter } from '../../../src/storage/index.js';
+import { projectDatabaseSchema } from '../../../src/types/schemas.js';
+import { UnsupportedSchemaVersionError } from '../../../src/utils/errors.js';
+import { compareVersions } from '../../../src/utils/version.js';
+
+const legacyDatabase = () => ({
+  projects: [{ id: 'proj_1', name: 'Legacy Project', tasks: [] }],
+  tasks: [{ id: 'task_1', project_id: 'proj_1', title: 'Old task', completed_date: '2025-01-01T00:00:00.000Z' }],
+  memories: [{ id: 'mem_1', content: 'Remember the legacy format' }]
+});
+
+describe('Schema Migration Unit Tests', () => {
+  it('should keep the registry ordered and ending at the current version', () => {
+    const versions = MIGRATIONS.map(migration => migration.version);
+    const sorted = [...versions].sort(compareVersions);
+
+    expect(versions).toEqual(sorted);
+    expect(versions[versions.length - 1]).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('should upgrade unversioned data to the current schema without touching the input', () => {
+    const raw = legacyDatabase();
+    const { database, report } = migrateDatabase(raw);
+
+    expect(report.fromVersion).toBe('unversioned');
+    expect(report.steps.map(step => step.version)).toEqual(['1.3.9', '1.4.0', '1.5.0']);
+    expect(database.meta.version).toBe(CURRENT_SCHEMA_VERSION);
+    expect(database.tasks[0].completed).toBe(true);
+    expect(database.tasks[0].status).toBe('done');
+    expect(database.memories[0].category).toBe('general');
+    expect(projectDatabaseSchema.safeParse(database).success).toBe(true);
+
+    expect((raw as any).meta).toBeUndefined();
+  });
+
+  it('should treat the legacy "2.0.0" label as 1.3.9 data', () => {
+    const { database, report } = migrateDatabase({
+      meta: { version: '2.0.0', last_updated: new Date().toISOString(), session_count: 0 },
+      projects: [], tasks: [], memories: []
+    });
+
+    expect(getSchemaVersion({ meta: { version: '2.0.0' } })).toBe('1.3.9');
+    expect(report.steps.map(step => step.version)).toEqual(['1.4.0', '1.5.0']);
+    expect(report.upToDate).toBe(false);
+    expect(database.meta.version).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('should give 1.3.9 tasks a workflow status derived from completion and progress', () => {
+    const task = (id: string, extra: object) => ({
+      id, project_id: 'proj_1', title: id, priority: 'medium', created_date: '2025-01-01T00:00:00.000Z', ...extra
+    });
+    const { database, report } = migrateDatabase({
+      meta: { version: '1.3.9', last_updated: new Date().toISOString(), session_count: 0 },
+      projects: [],
+      tasks: [
+        task('done', { completed: true }),
+        task('started', { completed: false, progress: 40 }),
+        task('fresh', { completed: false })
+      ],
+      memories: []
+    });
+
+    expect(database.tasks.map(t => t.status)).toEqual(['done', 'in_progress', 'todo']);
+    expect(report.steps[0].changes).toEqual([
+      "1 task(s) given status 'done'",
+      "1 task(s) given status 'in_progress'",
+      "1 task(s) given status 'todo'"
+    ]);
+  });
+
+  it('should drop 1.4.0 task list entries that do not point back at their owner', () => {
+    const task = (id: string, extra: object) => ({
+      id, project_id: 'proj_1', title: id, status: 'todo', completed: false, priority: 'medium',
+      created_date: '2025-01-01T00:00:00.000Z', subtasks: [], ...extra
+    });
+    const { database, report } = migrateDatabase({
+      meta: { version: '1.4.0', last_updated: new Date().toISOString(), session_count: 0 },
+      projects: [
+        { id: 'proj_1', name: 'One', created_date: '2025-01-01T00:00:00.000Z', tasks: ['parent', 'child', 'gone', 'other'] },
+        { id: 'proj_2', name: 'Two', created_date: '2025-01-01T00:00:00.000Z', tasks: ['other'] }
+      ],
+      tasks: [
+        task('parent', { subtasks: ['child', 'other'] }),
+        task('child', { parent_id: 'parent' }),
+        task('other', { project_id: 'proj_2' })
+      ],
+      memories: []
+    });
+
+    expect(database.projects.map(p => p.tasks)).toEqual([['parent', 'child'], ['other']]);
+    expect(database.tasks[0].subtasks).toEqual(['child']);
+    expect(report.steps[0].changes).toEqual([
+      '2 stale project task list entry(ies) removed',
+      '1 stale subtask list entry(ies) removed'
+    ]);
+  });
+
+  it('should report pending migrations in dry-run mode', () => {
+    const { report } = migrateDatabase(legacyDatabase(), { dryRun: true });
+    const text = formatMigrationReport(report);
+
+    expect(text).toContain(`[DRY RUN] Would migrate data from schema version unversioned to ${CURRENT_SCHEMA_VERSION}`);
+    expect(text).toContain('1 memory(ies) given default category');
+  });
+
+  it('should refuse data from a newer schema version', () => {
+    expect(() => migrateDatabase({ meta: { version: '99.0.0' } })).toThrow(UnsupportedSchemaVersionError);
+  });
+
+  describe('InMemoryStore loading', () => {
+    let tempDir: string;
+    let dataFile: string;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'memory-pickle-migrate-'));
+      dataFile = join(tempDir, 'data.json');
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should migrate older stored data and write it back', async () => {
+      writeFileSync(dataFile, JSON.stringify(legacyDatabase()));
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const store = new InMemoryStore(new JsonFileStorageAdapter(dataFile));
+      expect(store.getDatabase().memories[0].category).toBe('general');
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('Migrated data'));
+      consoleError.mockRestore();
+      await store.shutdownAsync();
+
+      const written = JSON.parse(readFileSync(dataFile, 'utf-8'));
+      expect(written.meta.version).toBe(CURRENT_SCHEMA_VERSION);
+    });
+
+    it('should refuse to load stored data from a newer version', () => {
+      const newer = {
+        meta: { version: '99.0.0', last_updated: new Date().toISOString(), session_count: 0 },
+        projects: [], tasks: [], memories: []
+      };
+      writeFileSync(dataFile, JSON.stringify(newer));
+
+      expect(() => new InMemoryStore(new JsonFileStorageAdapter(dataFile))).toThrow('newer than the supported version');
+      expect(JSON.parse(readFileSync(dataFile, 'utf-8')).meta.version).toBe('99.0.0');
+    });
+  });
+});
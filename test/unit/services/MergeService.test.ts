@@ -0,0 +1,184 @@
+/**
+ * Unit Tests for MergeService
+ *
+ * Tests three-way merging of diverged session databases
+ */
+
+import { MergeService, mergeSessions } from '../../../src/services/MergeService.js';
+import { CURRENT_SCHEMA_VERSION } from '../../../src/migrations/index.js';
+import type { ProjectDatabase } from '../../../src/types/index.js';
+
+const baseDatabase = (): ProjectDatabase => ({
+  meta: {
+    last_updated: '2026-01-01T00:00:00.000Z',
+    version: CURRENT_SCHEMA_VERSION,
+    current_project_id: 'proj_1',
+    session_count: 1
+  },
+  projects: [{
+    id: 'proj_1', name: 'Shared Project', created_date: '2026-01-01T00:00:00.000Z',
+    status: 'planning', completion_percentage: 0, tasks: ['task_1', 'task_2'], milestones: []
+  }],
+  tasks: [
+    {
+      id: 'task_1', project_id: 'proj_1', title: 'Write docs', status: 'todo', completed: false, priority: 'medium',
+      created_date: '2026-01-01T00:00:00.000Z', tags: ['docs'], subtasks: [], notes: ['base note'], blockers: [], time_entries: []
+    },
+    {
+      id: 'task_2', project_id: 'proj_1', title: 'Ship release', status: 'todo', completed: false, priority: 'high',
+      created_date: '2026-01-01T00:00:00.000Z', tags: [], subtasks: [], notes: [], blockers: []
+    }
+  ],
+  memories: [{
+    id: 'mem_1', timestamp: '2026-01-01T00:00:00.000Z', category: 'general', importance: 'medium',
+    tags: [], title: 'Decision', content: 'Use TypeScript', related_memories: [], project_id: 'proj_1'
+  }],
+  templates: {}
+} as ProjectDatabase);
+
+const descendant = (lastUpdated: string, change: (db: ProjectDatabase) => void): ProjectDatabase => {
+  const db = baseDatabase();
+  db.meta.last_updated = lastUpdated;
+  change(db);
+  return db;
+};
+
+const task = (db: ProjectDatabase, id: string) => db.tasks.find(t => t.id === id)!;
+
+describe('MergeService Unit Tests', () => {
+  it('should combine independent changes without conflicts', () => {
+    const base = baseDatabase();
+    const ours = descendant('2026-01-02T00:00:00.000Z', db => {
+      task(db, 'task_1').notes.push('our note');
+      task(db, 'task_1').tags.push('urgent');
+      task(db, 'task_2').status = 'done';
+      task(db, 'task_2').completed = true;
+      task(db, 'task_1').time_entries.push({ id: 'time_ours', start: '2026-01-02T09:00:00.000Z', end: '2026-01-02T10:00:00.000Z' });
+    });
+    const theirs = descendant('2026-01-03T00:00:00.000Z', db => {
+      task(db, 'task_1').notes.push('their note');
+      task(db, 'task_1').blockers.push('Waiting on review');
+      task(db, 'task_1').title = 'Write the docs';
+      task(db, 'task_1').time_entries.push({ id: 'time_theirs', start: '2026-01-03T09:00:00.000Z', end: '2026-01-03T09:30:00.000Z' });
+      db.memories[0].tags = ['architecture'];
+    });
+
+    const { database, conflicts } = MergeService.merge(base, ours, theirs);
+
+    expect(conflicts).toEqual([]);
+    expect(task(database, 'task_1').time_entries.map(entry => entry.id)).toEqual(['time_ours', 'time_theirs']);
+    const merged = task(database, 'task_1');
+    expect(merged.title).toBe('Write the docs');
+    expect(merged.notes).toEqual(['base note', 'our note', 'their note']);
+    expect(merged.tags).toEqual(['docs', 'urgent']);
+    expect(merged.blockers).toEqual(['Waiting on review']);
+    expect(task(database, 'task_2').completed).toBe(true);
+    expect(database.memories[0].tags).toEqual(['architecture']);
+    expect(database.projects[0].completion_percentage).toBe(50);
+
+    // Inputs are left untouched
+    expect(ours.projects[0].completion_percentage).toBe(0);
+  });
+
+  it('should resolve scalar conflicts by last writer and report them', () => {
+    const base = baseDatabase();
+    const ours = descendant('2026-01-05T00:00:00.000Z', db => { task(db, 'task_2').priority = 'critical'; });
+    const theirs = descendant('2026-01-03T00:00:00.000Z', db => { task(db, 'task_2').priority = 'low'; });
+
+    const { database, conflicts } = MergeService.merge(base, ours, theirs);
+
+    expect(task(database, 'task_2').priority).toBe('critical');
+    expect(conflicts).toEqual([{
+      entity_type: 'task', entity_id: 'task_2', name: 'Ship release', field: 'priority', kind: 'field',
+      ours: 'critical', theirs: 'low', resolution: 'ours'
+    }]);
+    expect(database.meta.last_updated).toBe('2026-01-05T00:00:00.000Z');
+  });
+
+  it('should derive completion from the merged status', () => {
+    const base = baseDatabase();
+    const ours = descendant('2026-01-05T00:00:00.000Z', db => { task(db, 'task_1').status = 'in_review'; });
+    const theirs = descendant('2026-01-03T00:00:00.000Z', db => {
+      Object.assign(task(db, 'task_1'), { status: 'done', completed: true, completed_date: '2026-01-03T00:00:00.000Z' });
+    });
+
+    const { database, conflicts } = MergeService.merge(base, ours, theirs);
+
+    expect(task(database, 'task_1')).toMatchObject({ status: 'in_review', completed: false });
+    expect(task(database, 'task_1').completed_date).toBeUndefined();
+    expect(conflicts.map(conflict => conflict.field)).toEqual(['status']);
+
+    // With the finishing side newer, the task ends up done with that side's completion date
+    const { database: finished } = MergeService.merge(base, { ...ours, meta: { ...ours.meta, last_updated: '2026-01-02T00:00:00.000Z' } }, theirs);
+    expect(task(finished, 'task_1')).toMatchObject({ status: 'done', completed: true, completed_date: '2026-01-03T00:00:00.000Z' });
+  });
+
+  it('should honour deletions and keep items changed on the other side', () => {
+    const base = baseDatabase();
+    const ours = descendant('2026-01-02T00:00:00.000Z', db => {
+      db.tasks = db.tasks.filter(t => t.id !== 'task_2');
+      db.projects[0].tasks = ['task_1'];
+      db.memories = [];
+    });
+    const theirs = descendant('2026-01-03T00:00:00.000Z', db => {
+      task(db, 'task_2').notes.push('Still needed');
+    });
+
+    const { database, conflicts } = MergeService.merge(base, ours, theirs);
+
+    expect(database.memories).toHaveLength(0);
+    expect(task(database, 'task_2').notes).toEqual(['Still needed']);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ entity_id: 'task_2', kind: 'delete_modify', resolution: 'kept' });
+  });
+
+  it('should restore a deleted parent that the other side still references', () => {
+    const base = baseDatabase();
+    const ours = descendant('2026-01-02T00:00:00.000Z', db => {
+      db.tasks = db.tasks.filter(t => t.id !== 'task_1');
+      db.projects[0].tasks = ['task_2'];
+    });
+    const theirs = descendant('2026-01-03T00:00:00.000Z', db => {
+      db.tasks.push({
+        id: 'task_3', project_id: 'proj_1', parent_id: 'task_1', title: 'Proofread', status: 'todo', completed: false,
+        priority: 'low', created_date: '2026-01-03T00:00:00.000Z', tags: [], subtasks: [], notes: [], blockers: []
+      } as any);
+    });
+
+    const { database, conflicts } = MergeService.merge(base, ours, theirs);
+
+    expect(database.tasks.map(t => t.id).sort()).toEqual(['task_1', 'task_2', 'task_3']);
+    expect(conflicts).toEqual([expect.objectContaining({ entity_id: 'task_1', kind: 'delete_reference' })]);
+  });
+
+  it('should restore a deleted task that a task added on the other side depends on', () => {
+    const base = baseDatabase();
+    const ours = descendant('2026-01-02T00:00:00.000Z', db => {
+      db.tasks = db.tasks.filter(t => t.id !== 'task_1');
+      db.projects[0].tasks = ['task_2'];
+    });
+    const theirs = descendant('2026-01-03T00:00:00.000Z', db => {
+      db.tasks.push({
+        id: 'task_3', project_id: 'proj_1', title: 'Publish docs', status: 'todo', completed: false, priority: 'low',
+        created_date: '2026-01-03T00:00:00.000Z', tags: [], subtasks: [], notes: [], blockers: [], depends_on: ['task_1']
+      } as any);
+      db.projects[0].tasks.push('task_3');
+    });
+
+    const { database, conflicts } = MergeService.merge(base, ours, theirs);
+
+    expect(database.tasks.map(t => t.id).sort()).toEqual(['task_1', 'task_2', 'task_3']);
+    expect(task(database, 'task_3').depends_on).toEqual(['task_1']);
+    expect(conflicts).toEqual([expect.objectContaining({ entity_id: 'task_1', kind: 'delete_reference' })]);
+  });
+
+  it('should accept export_session JSON through the library entry point', () => {
+    const wrap = (db: ProjectDatabase) => '```json\n' + JSON.stringify({ export_info: {}, database: db }) + '\n```';
+    const ours = descendant('2026-01-02T00:00:00.000Z', db => { db.projects[0].description = 'Ours'; });
+
+    const { database, conflicts } = mergeSessions(wrap(baseDatabase()), wrap(ours), baseDatabase());
+
+    expect(conflicts).toEqual([]);
+    expect(database.projects[0].description).toBe('Ours');
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Unit Tests for TemplateService
+ *
+ * Tests building templates from task hierarchies and filling in placeholders
+ */
+
+import { TemplateService } from '../../../src/services/TemplateService.js';
+import type { Project, Task } from '../../../src/types/index.js';
+
+const project: Project = {
+  id: 'proj_1', name: 'Bugfix 512', created_date: '2026-01-01T00:00:00.000Z',
+  status: 'in_progress', completion_percentage: 0, tasks: [], milestones: []
+};
+
+const task = (id: string, title: string, extra: Partial<Task> = {}): Task => ({
+  id, project_id: 'proj_1', title, status: 'todo', completed: false, priority: 'medium',
+  created_date: '2026-01-01T00:00:00.000Z', tags: [], subtasks: [], notes: [], blockers: [], depends_on: [], ...extra
+});
+
+describe('TemplateService', () => {
+  const service = new TemplateService();
+
+  it('should order parents and dependencies before the tasks that use them', () => {
+    const tasks = [
+      task('task_3', 'Release fix', { depends_on: ['task_2'] }),
+      task('task_2', 'Fix #512', { parent_id: 'task_1', depends_on: ['task_4'] }),
+      task('task_1', 'Bug #512'),
+      task('task_4', 'Reproduce #512', { parent_id: 'task_1', priority: 'high' }),
+      task('task_5', 'Old approach', { status: 'cancelled' }),
+      task('task_6', 'Other project', { project_id: 'proj_2' })
+    ];
+
+    const template = service.createTemplate({ name: 'bugfix', project, tasks, replace: { '512': 'number', '#512': 'issue' } });
+    expect(template.tasks.map(t => [t.key, t.title, t.parent_key, t.depends_on])).toEqual([
+      ['t1', 'Bug {{issue}}', undefined, []],
+      ['t2', 'Reproduce {{issue}}', 't1', []],
+      ['t3', 'Fix {{issue}}', 't1', ['t2']],
+      ['t4', 'Release fix', undefined, ['t3']]
+    ]);
+    expect(template.placeholders).toEqual(['issue']);
+    expect(template.source_project_id).toBe('proj_1');
+  });
+
+  it('should fill placeholders and refuse missing or unknown values', () => {
+    const template = service.createTemplate({
+      name: 'bugfix', project, tasks: [task('task_1', 'Fix #512', { description: 'See #512 in {{tracker}}' })], replace: { '#512': 'issue' }
+    });
+    expect(template.placeholders).toEqual(['issue', 'tracker']);
+
+    expect(service.fillPlaceholders(template, { issue: 77, tracker: 'GitHub' })[0])
+      .toMatchObject({ title: 'Fix 77', description: 'See 77 in GitHub' });
+    expect(() => service.fillPlaceholders(template, { issue: 77 })).toThrow("Received: tracker");
+    expect(() => service.fillPlaceholders(template, { issue: 77, tracker: 'x', extra: 'y' })).toThrow('Received: extra');
+    expect(() => service.createTemplate({ name: 'bad', project, tasks: [], replace: { '#512': 'not a name' } }))
+      .toThrow("Validation failed for field 'replace'");
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Unit Tests for JournalStorageAdapter
+ *
+ * Tests journal appends, replay on startup, crash tolerance and compaction
+ */
+
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { jest } from '@jest/globals';
+import { join } from 'path';
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+import { JournalStorageAdapter, JsonFileStorageAdapter } from '../../../src/storage/index.js';
+import { TestCoreUtils } from '../../helpers/TestCoreUtils.js';
+
+describe('JournalStorageAdapter Unit Tests', () => {
+  let tempDir: string;
+  let dataFile: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'memory-pickle-journal-'));
+    dataFile = join(tempDir, 'base.json');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const createCore = async (options = {}) => {
+    const core = await MemoryPickleCore.create({ storage: new JournalStorageAdapter(dataFile, options) });
+    (global as any).trackCoreInstance(core);
+    return core;
+  };
+
+  it('should append one entry per committed operation', async () => {
+    const core = await createCore();
+
+    await core.create_project({ name: 'Journaled Project' });
+    await core.create_task({ title: 'Journaled task' });
+
+    const entries = readFileSync(`${dataFile}.journal`, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    const operationTypes = entries.map(entry => entry.operationType);
+
+    expect(operationTypes).toContain('create_project');
+    expect(operationTypes).toContain('create_task');
+
+    const createTask = entries.find(entry => entry.operationType === 'create_task');
+    expect(createTask.changedParts).toEqual(['tasks', 'projects']);
+    expect(createTask.diff.tasks.added[0].title).toBe('Journaled task');
+  });
+
+  it('should rebuild state by replaying the journal on startup', async () => {
+    const core = await createCore();
+    await core.create_project({ name: 'Replay Project' });
+    const taskResponse = await core.create_task({ title: 'Replay task' });
+    const taskId = TestCoreUtils.extractResponseId(taskResponse);
+    await core.update_task({ task_id: taskId, completed: true });
+    await core.shutdown();
+
+    const restored = await createCore();
+    const database = restored.getDatabase();
+
+    expect(database.projects[0].name).toBe('Replay Project');
+    expect(database.projects[0].completion_percentage).toBe(100);
+    expect(database.tasks[0].completed).toBe(true);
+    expect(database.meta.current_project_id).toBe(database.projects[0].id);
+  });
+
+  it('should ignore a torn final entry left by a crash', async () => {
+    const core = await createCore();
+    await core.create_project({ name: 'Crash Project' });
+    await core.shutdown();
+
+    appendFileSync(`${dataFile}.journal`, '{"sequence":99,"timestamp":"2025-01-01T00:00');
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const restored = await createCore();
+    expect(restored.getDatabase().projects.map(p => p.name)).toEqual(['Crash Project']);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+
+    // Later appends must not be glued onto the torn entry
+    await restored.create_task({ title: 'After crash' });
+    await restored.shutdown();
+
+    const recovered = await createCore();
+    expect(recovered.getDatabase().tasks.map(t => t.title)).toEqual(['After crash']);
+  });
+
+  it('should load without writing, leaving repairs and compaction to the next commit', async () => {
+    const core = await createCore();
+    await core.create_project({ name: 'Read Only Project' });
+    await core.create_task({ title: 'Stored task', description: 'x'.repeat(300) });
+    await core.shutdown();
+
+    appendFileSync(`${dataFile}.journal`, '{"sequence":99,"timestamp":"2025-01-01T00:00');
+    const journalBefore = readFileSync(`${dataFile}.journal`, 'utf-8');
+    const baseBefore = readFileSync(dataFile, 'utf-8');
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    // Past the compaction threshold and with a torn entry, as seen by --migrate-dry-run
+    const adapter = new JournalStorageAdapter(dataFile, { compactThresholdBytes: 64 });
+    expect((adapter.load() as any).tasks.map((t: any) => t.title)).toEqual(['Stored task']);
+    adapter.close();
+    consoleError.mockRestore();
+
+    expect(readFileSync(`${dataFile}.journal`, 'utf-8')).toBe(journalBefore);
+    expect(readFileSync(dataFile, 'utf-8')).toBe(baseBefore);
+  });
+
+  it('should compact the journal into the base snapshot past the threshold', async () => {
+    const core = await createCore({ compactThresholdBytes: 2048 });
+    await core.create_project({ name: 'Compacted Project' });
+
+    for (let i = 0; i < 10; i++) {
+      await core.create_task({ title: `Task ${i}`, description: 'x'.repeat(200) });
+    }
+
+    expect(statSync(`${dataFile}.journal`).size).toBeLessThan(2048 + 1024);
+    const base = JSON.parse(readFileSync(dataFile, 'utf-8'));
+    expect(base.tasks.length).toBeGreaterThan(0);
+    await core.shutdown();
+
+    const restored = await createCore();
+    expect(restored.getDatabase().tasks).toHaveLength(10);
+    expect(existsSync(dataFile)).toBe(true);
+  });
+
+  it('should keep a commit whose compaction fails and retry on the next commit', async () => {
+    const core = await createCore({ compactThresholdBytes: 64 });
+    await core.create_project({ name: 'Full Disk Project' });
+
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const baseSave = jest.spyOn(JsonFileStorageAdapter.prototype, 'save').mockImplementation(() => {
+      throw new Error('ENOSPC: no space left on device');
+    });
+
+    await core.create_task({ title: 'Survives compaction failure' });
+    expect(core.getDatabase().tasks.map(t => t.title)).toEqual(['Survives compaction failure']);
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('Failed to compact journal'));
+    expect(readFileSync(`${dataFile}.journal`, 'utf-8')).toContain('Survives compaction failure');
+
+    baseSave.mockRestore();
+    consoleError.mockRestore();
+
+    await core.create_task({ title: 'Compacts again' });
+    expect(statSync(`${dataFile}.journal`).size).toBe(0);
+    await core.shutdown();
+
+    const restored = await createCore();
+    expect(restored.getDatabase().tasks.map(t => t.title)).toEqual(['Survives compaction failure', 'Compacts again']);
+  });
+});
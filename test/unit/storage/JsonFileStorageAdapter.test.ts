@@ -0,0 +1,79 @@
+/**
+ * Unit Tests for JsonFileStorageAdapter
+ *
+ * Tests JSON file persistence and storage option resolution
+ */
+
+import { existsSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+import { JsonFileStorageAdapter } from '../../../src/storage/index.js';
+import { resolveStorageOptions } from '../../../src/config/storage.js';
+
+describe('JsonFileStorageAdapter Unit Tests', () => {
+  let tempDir: string;
+  let dataFile: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'memory-pickle-'));
+    dataFile = join(tempDir, 'nested', 'data.json');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return null when the data file does not exist', () => {
+    const adapter = new JsonFileStorageAdapter(dataFile);
+    expect(adapter.load()).toBeNull();
+  });
+
+  it('should persist commits and restore them in a new core', async () => {
+    const core = await MemoryPickleCore.create({ storage: new JsonFileStorageAdapter(dataFile) });
+    (global as any).trackCoreInstance(core);
+
+    await core.create_project({ name: 'Persistent Project' });
+    await core.create_task({ title: 'Survive restart' });
+
+    expect(existsSync(dataFile)).toBe(true);
+    expect(readdirSync(join(tempDir, 'nested')).filter(name => name.endsWith('.tmp'))).toHaveLength(0);
+
+    const restored = await MemoryPickleCore.create({ storage: new JsonFileStorageAdapter(dataFile) });
+    (global as any).trackCoreInstance(restored);
+
+    const database = restored.getDatabase();
+    expect(database.projects.map(p => p.name)).toEqual(['Persistent Project']);
+    expect(database.tasks.map(t => t.title)).toEqual(['Survive restart']);
+    expect(database.meta.current_project_id).toBe(database.projects[0].id);
+    expect(restored.getTaskIndex().size).toBe(1);
+  });
+
+  it('should refuse to start from an invalid data file', async () => {
+    writeFileSync(join(tempDir, 'broken.json'), JSON.stringify({ projects: 'nope' }));
+
+    await expect(
+      MemoryPickleCore.create({ storage: new JsonFileStorageAdapter(join(tempDir, 'broken.json')) })
+    ).rejects.toThrow('Stored database is invalid');
+  });
+
+  describe('resolveStorageOptions', () => {
+    it('should default to in-memory storage', () => {
+      expect(resolveStorageOptions([], {})).toEqual({ kind: 'memory' });
+    });
+
+    it('should select JSON storage when a data file is given', () => {
+      const options = resolveStorageOptions(['--data-file', dataFile], {});
+      expect(options).toEqual({ kind: 'json', dataFile });
+    });
+
+    it('should prefer CLI flags over environment variables', () => {
+      const options = resolveStorageOptions([`--data-file=${dataFile}`], { MEMORY_PICKLE_DATA_FILE: '/elsewhere.json' });
+      expect(options.dataFile).toBe(dataFile);
+    });
+
+    it('should reject unknown storage backends', () => {
+      expect(() => resolveStorageOptions(['--storage', 'redis'], {})).toThrow("Invalid storage backend 'redis'");
+    });
+  });
+});
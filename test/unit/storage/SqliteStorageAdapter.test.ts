@@ -0,0 +1,125 @@
+/**
+ * Unit Tests for SqliteStorageAdapter
+ *
+ * Tests per-entity SQLite persistence and transaction mapping
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { createRequire } from 'module';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryPickleCore } from '../../../src/core/MemoryPickleCore.js';
+import { InMemoryStore } from '../../../src/services/InMemoryStore.js';
+import { SqliteStorageAdapter } from '../../../src/storage/index.js';
+
+const Database = createRequire(import.meta.url)('better-sqlite3');
+
+describe('SqliteStorageAdapter Unit Tests', () => {
+  let tempDir: string;
+  let dataFile: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'memory-pickle-sqlite-'));
+    dataFile = join(tempDir, 'data.db');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should store entities in their own tables and reload them', async () => {
+    const core = await MemoryPickleCore.create({ storage: new SqliteStorageAdapter(dataFile) });
+    (global as any).trackCoreInstance(core);
+
+    await core.create_project({ name: 'SQLite Project' });
+    await core.create_task({ title: 'First task', priority: 'high' });
+    await core.remember_this({ title: 'Decision', content: 'Use SQLite for storage' });
+    await core.shutdown();
+
+    const raw = new Database(dataFile, { readonly: true });
+    expect(raw.prepare('SELECT name FROM projects').all()).toEqual([{ name: 'SQLite Project' }]);
+    expect(raw.prepare('SELECT title, priority, completed FROM tasks').all()).toEqual([
+      { title: 'First task', priority: 'high', completed: 0 }
+    ]);
+    expect(raw.prepare('SELECT COUNT(*) AS count FROM memories').get()).toEqual({ count: 1 });
+    raw.close();
+
+    const restored = await MemoryPickleCore.create({ storage: new SqliteStorageAdapter(dataFile) });
+    (global as any).trackCoreInstance(restored);
+
+    const database = restored.getDatabase();
+    expect(database.projects[0].name).toBe('SQLite Project');
+    expect(database.tasks[0].title).toBe('First task');
+    expect(database.memories[0].content).toBe('Use SQLite for storage');
+  });
+
+  it('should only rewrite rows that changed', async () => {
+    const core = await MemoryPickleCore.create({ storage: new SqliteStorageAdapter(dataFile) });
+    (global as any).trackCoreInstance(core);
+
+    await core.create_project({ name: 'Row Project' });
+    await core.create_task({ title: 'Untouched' });
+    await core.create_task({ title: 'Touched' });
+
+    const raw = new Database(dataFile, { readonly: true });
+    const rowIds = () => raw.prepare('SELECT title, rowid FROM tasks ORDER BY rowid').all();
+    const before = rowIds();
+
+    const touched = core.getDatabase().tasks.find(t => t.title === 'Touched')!;
+    await core.update_task({ task_id: touched.id, completed: true });
+
+    expect(rowIds()).toEqual(before);
+    expect(raw.prepare('SELECT completed FROM tasks WHERE id = ?').get(touched.id)).toEqual({ completed: 1 });
+    raw.close();
+  });
+
+  it('should only serialize entities that are not shared with the previous version', () => {
+    const adapter = new SqliteStorageAdapter(dataFile);
+    const task = (id: string, title: string) => ({
+      id, project_id: 'proj_1', title, status: 'todo', completed: false, priority: 'medium',
+      created_date: '2026-01-01T00:00:00.000Z', tags: [], subtasks: [], notes: [], blockers: [], depends_on: []
+    });
+    const first: any = {
+      meta: { last_updated: '2026-01-01T00:00:00.000Z', version: '1.5.0', session_count: 1 },
+      projects: [], tasks: [task('task_1', 'Kept'), task('task_2', 'Renamed'), task('task_3', 'Removed')], memories: [], templates: {}
+    };
+    adapter.save(first, { operationType: 'seed' });
+
+    // Rows shared with the previous version must not even be serialized
+    Object.defineProperty(first.tasks[0], 'toJSON', { value: () => { throw new Error('unchanged row serialized'); } });
+    const second = { ...first, tasks: [first.tasks[0], { ...first.tasks[1], title: 'Renamed twice' }, task('task_4', 'Added')] };
+    adapter.save(second, { operationType: 'update', changedParts: new Set(['tasks']), previous: first });
+    adapter.close();
+
+    const raw = new Database(dataFile, { readonly: true });
+    expect(raw.prepare('SELECT id, title FROM tasks ORDER BY rowid').all()).toEqual([
+      { id: 'task_1', title: 'Kept' },
+      { id: 'task_2', title: 'Renamed twice' },
+      { id: 'task_4', title: 'Added' }
+    ]);
+    raw.close();
+  });
+
+  it('should roll back the SQL transaction when an operation fails', async () => {
+    const store = new InMemoryStore(new SqliteStorageAdapter(dataFile));
+
+    await expect(store.runExclusive(async (db) => {
+      db.projects.push({
+        id: 'proj_rollback',
+        name: 'Never stored',
+        created_date: new Date().toISOString(),
+        status: 'planning',
+        completion_percentage: 0,
+        tasks: [],
+        milestones: []
+      });
+      throw new Error('operation failed');
+    })).rejects.toThrow('operation failed');
+
+    await store.shutdownAsync();
+
+    const reloaded = new SqliteStorageAdapter(dataFile);
+    expect(reloaded.load()).toBeNull();
+    reloaded.close();
+  });
+});
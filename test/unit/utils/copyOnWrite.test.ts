@@ -0,0 +1,132 @@
+/**
+ * Unit Tests for copy-on-write transaction drafts
+ *
+ * Tests structural sharing, isolation of the base and rollback behaviour of InMemoryStore
+ */
+
+import { createDraft } from '../../../src/utils/copyOnWrite.js';
+import { InMemoryStore } from '../../../src/services/InMemoryStore.js';
+import type { ProjectDatabase } from '../../../src/types/index.js';
+
+const sampleBase = () => ({
+  meta: { current: 'a' },
+  items: [
+    { id: 'a', tags: ['x'] },
+    { id: 'b', tags: ['y'] },
+    { id: 'c', tags: [] as string[] }
+  ]
+});
+
+describe('Copy-on-write Draft Unit Tests', () => {
+  it('should copy only the path to a changed entity', () => {
+    const base = sampleBase();
+    const { draft, finalize } = createDraft(base);
+
+    draft.items.find(item => item.id === 'b')!.tags.push('z');
+    const result = finalize();
+
+    expect(result).not.toBe(base);
+    expect(result.items).not.toBe(base.items);
+    expect(result.items[1]).not.toBe(base.items[1]);
+    expect(result.items[1].tags).toEqual(['y', 'z']);
+
+    // Untouched parts are shared, and the base is unchanged
+    expect(result.meta).toBe(base.meta);
+    expect(result.items[0]).toBe(base.items[0]);
+    expect(result.items[2]).toBe(base.items[2]);
+    expect(base.items[1].tags).toEqual(['y']);
+  });
+
+  it('should return the base itself when nothing was written', () => {
+    const base = sampleBase();
+    const { draft, finalize, isModified } = createDraft(base);
+
+    expect(draft.items.map(item => item.id)).toEqual(['a', 'b', 'c']);
+    expect(JSON.parse(JSON.stringify(draft))).toEqual(base);
+    expect(Array.isArray(draft.items)).toBe(true);
+    expect(isModified()).toBe(false);
+    expect(finalize()).toBe(base);
+  });
+
+  it('should resolve drafts held by arrays the operation built itself', () => {
+    const base = sampleBase();
+    const { draft, finalize } = createDraft(base);
+
+    const kept = draft.items.filter(item => item.id !== 'a');
+    kept[0].tags = ['renamed'];
+    draft.items = kept;
+    draft.items.sort((left, right) => right.id.localeCompare(left.id));
+    const result = finalize();
+
+    expect(result.items.map(item => item.id)).toEqual(['c', 'b']);
+    expect(result.items[1].tags).toEqual(['renamed']);
+    expect(result.items[0]).toBe(base.items[2]);
+    expect(JSON.stringify(result)).not.toContain('undefined');
+    expect(base.items.map(item => item.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  describe('InMemoryStore transactions', () => {
+    let store: InMemoryStore;
+
+    beforeEach(() => {
+      store = new InMemoryStore();
+    });
+
+    afterEach(async () => {
+      await store.shutdownAsync();
+    });
+
+    const seed = async () => {
+      await store.runExclusive(async (db: ProjectDatabase) => {
+        db.projects.push({
+          id: 'proj_1', name: 'Project', created_date: new Date().toISOString(),
+          status: 'planning', completion_percentage: 0, tasks: [], milestones: []
+        } as any);
+        for (const id of ['task_1', 'task_2']) {
+          db.tasks.push({
+            id, project_id: 'proj_1', title: id, completed: false, priority: 'medium',
+            created_date: new Date().toISOString(), tags: [], subtasks: [], notes: [], blockers: []
+          } as any);
+        }
+        return { result: undefined, commit: true, changedParts: new Set(['projects', 'tasks'] as const) };
+      }, 'seed');
+    };
+
+    it('should share untouched entities between committed versions', async () => {
+      await seed();
+      const before = store.getDatabase();
+
+      await store.runExclusive(async (db) => {
+        db.tasks[0].completed = true;
+        return { result: undefined, commit: true, changedParts: new Set(['tasks'] as const) };
+      }, 'complete_task');
+
+      const after = store.getDatabase();
+      expect(after.tasks[0].completed).toBe(true);
+      expect(before.tasks[0].completed).toBe(false);
+      expect(after.tasks[1]).toBe(before.tasks[1]);
+      expect(after.projects).toBe(before.projects);
+    });
+
+    it('should leave the database untouched when an operation throws or fails validation', async () => {
+      await seed();
+      const before = store.getDatabase();
+
+      await expect(store.runExclusive(async (db) => {
+        db.tasks[0].title = 'Changed';
+        throw new Error('operation failed');
+      }, 'failing')).rejects.toThrow('operation failed');
+
+      await expect(store.runExclusive(async (db) => {
+        db.tasks[1].priority = 'urgent' as any;
+        return { result: undefined, commit: true, changedParts: new Set(['tasks'] as const) };
+      }, 'invalid')).rejects.toThrow('Database integrity validation failed');
+
+      expect(store.getDatabase()).toBe(before);
+      expect(before.tasks.map(task => [task.title, task.priority])).toEqual([
+        ['task_1', 'medium'],
+        ['task_2', 'medium']
+      ]);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Unit Tests for due date parsing
+ *
+ * Tests ISO and natural-language due dates and where they fall relative to today
+ */
+
+import { describeDueDate, getDueStatus, parseDueDate, shiftDate } from '../../../src/utils/dueDates.js';
+
+// Wednesday, 14 October 2026
+const now = new Date(2026, 9, 14, 10, 30);
+const parse = (input: string) => parseDueDate(input, { now });
+
+describe('Due Date Unit Tests', () => {
+  it('should accept ISO dates and datetimes', () => {
+    expect(parse('2026-11-02')).toBe('2026-11-02');
+    expect(parse('2026-11-02T09:00:00')).toBe('2026-11-02');
+    expect(() => parse('2026-02-30')).toThrow("Validation failed for field 'due_date'");
+  });
+
+  it('should resolve relative phrases against today', () => {
+    expect(parse('today')).toBe('2026-10-14');
+    expect(parse(' Tomorrow ')).toBe('2026-10-15');
+    expect(parse('in 3 days')).toBe('2026-10-17');
+    expect(parse('in a week')).toBe('2026-10-21');
+    expect(parse('next month')).toBe('2026-11-14');
+    expect(parse('end of week')).toBe('2026-10-18');
+    expect(parse('end of month')).toBe('2026-10-31');
+  });
+
+  it('should treat weekday names as their next occurrence', () => {
+    expect(parse('friday')).toBe('2026-10-16');
+    expect(parse('next friday')).toBe('2026-10-16');
+    expect(parse('wednesday')).toBe('2026-10-21');
+    expect(() => parseDueDate('someday', { now, field: 'due_before' })).toThrow("Validation failed for field 'due_before'");
+  });
+
+  it('should clamp month arithmetic to the end of the month', () => {
+    expect(shiftDate('2026-01-31', 1, 'month')).toBe('2026-02-28');
+    expect(shiftDate('2024-02-29', 1, 'year')).toBe('2025-02-28');
+  });
+
+  it('should classify and describe due dates', () => {
+    expect(getDueStatus('2026-10-13', 3, now)).toBe('overdue');
+    expect(getDueStatus('2026-10-14', 3, now)).toBe('due_soon');
+    expect(getDueStatus('2026-10-17', 3, now)).toBe('due_soon');
+    expect(getDueStatus('2026-10-18', 3, now)).toBe('later');
+    expect(getDueStatus(undefined, 3, now)).toBe('none');
+
+    expect(describeDueDate('2026-10-14', now)).toBe('due today');
+    expect(describeDueDate('2026-10-16', now)).toBe('due in 2 days');
+    expect(describeDueDate('2026-10-13', now)).toBe('1 day overdue');
+    expect(describeDueDate('2026-10-04', now)).toBe('10 days overdue');
+  });
+});
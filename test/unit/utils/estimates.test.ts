@@ -0,0 +1,28 @@
+/**
+ * Unit Tests for task estimate helpers
+ *
+ * Tests parsing estimates in hours and points and formatting them
+ */
+
+import { formatEstimate, parseEstimate } from '../../../src/utils/estimates.js';
+
+describe('Estimates Unit Tests', () => {
+  it('should parse hours, points and bare numbers', () => {
+    expect(parseEstimate(3, 'hours')).toEqual({ value: 3, unit: 'hours' });
+    expect(parseEstimate('5', 'points')).toEqual({ value: 5, unit: 'points' });
+    expect(parseEstimate('1h30m', 'points')).toEqual({ value: 1.5, unit: 'hours' });
+    expect(parseEstimate('20m', 'hours')).toEqual({ value: 0.33, unit: 'hours' });
+    expect(parseEstimate('8 Points', 'hours')).toEqual({ value: 8, unit: 'points' });
+    expect(parseEstimate('3sp', 'hours')).toEqual({ value: 3, unit: 'points' });
+    expect(parseEstimate(0, 'hours')).toEqual({ value: 0, unit: 'hours' });
+
+    expect(() => parseEstimate(-1, 'hours')).toThrow("Validation failed for field 'estimate'");
+    expect(() => parseEstimate('a few days', 'hours')).toThrow("Validation failed for field 'estimate'");
+  });
+
+  it('should format estimates', () => {
+    expect(formatEstimate({ value: 1.5, unit: 'hours' })).toBe('1.5h');
+    expect(formatEstimate({ value: 1, unit: 'points' })).toBe('1 point');
+    expect(formatEstimate({ value: 8, unit: 'points' })).toBe('8 points');
+  });
+});
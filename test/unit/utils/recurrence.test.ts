@@ -0,0 +1,47 @@
+/**
+ * Unit Tests for recurrence rules
+ *
+ * Tests parsing presets and RRULEs and stepping a rule to its next occurrence
+ */
+
+import { anchorRecurrence, describeRecurrence, nextOccurrence, parseRecurrence } from '../../../src/utils/recurrence.js';
+
+describe('Recurrence Unit Tests', () => {
+  it('should parse presets, intervals and the supported RRULE parts', () => {
+    expect(parseRecurrence('Weekly')).toEqual({ frequency: 'weekly', interval: 1 });
+    expect(parseRecurrence('every 3 months')).toEqual({ frequency: 'monthly', interval: 3 });
+    expect(parseRecurrence('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TH,MO;COUNT=6')).toEqual({
+      frequency: 'weekly', interval: 2, by_weekday: ['MO', 'TH'], count: 6
+    });
+    expect(parseRecurrence('freq=monthly;bymonthday=15;until=20261231')).toEqual({
+      frequency: 'monthly', interval: 1, by_month_day: 15, until: '2026-12-31'
+    });
+  });
+
+  it('should reject unsupported or inconsistent rules', () => {
+    expect(() => parseRecurrence('fortnightly')).toThrow("Validation failed for field 'recurrence'");
+    expect(() => parseRecurrence('FREQ=HOURLY')).toThrow('FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY');
+    expect(() => parseRecurrence('FREQ=DAILY;BYDAY=MO')).toThrow('only supported with FREQ=WEEKLY');
+    expect(() => parseRecurrence('FREQ=MONTHLY;BYSETPOS=-1')).toThrow("unsupported part 'BYSETPOS'");
+    expect(() => parseRecurrence('FREQ=DAILY;COUNT=3;UNTIL=20270101')).toThrow('cannot combine COUNT and UNTIL');
+  });
+
+  it('should step to the next occurrence', () => {
+    expect(nextOccurrence({ frequency: 'daily', interval: 2 }, '2026-10-30')).toBe('2026-11-01');
+    expect(nextOccurrence({ frequency: 'yearly', interval: 1 }, '2028-02-29')).toBe('2029-02-28');
+
+    // 2026-10-12 is a Monday
+    const weekly = { frequency: 'weekly' as const, interval: 2, by_weekday: ['MO' as const, 'TH' as const] };
+    expect(nextOccurrence(weekly, '2026-10-12')).toBe('2026-10-15');
+    expect(nextOccurrence(weekly, '2026-10-15')).toBe('2026-10-26');
+
+    const monthly = anchorRecurrence({ frequency: 'monthly', interval: 1 }, '2026-01-31');
+    expect(nextOccurrence(monthly, '2026-01-31')).toBe('2026-02-28');
+    expect(nextOccurrence(monthly, '2026-02-28')).toBe('2026-03-31');
+  });
+
+  it('should describe rules', () => {
+    expect(describeRecurrence({ frequency: 'daily', interval: 1 })).toBe('daily');
+    expect(describeRecurrence(parseRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=6'))).toBe('every 2 weeks on MO, TH, 6 times');
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Unit Tests for time tracking helpers
+ *
+ * Tests parsing durations and totalling finished and running time entries
+ */
+
+import { entryMinutes, formatDuration, parseDuration, totalMinutes } from '../../../src/utils/timeTracking.js';
+
+describe('Time Tracking Unit Tests', () => {
+  it('should parse durations in minutes', () => {
+    expect(parseDuration(45)).toBe(45);
+    expect(parseDuration('90')).toBe(90);
+    expect(parseDuration('1h30m')).toBe(90);
+    expect(parseDuration('1h 15 min')).toBe(75);
+    expect(parseDuration('1.5 hours')).toBe(90);
+
+    expect(() => parseDuration(0)).toThrow("Validation failed for field 'duration'");
+    expect(() => parseDuration('two hours')).toThrow("Validation failed for field 'duration'");
+    expect(() => parseDuration('3 days', 'estimate')).toThrow("Validation failed for field 'estimate'");
+  });
+
+  it('should total finished and running entries', () => {
+    const now = new Date('2026-03-02T12:00:00.000Z');
+    const entries = [
+      { id: 'time_1', start: '2026-03-02T09:00:00.000Z', end: '2026-03-02T10:30:00.000Z' },
+      { id: 'time_2', start: '2026-03-02T11:45:00.000Z' }
+    ];
+
+    expect(entryMinutes(entries[0], now)).toBe(90);
+    expect(entryMinutes(entries[1], now)).toBe(15);
+    expect(totalMinutes(entries, now)).toBe(105);
+    expect(totalMinutes(undefined, now)).toBe(0);
+
+    expect(formatDuration(105)).toBe('1h 45m');
+    expect(formatDuration(120)).toBe('2h');
+    expect(formatDuration(14.6)).toBe('15m');
+  });
+});